@@ -10,6 +10,10 @@ import {
   printEnvValidationErrors,
 } from "./src/config/validateEnv.js";
 import { initAdminPassword } from "./src/config/initAdmin.js";
+import {
+  ensureDefaultEvent,
+  ensureDefaultInstallmentPlans,
+} from "./src/config/initEvents.js";
 
 // Validate environment variables before starting
 console.log("🔍 Validating environment variables...\n");
@@ -30,8 +34,14 @@ try {
   process.exit(1);
 }
 
-// Connect to Database
-connectDB();
+// Connect to Database, then create the first event from EVENT_* settings and
+// the default installment plans if needed
+connectDB()
+  .then(() => ensureDefaultEvent())
+  .then(() => ensureDefaultInstallmentPlans())
+  .catch((error) => {
+    console.error("❌ Failed to set up the default event and plans:", error);
+  });
 
 // Message handler
 client.on("message", async (message: Message) => {
@@ -0,0 +1,29 @@
+#!/usr/bin/env bun
+/**
+ * One-off script to mark tickets issued before delivery was tracked as
+ * delivered, so they aren't sent again when a fulfilment is retried.
+ * Only touches issued tickets with no delivery recorded, so it is safe to
+ * run more than once.
+ *
+ * Usage: bun run scripts/backfill-ticket-delivery.ts
+ */
+
+import mongoose from "mongoose";
+import { env } from "../src/config/env.js";
+import { SoldTicket } from "../src/models/SoldTicket.js";
+
+const mongoUri =
+  process.env.MONGO_URI ||
+  env.databaseUrl ||
+  "mongodb://localhost:27017/ticket-bot";
+
+await mongoose.connect(mongoUri);
+
+const result = await SoldTicket.updateMany(
+  { ticketId: { $exists: true }, deliveredAt: { $exists: false } },
+  [{ $set: { deliveredAt: { $ifNull: ["$issuedAt", "$createdAt"] } } }]
+);
+
+console.log(`✅ Marked ${result.modifiedCount} issued ticket(s) as delivered`);
+
+await mongoose.disconnect();
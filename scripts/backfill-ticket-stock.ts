@@ -0,0 +1,44 @@
+#!/usr/bin/env bun
+/**
+ * One-off script to persist sold counts on Ticket documents from successful
+ * payments made before stock counters existed.
+ * Only raises counts, never lowers them, so it is safe to run more than once.
+ *
+ * Usage: bun run scripts/backfill-ticket-stock.ts
+ */
+
+import mongoose from "mongoose";
+import { env } from "../src/config/env.js";
+import { Ticket } from "../src/models/Ticket.js";
+import { Payment } from "../src/models/Payment.js";
+
+const mongoUri =
+  process.env.MONGO_URI ||
+  env.databaseUrl ||
+  "mongodb://localhost:27017/ticket-bot";
+
+await mongoose.connect(mongoUri);
+
+const tickets = await Ticket.find({});
+
+for (const ticket of tickets) {
+  // One sale per paid ticket, not per installment
+  const paidCount = await Payment.countDocuments({
+    ticketType: ticket.type,
+    status: "success",
+    $or: [
+      { paymentType: { $ne: "installment" } },
+      { installmentNumber: { $in: [1, null] } },
+    ],
+  });
+
+  if (paidCount > ticket.sold) {
+    console.log(`✅ ${ticket.type}: sold ${ticket.sold} → ${paidCount}`);
+    ticket.sold = paidCount;
+    await ticket.save();
+  } else {
+    console.log(`ℹ️  ${ticket.type}: sold count ${ticket.sold} already up to date`);
+  }
+}
+
+await mongoose.disconnect();
@@ -0,0 +1,148 @@
+#!/usr/bin/env bun
+/**
+ * One-off script to convert stored amounts from cedis (e.g. 918.75) to whole
+ * pesewas (91875), the unit the app now keeps money in.
+ * Each step is recorded in the `migrations` collection once it has run, so
+ * the script is safe to run more than once: finished steps are skipped.
+ * Stop the bot and the API before running it, so nothing writes cedis in
+ * between.
+ *
+ * Usage: bun run scripts/migrate-money-to-pesewas.ts
+ */
+
+import mongoose from "mongoose";
+import { env } from "../src/config/env.js";
+import { DEFAULT_CURRENCY } from "../src/utils/money.js";
+
+const MIGRATION = "money-to-pesewas";
+
+const mongoUri =
+  process.env.MONGO_URI ||
+  env.databaseUrl ||
+  "mongodb://localhost:27017/ticket-bot";
+
+// Cedis to pesewas, leaving missing or non-numeric values alone
+const toPesewas = (value: string) => ({
+  $cond: [
+    { $isNumber: value },
+    { $round: [{ $multiply: [value, 100] }, 0] },
+    value,
+  ],
+});
+
+// Same, for the `amount` of every entry in an array field
+const arrayToPesewas = (field: string) => ({
+  $cond: [
+    { $isArray: `$${field}` },
+    {
+      $map: {
+        input: `$${field}`,
+        as: "entry",
+        in: {
+          $mergeObjects: [
+            "$$entry",
+            { amount: toPesewas("$$entry.amount") },
+          ],
+        },
+      },
+    },
+    `$${field}`,
+  ],
+});
+
+const fields = (...names: string[]) =>
+  Object.fromEntries(names.map((name) => [name, toPesewas(`$${name}`)]));
+
+const steps: {
+  collection: string;
+  filter: Record<string, unknown>;
+  set: Record<string, unknown>;
+  currency?: boolean; // Also set the currency where it is missing
+}[] = [
+  {
+    collection: "payments",
+    filter: {},
+    set: fields("amount", "refundedAmount"),
+    currency: true,
+  },
+  {
+    collection: "payments",
+    filter: { "dispute.amount": { $type: "number" } },
+    set: fields("dispute.amount"),
+  },
+  { collection: "tickets", filter: {}, set: fields("price"), currency: true },
+  { collection: "pricingphases", filter: {}, set: fields("price") },
+  {
+    collection: "coupons",
+    filter: { discountType: "fixed" },
+    set: fields("discountValue"),
+  },
+  { collection: "coupons", filter: {}, set: {}, currency: true },
+  {
+    collection: "soldtickets",
+    filter: {},
+    set: fields("price"),
+    currency: true,
+  },
+  { collection: "orders", filter: {}, set: fields("unitPrice", "totalAmount") },
+  { collection: "reservations", filter: {}, set: fields("unitPrice") },
+  { collection: "refunds", filter: {}, set: fields("amount"), currency: true },
+  {
+    collection: "faketransactions",
+    filter: {},
+    set: { ...fields("amount"), refunds: arrayToPesewas("refunds") },
+    currency: true,
+  },
+  {
+    collection: "reconciliationreports",
+    filter: {},
+    set: { items: arrayToPesewas("items") },
+  },
+  {
+    collection: "users",
+    filter: { session: { $type: "object" } },
+    set: fields(
+      "session.amountPaid",
+      "session.totalPrice",
+      "session.remainingBalance",
+      "session.walletBalance",
+      "session.originalPrice",
+      "session.discountedPrice"
+    ),
+  },
+];
+
+await mongoose.connect(mongoUri);
+const db = mongoose.connection.db!;
+const migrations = db.collection<{ _id: string; completedAt: Date }>(
+  "migrations"
+);
+
+for (const [index, step] of steps.entries()) {
+  const id = `${MIGRATION}:${index}:${step.collection}`;
+  if (await migrations.findOne({ _id: id })) {
+    console.log(`ℹ️  ${id}: already done`);
+    continue;
+  }
+
+  const collection = db.collection(step.collection);
+
+  if (Object.keys(step.set).length > 0) {
+    const result = await collection.updateMany(step.filter, [
+      { $set: step.set },
+    ]);
+    console.log(`✅ ${id}: converted ${result.modifiedCount} document(s)`);
+  }
+
+  if (step.currency) {
+    const result = await collection.updateMany(
+      { ...step.filter, currency: { $exists: false } },
+      { $set: { currency: DEFAULT_CURRENCY } }
+    );
+    console.log(`✅ ${id}: set currency on ${result.modifiedCount} document(s)`);
+  }
+
+  await migrations.insertOne({ _id: id, completedAt: new Date() });
+}
+
+await mongoose.disconnect();
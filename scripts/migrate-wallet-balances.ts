@@ -0,0 +1,45 @@
+#!/usr/bin/env bun
+/**
+ * One-off script to move wallet balances kept on user sessions
+ * (session.walletBalance) into the wallet ledger, then drop the old field.
+ * Each credit carries a reference per chat, so the script is safe to run
+ * more than once: balances already moved are not credited again.
+ *
+ * Usage: bun run scripts/migrate-wallet-balances.ts
+ */
+
+import mongoose from "mongoose";
+import { env } from "../src/config/env.js";
+import { User } from "../src/models/User.js";
+import { wallet } from "../src/services/wallet.js";
+import { formatMoney } from "../src/utils/money.js";
+
+const mongoUri =
+  process.env.MONGO_URI ||
+  env.databaseUrl ||
+  "mongodb://localhost:27017/ticket-bot";
+
+await mongoose.connect(mongoUri);
+
+const users = await User.find({ "session.walletBalance": { $exists: true } });
+
+for (const user of users) {
+  const balance = Math.round(Number(user.session?.walletBalance) || 0);
+
+  if (balance > 0) {
+    await wallet.credit(user.chatId, balance, {
+      description: "Wallet balance carried over",
+      reference: `session-wallet:${user.chatId}`,
+    });
+    console.log(`✅ ${user.chatId}: moved ${formatMoney(balance)}`);
+  } else {
+    console.log(`ℹ️  ${user.chatId}: nothing to move`);
+  }
+
+  await User.updateOne(
+    { _id: user._id },
+    { $unset: { "session.walletBalance": "" } }
+  );
+}
+
+await mongoose.disconnect();
@@ -0,0 +1,92 @@
+#!/usr/bin/env bun
+/**
+ * One-off script to let events share ticket types (e.g. both selling "GA").
+ * Drops the old indexes that kept a type unique across all events, creates
+ * the per-event ones, and records the event on sales records made while
+ * types were still unique, so their tier can be told apart from another
+ * event's. Only fills in records with no event, so it is safe to run more
+ * than once. Run it before creating a type that another event already has.
+ *
+ * Usage: bun run scripts/scope-ticket-types-by-event.ts
+ */
+
+import mongoose from "mongoose";
+import { env } from "../src/config/env.js";
+import { Ticket } from "../src/models/Ticket.js";
+import { Reservation } from "../src/models/Reservation.js";
+import { Payment } from "../src/models/Payment.js";
+import { SoldTicket } from "../src/models/SoldTicket.js";
+import { InstallmentSchedule } from "../src/models/InstallmentSchedule.js";
+import { WaitlistEntry } from "../src/models/WaitlistEntry.js";
+import { TicketTransfer } from "../src/models/TicketTransfer.js";
+import { CustomPlanRequest } from "../src/models/CustomPlanRequest.js";
+import { CheckoutNudge } from "../src/models/CheckoutNudge.js";
+import { CheckIn } from "../src/models/CheckIn.js";
+
+const mongoUri =
+  process.env.MONGO_URI ||
+  env.databaseUrl ||
+  "mongodb://localhost:27017/ticket-bot";
+
+await mongoose.connect(mongoUri);
+
+async function dropIndex(model: mongoose.Model<any>, name: string) {
+  try {
+    await model.collection.dropIndex(name);
+    console.log(`✅ Dropped ${model.collection.collectionName}.${name}`);
+  } catch (error: any) {
+    // Already dropped, or the collection doesn't exist yet
+    if (!["IndexNotFound", "NamespaceNotFound"].includes(error.codeName)) {
+      throw error;
+    }
+  }
+}
+
+await dropIndex(Ticket, "type_1");
+await dropIndex(WaitlistEntry, "ticketType_1_chatId_1");
+await Ticket.createIndexes();
+await WaitlistEntry.createIndexes();
+
+const tickets = await Ticket.find({ eventId: { $exists: true } });
+const eventsByType = new Map<string, mongoose.Types.ObjectId[]>();
+for (const ticket of tickets) {
+  eventsByType.set(ticket.type, [
+    ...(eventsByType.get(ticket.type) || []),
+    ticket.eventId!,
+  ]);
+}
+
+const models: mongoose.Model<any>[] = [
+  Reservation,
+  Payment,
+  SoldTicket,
+  InstallmentSchedule,
+  WaitlistEntry,
+  TicketTransfer,
+  CustomPlanRequest,
+  CheckoutNudge,
+  CheckIn,
+];
+
+for (const [type, eventIds] of eventsByType) {
+  if (eventIds.length > 1) {
+    console.log(
+      `ℹ️  ${type} is sold by ${eventIds.length} events: records without an event left as they are`
+    );
+    continue;
+  }
+
+  for (const model of models) {
+    const result = await model.updateMany(
+      { ticketType: type, eventId: { $exists: false } },
+      { $set: { eventId: eventIds[0] } }
+    );
+    if (result.modifiedCount > 0) {
+      console.log(
+        `✅ ${type}: recorded the event on ${result.modifiedCount} ${model.modelName} record(s)`
+      );
+    }
+  }
+}
+
+await mongoose.disconnect();
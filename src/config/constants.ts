@@ -1,32 +1,5 @@
-import type { TicketInfo, InstallmentSchedule } from "../types/session.js";
 import { env } from "./env.js";
 
-// Ticket pricing
-export const TICKETS: Record<"GA" | "VIP", TicketInfo> = {
-  GA: {
-    name: "Wave 1: GA",
-    price: env.gaPrice,
-    description: "General Admission (Access to main festival zones)",
-  },
-  VIP: {
-    name: "Wave 1: VIP",
-    price: env.vipPrice,
-    description: "VIP Admission (Exclusive VIP section + VIP entry lanes)",
-  },
-};
-
-// Installment plans
-export const INSTALLMENT_PLANS: Record<"GA" | "VIP", InstallmentSchedule> = {
-  GA: {
-    A: [367.5, 275.63, 275.62],
-    B: [459.38, 459.37],
-  },
-  VIP: {
-    A: [647.0, 485.25, 485.25],
-    B: [808.75, 808.75],
-  },
-};
-
 // Event configuration
 export const EVENT_CONFIG = {
   installmentDeadline: new Date(env.installmentDeadline),
@@ -45,13 +18,22 @@ export const SUPPORT_INFO = {
 export const SESSION_STATES = {
   WELCOME: "WELCOME",
   MAIN_MENU: "MAIN_MENU",
+  SELECT_EVENT: "SELECT_EVENT",
   SELECT_TICKET: "SELECT_TICKET",
+  SELECT_QUANTITY: "SELECT_QUANTITY",
+  AWAITING_ATTENDEE_NAMES_ANSWER: "AWAITING_ATTENDEE_NAMES_ANSWER",
+  AWAITING_ATTENDEE_NAME: "AWAITING_ATTENDEE_NAME",
+  AWAITING_WAITLIST_ANSWER: "AWAITING_WAITLIST_ANSWER",
   SELECT_PAYMENT_TYPE: "SELECT_PAYMENT_TYPE",
   SELECT_INSTALLMENT_PLAN: "SELECT_INSTALLMENT_PLAN",
+  AWAITING_CUSTOM_PLAN_COUNT: "AWAITING_CUSTOM_PLAN_COUNT",
+  AWAITING_CUSTOM_PLAN_DATES: "AWAITING_CUSTOM_PLAN_DATES",
   AWAITING_EMAIL: "AWAITING_EMAIL",
   AWAITING_COUPON_ANSWER: "AWAITING_COUPON_ANSWER",
   AWAITING_COUPON_CODE: "AWAITING_COUPON_CODE",
   AWAITING_CONTINUE_ANSWER: "AWAITING_CONTINUE_ANSWER",
   AWAITING_PAYMENT: "AWAITING_PAYMENT",
   WALLET_TRANSFER: "WALLET_TRANSFER",
+  SELECT_TRANSFER_TICKET: "SELECT_TRANSFER_TICKET",
+  AWAITING_TRANSFER_PHONE: "AWAITING_TRANSFER_PHONE",
 } as const;
@@ -11,6 +11,13 @@ export const env = {
   paystackSecretKey: process.env.PAYSTACK_SECRET_KEY || "",
   paystackPublicKey: process.env.PAYSTACK_PUBLIC_KEY || "",
 
+  // Payments
+  paymentProvider: (process.env.PAYMENT_PROVIDER || "paystack") as
+    | "paystack"
+    | "fake",
+  fakePaymentSecret:
+    process.env.FAKE_PAYMENT_SECRET || "fake-payment-secret-for-local-testing",
+
   // Database
   databaseUrl: process.env.DATABASE_URL || process.env.MONGO_URI || "",
 
@@ -18,12 +25,26 @@ export const env = {
   supportPhone: process.env.SUPPORT_PHONE || "+233 55 000 0000",
   supportEmail: process.env.SUPPORT_EMAIL || "support@afrofuture.com",
 
+  // Wallet: who buyers can donate their balance to
+  foundationName: process.env.FOUNDATION_NAME || "AfroFuture Foundation",
+
+  // Email (SMTP); receipts are only emailed when SMTP_HOST is set
+  smtpHost: process.env.SMTP_HOST || "",
+  smtpPort: parseInt(process.env.SMTP_PORT || "587"),
+  smtpSecure: process.env.SMTP_SECURE === "true", // TLS from the start (port 465)
+  smtpUser: process.env.SMTP_USER || "",
+  smtpPass: process.env.SMTP_PASS || "",
+  emailFrom: process.env.EMAIL_FROM || "AfroFuture <tickets@afrofuture.com>",
+
   // Admin
   adminEmail: process.env.ADMIN_EMAIL || "",
   adminPassword: process.env.ADMIN_PASSWORD || "",
   jwtSecret: process.env.JWT_SECRET || "your-secret-key-change-in-production",
   jwtExpiresIn: process.env.JWT_EXPIRES_IN || "24h",
 
+  // Tickets
+  ticketSigningSecret: process.env.TICKET_SIGNING_SECRET || "",
+
   // Event
   eventName: process.env.EVENT_NAME || "AfroFuture 2025",
   eventDates: process.env.EVENT_DATES || "December 28 & 29, 2025",
@@ -31,10 +52,6 @@ export const env = {
   installmentDeadline:
     process.env.INSTALLMENT_DEADLINE || "2025-12-13T23:59:59",
 
-  // Ticket Pricing
-  gaPrice: parseFloat(process.env.GA_PRICE || "918.75"),
-  vipPrice: parseFloat(process.env.VIP_PRICE || "1617.50"),
-
   // Scheduler Configuration (milliseconds)
   reminderCheckInterval: parseInt(
     process.env.REMINDER_CHECK_INTERVAL || "21600000"
@@ -42,6 +59,50 @@ export const env = {
   deadlineCheckInterval: parseInt(
     process.env.DEADLINE_CHECK_INTERVAL || "86400000"
   ), // 24 hours
+  reservationCheckInterval: parseInt(
+    process.env.RESERVATION_CHECK_INTERVAL || "300000"
+  ), // 5 minutes
+  reconciliationCheckInterval: parseInt(
+    process.env.RECONCILIATION_CHECK_INTERVAL || "900000"
+  ), // 15 minutes
+  checkoutNudgeCheckInterval: parseInt(
+    process.env.CHECKOUT_NUDGE_CHECK_INTERVAL || "300000"
+  ), // 5 minutes
+
+  // Checkout holds
+  reservationTtlMinutes: parseInt(
+    process.env.RESERVATION_TTL_MINUTES || "30"
+  ),
+  waitlistOfferMinutes: parseInt(
+    process.env.WAITLIST_OFFER_MINUTES || "60"
+  ),
+
+  // Ticket transfers
+  transferOfferHours: parseInt(process.env.TRANSFER_OFFER_HOURS || "24"),
+
+  // Payment fulfilment retries
+  fulfilmentRetryMinutes: parseInt(
+    process.env.FULFILMENT_RETRY_MINUTES || "5"
+  ),
+  fulfilmentMaxAttempts: parseInt(process.env.FULFILMENT_MAX_ATTEMPTS || "8"),
+
+  // Payment reconciliation
+  reconcileAfterMinutes: parseInt(process.env.RECONCILE_AFTER_MINUTES || "15"),
+  reconcileStaleHours: parseInt(process.env.RECONCILE_STALE_HOURS || "24"),
+
+  // Payment links are reused until they expire
+  paymentLinkTtlHours: parseInt(process.env.PAYMENT_LINK_TTL_HOURS || "24"),
+
+  // Abandoned checkout nudges
+  checkoutNudgeDelayMinutes: parseInt(
+    process.env.CHECKOUT_NUDGE_DELAY_MINUTES || "10"
+  ),
+  checkoutNudgeMaxAttempts: parseInt(
+    process.env.CHECKOUT_NUDGE_MAX_ATTEMPTS || "2"
+  ),
+  checkoutNudgeMaxAgeHours: parseInt(
+    process.env.CHECKOUT_NUDGE_MAX_AGE_HOURS || "24"
+  ),
 
   // Environment
   nodeEnv: process.env.NODE_ENV || "development",
@@ -0,0 +1,83 @@
+import { Event } from "../models/Event.js";
+import { Ticket } from "../models/Ticket.js";
+import { Coupon } from "../models/Coupon.js";
+import { Broadcast } from "../models/Broadcast.js";
+import { ReminderTemplate } from "../models/ReminderTemplate.js";
+import { InstallmentPlan } from "../models/InstallmentPlan.js";
+import { EVENT_CONFIG } from "./constants.js";
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Deployments from before multi-event support sell a single event described
+ * by EVENT_* env vars. On first start, create that event and attach the
+ * existing ticket tiers, coupons, broadcasts and reminder templates to it.
+ */
+export async function ensureDefaultEvent(): Promise<void> {
+  if (await Event.exists({})) return;
+
+  const event = await Event.create({
+    name: EVENT_CONFIG.eventName,
+    slug: slugify(EVENT_CONFIG.eventName) || "event",
+    location: EVENT_CONFIG.eventLocation,
+    dates: EVENT_CONFIG.eventDates,
+    installmentDeadline: EVENT_CONFIG.installmentDeadline,
+    status: "on_sale",
+  });
+
+  const orphans = { eventId: { $exists: false } };
+  await Promise.all([
+    Ticket.updateMany(orphans, { $set: { eventId: event._id } }),
+    Coupon.updateMany(orphans, { $set: { eventId: event._id } }),
+    Broadcast.updateMany(orphans, { $set: { eventId: event._id } }),
+    ReminderTemplate.updateMany(orphans, { $set: { eventId: event._id } }),
+  ]);
+
+  console.log(`✅ Created event "${event.name}" from EVENT_* settings`);
+}
+
+/**
+ * Installment plans used to be fixed in code: 40/30/30 (A) and 50/50 (B) for
+ * GA and VIP. If no plans have been set up yet, create those for the tiers
+ * that exist, so buyers keep the same choices.
+ */
+export async function ensureDefaultInstallmentPlans(): Promise<void> {
+  if (await InstallmentPlan.exists({})) return;
+
+  const tickets = await Ticket.find({ type: { $in: ["GA", "VIP"] } });
+  for (const ticket of tickets) {
+    await InstallmentPlan.create([
+      {
+        ticketId: ticket._id,
+        ticketType: ticket.type,
+        code: "A",
+        name: "3 Payments",
+        splits: [
+          { percent: 40, dueAfterDays: 0 },
+          { percent: 30, dueAfterDays: 21 },
+          { percent: 30 },
+        ],
+      },
+      {
+        ticketId: ticket._id,
+        ticketType: ticket.type,
+        code: "B",
+        name: "2 Payments",
+        splits: [{ percent: 50, dueAfterDays: 0 }, { percent: 50 }],
+      },
+    ]);
+  }
+
+  if (tickets.length > 0) {
+    console.log(
+      `✅ Created default installment plans for ${tickets
+        .map((ticket) => ticket.type)
+        .join(", ")}`
+    );
+  }
+}
@@ -36,8 +36,9 @@ const envRules: EnvValidationRule[] = [
   // Paystack
   {
     key: "PAYSTACK_SECRET_KEY",
-    required: true,
-    description: "Paystack secret key for payment processing",
+    required: false,
+    description:
+      "Paystack secret key for payment processing (required unless PAYMENT_PROVIDER is fake)",
     validator: (value) => {
       if (!value.startsWith("sk_")) {
         return "Paystack secret key must start with 'sk_'";
@@ -51,6 +52,30 @@ const envRules: EnvValidationRule[] = [
     description: "Paystack public key (optional, for frontend)",
   },
 
+  // Payments
+  {
+    key: "PAYMENT_PROVIDER",
+    required: false,
+    description:
+      "Default payment provider: paystack, or fake for local testing (tiers can override it)",
+    defaultValue: "paystack",
+    validator: (value) => {
+      if (!["paystack", "fake"].includes(value)) {
+        return "Must be paystack or fake";
+      }
+      if (value === "fake" && process.env.NODE_ENV === "production") {
+        return "The fake payment provider can't be used in production";
+      }
+      return true;
+    },
+  },
+  {
+    key: "FAKE_PAYMENT_SECRET",
+    required: false,
+    description:
+      "Secret the fake payment provider signs its webhooks with (local testing only)",
+  },
+
   // Admin
   {
     key: "ADMIN_EMAIL",
@@ -89,6 +114,18 @@ const envRules: EnvValidationRule[] = [
       return true;
     },
   },
+  {
+    key: "TICKET_SIGNING_SECRET",
+    required: false,
+    description:
+      "Secret used to sign ticket QR codes (tickets are issued by admins only when unset)",
+    validator: (value) => {
+      if (value.length < 32) {
+        return "Ticket signing secret must be at least 32 characters";
+      }
+      return true;
+    },
+  },
   {
     key: "JWT_EXPIRES_IN",
     required: false,
@@ -119,6 +156,56 @@ const envRules: EnvValidationRule[] = [
     defaultValue: "support@afrofuture.com",
   },
 
+  // Email (optional)
+  {
+    key: "SMTP_HOST",
+    required: false,
+    description:
+      "SMTP server for emailing receipts (e.g. localhost with a local SMTP catcher); unset disables email",
+  },
+  {
+    key: "SMTP_PORT",
+    required: false,
+    description: "SMTP server port (587 for STARTTLS, 465 with SMTP_SECURE)",
+    defaultValue: "587",
+    validator: (value) => {
+      const port = parseInt(value);
+      if (isNaN(port) || port <= 0 || port > 65535) {
+        return "Must be a valid port number";
+      }
+      return true;
+    },
+  },
+  {
+    key: "SMTP_SECURE",
+    required: false,
+    description:
+      "true to use TLS from the start (port 465); otherwise STARTTLS is used when the server offers it",
+    defaultValue: "false",
+    validator: (value) => {
+      if (value !== "true" && value !== "false") {
+        return "Must be true or false";
+      }
+      return true;
+    },
+  },
+  {
+    key: "SMTP_USER",
+    required: false,
+    description: "SMTP username (leave unset for servers without login)",
+  },
+  {
+    key: "SMTP_PASS",
+    required: false,
+    description: "SMTP password",
+  },
+  {
+    key: "EMAIL_FROM",
+    required: false,
+    description: "Sender of outgoing email, e.g. AfroFuture <tickets@afrofuture.com>",
+    defaultValue: "AfroFuture <tickets@afrofuture.com>",
+  },
+
   // Event (optional)
   {
     key: "EVENT_NAME",
@@ -145,20 +232,6 @@ const envRules: EnvValidationRule[] = [
     defaultValue: "2025-12-13T23:59:59",
   },
 
-  // Ticket Pricing (optional)
-  {
-    key: "GA_PRICE",
-    required: false,
-    description: "General Admission ticket price",
-    defaultValue: "918.75",
-  },
-  {
-    key: "VIP_PRICE",
-    required: false,
-    description: "VIP ticket price",
-    defaultValue: "1617.50",
-  },
-
   // Scheduler (optional)
   {
     key: "REMINDER_CHECK_INTERVAL",
@@ -172,6 +245,172 @@ const envRules: EnvValidationRule[] = [
     description: "Deadline check interval in milliseconds",
     defaultValue: "86400000",
   },
+  {
+    key: "RESERVATION_CHECK_INTERVAL",
+    required: false,
+    description: "Interval for releasing expired checkout holds in milliseconds",
+    defaultValue: "300000",
+  },
+  {
+    key: "RECONCILIATION_CHECK_INTERVAL",
+    required: false,
+    description:
+      "Interval for checking pending payments with Paystack in milliseconds",
+    defaultValue: "900000",
+  },
+  {
+    key: "CHECKOUT_NUDGE_CHECK_INTERVAL",
+    required: false,
+    description:
+      "Interval for nudging buyers who haven't paid their checkout link in milliseconds",
+    defaultValue: "300000",
+  },
+
+  // Checkout holds (optional)
+  {
+    key: "RESERVATION_TTL_MINUTES",
+    required: false,
+    description: "Minutes a ticket stays held while the buyer completes payment",
+    defaultValue: "30",
+    validator: (value) => {
+      if (isNaN(parseInt(value)) || parseInt(value) <= 0) {
+        return "Must be a positive number of minutes";
+      }
+      return true;
+    },
+  },
+  {
+    key: "WAITLIST_OFFER_MINUTES",
+    required: false,
+    description: "Minutes a waitlisted user has to pay for a ticket offered to them",
+    defaultValue: "60",
+    validator: (value) => {
+      if (isNaN(parseInt(value)) || parseInt(value) <= 0) {
+        return "Must be a positive number of minutes";
+      }
+      return true;
+    },
+  },
+  {
+    key: "TRANSFER_OFFER_HOURS",
+    required: false,
+    description: "Hours a recipient has to accept a ticket transfer",
+    defaultValue: "24",
+    validator: (value) => {
+      if (isNaN(parseInt(value)) || parseInt(value) <= 0) {
+        return "Must be a positive number of hours";
+      }
+      return true;
+    },
+  },
+  {
+    key: "FULFILMENT_RETRY_MINUTES",
+    required: false,
+    description:
+      "Minutes between retries of a paid order whose fulfilment failed (grows with each attempt)",
+    defaultValue: "5",
+    validator: (value) => {
+      if (isNaN(parseInt(value)) || parseInt(value) <= 0) {
+        return "Must be a positive number of minutes";
+      }
+      return true;
+    },
+  },
+  {
+    key: "FULFILMENT_MAX_ATTEMPTS",
+    required: false,
+    description:
+      "Automatic fulfilment attempts before a paid order is flagged for an admin",
+    defaultValue: "8",
+    validator: (value) => {
+      if (isNaN(parseInt(value)) || parseInt(value) <= 0) {
+        return "Must be a positive number";
+      }
+      return true;
+    },
+  },
+
+  // Payment reconciliation (optional)
+  {
+    key: "RECONCILE_AFTER_MINUTES",
+    required: false,
+    description:
+      "Minutes a payment can stay pending before the reconciler checks it with Paystack",
+    defaultValue: "15",
+    validator: (value) => {
+      if (isNaN(parseInt(value)) || parseInt(value) <= 0) {
+        return "Must be a positive number of minutes";
+      }
+      return true;
+    },
+  },
+  {
+    key: "RECONCILE_STALE_HOURS",
+    required: false,
+    description:
+      "Hours after which a payment Paystack still hasn't settled is marked abandoned",
+    defaultValue: "24",
+    validator: (value) => {
+      if (isNaN(parseInt(value)) || parseInt(value) <= 0) {
+        return "Must be a positive number of hours";
+      }
+      return true;
+    },
+  },
+
+  // Payment links (optional)
+  {
+    key: "PAYMENT_LINK_TTL_HOURS",
+    required: false,
+    description:
+      "Hours a payment link is reused for (e.g. across reminders) before a new one is opened in its place",
+    defaultValue: "24",
+    validator: (value) => {
+      if (isNaN(parseInt(value)) || parseInt(value) <= 0) {
+        return "Must be a positive number of hours";
+      }
+      return true;
+    },
+  },
+
+  // Abandoned checkout nudges (optional)
+  {
+    key: "CHECKOUT_NUDGE_DELAY_MINUTES",
+    required: false,
+    description:
+      "Minutes a checkout link can go unpaid before the buyer is nudged with a fresh one (and between nudges)",
+    defaultValue: "10",
+    validator: (value) => {
+      if (isNaN(parseInt(value)) || parseInt(value) <= 0) {
+        return "Must be a positive number of minutes";
+      }
+      return true;
+    },
+  },
+  {
+    key: "CHECKOUT_NUDGE_MAX_ATTEMPTS",
+    required: false,
+    description: "Nudges sent per checkout at most (0 turns nudges off)",
+    defaultValue: "2",
+    validator: (value) => {
+      if (isNaN(parseInt(value)) || parseInt(value) < 0) {
+        return "Must be zero or a positive number";
+      }
+      return true;
+    },
+  },
+  {
+    key: "CHECKOUT_NUDGE_MAX_AGE_HOURS",
+    required: false,
+    description: "Hours after which an unpaid checkout is no longer nudged",
+    defaultValue: "24",
+    validator: (value) => {
+      if (isNaN(parseInt(value)) || parseInt(value) <= 0) {
+        return "Must be a positive number of hours";
+      }
+      return true;
+    },
+  },
 
   // Environment
   {
@@ -203,6 +442,18 @@ export function validateEnv(): { valid: boolean; errors: ValidationError[] } {
     });
   }
 
+  // Special check: Paystack needs its key unless payments are faked
+  if (
+    (process.env.PAYMENT_PROVIDER || "paystack") === "paystack" &&
+    !process.env.PAYSTACK_SECRET_KEY
+  ) {
+    errors.push({
+      key: "PAYSTACK_SECRET_KEY",
+      message: "Required environment variable PAYSTACK_SECRET_KEY is missing",
+      description: "Paystack secret key for payment processing",
+    });
+  }
+
   for (const rule of envRules) {
     const value = process.env[rule.key];
 
@@ -0,0 +1,91 @@
+import type { Request, Response } from "express";
+import mongoose from "mongoose";
+import { AdminAlert } from "../models/AdminAlert.js";
+import { adminAlerts } from "../services/adminAlerts.js";
+
+/**
+ * Get admin alerts (newest first). Open alerts only unless
+ * ?acknowledged=true or ?acknowledged=all.
+ */
+export const getAlerts = async (req: Request, res: Response) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 20;
+    const page = parseInt(req.query.page as string) || 1;
+    const skip = (page - 1) * limit;
+
+    const filter: any = {};
+    if (req.query.acknowledged === "true") {
+      filter.acknowledgedAt = { $ne: null };
+    } else if (req.query.acknowledged !== "all") {
+      filter.acknowledgedAt = null;
+    }
+    if (req.query.severity) {
+      filter.severity = req.query.severity;
+    }
+    if (req.query.type) {
+      filter.type = req.query.type;
+    }
+    if (req.query.reference) {
+      filter.reference = req.query.reference;
+    }
+
+    const [alerts, total] = await Promise.all([
+      AdminAlert.find(filter).sort({ createdAt: -1 }).limit(limit).skip(skip),
+      AdminAlert.countDocuments(filter),
+    ]);
+
+    res.json({
+      status: "success",
+      data: {
+        alerts,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching alerts:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch alerts",
+    });
+  }
+};
+
+/**
+ * Mark an alert as dealt with
+ */
+export const acknowledgeAlert = async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        status: "error",
+        message: "A valid alert ID is required",
+      });
+    }
+
+    const alert = await adminAlerts.acknowledge(id, (req as any).admin?.id);
+    if (!alert) {
+      return res.status(404).json({
+        status: "error",
+        message: "Alert not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      message: "Alert acknowledged",
+      data: { alert },
+    });
+  } catch (error) {
+    console.error("Error acknowledging alert:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to acknowledge alert",
+    });
+  }
+};
@@ -6,14 +6,22 @@ import jwt from "jsonwebtoken";
 import bcrypt from "bcryptjs";
 import { env } from "../config/env.js";
 import { getHashedAdminPassword } from "../config/initAdmin.js";
-import { backend } from "../services/backend.js";
+import { paymentLinks } from "../services/paymentLinks.js";
+import { wallet } from "../services/wallet.js";
+import { toMajorUnits, toMinorUnits } from "../utils/money.js";
 import { User } from "../models/User.js";
 import { Payment } from "../models/Payment.js";
 import { Admin } from "../models/Admin.js";
 import { SoldTicket } from "../models/SoldTicket.js";
+import { Order } from "../models/Order.js";
 import { getSession } from "../utils/session.js";
 import type { UserSession } from "../types/session.js";
-import { TICKETS } from "../config/constants.js";
+import { getTicketByType, getTicketMap } from "../utils/ticketCatalog.js";
+import {
+  getEventScope,
+  eventRecordFilter,
+  eventUserFilter,
+} from "../middleware/eventScope.js";
 import { client } from "../config/client.js";
 
 const loginSchema = z.object({
@@ -23,8 +31,11 @@ const loginSchema = z.object({
 
 const generatePaymentLinkSchema = z.object({
   chatId: z.string().min(1, "Chat ID is required"),
-  amount: z.number().positive("Amount must be positive"),
-  ticketType: z.enum(["GA", "VIP"]).optional(),
+  amount: z
+    .number()
+    .positive("Amount must be positive")
+    .transform(toMinorUnits),
+  ticketType: z.string().min(1).toUpperCase().optional(),
   paymentType: z.enum(["full", "installment"]).optional(),
   installmentNumber: z.number().optional(),
 });
@@ -36,7 +47,9 @@ const sendMessageSchema = z.object({
     .preprocess((val) => val === "true" || val === true, z.boolean())
     .optional(),
   ticketType: z.string().optional(),
-  price: z.preprocess((val) => Number(val), z.number()).optional(),
+  price: z
+    .preprocess((val) => Number(val), z.number().transform(toMinorUnits))
+    .optional(),
   paymentId: z.string().optional(), // Payment ID to link ticket to specific payment
 });
 
@@ -180,17 +193,24 @@ export const getAllUsers = async (req: Request, res: Response) => {
       ];
     }
 
+    // Users buying or holding tickets for one event (combined with search)
+    if (getEventScope(req)) {
+      filter.$and = [eventUserFilter(req)];
+    }
+
     // Get all users first (we'll filter by payment status after enriching)
     const users = await User.find(filter)
       .sort({ createdAt: -1 })
       .select("-__v");
 
+    const ticketsByType = await getTicketMap();
+
     // Enrich user data with session information and filter by payment status
     const enrichedUsers = await Promise.all(
       users.map(async (user) => {
         const session = (await getSession(user.chatId)) as UserSession;
         const ticketType = session.ticketType;
-        const ticket = ticketType ? TICKETS[ticketType] : null;
+        const ticket = ticketType ? ticketsByType.get(ticketType) : null;
 
         // Calculate real total paid from payments collection
         const successfulPayments = await Payment.find({
@@ -225,13 +245,13 @@ export const getAllUsers = async (req: Request, res: Response) => {
           ticketPlan: {
             type: ticketType || null,
             name: ticket?.name || null,
-            price: ticket?.price || null,
+            price: ticket?.price ? toMajorUnits(ticket.price) : null,
           },
           payment: {
             type: session.paymentType || null,
-            amountPaid: realAmountPaid,
-            totalPrice: ticketPrice,
-            remainingBalance: remainingBalance,
+            amountPaid: toMajorUnits(realAmountPaid),
+            totalPrice: toMajorUnits(ticketPrice),
+            remainingBalance: toMajorUnits(remainingBalance),
             progress: Math.round(paymentProgress),
           },
           installment: isInstallment
@@ -250,7 +270,7 @@ export const getAllUsers = async (req: Request, res: Response) => {
             hasNoPayment,
           },
           ticketId: session.ticketId || null,
-          walletBalance: session.walletBalance || 0,
+          walletBalance: toMajorUnits(await wallet.getBalance(user.chatId)),
         };
       })
     );
@@ -316,7 +336,9 @@ export const getUserInfo = async (req: Request, res: Response) => {
 
     const session = (await getSession(chatId)) as UserSession;
     const ticketType = session.ticketType;
-    const ticket = ticketType ? TICKETS[ticketType] : null;
+    const ticket = ticketType
+      ? await getTicketByType(ticketType, session.eventId)
+      : null;
     console.log(await Payment.find({ status: "success" }));
 
     // Calculate real total paid from payments collection
@@ -357,14 +379,14 @@ export const getUserInfo = async (req: Request, res: Response) => {
         ticketPlan: {
           type: ticketType || null,
           name: ticket?.name || null,
-          price: ticket?.price || null,
+          price: ticket?.price ? toMajorUnits(ticket.price) : null,
           description: ticket?.description || null,
         },
         payment: {
           type: session.paymentType || null,
-          amountPaid: realAmountPaid,
-          totalPrice: ticketPrice,
-          remainingBalance: remainingBalance,
+          amountPaid: toMajorUnits(realAmountPaid),
+          totalPrice: toMajorUnits(ticketPrice),
+          remainingBalance: toMajorUnits(remainingBalance),
           progress: Math.round(paymentProgress),
         },
         installment: isInstallment
@@ -383,7 +405,7 @@ export const getUserInfo = async (req: Request, res: Response) => {
           hasNoPayment,
         },
         ticketId: session.ticketId || null,
-        walletBalance: session.walletBalance || 0,
+        walletBalance: toMajorUnits(await wallet.getBalance(user.chatId)),
         session: {
           state: session.state,
           ticketType: session.ticketType,
@@ -433,25 +455,36 @@ export const generatePaymentLinkForUser = async (
       });
     }
 
-    // Generate payment link
-    const { paymentLink, reference } = await backend.generatePaymentLink(
-      amount,
-      chatId,
-      chatId,
-      {
-        ticketType: finalTicketType,
+    // The tier of the event the user is buying for, else the one on sale
+    const ticket =
+      (session.eventId &&
+        (await getTicketByType(finalTicketType, session.eventId))) ||
+      (await getTicketByType(finalTicketType));
+    if (!ticket) {
+      return res.status(400).json({
+        status: "error",
+        message: `Ticket type "${finalTicketType}" does not exist`,
+      });
+    }
+
+    // Hand out the user's open link for the same payment, or a new one
+    const { paymentLink, reference, expiresAt, reused } =
+      await paymentLinks.get(amount, chatId, {
+        ticketType: ticket.type,
+        eventId: ticket.eventId?.toString(),
         paymentType: paymentType || "full",
         installmentNumber: installmentNumber,
-      }
-    );
+      });
 
     res.json({
       status: "success",
       data: {
         paymentLink,
         reference,
+        expiresAt,
+        reused,
         chatId,
-        amount,
+        amount: toMajorUnits(amount),
         ticketType: finalTicketType,
         paymentType: paymentType || "full",
         installmentNumber: installmentNumber,
@@ -554,17 +587,43 @@ export const sendMessageToUser = async (req: Request, res: Response) => {
           });
         }
 
-        // Create sold ticket record
-        await SoldTicket.create({
-          userId: user._id,
-          chatId: user.chatId,
-          paymentId: paymentId, // Link ticket to specific payment
-          userEmail: user.email,
-          ticketType,
-          price,
-          imageUrl: file.filename, // Store ONLY the filename as requested
-          location: "local",
-        });
+        // Order checkouts already recorded one ticket per attendee:
+        // attach this file to the next one an admin hasn't sent yet.
+        // This overrides an automatically generated ticket file.
+        const issued = await SoldTicket.findOneAndUpdate(
+          { paymentId, location: { $ne: "local" } },
+          {
+            $set: {
+              imageUrl: file.filename,
+              location: "local",
+              issuedBy: "admin",
+              issuedAt: new Date(),
+              deliveredAt: new Date(),
+            },
+          },
+          { sort: { createdAt: 1, _id: 1 }, new: true }
+        );
+
+        if (!issued) {
+          const session = (await getSession(chatId)) as UserSession;
+          const tier = await getTicketByType(ticketType, session.eventId);
+
+          // Create sold ticket record
+          await SoldTicket.create({
+            userId: user._id,
+            chatId: user.chatId,
+            paymentId: paymentId, // Link ticket to specific payment
+            userEmail: user.email,
+            ticketType,
+            eventId: tier?.eventId,
+            price,
+            imageUrl: file.filename, // Store ONLY the filename as requested
+            location: "local",
+            issuedBy: "admin",
+            issuedAt: new Date(),
+            deliveredAt: new Date(),
+          });
+        }
 
         // DO NOT unlink the file if it's a ticket record
         return res.json({
@@ -732,6 +791,11 @@ export const getSoldTickets = async (req: Request, res: Response) => {
       filter.ticketType = req.query.ticketType;
     }
 
+    // Tickets for one event (combined with ticketType if both are given)
+    if (getEventScope(req)) {
+      filter.$and = [eventRecordFilter(req)];
+    }
+
     const soldTickets = await SoldTicket.find(filter)
       .sort({ createdAt: -1 })
       .limit(limit)
@@ -740,10 +804,42 @@ export const getSoldTickets = async (req: Request, res: Response) => {
 
     const total = await SoldTicket.countDocuments(filter);
 
+    // Group this page's tickets by order; legacy tickets stand alone
+    const orderIds = [
+      ...new Set(
+        soldTickets
+          .filter((ticket) => ticket.orderId)
+          .map((ticket) => ticket.orderId!.toString())
+      ),
+    ];
+    const orderDocs = await Order.find({ _id: { $in: orderIds } });
+    const orderMap = new Map(
+      orderDocs.map((order) => [order._id.toString(), order])
+    );
+
+    const orders: { order: any; tickets: typeof soldTickets }[] = [];
+    const groups = new Map<string, (typeof orders)[number]>();
+    for (const ticket of soldTickets) {
+      const key = ticket.orderId?.toString();
+      const group = key ? groups.get(key) : undefined;
+      if (group) {
+        group.tickets.push(ticket);
+        continue;
+      }
+
+      const entry = {
+        order: key ? orderMap.get(key) || null : null,
+        tickets: [ticket],
+      };
+      orders.push(entry);
+      if (key) groups.set(key, entry);
+    }
+
     res.json({
       status: "success",
       data: {
         tickets: soldTickets,
+        orders,
         pagination: {
           page,
           limit,
@@ -7,7 +7,7 @@ const createAdminSchema = z.object({
   email: z.string().email("Invalid email format"),
   password: z.string().min(8, "Password must be at least 8 characters"),
   name: z.string().min(1, "Name is required"),
-  role: z.enum(["super_admin", "admin"]).default("admin"),
+  role: z.enum(["super_admin", "admin", "scanner"]).default("admin"),
 });
 
 const updateAdminSchema = z.object({
@@ -15,7 +15,7 @@ const updateAdminSchema = z.object({
   email: z.string().email().optional(),
   password: z.string().min(8).optional(),
   isActive: z.boolean().optional(),
-  role: z.enum(["super_admin", "admin"]).optional(),
+  role: z.enum(["super_admin", "admin", "scanner"]).optional(),
 });
 
 /**
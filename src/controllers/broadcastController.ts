@@ -1,9 +1,15 @@
 import type { Request, Response } from "express";
+import type mongoose from "mongoose";
 import { Broadcast } from "../models/Broadcast.js";
 import { User } from "../models/User.js";
 import { Payment } from "../models/Payment.js";
 import { client } from "../config/client.js";
 import type { UserSession } from "../types/session.js";
+import {
+  findEventByIdOrSlug,
+  getEventAudience,
+} from "../utils/eventCatalog.js";
+import { eventIdFilter } from "../middleware/eventScope.js";
 import cron, { type ScheduledTask } from "node-cron";
 
 // Store scheduled broadcasts in memory (could be moved to DB for persistence)
@@ -14,7 +20,8 @@ const scheduledBroadcasts = new Map<string, ScheduledTask>();
  */
 export const sendBroadcast = async (
   message: string,
-  filter: "all" | "paid" | "pending"
+  filter: "all" | "paid" | "pending",
+  eventId?: mongoose.Types.ObjectId | null
 ): Promise<{ sentCount: number; totalUsers: number; filter: string }> => {
   let users = await User.find({});
 
@@ -43,6 +50,12 @@ export const sendBroadcast = async (
     });
   }
 
+  // Only users holding or buying tickets for the event
+  if (eventId) {
+    const audience = await getEventAudience(eventId);
+    users = users.filter((user) => user.chatId && audience.has(user.chatId));
+  }
+
   let sentCount = 0;
   let failedCount = 0;
   const usersWithChatId = users.filter((u) => u.chatId);
@@ -79,14 +92,27 @@ export const createBroadcast = async (req: Request, res: Response) => {
   try {
     const { message, filter = "all", scheduleTime } = req.body;
 
+    let eventId: mongoose.Types.ObjectId | null = null;
+    if (req.body.eventId) {
+      const event = await findEventByIdOrSlug(req.body.eventId);
+      if (!event) {
+        return res.status(404).json({
+          status: "error",
+          message: "Event not found",
+        });
+      }
+      eventId = event._id as mongoose.Types.ObjectId;
+    }
+
     const sendBroadcastAndSave = async () => {
       try {
-        const result = await sendBroadcast(message, filter);
+        const result = await sendBroadcast(message, filter, eventId);
 
         // Save to database with explicit values
         const broadcast = new Broadcast({
           message,
           filter,
+          eventId,
           status: "sent",
           sentCount: result.sentCount ?? 0,
           totalUsers: result.totalUsers ?? 0,
@@ -108,6 +134,7 @@ export const createBroadcast = async (req: Request, res: Response) => {
         const broadcast = new Broadcast({
           message,
           filter,
+          eventId,
           status: "failed",
           sentCount: 0,
           totalUsers: 0,
@@ -132,6 +159,7 @@ export const createBroadcast = async (req: Request, res: Response) => {
         const broadcast = new Broadcast({
           message,
           filter,
+          eventId,
           status: "scheduled",
           scheduleTime: scheduledDate,
         });
@@ -140,7 +168,7 @@ export const createBroadcast = async (req: Request, res: Response) => {
         const task = cron.schedule(scheduleTime, async () => {
           console.log(`Executing scheduled broadcast (cron: ${scheduleTime})`);
           try {
-            const result = await sendBroadcast(message, filter);
+            const result = await sendBroadcast(message, filter, eventId);
             broadcast.status = "sent";
             broadcast.sentCount = result.sentCount || 0;
             broadcast.totalUsers = result.totalUsers || 0;
@@ -185,6 +213,7 @@ export const createBroadcast = async (req: Request, res: Response) => {
         const broadcast = new Broadcast({
           message,
           filter,
+          eventId,
           status: "scheduled",
           scheduleTime: scheduledDate,
         });
@@ -195,7 +224,7 @@ export const createBroadcast = async (req: Request, res: Response) => {
         setTimeout(async () => {
           console.log(`Executing scheduled broadcast (time: ${scheduleTime})`);
           try {
-            const result = await sendBroadcast(message, filter);
+            const result = await sendBroadcast(message, filter, eventId);
             broadcast.status = "sent";
             broadcast.sentCount = result.sentCount || 0;
             broadcast.totalUsers = result.totalUsers || 0;
@@ -257,6 +286,7 @@ export const getRecentBroadcasts = async (req: Request, res: Response) => {
 
     const broadcasts = await Broadcast.find({
       status: { $in: ["sent", "failed"] },
+      ...eventIdFilter(req),
     })
       .sort({ executedAt: -1, createdAt: -1 })
       .limit(limit)
@@ -265,6 +295,7 @@ export const getRecentBroadcasts = async (req: Request, res: Response) => {
 
     const total = await Broadcast.countDocuments({
       status: { $in: ["sent", "failed"] },
+      ...eventIdFilter(req),
     });
 
     // Ensure sentCount and totalUsers are included (default to 0 if undefined)
@@ -302,6 +333,7 @@ export const getScheduledBroadcasts = async (req: Request, res: Response) => {
   try {
     const broadcasts = await Broadcast.find({
       status: "scheduled",
+      ...eventIdFilter(req),
     })
       .sort({ scheduleTime: 1 })
       .lean(); // Convert to plain objects to ensure all fields are serialized
@@ -0,0 +1,242 @@
+import type { Request, Response } from "express";
+import type mongoose from "mongoose";
+import { z } from "zod";
+import { checkIn } from "../services/checkIn.js";
+import { isTicketSigningConfigured } from "../utils/ticketSignature.js";
+import { getDefaultEvent } from "../utils/eventCatalog.js";
+import { getEventScope } from "../middleware/eventScope.js";
+
+const scanSchema = z.object({
+  payload: z.string().trim().min(1, "Scanned payload is required"),
+  gate: z.string().trim().min(1, "Gate is required"),
+});
+
+const syncSchema = z.object({
+  deviceId: z.string().trim().min(1, "Device ID is required"),
+  scans: z
+    .array(
+      z.object({
+        scanId: z.string().trim().min(1, "Scan ID is required"),
+        payload: z.string().trim().min(1, "Scanned payload is required"),
+        gate: z.string().trim().min(1, "Gate is required"),
+        scannedAt: z.coerce.date(),
+        admitted: z.boolean().default(true),
+      })
+    )
+    .min(1, "At least one scan is required")
+    .max(500, "Upload at most 500 scans per batch"),
+});
+
+/**
+ * The event a gate is checking tickets in for: the one chosen with
+ * ?eventId, or the only event still to come. Null when there are several
+ * to choose from and none was chosen.
+ */
+async function getGateEvent(
+  req: Request
+): Promise<mongoose.Types.ObjectId | null> {
+  const event = getEventScope(req)?.event || (await getDefaultEvent());
+  return event ? (event._id as mongoose.Types.ObjectId) : null;
+}
+
+const NO_GATE_EVENT =
+  "Choose the event this gate is checking in for with ?eventId=<id or slug>";
+
+/**
+ * Scan a ticket QR code at a gate
+ */
+export const scanTicket = async (req: Request, res: Response) => {
+  try {
+    const { payload, gate } = scanSchema.parse(req.body);
+    const scanner = (req as any).admin;
+
+    const eventId = await getGateEvent(req);
+    if (!eventId) {
+      return res.status(400).json({ status: "error", message: NO_GATE_EVENT });
+    }
+
+    const outcome = await checkIn.scan(payload, gate, eventId, {
+      id: scanner?.id?.toString(),
+      email: scanner?.email,
+    });
+
+    if (outcome.result === "invalid") {
+      return res.status(400).json({
+        status: "error",
+        result: "invalid",
+        message: outcome.reason,
+      });
+    }
+
+    if (outcome.result === "duplicate") {
+      const { firstScan } = outcome;
+      return res.status(409).json({
+        status: "error",
+        result: "duplicate",
+        message: `Already checked in at ${firstScan.gate} on ${firstScan.scannedAt.toISOString()}`,
+        data: {
+          ticket: outcome.ticket,
+          firstScan: {
+            gate: firstScan.gate,
+            scannedAt: firstScan.scannedAt,
+            scannedByEmail: firstScan.scannedByEmail || null,
+          },
+        },
+      });
+    }
+
+    res.json({
+      status: "success",
+      result: "admitted",
+      data: {
+        ticket: outcome.ticket,
+        checkIn: {
+          gate: outcome.checkIn.gate,
+          scannedAt: outcome.checkIn.scannedAt,
+        },
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: "error",
+        message: "Validation error",
+        errors: error.issues,
+      });
+    }
+
+    console.error("Error scanning ticket:", error);
+    res.status(500).json({
+      status: "error",
+      message: error.message || "Failed to scan ticket",
+    });
+  }
+};
+
+/**
+ * Live attendance per tier (for gate staff)
+ */
+export const getCheckInStats = async (req: Request, res: Response) => {
+  try {
+    const attendance = await checkIn.getAttendance(
+      getEventScope(req)?.event._id as mongoose.Types.ObjectId | undefined
+    );
+
+    res.json({
+      status: "success",
+      data: attendance,
+    });
+  } catch (error) {
+    console.error("Error fetching check-in stats:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch check-in stats",
+    });
+  }
+};
+
+/**
+ * Signed roster of issued tickets for gate devices to use offline
+ */
+export const getRoster = async (req: Request, res: Response) => {
+  try {
+    if (!isTicketSigningConfigured()) {
+      return res.status(503).json({
+        status: "error",
+        message: "Ticket signing is not configured",
+      });
+    }
+
+    const eventId = await getGateEvent(req);
+    if (!eventId) {
+      return res.status(400).json({ status: "error", message: NO_GATE_EVENT });
+    }
+
+    const { roster, signature } = await checkIn.getRoster(eventId);
+
+    res.json({
+      status: "success",
+      data: {
+        roster,
+        signature,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting check-in roster:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to export check-in roster",
+    });
+  }
+};
+
+/**
+ * Upload scans a gate device recorded while offline
+ */
+export const syncOfflineScans = async (req: Request, res: Response) => {
+  try {
+    const { deviceId, scans } = syncSchema.parse(req.body);
+    const scanner = (req as any).admin;
+
+    const eventId = await getGateEvent(req);
+    if (!eventId) {
+      return res.status(400).json({ status: "error", message: NO_GATE_EVENT });
+    }
+
+    const results = await checkIn.sync(deviceId, scans, eventId, {
+      id: scanner?.id?.toString(),
+      email: scanner?.email,
+    });
+
+    const summary = results.reduce<Record<string, number>>((counts, item) => {
+      counts[item.result] = (counts[item.result] || 0) + 1;
+      return counts;
+    }, {});
+
+    res.json({
+      status: "success",
+      data: {
+        deviceId,
+        summary,
+        results,
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: "error",
+        message: "Validation error",
+        errors: error.issues,
+      });
+    }
+
+    console.error("Error syncing offline scans:", error);
+    res.status(500).json({
+      status: "error",
+      message: error.message || "Failed to sync offline scans",
+    });
+  }
+};
+
+/**
+ * Tickets admitted more than once by offline gates (admin report)
+ */
+export const getCheckInConflicts = async (req: Request, res: Response) => {
+  try {
+    const conflicts = await checkIn.getConflicts();
+
+    res.json({
+      status: "success",
+      data: {
+        conflicts,
+        count: conflicts.length,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching check-in conflicts:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch check-in conflicts",
+    });
+  }
+};
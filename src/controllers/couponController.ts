@@ -1,8 +1,12 @@
 import type { Request, Response } from "express";
 import { z } from "zod";
 import { Coupon } from "../models/Coupon.js";
+import { resolveEventRef } from "../utils/eventCatalog.js";
+import { eventIdFilter } from "../middleware/eventScope.js";
+import { toMinorUnits } from "../utils/money.js";
 
 const createCouponSchema = z.object({
+  eventId: z.string().min(1).optional().nullable(),
   code: z.string().min(1, "Code is required").toUpperCase(),
   discountType: z.enum(["percentage", "fixed"]),
   discountValue: z.number().positive("Value must be positive"),
@@ -10,20 +14,36 @@ const createCouponSchema = z.object({
   expiryDate: z.string().datetime().optional().nullable(),
 });
 
-const updateCouponSchema = z.object({
-  discountType: z.enum(["percentage", "fixed"]).optional(),
-  discountValue: z.number().positive().optional(),
-  isActive: z.boolean().optional(),
-  maxUsage: z.number().int().positive().optional().nullable(),
-  expiryDate: z.string().datetime().optional().nullable(),
-});
+const updateCouponSchema = z
+  .object({
+    eventId: z.string().min(1).optional().nullable(),
+    discountType: z.enum(["percentage", "fixed"]).optional(),
+    discountValue: z.number().positive().optional(),
+    isActive: z.boolean().optional(),
+    maxUsage: z.number().int().positive().optional().nullable(),
+    expiryDate: z.string().datetime().optional().nullable(),
+  })
+  .refine((data) => !data.discountType || data.discountValue !== undefined, {
+    message: "discountValue is required when changing discountType",
+    path: ["discountValue"],
+  });
+
+// Fixed discounts come in as cedis and are stored in pesewas
+function toStoredDiscount(
+  discountType: "percentage" | "fixed",
+  discountValue: number
+): number {
+  return discountType === "fixed" ? toMinorUnits(discountValue) : discountValue;
+}
 
 /**
  * Get all coupons
  */
 export const getAllCoupons = async (req: Request, res: Response) => {
   try {
-    const coupons = await Coupon.find({}).sort({ createdAt: -1 });
+    const coupons = await Coupon.find(eventIdFilter(req)).sort({
+      createdAt: -1,
+    });
 
     res.json({
       status: "success",
@@ -57,7 +77,22 @@ export const createCoupon = async (req: Request, res: Response) => {
       });
     }
 
-    const coupon = new Coupon(validatedData);
+    const eventId = await resolveEventRef(validatedData.eventId);
+    if (eventId === undefined) {
+      return res.status(404).json({
+        status: "error",
+        message: "Event not found",
+      });
+    }
+
+    const coupon = new Coupon({
+      ...validatedData,
+      discountValue: toStoredDiscount(
+        validatedData.discountType,
+        validatedData.discountValue
+      ),
+      eventId,
+    });
     await coupon.save();
 
     res.status(201).json({
@@ -89,7 +124,30 @@ export const updateCoupon = async (req: Request, res: Response) => {
     const { id } = req.params;
     const validatedData = updateCouponSchema.parse(req.body);
 
-    const coupon = await Coupon.findByIdAndUpdate(id, validatedData, {
+    const update: Record<string, unknown> = { ...validatedData };
+    if (validatedData.discountValue !== undefined) {
+      const discountType =
+        validatedData.discountType ||
+        (await Coupon.findById(id).select("discountType"))?.discountType;
+      if (discountType) {
+        update.discountValue = toStoredDiscount(
+          discountType,
+          validatedData.discountValue
+        );
+      }
+    }
+    if (validatedData.eventId !== undefined) {
+      const eventId = await resolveEventRef(validatedData.eventId);
+      if (eventId === undefined) {
+        return res.status(404).json({
+          status: "error",
+          message: "Event not found",
+        });
+      }
+      update.eventId = eventId;
+    }
+
+    const coupon = await Coupon.findByIdAndUpdate(id, update, {
       new: true,
     });
 
@@ -3,12 +3,26 @@
  * This API combines statistics from users, payments, and tickets for the dashboard overview page
  */
 import type { Request, Response } from "express";
+import type mongoose from "mongoose";
 import { User } from "../models/User.js";
-import { Payment } from "../models/Payment.js";
+import {
+  Payment,
+  COLLECTED_STATUSES,
+  netAmountExpr,
+} from "../models/Payment.js";
 import { Ticket } from "../models/Ticket.js";
 import { SoldTicket } from "../models/SoldTicket.js";
 import { getSession } from "../utils/session.js";
+import { checkIn } from "../services/checkIn.js";
+import { checkoutRecovery } from "../services/checkoutRecovery.js";
 import type { UserSession } from "../types/session.js";
+import { formatMoney, toMajorUnits } from "../utils/money.js";
+import {
+  getEventScope,
+  eventIdFilter,
+  eventRecordFilter,
+  eventUserFilter,
+} from "../middleware/eventScope.js";
 
 /**
  * Get dashboard overview statistics
@@ -16,28 +30,39 @@ import type { UserSession } from "../types/session.js";
  */
 export const getDashboardOverview = async (req: Request, res: Response) => {
   try {
+    // ?eventId narrows every figure to one event's tiers
+    const userScope = eventUserFilter(req);
+    const salesScope = eventRecordFilter(req);
+    const ticketScope = eventIdFilter(req);
+
     // User statistics
-    const totalUsers = await User.countDocuments({});
+    const totalUsers = await User.countDocuments(userScope);
     const paidUsers = await User.countDocuments({
+      ...userScope,
       "session.ticketId": { $exists: true, $ne: null },
     });
     const pendingPaymentUsers = await User.countDocuments({
+      ...userScope,
       "session.ticketId": { $exists: false },
       "session.remainingBalance": { $gt: 0 },
     });
 
-    // Payment statistics
-    const totalPayments = await Payment.countDocuments({ status: "success" });
+    // Payment statistics; refunds come off the revenue
+    const totalPayments = await Payment.countDocuments({
+      ...salesScope,
+      status: { $in: COLLECTED_STATUSES },
+    });
     const totalRevenueResult = await Payment.aggregate([
       {
         $match: {
-          status: "success",
+          ...salesScope,
+          status: { $in: COLLECTED_STATUSES },
         },
       },
       {
         $group: {
           _id: null,
-          total: { $sum: "$amount" },
+          total: { $sum: netAmountExpr },
         },
       },
     ]);
@@ -45,16 +70,27 @@ export const getDashboardOverview = async (req: Request, res: Response) => {
       totalRevenueResult.length > 0 ? totalRevenueResult[0].total : 0;
 
     const pendingPayments = await Payment.countDocuments({
+      ...salesScope,
       status: "pending",
     });
 
     // Ticket statistics
-    const totalTickets = await Ticket.countDocuments({});
-    const activeTickets = await Ticket.countDocuments({ isActive: true });
-    const totalTicketsSold = await SoldTicket.countDocuments({});
+    const totalTickets = await Ticket.countDocuments(ticketScope);
+    const activeTickets = await Ticket.countDocuments({
+      ...ticketScope,
+      isActive: true,
+    });
+    // Tickets cancelled by a refund are back on sale
+    const totalTicketsSold = await SoldTicket.countDocuments({
+      ...salesScope,
+      revokedAt: null,
+    });
 
     // Recent activity (last 10 payments)
-    const recentPayments = await Payment.find({ status: "success" })
+    const recentPayments = await Payment.find({
+      ...salesScope,
+      status: "success",
+    })
       .sort({ paidAt: -1, createdAt: -1 })
       .limit(10)
       .select("chatId amount paidAt createdAt")
@@ -68,9 +104,9 @@ export const getDashboardOverview = async (req: Request, res: Response) => {
         return {
           id: payment._id.toString(),
           type: "payment" as const,
-          message: `${user?.name || "Unknown"} made a payment of GH₵${
-            payment.amount
-          }`,
+          message: `${
+            user?.name || "Unknown"
+          } made a payment of ${formatMoney(payment.amount)}`,
           timestamp: payment.paidAt || payment.createdAt,
           user: user?.name || "Unknown",
         };
@@ -78,7 +114,7 @@ export const getDashboardOverview = async (req: Request, res: Response) => {
     );
 
     // Recent user registrations (last 5)
-    const recentUsers = await User.find({})
+    const recentUsers = await User.find(userScope)
       .sort({ createdAt: -1 })
       .limit(5)
       .select("name createdAt")
@@ -107,9 +143,11 @@ export const getDashboardOverview = async (req: Request, res: Response) => {
 
     // Users trend
     const usersLast7Days = await User.countDocuments({
+      ...userScope,
       createdAt: { $gte: sevenDaysAgo },
     });
     const usersPrevious7Days = await User.countDocuments({
+      ...userScope,
       createdAt: { $gte: fourteenDaysAgo, $lt: sevenDaysAgo },
     });
     const usersTrend =
@@ -123,28 +161,30 @@ export const getDashboardOverview = async (req: Request, res: Response) => {
     const revenueLast7Days = await Payment.aggregate([
       {
         $match: {
-          status: "success",
+          ...salesScope,
+          status: { $in: COLLECTED_STATUSES },
           paidAt: { $gte: sevenDaysAgo },
         },
       },
       {
         $group: {
           _id: null,
-          total: { $sum: "$amount" },
+          total: { $sum: netAmountExpr },
         },
       },
     ]);
     const revenuePrevious7Days = await Payment.aggregate([
       {
         $match: {
-          status: "success",
+          ...salesScope,
+          status: { $in: COLLECTED_STATUSES },
           paidAt: { $gte: fourteenDaysAgo, $lt: sevenDaysAgo },
         },
       },
       {
         $group: {
           _id: null,
-          total: { $sum: "$amount" },
+          total: { $sum: netAmountExpr },
         },
       },
     ]);
@@ -159,9 +199,13 @@ export const getDashboardOverview = async (req: Request, res: Response) => {
 
     // Tickets sold trend
     const ticketsLast7Days = await SoldTicket.countDocuments({
+      ...salesScope,
+      revokedAt: null,
       createdAt: { $gte: sevenDaysAgo },
     });
     const ticketsPrevious7Days = await SoldTicket.countDocuments({
+      ...salesScope,
+      revokedAt: null,
       createdAt: { $gte: fourteenDaysAgo, $lt: sevenDaysAgo },
     });
     const ticketsTrend =
@@ -174,10 +218,12 @@ export const getDashboardOverview = async (req: Request, res: Response) => {
 
     // Active payments trend
     const activePaymentsLast7Days = await Payment.countDocuments({
+      ...salesScope,
       status: "pending",
       createdAt: { $gte: sevenDaysAgo },
     });
     const activePaymentsPrevious7Days = await Payment.countDocuments({
+      ...salesScope,
       status: "pending",
       createdAt: { $gte: fourteenDaysAgo, $lt: sevenDaysAgo },
     });
@@ -201,7 +247,7 @@ export const getDashboardOverview = async (req: Request, res: Response) => {
         payments: {
           total: totalPayments,
           pending: pendingPayments,
-          revenue: totalRevenue,
+          revenue: toMajorUnits(totalRevenue),
         },
         tickets: {
           total: totalTickets,
@@ -225,3 +271,47 @@ export const getDashboardOverview = async (req: Request, res: Response) => {
     });
   }
 };
+
+/**
+ * Get live event attendance (checked in vs. issued) per ticket tier
+ */
+export const getAttendance = async (req: Request, res: Response) => {
+  try {
+    const attendance = await checkIn.getAttendance(
+      getEventScope(req)?.event._id as mongoose.Types.ObjectId | undefined
+    );
+
+    res.json({
+      status: "success",
+      data: attendance,
+    });
+  } catch (error) {
+    console.error("Error fetching attendance:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch attendance",
+    });
+  }
+};
+
+/**
+ * Get how well abandoned checkout nudges turn into payments
+ */
+export const getCheckoutRecovery = async (req: Request, res: Response) => {
+  try {
+    const stats = await checkoutRecovery.getStats(
+      getEventScope(req)?.event._id as mongoose.Types.ObjectId | undefined
+    );
+
+    res.json({
+      status: "success",
+      data: stats,
+    });
+  } catch (error) {
+    console.error("Error fetching checkout recovery stats:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch checkout recovery stats",
+    });
+  }
+};
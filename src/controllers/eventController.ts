@@ -0,0 +1,286 @@
+import type { Request, Response } from "express";
+import type mongoose from "mongoose";
+import { z } from "zod";
+import { Event, isEventPast, type IEvent } from "../models/Event.js";
+import { Ticket } from "../models/Ticket.js";
+import { SoldTicket } from "../models/SoldTicket.js";
+import {
+  Payment,
+  COLLECTED_STATUSES,
+  netAmountExpr,
+} from "../models/Payment.js";
+import {
+  eventRecordsFilter,
+  findEventByIdOrSlug,
+} from "../utils/eventCatalog.js";
+import { toMajorUnits } from "../utils/money.js";
+
+const eventFields = {
+  name: z.string().trim().min(1, "Name is required"),
+  slug: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .regex(/^[a-z0-9-]+$/, "Slug may only contain letters, numbers and dashes"),
+  description: z.string().optional(),
+  location: z.string().trim().min(1, "Location is required"),
+  dates: z.string().trim().min(1, "Display dates are required"),
+  startsAt: z.coerce.date().optional(),
+  endsAt: z.coerce.date().optional(),
+  installmentDeadline: z.coerce.date().optional(),
+  status: z.enum(["draft", "on_sale", "closed"]).optional(),
+};
+
+const createEventSchema = z.object(eventFields);
+
+// Dates can be cleared with null
+const updateEventSchema = z
+  .object({
+    ...eventFields,
+    startsAt: eventFields.startsAt.nullable(),
+    endsAt: eventFields.endsAt.nullable(),
+    installmentDeadline: eventFields.installmentDeadline.nullable(),
+  })
+  .partial();
+
+function formatEvent(event: IEvent) {
+  return {
+    id: event._id,
+    name: event.name,
+    slug: event.slug,
+    description: event.description,
+    location: event.location,
+    dates: event.dates,
+    startsAt: event.startsAt || null,
+    endsAt: event.endsAt || null,
+    installmentDeadline: event.installmentDeadline || null,
+    status: event.status,
+    isPast: isEventPast(event),
+    createdAt: event.createdAt,
+    updatedAt: event.updatedAt,
+  };
+}
+
+/**
+ * Get all events, including past ones (newest first)
+ */
+export const getEvents = async (req: Request, res: Response) => {
+  try {
+    const filter: any = {};
+
+    if (req.query.status) {
+      filter.status = req.query.status;
+    }
+
+    // upcoming: not finished yet; past: finished
+    const now = new Date();
+    if (req.query.period === "upcoming") {
+      filter.$or = [{ endsAt: null }, { endsAt: { $gt: now } }];
+    } else if (req.query.period === "past") {
+      filter.endsAt = { $lte: now };
+    }
+
+    const events = await Event.find(filter).sort({
+      startsAt: -1,
+      createdAt: -1,
+    });
+
+    res.json({
+      status: "success",
+      data: {
+        events: events.map(formatEvent),
+        count: events.length,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching events:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch events",
+    });
+  }
+};
+
+/**
+ * Get an event with its ticket tiers and sales totals
+ */
+export const getEventById = async (req: Request, res: Response) => {
+  try {
+    const event = await findEventByIdOrSlug(req.params.id as string);
+
+    if (!event) {
+      return res.status(404).json({
+        status: "error",
+        message: "Event not found",
+      });
+    }
+
+    const tickets = await Ticket.find({ eventId: event._id }).sort({
+      price: 1,
+    });
+    const sales = eventRecordsFilter(
+      event._id as mongoose.Types.ObjectId,
+      tickets.map((ticket) => ticket.type)
+    );
+
+    const [ticketsSold, revenueResult] = await Promise.all([
+      SoldTicket.countDocuments({ ...sales, revokedAt: null }),
+      Payment.aggregate([
+        { $match: { ...sales, status: { $in: COLLECTED_STATUSES } } },
+        { $group: { _id: null, total: { $sum: netAmountExpr } } },
+      ]),
+    ]);
+
+    res.json({
+      status: "success",
+      data: {
+        event: formatEvent(event),
+        tickets: tickets.map((ticket) => ({
+          id: ticket._id,
+          name: ticket.name,
+          type: ticket.type,
+          price: toMajorUnits(ticket.price),
+          totalQuantity: ticket.totalQuantity,
+          sold: ticket.sold,
+          available: ticket.available,
+          isActive: ticket.isActive,
+        })),
+        summary: {
+          ticketsSold,
+          revenue: toMajorUnits(revenueResult[0]?.total || 0),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching event:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch event",
+    });
+  }
+};
+
+/**
+ * Create an event
+ */
+export const createEvent = async (req: Request, res: Response) => {
+  try {
+    const validatedData = createEventSchema.parse(req.body);
+
+    const existing = await Event.findOne({ slug: validatedData.slug });
+    if (existing) {
+      return res.status(400).json({
+        status: "error",
+        message: `An event with slug "${validatedData.slug}" already exists`,
+      });
+    }
+
+    const event = await Event.create(validatedData);
+
+    res.status(201).json({
+      status: "success",
+      data: { event: formatEvent(event) },
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: "error",
+        message: "Validation error",
+        errors: error.issues,
+      });
+    }
+
+    console.error("Error creating event:", error);
+    res.status(500).json({
+      status: "error",
+      message: error.message || "Failed to create event",
+    });
+  }
+};
+
+/**
+ * Update an event (closing sales, moving dates, etc.)
+ */
+export const updateEvent = async (req: Request, res: Response) => {
+  try {
+    const validatedData = updateEventSchema.parse(req.body);
+
+    const event = await findEventByIdOrSlug(req.params.id as string);
+    if (!event) {
+      return res.status(404).json({
+        status: "error",
+        message: "Event not found",
+      });
+    }
+
+    if (validatedData.slug && validatedData.slug !== event.slug) {
+      const existing = await Event.findOne({ slug: validatedData.slug });
+      if (existing) {
+        return res.status(400).json({
+          status: "error",
+          message: `An event with slug "${validatedData.slug}" already exists`,
+        });
+      }
+    }
+
+    event.set(validatedData);
+    await event.save();
+
+    res.json({
+      status: "success",
+      data: { event: formatEvent(event) },
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: "error",
+        message: "Validation error",
+        errors: error.issues,
+      });
+    }
+
+    console.error("Error updating event:", error);
+    res.status(500).json({
+      status: "error",
+      message: error.message || "Failed to update event",
+    });
+  }
+};
+
+/**
+ * Delete an event that never had ticket tiers. Events with sales history
+ * are kept for reporting; close them instead.
+ */
+export const deleteEvent = async (req: Request, res: Response) => {
+  try {
+    const event = await findEventByIdOrSlug(req.params.id as string);
+    if (!event) {
+      return res.status(404).json({
+        status: "error",
+        message: "Event not found",
+      });
+    }
+
+    const tierCount = await Ticket.countDocuments({ eventId: event._id });
+    if (tierCount > 0) {
+      return res.status(400).json({
+        status: "error",
+        message:
+          "This event has ticket tiers and is kept for reporting. Set its status to closed instead.",
+      });
+    }
+
+    await event.deleteOne();
+
+    res.json({
+      status: "success",
+      message: "Event deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting event:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to delete event",
+    });
+  }
+};
@@ -0,0 +1,62 @@
+import type { Request, Response } from "express";
+import { FakeTransaction } from "../models/FakeTransaction.js";
+import { paymentProviders } from "../services/paymentProvider.js";
+import type { FakePaymentProvider } from "../services/fakePayments.js";
+
+const OUTCOMES = ["success", "failed", "abandoned"] as const;
+
+/**
+ * Show the fake provider's checkout page
+ */
+export const showFakeCheckout = async (req: Request, res: Response) => {
+  try {
+    const transaction = await FakeTransaction.findOne({
+      reference: req.params.reference,
+    });
+
+    if (!transaction) {
+      return res.status(404).send("Checkout not found");
+    }
+
+    const provider = paymentProviders.get("fake") as FakePaymentProvider;
+    res.type("html").send(provider.renderCheckoutPage(transaction));
+  } catch (error) {
+    console.error("Error showing fake checkout:", error);
+    res.status(500).send("Failed to load checkout");
+  }
+};
+
+/**
+ * Finish a fake checkout with the outcome the tester picked, then send the
+ * buyer to the payment callback like a real provider would
+ */
+export const completeFakeCheckout = async (req: Request, res: Response) => {
+  try {
+    const reference = req.params.reference as string;
+    const outcome = req.body?.outcome;
+
+    if (!OUTCOMES.includes(outcome)) {
+      return res
+        .status(400)
+        .send("Outcome must be success, failed or abandoned");
+    }
+
+    const provider = paymentProviders.get("fake") as FakePaymentProvider;
+    const transaction = await provider.completeCheckout(reference, outcome);
+
+    if (!transaction) {
+      const existing = await FakeTransaction.exists({ reference });
+      return existing
+        ? res.redirect(303, `/api/payments/fake/checkout/${reference}`)
+        : res.status(404).send("Checkout not found");
+    }
+
+    res.redirect(
+      303,
+      `/api/payments/callback?reference=${encodeURIComponent(reference)}`
+    );
+  } catch (error) {
+    console.error("Error completing fake checkout:", error);
+    res.status(500).send("Failed to complete checkout");
+  }
+};
@@ -0,0 +1,92 @@
+import type { Request, Response } from "express";
+import { Fulfilment } from "../models/Fulfilment.js";
+import { fulfilment } from "../services/fulfilment.js";
+
+/**
+ * Get payment fulfilments (newest first), e.g. ?status=failed for the ones
+ * that need an admin
+ */
+export const getFulfilments = async (req: Request, res: Response) => {
+  try {
+    const filter: any = {};
+
+    if (req.query.status) {
+      filter.status = req.query.status;
+    }
+
+    if (req.query.chatId) {
+      filter.chatId = req.query.chatId;
+    }
+
+    if (req.query.reference) {
+      filter.paymentReference = req.query.reference;
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+
+    const fulfilments = await Fulfilment.find(filter)
+      .sort({ createdAt: -1 })
+      .limit(limit);
+
+    res.json({
+      status: "success",
+      data: {
+        fulfilments,
+        count: fulfilments.length,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching fulfilments:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch fulfilments",
+    });
+  }
+};
+
+/**
+ * Run an unfinished fulfilment again now, from the step that failed
+ */
+export const retryFulfilment = async (req: Request, res: Response) => {
+  try {
+    const reference = req.params.reference as string;
+    const existing = await Fulfilment.findOne({ paymentReference: reference });
+
+    if (!existing) {
+      return res.status(404).json({
+        status: "error",
+        message: "Fulfilment not found",
+      });
+    }
+
+    if (existing.status === "fulfilled") {
+      return res.status(400).json({
+        status: "error",
+        message: "This payment has already been fulfilled",
+      });
+    }
+
+    const result = await fulfilment.run(reference);
+    if (!result) {
+      return res.status(409).json({
+        status: "error",
+        message: "This fulfilment is already being processed",
+      });
+    }
+
+    res.json({
+      status: "success",
+      message:
+        result.status === "fulfilled"
+          ? "Fulfilment completed"
+          : `Fulfilment failed again: ${result.lastError}`,
+      data: { fulfilment: result },
+    });
+  } catch (error) {
+    console.error("Error retrying fulfilment:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to retry fulfilment",
+    });
+  }
+};
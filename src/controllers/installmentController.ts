@@ -0,0 +1,659 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import mongoose from "mongoose";
+import {
+  InstallmentPlan,
+  type IInstallmentPlan,
+} from "../models/InstallmentPlan.js";
+import { InstallmentSchedule } from "../models/InstallmentSchedule.js";
+import { CustomPlanRequest } from "../models/CustomPlanRequest.js";
+import {
+  installments,
+  CUSTOM_PLAN_CODE,
+} from "../services/installments.js";
+import { customPlans } from "../services/customPlans.js";
+import { pricing } from "../services/pricing.js";
+import { findTicketByIdOrType } from "../utils/ticketCatalog.js";
+import {
+  eventRecordFilter,
+  getScopedEventId,
+} from "../middleware/eventScope.js";
+import { toMajorUnits, toMinorUnits } from "../utils/money.js";
+import { StockError, ValidationError } from "../errors/AppError.js";
+import type { ITicket } from "../models/Ticket.js";
+
+const splitSchema = z.object({
+  percent: z.number().int().min(1).max(100),
+  dueAfterDays: z.number().int().min(0).optional().nullable(),
+});
+
+const splitsSchema = z
+  .array(splitSchema)
+  .min(2, "A plan needs at least two payments")
+  .refine(
+    (splits) => splits.reduce((sum, split) => sum + split.percent, 0) === 100,
+    { message: "Split percentages must add up to 100" }
+  );
+
+const createPlanSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z0-9]{1,3}$/, "Code must be 1-3 letters or digits")
+    .refine((code) => code !== CUSTOM_PLAN_CODE, {
+      message: `Code "${CUSTOM_PLAN_CODE}" is reserved for custom plans`,
+    }),
+  name: z.string().trim().min(1, "Name is required"),
+  splits: splitsSchema,
+  finalDeadline: z.string().datetime().optional().nullable(),
+  isActive: z.boolean().default(true),
+});
+
+const updatePlanSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  splits: splitsSchema.optional(),
+  finalDeadline: z.string().datetime().optional().nullable(),
+  isActive: z.boolean().optional(),
+});
+
+// A custom plan's payments as an admin sets them, in cedis
+const customInstallmentsSchema = z
+  .array(
+    z.object({
+      amount: z.number().positive().transform(toMinorUnits),
+      dueDate: z
+        .string()
+        .datetime()
+        .transform((date) => new Date(date)),
+    })
+  )
+  .min(1);
+
+const editCustomPlanSchema = z.object({
+  installments: customInstallmentsSchema,
+});
+
+const approveCustomPlanSchema = z.object({
+  installments: customInstallmentsSchema.optional(),
+  note: z.string().trim().min(1).max(500).optional(),
+});
+
+const rejectCustomPlanSchema = z.object({
+  note: z.string().trim().min(1, "Tell the buyer why").max(500),
+});
+
+async function toPlanResponse(plan: IInstallmentPlan, ticket: ITicket) {
+  const deadline = await installments.getDeadline(plan, ticket);
+  const { price } = await pricing.resolve(ticket);
+
+  return {
+    id: plan._id,
+    ticketId: plan.ticketId,
+    ticketType: plan.ticketType,
+    code: plan.code,
+    name: plan.name,
+    splits: plan.splits.map((split) => ({
+      percent: split.percent,
+      dueAfterDays: split.dueAfterDays ?? null,
+    })),
+    finalDeadline: plan.finalDeadline || null,
+    deadline,
+    isActive: plan.isActive,
+    // What a buyer signing up now would pay, in cedis
+    preview: installments
+      .preview(plan, price, deadline)
+      .map((installment) => ({
+        ...installment,
+        amount: toMajorUnits(installment.amount),
+      })),
+    createdAt: plan.createdAt,
+    updatedAt: plan.updatedAt,
+  };
+}
+
+/**
+ * Get the installment plans of a ticket
+ */
+export const getInstallmentPlans = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      return res.status(400).json({
+        status: "error",
+        message: "Ticket ID or type is required",
+      });
+    }
+
+    const ticket = await findTicketByIdOrType(id, getScopedEventId(req));
+    if (!ticket) {
+      return res.status(404).json({
+        status: "error",
+        message: "Ticket not found",
+      });
+    }
+
+    const plans = await InstallmentPlan.find({ ticketId: ticket._id }).sort({
+      code: 1,
+    });
+
+    res.json({
+      status: "success",
+      data: {
+        ticketType: ticket.type,
+        plans: await Promise.all(
+          plans.map((plan) => toPlanResponse(plan, ticket))
+        ),
+        count: plans.length,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    console.error("Error fetching installment plans:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch installment plans",
+    });
+  }
+};
+
+/**
+ * Add an installment plan to a ticket
+ */
+export const createInstallmentPlan = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validatedData = createPlanSchema.parse(req.body);
+
+    if (!id) {
+      return res.status(400).json({
+        status: "error",
+        message: "Ticket ID or type is required",
+      });
+    }
+
+    const ticket = await findTicketByIdOrType(id, getScopedEventId(req));
+    if (!ticket) {
+      return res.status(404).json({
+        status: "error",
+        message: "Ticket not found",
+      });
+    }
+
+    if (
+      await InstallmentPlan.exists({
+        ticketId: ticket._id,
+        code: validatedData.code,
+      })
+    ) {
+      return res.status(400).json({
+        status: "error",
+        message: `${ticket.type} already has a plan ${validatedData.code}`,
+      });
+    }
+
+    const plan = await InstallmentPlan.create({
+      ticketId: ticket._id,
+      ticketType: ticket.type,
+      code: validatedData.code,
+      name: validatedData.name,
+      splits: validatedData.splits,
+      finalDeadline: validatedData.finalDeadline
+        ? new Date(validatedData.finalDeadline)
+        : undefined,
+      isActive: validatedData.isActive,
+    });
+
+    res.status(201).json({
+      status: "success",
+      data: await toPlanResponse(plan, ticket),
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: "error",
+        message: "Validation error",
+        errors: error.issues,
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    console.error("Error creating installment plan:", error);
+    res.status(500).json({
+      status: "error",
+      message: error.message || "Failed to create installment plan",
+    });
+  }
+};
+
+/**
+ * Update an installment plan. Buyers already on the plan keep the schedule
+ * they signed up to; only new sign-ups see the change.
+ */
+export const updateInstallmentPlan = async (req: Request, res: Response) => {
+  try {
+    const { id, planId } = req.params;
+    const validatedData = updatePlanSchema.parse(req.body);
+
+    if (!id || !planId || !mongoose.Types.ObjectId.isValid(planId)) {
+      return res.status(400).json({
+        status: "error",
+        message: "Ticket ID and a valid plan ID are required",
+      });
+    }
+
+    const ticket = await findTicketByIdOrType(id, getScopedEventId(req));
+    const plan = ticket
+      ? await InstallmentPlan.findOne({ _id: planId, ticketId: ticket._id })
+      : null;
+    if (!ticket || !plan) {
+      return res.status(404).json({
+        status: "error",
+        message: "Installment plan not found",
+      });
+    }
+
+    if (validatedData.name) plan.name = validatedData.name;
+    if (validatedData.splits) plan.splits = validatedData.splits;
+    if (validatedData.finalDeadline !== undefined)
+      plan.finalDeadline = validatedData.finalDeadline
+        ? new Date(validatedData.finalDeadline)
+        : undefined;
+    if (validatedData.isActive !== undefined)
+      plan.isActive = validatedData.isActive;
+
+    await plan.save();
+
+    res.json({
+      status: "success",
+      data: await toPlanResponse(plan, ticket),
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: "error",
+        message: "Validation error",
+        errors: error.issues,
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    console.error("Error updating installment plan:", error);
+    res.status(500).json({
+      status: "error",
+      message: error.message || "Failed to update installment plan",
+    });
+  }
+};
+
+/**
+ * Delete an installment plan nobody has signed up to
+ */
+export const deleteInstallmentPlan = async (req: Request, res: Response) => {
+  try {
+    const { id, planId } = req.params;
+
+    if (!id || !planId || !mongoose.Types.ObjectId.isValid(planId)) {
+      return res.status(400).json({
+        status: "error",
+        message: "Ticket ID and a valid plan ID are required",
+      });
+    }
+
+    const ticket = await findTicketByIdOrType(id, getScopedEventId(req));
+    const plan = ticket
+      ? await InstallmentPlan.findOne({ _id: planId, ticketId: ticket._id })
+      : null;
+    if (!plan) {
+      return res.status(404).json({
+        status: "error",
+        message: "Installment plan not found",
+      });
+    }
+
+    const schedules = await InstallmentSchedule.countDocuments({
+      planId: plan._id,
+    });
+    if (schedules > 0) {
+      return res.status(400).json({
+        status: "error",
+        message: `Cannot delete installment plan. ${schedules} buyer(s) have signed up to it. Deactivate instead.`,
+      });
+    }
+
+    await InstallmentPlan.findByIdAndDelete(plan._id);
+
+    res.json({
+      status: "success",
+      message: "Installment plan deleted successfully",
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    console.error("Error deleting installment plan:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to delete installment plan",
+    });
+  }
+};
+
+/**
+ * Get buyers' installment schedules (newest first), optionally filtered by
+ * status, chat or ticket type
+ */
+export const getInstallmentSchedules = async (req: Request, res: Response) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 20;
+    const page = parseInt(req.query.page as string) || 1;
+    const skip = (page - 1) * limit;
+
+    const filter: any = { ...eventRecordFilter(req) };
+    if (req.query.status) {
+      filter.status = req.query.status;
+    }
+    if (req.query.chatId) {
+      filter.chatId = req.query.chatId;
+    }
+    if (req.query.ticketType) {
+      filter.ticketType = String(req.query.ticketType).toUpperCase();
+    }
+
+    const [schedules, total] = await Promise.all([
+      InstallmentSchedule.find(filter)
+        .select("-ledger")
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .skip(skip),
+      InstallmentSchedule.countDocuments(filter),
+    ]);
+
+    res.json({
+      status: "success",
+      data: {
+        schedules,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching installment schedules:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch installment schedules",
+    });
+  }
+};
+
+/**
+ * Get one installment schedule with its ledger of payments
+ */
+export const getInstallmentSchedule = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        status: "error",
+        message: "A valid schedule ID is required",
+      });
+    }
+
+    const schedule = await InstallmentSchedule.findById(id);
+    if (!schedule) {
+      return res.status(404).json({
+        status: "error",
+        message: "Installment schedule not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      data: schedule,
+    });
+  } catch (error) {
+    console.error("Error fetching installment schedule:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch installment schedule",
+    });
+  }
+};
+
+/**
+ * Get custom plan requests (newest first), optionally filtered by status
+ */
+export const getCustomPlanRequests = async (req: Request, res: Response) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 20;
+    const page = parseInt(req.query.page as string) || 1;
+    const skip = (page - 1) * limit;
+
+    const filter: any = { ...eventRecordFilter(req) };
+    if (req.query.status) {
+      filter.status = req.query.status;
+    }
+    if (req.query.chatId) {
+      filter.chatId = req.query.chatId;
+    }
+
+    const [requests, total] = await Promise.all([
+      CustomPlanRequest.find(filter)
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .skip(skip),
+      CustomPlanRequest.countDocuments(filter),
+    ]);
+
+    res.json({
+      status: "success",
+      data: {
+        requests,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching custom plan requests:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch custom plan requests",
+    });
+  }
+};
+
+// Load a request by ID for the review endpoints, answering 400/404 if needed
+async function findCustomPlanRequest(req: Request, res: Response) {
+  const { id } = req.params;
+  if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+    res.status(400).json({
+      status: "error",
+      message: "A valid request ID is required",
+    });
+    return null;
+  }
+
+  const request = await CustomPlanRequest.findById(id);
+  if (!request) {
+    res.status(404).json({
+      status: "error",
+      message: "Custom plan request not found",
+    });
+    return null;
+  }
+  return request;
+}
+
+/**
+ * Change the payments of a custom plan request before deciding on it
+ */
+export const updateCustomPlanRequest = async (req: Request, res: Response) => {
+  try {
+    const validatedData = editCustomPlanSchema.parse(req.body);
+    const request = await findCustomPlanRequest(req, res);
+    if (!request) return;
+
+    const updated = await customPlans.edit(
+      request._id.toString(),
+      validatedData.installments,
+      (req as any).admin?.id
+    );
+
+    res.json({
+      status: "success",
+      data: updated,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: "error",
+        message: "Validation error",
+        errors: error.issues,
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    console.error("Error updating custom plan request:", error);
+    res.status(500).json({
+      status: "error",
+      message: error.message || "Failed to update custom plan request",
+    });
+  }
+};
+
+/**
+ * Approve a custom plan request. The buyer is put on the schedule and sent
+ * it with the link for their first payment.
+ */
+export const approveCustomPlanRequest = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const validatedData = approveCustomPlanSchema.parse(req.body || {});
+    const request = await findCustomPlanRequest(req, res);
+    if (!request) return;
+
+    const approved = await customPlans.approve(
+      request._id.toString(),
+      (req as any).admin?.id,
+      validatedData
+    );
+
+    res.json({
+      status: "success",
+      message: "Custom plan approved and sent to the buyer",
+      data: approved,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: "error",
+        message: "Validation error",
+        errors: error.issues,
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    if (error instanceof StockError) {
+      return res.status(409).json({
+        status: "error",
+        message: "No tickets of this type are left to hold for the plan",
+      });
+    }
+
+    console.error("Error approving custom plan request:", error);
+    res.status(500).json({
+      status: "error",
+      message: error.message || "Failed to approve custom plan request",
+    });
+  }
+};
+
+/**
+ * Reject a custom plan request and tell the buyer why
+ */
+export const rejectCustomPlanRequest = async (req: Request, res: Response) => {
+  try {
+    const validatedData = rejectCustomPlanSchema.parse(req.body);
+    const request = await findCustomPlanRequest(req, res);
+    if (!request) return;
+
+    const rejected = await customPlans.reject(
+      request._id.toString(),
+      (req as any).admin?.id,
+      validatedData.note
+    );
+
+    res.json({
+      status: "success",
+      message: "Custom plan rejected",
+      data: rejected,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: "error",
+        message: "Validation error",
+        errors: error.issues,
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    console.error("Error rejecting custom plan request:", error);
+    res.status(500).json({
+      status: "error",
+      message: error.message || "Failed to reject custom plan request",
+    });
+  }
+};
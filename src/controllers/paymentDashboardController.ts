@@ -1,15 +1,58 @@
 import type { Request, Response } from "express";
-import { Payment } from "../models/Payment.js";
+import mongoose from "mongoose";
+import { z } from "zod";
+import {
+  Payment,
+  COLLECTED_STATUSES,
+  netAmountExpr,
+} from "../models/Payment.js";
+import { ReconciliationReport } from "../models/ReconciliationReport.js";
+import { Refund } from "../models/Refund.js";
+import { reconciliation } from "../services/reconciliation.js";
+import { refunds } from "../services/refunds.js";
+import { receipts } from "../services/receipts.js";
+import { email } from "../services/email.js";
+import { BackendError, ValidationError } from "../errors/AppError.js";
 import { User } from "../models/User.js";
 import type { UserSession } from "../types/session.js";
+import { eventRecordFilter, eventUserFilter } from "../middleware/eventScope.js";
+import { toMajorUnits, toMinorUnits } from "../utils/money.js";
+
+const refundSchema = z.object({
+  // Cedis; omit to refund what's left
+  amount: z.number().positive().transform(toMinorUnits).optional(),
+  reason: z.string().trim().min(1, "Reason is required"),
+  ticketAction: z.enum(["invalidate", "keep"]),
+  soldTicketIds: z
+    .array(
+      z.string().refine((id) => mongoose.Types.ObjectId.isValid(id), {
+        message: "Invalid ticket ID",
+      })
+    )
+    .min(1)
+    .optional(),
+});
+
+const resendReceiptSchema = z.object({
+  channels: z
+    .array(z.enum(["email", "whatsapp"]))
+    .min(1)
+    .default(["email", "whatsapp"]),
+  // Send to this address instead of the buyer's
+  email: z.string().trim().email().optional(),
+});
 
 /**
  * Get payment dashboard statistics
  */
 export const getPaymentDashboard = async (req: Request, res: Response) => {
   try {
+    const userScope = eventUserFilter(req);
+    const salesScope = eventRecordFilter(req);
+
     // Active users with total money paid
     const activeUsers = await User.find({
+      ...userScope,
       "session.ticketId": { $exists: true, $ne: null },
     });
 
@@ -25,26 +68,29 @@ export const getPaymentDashboard = async (req: Request, res: Response) => {
 
     // Pending payments count (users with remaining balance)
     const pendingPaymentsCount = await User.countDocuments({
+      ...userScope,
       "session.ticketId": { $exists: false },
       "session.remainingBalance": { $gt: 0 },
     });
 
-    // Total transaction count (successful payments)
+    // Total transaction count (payments taken, refunded or not)
     const totalTransactionCount = await Payment.countDocuments({
-      status: "success",
+      ...salesScope,
+      status: { $in: COLLECTED_STATUSES },
     });
 
-    // Total amount from all successful payments
+    // Total amount taken, less what has been refunded
     const totalRevenueResult = await Payment.aggregate([
       {
         $match: {
-          status: "success",
+          ...salesScope,
+          status: { $in: COLLECTED_STATUSES },
         },
       },
       {
         $group: {
           _id: null,
-          total: { $sum: "$amount" },
+          total: { $sum: netAmountExpr },
         },
       },
     ]);
@@ -57,14 +103,14 @@ export const getPaymentDashboard = async (req: Request, res: Response) => {
       data: {
         activeUsers: {
           count: activeUsers.length,
-          totalMoney: totalMoneyFromActiveUsers,
+          totalMoney: toMajorUnits(totalMoneyFromActiveUsers),
         },
         pendingPayments: {
           count: pendingPaymentsCount,
         },
         transactions: {
           totalCount: totalTransactionCount,
-          totalRevenue: totalRevenue,
+          totalRevenue: toMajorUnits(totalRevenue),
         },
       },
     });
@@ -85,15 +131,17 @@ export const getPaymentHistory = async (req: Request, res: Response) => {
     const page = parseInt(req.query.page as string) || 1;
     const limit = parseInt(req.query.limit as string) || 50;
     const skip = (page - 1) * limit;
+    const salesScope = eventRecordFilter(req);
 
     // Get successful payments with user information
     const payments = await Payment.find({
+      ...salesScope,
       status: "success",
     })
       .sort({ paidAt: -1, createdAt: -1 })
       .limit(limit)
       .skip(skip)
-      .select("_id chatId amount ticketType paidAt createdAt");
+      .select("_id chatId amount provider ticketType paidAt createdAt");
 
     // Get user names and emails for each payment
     const paymentHistory = await Promise.all(
@@ -106,7 +154,8 @@ export const getPaymentHistory = async (req: Request, res: Response) => {
           chatId: payment.chatId,
           userName: user?.name || "Unknown",
           userEmail: user?.email || null,
-          amount: payment.amount,
+          amount: toMajorUnits(payment.amount),
+          provider: payment.provider,
           ticketType: payment.ticketType || null,
           paidAt: payment.paidAt || payment.createdAt,
         };
@@ -114,6 +163,7 @@ export const getPaymentHistory = async (req: Request, res: Response) => {
     );
 
     const total = await Payment.countDocuments({
+      ...salesScope,
       status: "success",
     });
 
@@ -143,8 +193,11 @@ export const getPaymentHistory = async (req: Request, res: Response) => {
  */
 export const getPaymentStatistics = async (req: Request, res: Response) => {
   try {
-    // Payment status breakdown
+    const salesScope = eventRecordFilter(req);
+
+    // Payment status breakdown; links replaced by a newer one aren't payments
     const statusBreakdown = await Payment.aggregate([
+      { $match: { ...salesScope, status: { $ne: "superseded" } } },
       {
         $group: {
           _id: "$status",
@@ -158,14 +211,15 @@ export const getPaymentStatistics = async (req: Request, res: Response) => {
     const paymentsByTicketType = await Payment.aggregate([
       {
         $match: {
-          status: "success",
+          ...salesScope,
+          status: { $in: COLLECTED_STATUSES },
         },
       },
       {
         $group: {
           _id: "$ticketType",
           count: { $sum: 1 },
-          totalAmount: { $sum: "$amount" },
+          totalAmount: { $sum: netAmountExpr },
         },
       },
     ]);
@@ -174,14 +228,15 @@ export const getPaymentStatistics = async (req: Request, res: Response) => {
     const paymentsByPaymentType = await Payment.aggregate([
       {
         $match: {
-          status: "success",
+          ...salesScope,
+          status: { $in: COLLECTED_STATUSES },
         },
       },
       {
         $group: {
           _id: "$paymentType",
           count: { $sum: 1 },
-          totalAmount: { $sum: "$amount" },
+          totalAmount: { $sum: netAmountExpr },
         },
       },
     ]);
@@ -191,7 +246,8 @@ export const getPaymentStatistics = async (req: Request, res: Response) => {
     sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
 
     const recentPayments = await Payment.countDocuments({
-      status: "success",
+      ...salesScope,
+      status: { $in: COLLECTED_STATUSES },
       paidAt: { $gte: sevenDaysAgo },
     });
 
@@ -200,21 +256,23 @@ export const getPaymentStatistics = async (req: Request, res: Response) => {
     today.setHours(0, 0, 0, 0);
 
     const todayPayments = await Payment.countDocuments({
-      status: "success",
+      ...salesScope,
+      status: { $in: COLLECTED_STATUSES },
       paidAt: { $gte: today },
     });
 
     const todayRevenueResult = await Payment.aggregate([
       {
         $match: {
-          status: "success",
+          ...salesScope,
+          status: { $in: COLLECTED_STATUSES },
           paidAt: { $gte: today },
         },
       },
       {
         $group: {
           _id: null,
-          total: { $sum: "$amount" },
+          total: { $sum: netAmountExpr },
         },
       },
     ]);
@@ -228,23 +286,23 @@ export const getPaymentStatistics = async (req: Request, res: Response) => {
         statusBreakdown: statusBreakdown.map((item) => ({
           status: item._id,
           count: item.count,
-          totalAmount: item.totalAmount,
+          totalAmount: toMajorUnits(item.totalAmount),
         })),
         byTicketType: paymentsByTicketType.map((item) => ({
           ticketType: item._id || "Unknown",
           count: item.count,
-          totalAmount: item.totalAmount,
+          totalAmount: toMajorUnits(item.totalAmount),
         })),
         byPaymentType: paymentsByPaymentType.map((item) => ({
           paymentType: item._id || "Unknown",
           count: item.count,
-          totalAmount: item.totalAmount,
+          totalAmount: toMajorUnits(item.totalAmount),
         })),
         recent: {
           last7Days: recentPayments,
           today: {
             count: todayPayments,
-            revenue: todayRevenue,
+            revenue: toMajorUnits(todayRevenue),
           },
         },
       },
@@ -257,3 +315,318 @@ export const getPaymentStatistics = async (req: Request, res: Response) => {
     });
   }
 };
+
+/**
+ * Get reconciliation reports (newest first, without the per-payment items)
+ */
+export const getReconciliationReports = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 20;
+    const page = parseInt(req.query.page as string) || 1;
+    const skip = (page - 1) * limit;
+
+    const filter: any = {};
+    if (req.query.trigger) {
+      filter.trigger = req.query.trigger;
+    }
+
+    const [reports, total] = await Promise.all([
+      ReconciliationReport.find(filter)
+        .select("-items")
+        .sort({ startedAt: -1 })
+        .limit(limit)
+        .skip(skip),
+      ReconciliationReport.countDocuments(filter),
+    ]);
+
+    res.json({
+      status: "success",
+      data: {
+        reports,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching reconciliation reports:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch reconciliation reports",
+    });
+  }
+};
+
+/**
+ * Get one reconciliation report with what happened to each payment
+ */
+export const getReconciliationReport = async (
+  req: Request,
+  res: Response
+) => {
+  try {
+    const report = await ReconciliationReport.findById(req.params.id);
+
+    if (!report) {
+      return res.status(404).json({
+        status: "error",
+        message: "Reconciliation report not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      data: { report },
+    });
+  } catch (error) {
+    console.error("Error fetching reconciliation report:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch reconciliation report",
+    });
+  }
+};
+
+/**
+ * Check pending payments with Paystack now. The run continues in the
+ * background; poll its report for the outcome.
+ */
+export const runReconciliation = async (req: Request, res: Response) => {
+  try {
+    const currentAdmin = (req as any).admin;
+    const run = await reconciliation.start("manual", currentAdmin?.id);
+
+    if (!run) {
+      return res.status(409).json({
+        status: "error",
+        message: "A reconciliation run is already in progress",
+      });
+    }
+
+    res.status(202).json({
+      status: "success",
+      message: "Reconciliation started",
+      data: { report: run.report },
+    });
+  } catch (error) {
+    console.error("Error starting reconciliation:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to start reconciliation",
+    });
+  }
+};
+
+/**
+ * Refund all or part of a successful payment through Paystack, cancelling
+ * or keeping its tickets
+ */
+export const refundPayment = async (req: Request, res: Response) => {
+  try {
+    const validatedData = refundSchema.parse(req.body);
+
+    const payment = await Payment.findOne({
+      paystackReference: req.params.reference,
+    });
+    if (!payment) {
+      return res.status(404).json({
+        status: "error",
+        message: "Payment not found",
+      });
+    }
+
+    const currentAdmin = (req as any).admin;
+    const refund = await refunds.request(
+      payment,
+      validatedData,
+      currentAdmin?.id
+    );
+
+    res.status(201).json({
+      status: "success",
+      message: "Refund requested",
+      data: { refund },
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: "error",
+        message: "Validation error",
+        errors: error.issues,
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    // Paystack refused the refund; nothing was changed
+    if (error instanceof BackendError) {
+      return res.status(502).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    console.error("Error refunding payment:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to refund payment",
+    });
+  }
+};
+
+/**
+ * Get refunds (newest first)
+ */
+export const getRefunds = async (req: Request, res: Response) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 20;
+    const page = parseInt(req.query.page as string) || 1;
+    const skip = (page - 1) * limit;
+
+    const filter: any = {};
+    if (req.query.status) {
+      filter.status = req.query.status;
+    }
+    if (req.query.reference) {
+      filter.paymentReference = req.query.reference;
+    }
+
+    const [refundList, total] = await Promise.all([
+      Refund.find(filter).sort({ createdAt: -1 }).limit(limit).skip(skip),
+      Refund.countDocuments(filter),
+    ]);
+
+    res.json({
+      status: "success",
+      data: {
+        refunds: refundList,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching refunds:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch refunds",
+    });
+  }
+};
+
+/**
+ * Download the PDF receipt for a paid payment
+ */
+export const getPaymentReceipt = async (req: Request, res: Response) => {
+  try {
+    const payment = await Payment.findOne({
+      paystackReference: req.params.reference,
+    });
+    if (!payment) {
+      return res.status(404).json({
+        status: "error",
+        message: "Payment not found",
+      });
+    }
+    if (!payment.paidAt) {
+      return res.status(400).json({
+        status: "error",
+        message: "Payment has not been paid",
+      });
+    }
+
+    const { pdf, filename } = await receipts.render(payment);
+    res.setHeader("Content-Type", "application/pdf");
+    res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error("Error rendering receipt:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to render receipt",
+    });
+  }
+};
+
+/**
+ * Send a payment's receipt to the buyer again, on WhatsApp and/or by email
+ */
+export const resendPaymentReceipt = async (req: Request, res: Response) => {
+  try {
+    const validatedData = resendReceiptSchema.parse(req.body);
+
+    const payment = await Payment.findOne({
+      paystackReference: req.params.reference,
+    });
+    if (!payment) {
+      return res.status(404).json({
+        status: "error",
+        message: "Payment not found",
+      });
+    }
+
+    // Check email can go out before anything is sent on WhatsApp
+    if (validatedData.channels.includes("email")) {
+      if (!email.isConfigured()) {
+        return res.status(400).json({
+          status: "error",
+          message: "Email is not configured (set SMTP_HOST)",
+        });
+      }
+      const user = await User.findOne({ chatId: payment.chatId });
+      if (!validatedData.email && !user?.email) {
+        return res.status(400).json({
+          status: "error",
+          message: "The buyer has no email address; provide one to send to",
+        });
+      }
+    }
+
+    const sent = await receipts.send(
+      payment,
+      validatedData.channels,
+      validatedData.email
+    );
+
+    res.json({
+      status: "success",
+      message: "Receipt sent",
+      data: { channels: sent },
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: "error",
+        message: "Validation error",
+        errors: error.issues,
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    console.error("Error resending receipt:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to send receipt",
+    });
+  }
+};
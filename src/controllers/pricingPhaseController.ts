@@ -0,0 +1,380 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import mongoose from "mongoose";
+import {
+  PricingPhase,
+  type IPricingPhase,
+} from "../models/PricingPhase.js";
+import { pricing } from "../services/pricing.js";
+import { ValidationError } from "../errors/AppError.js";
+import {
+  findTicketByIdOrType,
+  getActiveTickets,
+} from "../utils/ticketCatalog.js";
+import { getScopedEventId } from "../middleware/eventScope.js";
+import { toMajorUnits, toMinorUnits } from "../utils/money.js";
+
+const createPhaseSchema = z
+  .object({
+    name: z.string().trim().min(1, "Name is required"),
+    price: z
+      .number()
+      .min(0, "Price cannot be negative")
+      .transform(toMinorUnits),
+    startsAt: z.string().datetime(),
+    endsAt: z.string().datetime().optional().nullable(),
+    quantityCap: z.number().int().positive().optional().nullable(),
+  })
+  .refine(
+    (data) => !data.endsAt || new Date(data.endsAt) > new Date(data.startsAt),
+    { message: "endsAt must be after startsAt", path: ["endsAt"] }
+  );
+
+const updatePhaseSchema = z.object({
+  name: z.string().trim().min(1).optional(),
+  price: z.number().min(0).transform(toMinorUnits).optional(),
+  startsAt: z.string().datetime().optional(),
+  endsAt: z.string().datetime().optional().nullable(),
+  quantityCap: z.number().int().positive().optional().nullable(),
+  isActive: z.boolean().optional(),
+});
+
+// Where a phase stands at the given time
+function getPhaseStatus(phase: IPricingPhase, at: Date) {
+  if (!phase.isActive) return "inactive";
+  if (phase.startsAt > at) return "scheduled";
+  if (phase.endsAt && phase.endsAt <= at) return "ended";
+  if (
+    phase.quantityCap != null &&
+    phase.sold + phase.reserved >= phase.quantityCap
+  ) {
+    return "sold_out";
+  }
+  return "running";
+}
+
+function toPhaseResponse(phase: IPricingPhase, at: Date = new Date()) {
+  return {
+    id: phase._id,
+    ticketId: phase.ticketId,
+    ticketType: phase.ticketType,
+    name: phase.name,
+    price: toMajorUnits(phase.price),
+    startsAt: phase.startsAt,
+    endsAt: phase.endsAt || null,
+    quantityCap: phase.quantityCap ?? null,
+    sold: phase.sold,
+    reserved: phase.reserved,
+    remaining:
+      phase.quantityCap != null
+        ? Math.max(0, phase.quantityCap - phase.sold - phase.reserved)
+        : null,
+    isActive: phase.isActive,
+    status: getPhaseStatus(phase, at),
+    createdAt: phase.createdAt,
+    updatedAt: phase.updatedAt,
+  };
+}
+
+/**
+ * Get the pricing phases (sale waves) of a ticket
+ */
+export const getPricingPhases = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      return res.status(400).json({
+        status: "error",
+        message: "Ticket ID or type is required",
+      });
+    }
+
+    const ticket = await findTicketByIdOrType(id, getScopedEventId(req));
+    if (!ticket) {
+      return res.status(404).json({
+        status: "error",
+        message: "Ticket not found",
+      });
+    }
+
+    const phases = await PricingPhase.find({ ticketId: ticket._id }).sort({
+      startsAt: 1,
+      price: 1,
+    });
+    const { phase: current } = await pricing.resolve(ticket);
+
+    res.json({
+      status: "success",
+      data: {
+        ticketType: ticket.type,
+        basePrice: toMajorUnits(ticket.price),
+        currentPhaseId: current?._id || null,
+        phases: phases.map((phase) => toPhaseResponse(phase)),
+        count: phases.length,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    console.error("Error fetching pricing phases:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch pricing phases",
+    });
+  }
+};
+
+/**
+ * Add a pricing phase to a ticket
+ */
+export const createPricingPhase = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validatedData = createPhaseSchema.parse(req.body);
+
+    if (!id) {
+      return res.status(400).json({
+        status: "error",
+        message: "Ticket ID or type is required",
+      });
+    }
+
+    const ticket = await findTicketByIdOrType(id, getScopedEventId(req));
+    if (!ticket) {
+      return res.status(404).json({
+        status: "error",
+        message: "Ticket not found",
+      });
+    }
+
+    const phase = await PricingPhase.create({
+      ticketId: ticket._id,
+      ticketType: ticket.type,
+      name: validatedData.name,
+      price: validatedData.price,
+      startsAt: new Date(validatedData.startsAt),
+      endsAt: validatedData.endsAt ? new Date(validatedData.endsAt) : undefined,
+      quantityCap: validatedData.quantityCap ?? undefined,
+    });
+
+    res.status(201).json({
+      status: "success",
+      data: toPhaseResponse(phase),
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: "error",
+        message: "Validation error",
+        errors: error.issues,
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    console.error("Error creating pricing phase:", error);
+    res.status(500).json({
+      status: "error",
+      message: error.message || "Failed to create pricing phase",
+    });
+  }
+};
+
+/**
+ * Update a pricing phase. Links already issued keep the price they were
+ * issued at; only new checkouts see the change.
+ */
+export const updatePricingPhase = async (req: Request, res: Response) => {
+  try {
+    const { id, phaseId } = req.params;
+    const validatedData = updatePhaseSchema.parse(req.body);
+
+    if (!id || !phaseId || !mongoose.Types.ObjectId.isValid(phaseId)) {
+      return res.status(400).json({
+        status: "error",
+        message: "Ticket ID and a valid phase ID are required",
+      });
+    }
+
+    const ticket = await findTicketByIdOrType(id, getScopedEventId(req));
+    const phase = ticket
+      ? await PricingPhase.findOne({ _id: phaseId, ticketId: ticket._id })
+      : null;
+    if (!phase) {
+      return res.status(404).json({
+        status: "error",
+        message: "Pricing phase not found",
+      });
+    }
+
+    if (validatedData.name) phase.name = validatedData.name;
+    if (validatedData.price !== undefined) phase.price = validatedData.price;
+    if (validatedData.startsAt)
+      phase.startsAt = new Date(validatedData.startsAt);
+    if (validatedData.endsAt !== undefined)
+      phase.endsAt = validatedData.endsAt
+        ? new Date(validatedData.endsAt)
+        : undefined;
+    if (validatedData.isActive !== undefined)
+      phase.isActive = validatedData.isActive;
+
+    if (phase.endsAt && phase.endsAt <= phase.startsAt) {
+      return res.status(400).json({
+        status: "error",
+        message: "endsAt must be after startsAt",
+      });
+    }
+
+    if (validatedData.quantityCap !== undefined) {
+      const committed = phase.sold + phase.reserved;
+      if (
+        validatedData.quantityCap !== null &&
+        validatedData.quantityCap < committed
+      ) {
+        return res.status(400).json({
+          status: "error",
+          message: `Quantity cap cannot be lower than ${committed} (sold + currently reserved at this price)`,
+        });
+      }
+      phase.quantityCap = validatedData.quantityCap ?? undefined;
+    }
+
+    await phase.save();
+
+    res.json({
+      status: "success",
+      data: toPhaseResponse(phase),
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: "error",
+        message: "Validation error",
+        errors: error.issues,
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    console.error("Error updating pricing phase:", error);
+    res.status(500).json({
+      status: "error",
+      message: error.message || "Failed to update pricing phase",
+    });
+  }
+};
+
+/**
+ * Delete a pricing phase that has never been used
+ */
+export const deletePricingPhase = async (req: Request, res: Response) => {
+  try {
+    const { id, phaseId } = req.params;
+
+    if (!id || !phaseId || !mongoose.Types.ObjectId.isValid(phaseId)) {
+      return res.status(400).json({
+        status: "error",
+        message: "Ticket ID and a valid phase ID are required",
+      });
+    }
+
+    const ticket = await findTicketByIdOrType(id, getScopedEventId(req));
+    const phase = ticket
+      ? await PricingPhase.findOne({ _id: phaseId, ticketId: ticket._id })
+      : null;
+    if (!phase) {
+      return res.status(404).json({
+        status: "error",
+        message: "Pricing phase not found",
+      });
+    }
+
+    if (phase.sold > 0 || phase.reserved > 0) {
+      return res.status(400).json({
+        status: "error",
+        message: `Cannot delete pricing phase. ${phase.sold} ticket(s) have been sold and ${phase.reserved} are reserved at this price. Deactivate instead.`,
+      });
+    }
+
+    await PricingPhase.findByIdAndDelete(phase._id);
+
+    res.json({
+      status: "success",
+      message: "Pricing phase deleted successfully",
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    console.error("Error deleting pricing phase:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to delete pricing phase",
+    });
+  }
+};
+
+/**
+ * Preview what is on sale, and at what price, at a given time
+ */
+export const previewPricing = async (req: Request, res: Response) => {
+  try {
+    const at = req.query.at ? new Date(req.query.at as string) : new Date();
+
+    if (isNaN(at.getTime())) {
+      return res.status(400).json({
+        status: "error",
+        message: "Invalid 'at' date. Use an ISO 8601 timestamp.",
+      });
+    }
+
+    const tickets = await getActiveTickets(getScopedEventId(req));
+    const preview = await Promise.all(
+      tickets.map(async (ticket) => {
+        const { price, phase } = await pricing.resolve(ticket, at);
+        return {
+          ticketId: ticket._id,
+          type: ticket.type,
+          name: ticket.name,
+          basePrice: toMajorUnits(ticket.price),
+          price: toMajorUnits(price),
+          phase: phase ? toPhaseResponse(phase, at) : null,
+        };
+      })
+    );
+
+    res.json({
+      status: "success",
+      data: {
+        at,
+        tickets: preview,
+      },
+    });
+  } catch (error) {
+    console.error("Error previewing pricing:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to preview pricing",
+    });
+  }
+};
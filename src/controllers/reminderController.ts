@@ -3,30 +3,81 @@ import { z } from "zod";
 import mongoose from "mongoose";
 import { ReminderTemplate } from "../models/ReminderTemplate.js";
 import { ReminderLog } from "../models/ReminderLog.js";
+import { CheckoutNudge } from "../models/CheckoutNudge.js";
 import { User } from "../models/User.js";
+import { InstallmentSchedule } from "../models/InstallmentSchedule.js";
 import { client } from "../config/client.js";
 import type { UserSession } from "../types/session.js";
-import { backend } from "../services/backend.js";
-import { daysUntil } from "../utils/date.js";
+import { paymentLinks } from "../services/paymentLinks.js";
+import { installments } from "../services/installments.js";
+import { daysUntil, formatDate } from "../utils/date.js";
+import { replaceTemplateVariables } from "../utils/reminderTemplate.js";
+import { getEventAudience, resolveEventRef } from "../utils/eventCatalog.js";
+import { eventIdFilter } from "../middleware/eventScope.js";
+
+type UserDoc = InstanceType<typeof User>;
+
+/**
+ * Template variables for a buyer. Those paying in installments get the next
+ * installment's amount, due date and a link to pay it.
+ */
+async function getReminderVariables(
+  user: UserDoc
+): Promise<Record<string, any>> {
+  const session = user.session as UserSession;
+  const variables: Record<string, any> = {
+    userName: user.name,
+    ticketType: session.ticketType,
+  };
+
+  const schedule = await installments.getActive(user.chatId);
+  const next = schedule && installments.nextInstallment(schedule);
+  if (!schedule || !next) return variables;
+
+  variables.ticketType = schedule.ticketType;
+  variables.amount = installments.amountDue(schedule);
+  variables.daysLeft = daysUntil(next.dueDate.toISOString());
+  variables.dueDate = formatDate(next.dueDate);
+
+  try {
+    const { paymentLink } = await paymentLinks.get(
+      variables.amount,
+      user.chatId,
+      {
+        ticketType: schedule.ticketType,
+        eventId: schedule.eventId?.toString(),
+        paymentType: "installment",
+        installmentNumber: next.number,
+      }
+    );
+    variables.paymentLink = paymentLink;
+  } catch (error) {
+    console.error("Error generating payment link:", error);
+  }
+
+  return variables;
+}
 
 const createTemplateSchema = z.object({
   name: z.string().min(1, "Name is required"),
   description: z.string().optional(),
-  type: z.enum(["payment_due", "custom"]),
+  type: z.enum(["payment_due", "abandoned_checkout", "custom"]),
   triggerDays: z.number().min(0).optional(),
   messageTemplate: z.string().min(1, "Message template is required"),
   isActive: z.boolean().default(true),
   filter: z.enum(["all", "paid", "pending"]).default("pending"),
+  eventId: z.string().min(1).optional().nullable(), // ID or slug; omit for everyone
 });
 
 const updateTemplateSchema = z.object({
   name: z.string().min(1).optional(),
   description: z.string().optional(),
-  type: z.enum(["payment_due", "custom"]).optional(),
+  type: z.enum(["payment_due", "abandoned_checkout", "custom"]).optional(),
   triggerDays: z.number().min(0).optional(),
   messageTemplate: z.string().min(1).optional(),
   isActive: z.boolean().optional(),
   filter: z.enum(["all", "paid", "pending"]).optional(),
+  eventId: z.string().min(1).optional().nullable(),
 });
 
 const sendReminderSchema = z.object({
@@ -36,51 +87,12 @@ const sendReminderSchema = z.object({
   filter: z.enum(["all", "paid", "pending"]).optional(),
 });
 
-/**
- * Replace template variables with actual values
- */
-function replaceTemplateVariables(
-  template: string,
-  variables: {
-    amount?: number;
-    daysLeft?: number;
-    paymentLink?: string;
-    dueDate?: string;
-    userName?: string;
-    ticketType?: string;
-  }
-): string {
-  let message = template;
-  if (variables.amount !== undefined) {
-    message = message.replace(/\{\{amount\}\}/g, variables.amount.toFixed(2));
-  }
-  if (variables.daysLeft !== undefined) {
-    message = message.replace(
-      /\{\{daysLeft\}\}/g,
-      variables.daysLeft.toString()
-    );
-  }
-  if (variables.paymentLink) {
-    message = message.replace(/\{\{paymentLink\}\}/g, variables.paymentLink);
-  }
-  if (variables.dueDate) {
-    message = message.replace(/\{\{dueDate\}\}/g, variables.dueDate);
-  }
-  if (variables.userName) {
-    message = message.replace(/\{\{userName\}\}/g, variables.userName);
-  }
-  if (variables.ticketType) {
-    message = message.replace(/\{\{ticketType\}\}/g, variables.ticketType);
-  }
-  return message;
-}
-
 /**
  * Get all reminder templates
  */
 export const getAllTemplates = async (req: Request, res: Response) => {
   try {
-    const templates = await ReminderTemplate.find({})
+    const templates = await ReminderTemplate.find(eventIdFilter(req))
       .sort({ createdAt: -1 })
       .lean();
 
@@ -96,6 +108,7 @@ export const getAllTemplates = async (req: Request, res: Response) => {
           messageTemplate: t.messageTemplate,
           isActive: t.isActive,
           filter: t.filter,
+          eventId: t.eventId?.toString() || null,
           createdAt: t.createdAt,
           updatedAt: t.updatedAt,
         })),
@@ -137,6 +150,7 @@ export const getTemplateById = async (req: Request, res: Response) => {
           messageTemplate: template.messageTemplate,
           isActive: template.isActive,
           filter: template.filter,
+          eventId: template.eventId?.toString() || null,
           createdAt: template.createdAt,
           updatedAt: template.updatedAt,
         },
@@ -167,8 +181,17 @@ export const createTemplate = async (req: Request, res: Response) => {
       });
     }
 
+    const eventId = await resolveEventRef(validatedData.eventId);
+    if (eventId === undefined) {
+      return res.status(404).json({
+        status: "error",
+        message: "Event not found",
+      });
+    }
+
     const template = await ReminderTemplate.create({
       ...validatedData,
+      eventId,
       createdBy: currentAdmin?.id || null,
     });
 
@@ -184,6 +207,7 @@ export const createTemplate = async (req: Request, res: Response) => {
           messageTemplate: template.messageTemplate,
           isActive: template.isActive,
           filter: template.filter,
+          eventId: template.eventId?.toString() || null,
           createdAt: template.createdAt,
           updatedAt: template.updatedAt,
         },
@@ -214,9 +238,21 @@ export const updateTemplate = async (req: Request, res: Response) => {
     const { id } = req.params;
     const validatedData = updateTemplateSchema.parse(req.body);
 
+    const update: Record<string, unknown> = { ...validatedData };
+    if (validatedData.eventId !== undefined) {
+      const eventId = await resolveEventRef(validatedData.eventId);
+      if (eventId === undefined) {
+        return res.status(404).json({
+          status: "error",
+          message: "Event not found",
+        });
+      }
+      update.eventId = eventId;
+    }
+
     const template = await ReminderTemplate.findByIdAndUpdate(
       id,
-      validatedData,
+      update,
       { new: true, runValidators: true }
     );
 
@@ -239,6 +275,7 @@ export const updateTemplate = async (req: Request, res: Response) => {
           messageTemplate: template.messageTemplate,
           isActive: template.isActive,
           filter: template.filter,
+          eventId: template.eventId?.toString() || null,
           updatedAt: template.updatedAt,
         },
       },
@@ -351,6 +388,52 @@ export const getReminderLogs = async (req: Request, res: Response) => {
   }
 };
 
+/**
+ * Get abandoned checkout nudges (newest first)
+ */
+export const getCheckoutNudges = async (req: Request, res: Response) => {
+  try {
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const skip = (page - 1) * limit;
+
+    const filter: any = {};
+    if (req.query.status) {
+      filter.status = req.query.status;
+    }
+    if (req.query.chatId) {
+      filter.chatId = req.query.chatId;
+    }
+    if (req.query.checkoutReference) {
+      filter.checkoutReference = req.query.checkoutReference;
+    }
+
+    const [nudges, total] = await Promise.all([
+      CheckoutNudge.find(filter).sort({ sentAt: -1 }).limit(limit).skip(skip),
+      CheckoutNudge.countDocuments(filter),
+    ]);
+
+    res.json({
+      status: "success",
+      data: {
+        nudges,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching checkout nudges:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch checkout nudges",
+    });
+  }
+};
+
 /**
  * Manually send reminder
  */
@@ -384,37 +467,7 @@ export const sendReminder = async (req: Request, res: Response) => {
           });
         }
 
-        const session = user.session as UserSession;
-        const variables: any = {
-          userName: user.name,
-          ticketType: session.ticketType,
-        };
-
-        if (session.remainingBalance) {
-          variables.amount = session.remainingBalance;
-          variables.daysLeft = session.nextDueDateISO
-            ? daysUntil(session.nextDueDateISO)
-            : undefined;
-          variables.dueDate = session.nextDueDate || undefined;
-
-          if (session.ticketType) {
-            try {
-              const { paymentLink } = await backend.generatePaymentLink(
-                session.remainingBalance,
-                chatId,
-                chatId,
-                {
-                  ticketType: session.ticketType,
-                  paymentType: session.paymentType || "installment",
-                  installmentNumber: session.installmentNumber || 1,
-                }
-              );
-              variables.paymentLink = paymentLink;
-            } catch (error) {
-              console.error("Error generating payment link:", error);
-            }
-          }
-        }
+        const variables = await getReminderVariables(user);
 
         finalMessage = replaceTemplateVariables(
           template.messageTemplate,
@@ -479,14 +532,11 @@ export const sendReminder = async (req: Request, res: Response) => {
           return session.ticketId !== undefined;
         });
       } else if (sessionFilter === "pending") {
-        users = users.filter((user) => {
-          const session = user.session as UserSession;
-          return (
-            !session.ticketId &&
-            session.remainingBalance &&
-            session.remainingBalance > 0
-          );
-        });
+        // Buyers still paying off an installment plan
+        const paying = new Set(
+          await InstallmentSchedule.distinct("chatId", { status: "active" })
+        );
+        users = users.filter((user) => paying.has(user.chatId));
       }
 
       let template = null;
@@ -498,43 +548,19 @@ export const sendReminder = async (req: Request, res: Response) => {
             message: "Template not found",
           });
         }
+
+        // Event templates only go to that event's ticket holders and buyers
+        if (template.eventId) {
+          const audience = await getEventAudience(template.eventId);
+          users = users.filter((user) => audience.has(user.chatId));
+        }
       }
 
       for (const user of users) {
         let finalMessage = message;
         try {
           if (template && !message) {
-            const session = user.session as UserSession;
-            const variables: any = {
-              userName: user.name,
-              ticketType: session.ticketType,
-            };
-
-            if (session.remainingBalance) {
-              variables.amount = session.remainingBalance;
-              variables.daysLeft = session.nextDueDateISO
-                ? daysUntil(session.nextDueDateISO)
-                : undefined;
-              variables.dueDate = session.nextDueDate || undefined;
-
-              if (session.ticketType) {
-                try {
-                  const { paymentLink } = await backend.generatePaymentLink(
-                    session.remainingBalance,
-                    user.chatId,
-                    user.chatId,
-                    {
-                      ticketType: session.ticketType,
-                      paymentType: session.paymentType || "installment",
-                      installmentNumber: session.installmentNumber || 1,
-                    }
-                  );
-                  variables.paymentLink = paymentLink;
-                } catch (error) {
-                  console.error("Error generating payment link:", error);
-                }
-              }
-            }
+            const variables = await getReminderVariables(user);
 
             finalMessage = replaceTemplateVariables(
               template.messageTemplate,
@@ -3,6 +3,7 @@ import mongoose from "mongoose";
 import { client } from "../config/client.js";
 import { getQRCode } from "../config/client.js";
 import { env } from "../config/env.js";
+import { email } from "../services/email.js";
 import axios from "axios";
 import QRCode from "qrcode";
 
@@ -211,11 +212,27 @@ async function checkEmailServiceStatus(): Promise<{
   status: string;
   details: string;
 }> {
-  // Email service is not implemented yet, so return degraded
-  return {
-    status: "degraded",
-    details: "Email service not configured",
-  };
+  if (!email.isConfigured()) {
+    return {
+      status: "degraded",
+      details: "Email service not configured (SMTP_HOST is not set)",
+    };
+  }
+
+  try {
+    await email.verify();
+    return {
+      status: "operational",
+      details: `SMTP server ${env.smtpHost}:${env.smtpPort} is accepting connections`,
+    };
+  } catch (error: any) {
+    return {
+      status: "down",
+      details: `SMTP server ${env.smtpHost}:${env.smtpPort} unreachable: ${
+        error?.message || "unknown error"
+      }`,
+    };
+  }
 }
 
 /**
@@ -1,65 +1,116 @@
 import type { Request, Response } from "express";
 import { z } from "zod";
 import mongoose from "mongoose";
-import { Ticket } from "../models/Ticket.js";
-import { User } from "../models/User.js";
+import { Ticket, type ITicket } from "../models/Ticket.js";
+import { PAYMENT_PROVIDERS } from "../models/Payment.js";
+import { StockAdjustment } from "../models/StockAdjustment.js";
+import { PricingPhase } from "../models/PricingPhase.js";
+import { inventory } from "../services/inventory.js";
+import { pricing } from "../services/pricing.js";
+import { waitlist } from "../services/waitlist.js";
+import { StockError, ValidationError } from "../errors/AppError.js";
 import { getSession } from "../utils/session.js";
+import { findTicketByIdOrType } from "../utils/ticketCatalog.js";
+import {
+  findEventByIdOrSlug,
+  getDefaultEvent,
+} from "../utils/eventCatalog.js";
+import {
+  eventIdFilter,
+  getScopedEventId,
+} from "../middleware/eventScope.js";
 import type { UserSession } from "../types/session.js";
+import { toMajorUnits, toMinorUnits } from "../utils/money.js";
 
 const createTicketSchema = z.object({
+  eventId: z.string().min(1).optional(),
   name: z.string().min(1, "Name is required"),
   type: z.string().min(1, "Type is required").toUpperCase(),
   description: z.string().min(1, "Description is required"),
-  price: z.number().positive("Price must be positive"),
+  price: z
+    .number()
+    .positive("Price must be positive")
+    .transform(toMinorUnits),
   totalQuantity: z.number().int().positive("Total quantity must be positive"),
+  withheldQuantity: z.number().int().min(0).optional(),
+  maxPerOrder: z.number().int().positive().optional(),
+  transfersEnabled: z.boolean().optional(),
+  maxTransfers: z.number().int().min(0).nullable().optional(),
+  paymentProvider: z.enum(PAYMENT_PROVIDERS).nullable().optional(),
 });
 
 const updateTicketSchema = z.object({
+  eventId: z.string().min(1).optional(),
   name: z.string().min(1).optional(),
   description: z.string().min(1).optional(),
-  price: z.number().positive().optional(),
+  price: z.number().positive().transform(toMinorUnits).optional(),
   totalQuantity: z.number().int().positive().optional(),
+  withheldQuantity: z.number().int().min(0).optional(),
+  stockReason: z.string().min(1).optional(),
+  maxPerOrder: z.number().int().positive().optional(),
+  transfersEnabled: z.boolean().optional(),
+  maxTransfers: z.number().int().min(0).nullable().optional(),
+  paymentProvider: z.enum(PAYMENT_PROVIDERS).nullable().optional(),
   isActive: z.boolean().optional(),
 });
 
+const adjustStockSchema = z
+  .object({
+    totalQuantity: z.number().int().min(0).optional(),
+    withheldQuantity: z.number().int().min(0).optional(),
+    reason: z.string().trim().min(1, "Reason is required"),
+  })
+  .refine(
+    (data) =>
+      data.totalQuantity !== undefined || data.withheldQuantity !== undefined,
+    { message: "Provide totalQuantity and/or withheldQuantity" }
+  );
+
+// Offer stock freed by an adjustment to the tier's waitlist in the background
+function offerToWaitlist(ticket: ITicket): void {
+  const ticketType = ticket.type;
+  waitlist
+    .offerNext(ticketType, ticket.eventId)
+    .catch((error) =>
+      console.error(`Error offering ${ticketType} stock to the waitlist:`, error)
+    );
+}
+
 /**
  * Get all tickets with stats
  */
 export const getAllTickets = async (req: Request, res: Response) => {
   try {
-    const tickets = await Ticket.find({}).sort({ createdAt: -1 });
-
-    // Calculate sold tickets from users
-    const ticketsWithStats = await Promise.all(
-      tickets.map(async (ticket) => {
-        // Count users with this ticket type and a ticket ID (fully paid)
-        const soldCount = await User.countDocuments({
-          "session.ticketType": ticket.type,
-          "session.ticketId": { $exists: true, $ne: null },
-        });
+    const tickets = await Ticket.find(eventIdFilter(req)).sort({
+      createdAt: -1,
+    });
 
-        // Update sold count if different
-        if (ticket.sold !== soldCount) {
-          ticket.sold = soldCount;
-          ticket.available = ticket.totalQuantity - soldCount;
-          await ticket.save();
-        }
-
-        return {
-          id: ticket._id,
-          name: ticket.name,
-          type: ticket.type,
-          description: ticket.description,
-          price: ticket.price,
-          totalQuantity: ticket.totalQuantity,
-          sold: ticket.sold,
-          available: ticket.available,
-          isActive: ticket.isActive,
-          createdAt: ticket.createdAt,
-          updatedAt: ticket.updatedAt,
-        };
-      })
+    // Sold and reserved counts are maintained by the inventory service
+    const quotes = await Promise.all(
+      tickets.map((ticket) => pricing.resolve(ticket))
     );
+    const ticketsWithStats = tickets.map((ticket, index) => ({
+      id: ticket._id,
+      eventId: ticket.eventId || null,
+      name: ticket.name,
+      type: ticket.type,
+      description: ticket.description,
+      price: toMajorUnits(ticket.price),
+      currentPrice: toMajorUnits(quotes[index]!.price),
+      currentPhase: quotes[index]!.phase?.name || null,
+      totalQuantity: ticket.totalQuantity,
+      withheldQuantity: ticket.withheldQuantity || 0,
+      maxPerOrder: ticket.maxPerOrder,
+      transfersEnabled: ticket.transfersEnabled,
+      maxTransfers: ticket.maxTransfers,
+      paymentProvider: ticket.paymentProvider || null,
+      sold: ticket.sold,
+      reserved: ticket.reserved,
+      available: ticket.available,
+      isActive: ticket.isActive,
+      createdAt: ticket.createdAt,
+      updatedAt: ticket.updatedAt,
+    }));
 
     res.json({
       status: "success",
@@ -91,18 +142,7 @@ export const getTicket = async (req: Request, res: Response) => {
       });
     }
 
-    let ticket = null;
-
-    // Check if id is a valid MongoDB ObjectId
-    if (mongoose.Types.ObjectId.isValid(id)) {
-      // Try to find by ID first
-      ticket = await Ticket.findById(id);
-    }
-
-    // If not found by ID, try to find by type
-    if (!ticket) {
-      ticket = await Ticket.findOne({ type: id.toUpperCase() });
-    }
+    const ticket = await findTicketByIdOrType(id, getScopedEventId(req));
 
     if (!ticket) {
       return res.status(404).json({
@@ -111,29 +151,23 @@ export const getTicket = async (req: Request, res: Response) => {
       });
     }
 
-    // Calculate actual sold count
-    const soldCount = await User.countDocuments({
-      "session.ticketType": ticket.type,
-      "session.ticketId": { $exists: true, $ne: null },
-    });
-
-    // Update if different
-    if (ticket.sold !== soldCount) {
-      ticket.sold = soldCount;
-      ticket.available = ticket.totalQuantity - soldCount;
-      await ticket.save();
-    }
-
     res.json({
       status: "success",
       data: {
         id: ticket._id,
+        eventId: ticket.eventId || null,
         name: ticket.name,
         type: ticket.type,
         description: ticket.description,
-        price: ticket.price,
+        price: toMajorUnits(ticket.price),
         totalQuantity: ticket.totalQuantity,
+        withheldQuantity: ticket.withheldQuantity || 0,
+        maxPerOrder: ticket.maxPerOrder,
+        transfersEnabled: ticket.transfersEnabled,
+        maxTransfers: ticket.maxTransfers,
+        paymentProvider: ticket.paymentProvider || null,
         sold: ticket.sold,
+        reserved: ticket.reserved,
         available: ticket.available,
         isActive: ticket.isActive,
         createdAt: ticket.createdAt,
@@ -141,6 +175,13 @@ export const getTicket = async (req: Request, res: Response) => {
       },
     });
   } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
     console.error("Error fetching ticket:", error);
     res.status(500).json({
       status: "error",
@@ -156,27 +197,55 @@ export const createTicket = async (req: Request, res: Response) => {
   try {
     const validatedData = createTicketSchema.parse(req.body);
     const { name, type, description, price, totalQuantity } = validatedData;
+    const withheldQuantity = validatedData.withheldQuantity || 0;
+
+    if (withheldQuantity > totalQuantity) {
+      return res.status(400).json({
+        status: "error",
+        message: "Withheld quantity cannot exceed total quantity",
+      });
+    }
+
+    // Tiers belong to an event; the only upcoming one is assumed if none is given
+    const event = validatedData.eventId
+      ? await findEventByIdOrSlug(validatedData.eventId)
+      : await getDefaultEvent();
+    if (!event) {
+      return res.status(400).json({
+        status: "error",
+        message: validatedData.eventId
+          ? "Event not found"
+          : "eventId is required when more than one event is upcoming",
+      });
+    }
 
-    // Check if ticket type already exists
+    // Ticket types are unique within an event
     const existingTicket = await Ticket.findOne({
+      eventId: event._id,
       type: type.toUpperCase(),
     });
     if (existingTicket) {
       return res.status(400).json({
         status: "error",
-        message: `Ticket type "${type.toUpperCase()}" already exists`,
+        message: `Ticket type "${type.toUpperCase()}" already exists for ${event.name}`,
       });
     }
 
     // Create new ticket
     const ticket = new Ticket({
+      eventId: event._id,
       name,
       type: type.toUpperCase(),
       description,
       price,
       totalQuantity,
+      withheldQuantity,
+      maxPerOrder: validatedData.maxPerOrder,
+      transfersEnabled: validatedData.transfersEnabled,
+      maxTransfers: validatedData.maxTransfers,
+      paymentProvider: validatedData.paymentProvider,
       sold: 0,
-      available: totalQuantity,
+      available: totalQuantity - withheldQuantity,
       isActive: true,
     });
 
@@ -186,12 +255,19 @@ export const createTicket = async (req: Request, res: Response) => {
       status: "success",
       data: {
         id: ticket._id,
+        eventId: ticket.eventId || null,
         name: ticket.name,
         type: ticket.type,
         description: ticket.description,
-        price: ticket.price,
+        price: toMajorUnits(ticket.price),
         totalQuantity: ticket.totalQuantity,
+        withheldQuantity: ticket.withheldQuantity || 0,
+        maxPerOrder: ticket.maxPerOrder,
+        transfersEnabled: ticket.transfersEnabled,
+        maxTransfers: ticket.maxTransfers,
+        paymentProvider: ticket.paymentProvider || null,
         sold: ticket.sold,
+        reserved: ticket.reserved,
         available: ticket.available,
         isActive: ticket.isActive,
         createdAt: ticket.createdAt,
@@ -237,18 +313,7 @@ export const updateTicket = async (req: Request, res: Response) => {
       });
     }
 
-    let ticket = null;
-
-    // Check if id is a valid MongoDB ObjectId
-    if (mongoose.Types.ObjectId.isValid(id)) {
-      // Try to find by ID first
-      ticket = await Ticket.findById(id);
-    }
-
-    // If not found by ID, try to find by type
-    if (!ticket) {
-      ticket = await Ticket.findOne({ type: id.toUpperCase() });
-    }
+    const ticket = await findTicketByIdOrType(id, getScopedEventId(req));
 
     if (!ticket) {
       return res.status(404).json({
@@ -257,15 +322,59 @@ export const updateTicket = async (req: Request, res: Response) => {
       });
     }
 
+    // Move the tier to another event
+    if (validatedData.eventId) {
+      const event = await findEventByIdOrSlug(validatedData.eventId);
+      if (!event) {
+        return res.status(404).json({
+          status: "error",
+          message: "Event not found",
+        });
+      }
+      if (
+        !event._id.equals(ticket.eventId) &&
+        (await Ticket.exists({ eventId: event._id, type: ticket.type }))
+      ) {
+        return res.status(400).json({
+          status: "error",
+          message: `Ticket type "${ticket.type}" already exists for ${event.name}`,
+        });
+      }
+      ticket.eventId = event._id as mongoose.Types.ObjectId;
+    }
+
     // Update fields
     if (validatedData.name) ticket.name = validatedData.name;
     if (validatedData.description)
       ticket.description = validatedData.description;
     if (validatedData.price !== undefined) ticket.price = validatedData.price;
-    if (validatedData.totalQuantity !== undefined) {
-      ticket.totalQuantity = validatedData.totalQuantity;
-      ticket.available = validatedData.totalQuantity - ticket.sold;
+    if (
+      validatedData.totalQuantity !== undefined ||
+      validatedData.withheldQuantity !== undefined
+    ) {
+      // Stock changes go through the inventory service so they are checked and recorded
+      const admin = (req as any).admin;
+      const adjusted = await inventory.adjustStock(
+        ticket._id.toString(),
+        {
+          totalQuantity: validatedData.totalQuantity,
+          withheldQuantity: validatedData.withheldQuantity,
+        },
+        validatedData.stockReason || "Updated from ticket settings",
+        { id: admin?.id?.toString(), email: admin?.email }
+      );
+      ticket.totalQuantity = adjusted.totalQuantity;
+      ticket.withheldQuantity = adjusted.withheldQuantity;
+      offerToWaitlist(ticket);
     }
+    if (validatedData.maxPerOrder !== undefined)
+      ticket.maxPerOrder = validatedData.maxPerOrder;
+    if (validatedData.transfersEnabled !== undefined)
+      ticket.transfersEnabled = validatedData.transfersEnabled;
+    if (validatedData.maxTransfers !== undefined)
+      ticket.maxTransfers = validatedData.maxTransfers;
+    if (validatedData.paymentProvider !== undefined)
+      ticket.paymentProvider = validatedData.paymentProvider;
     if (validatedData.isActive !== undefined)
       ticket.isActive = validatedData.isActive;
 
@@ -275,12 +384,19 @@ export const updateTicket = async (req: Request, res: Response) => {
       status: "success",
       data: {
         id: ticket._id,
+        eventId: ticket.eventId || null,
         name: ticket.name,
         type: ticket.type,
         description: ticket.description,
-        price: ticket.price,
+        price: toMajorUnits(ticket.price),
         totalQuantity: ticket.totalQuantity,
+        withheldQuantity: ticket.withheldQuantity || 0,
+        maxPerOrder: ticket.maxPerOrder,
+        transfersEnabled: ticket.transfersEnabled,
+        maxTransfers: ticket.maxTransfers,
+        paymentProvider: ticket.paymentProvider || null,
         sold: ticket.sold,
+        reserved: ticket.reserved,
         available: ticket.available,
         isActive: ticket.isActive,
         createdAt: ticket.createdAt,
@@ -296,6 +412,27 @@ export const updateTicket = async (req: Request, res: Response) => {
       });
     }
 
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    if (error instanceof StockError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    if (error.code === 11000) {
+      return res.status(400).json({
+        status: "error",
+        message: "Ticket type already exists for this event",
+      });
+    }
+
     console.error("Error updating ticket:", error);
     res.status(500).json({
       status: "error",
@@ -318,19 +455,62 @@ export const deleteTicket = async (req: Request, res: Response) => {
       });
     }
 
-    let ticket = null;
+    const ticket = await findTicketByIdOrType(id, getScopedEventId(req));
 
-    // Check if id is a valid MongoDB ObjectId
-    if (mongoose.Types.ObjectId.isValid(id)) {
-      // Try to find by ID first
-      ticket = await Ticket.findById(id);
+    if (!ticket) {
+      return res.status(404).json({
+        status: "error",
+        message: "Ticket not found",
+      });
     }
 
-    // If not found by ID, try to find by type
-    if (!ticket) {
-      ticket = await Ticket.findOne({ type: id.toUpperCase() });
+    // Check if tickets have been sold or are being checked out
+    if (ticket.sold > 0 || (ticket.reserved || 0) > 0) {
+      return res.status(400).json({
+        status: "error",
+        message: `Cannot delete ticket. ${ticket.sold} ticket(s) have been sold and ${ticket.reserved || 0} are reserved. Deactivate instead.`,
+      });
+    }
+
+    await Ticket.findByIdAndDelete(ticket._id);
+    await PricingPhase.deleteMany({ ticketId: ticket._id });
+
+    res.json({
+      status: "success",
+      message: "Ticket deleted successfully",
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    console.error("Error deleting ticket:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to delete ticket",
+    });
+  }
+};
+
+/**
+ * Adjust a ticket's stock (total and/or withheld quantity) with a recorded reason
+ */
+export const adjustTicketStock = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const validatedData = adjustStockSchema.parse(req.body);
+
+    if (!id) {
+      return res.status(400).json({
+        status: "error",
+        message: "Ticket ID or type is required",
+      });
     }
 
+    const ticket = await findTicketByIdOrType(id, getScopedEventId(req));
     if (!ticket) {
       return res.status(404).json({
         status: "error",
@@ -338,30 +518,111 @@ export const deleteTicket = async (req: Request, res: Response) => {
       });
     }
 
-    // Check if tickets have been sold
-    const soldCount = await User.countDocuments({
-      "session.ticketType": ticket.type,
-      "session.ticketId": { $exists: true, $ne: null },
+    const admin = (req as any).admin;
+    const updated = await inventory.adjustStock(
+      ticket._id.toString(),
+      {
+        totalQuantity: validatedData.totalQuantity,
+        withheldQuantity: validatedData.withheldQuantity,
+      },
+      validatedData.reason,
+      { id: admin?.id?.toString(), email: admin?.email }
+    );
+    offerToWaitlist(updated);
+
+    res.json({
+      status: "success",
+      data: {
+        id: updated._id,
+        eventId: updated.eventId || null,
+        type: updated.type,
+        totalQuantity: updated.totalQuantity,
+        withheldQuantity: updated.withheldQuantity || 0,
+        maxPerOrder: updated.maxPerOrder,
+        transfersEnabled: updated.transfersEnabled,
+        maxTransfers: updated.maxTransfers,
+        paymentProvider: updated.paymentProvider || null,
+        sold: updated.sold,
+        reserved: updated.reserved,
+        available: updated.available,
+      },
     });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: "error",
+        message: "Validation error",
+        errors: error.issues,
+      });
+    }
 
-    if (soldCount > 0) {
+    if (error instanceof ValidationError) {
       return res.status(400).json({
         status: "error",
-        message: `Cannot delete ticket. ${soldCount} ticket(s) have been sold. Deactivate instead.`,
+        message: error.message,
       });
     }
 
-    await Ticket.findByIdAndDelete(ticket._id);
+    if (error instanceof StockError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    console.error("Error adjusting ticket stock:", error);
+    res.status(500).json({
+      status: "error",
+      message: error.message || "Failed to adjust ticket stock",
+    });
+  }
+};
+
+/**
+ * Get the stock adjustment history for a ticket
+ */
+export const getStockAdjustments = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!id) {
+      return res.status(400).json({
+        status: "error",
+        message: "Ticket ID or type is required",
+      });
+    }
+
+    const ticket = await findTicketByIdOrType(id, getScopedEventId(req));
+    if (!ticket) {
+      return res.status(404).json({
+        status: "error",
+        message: "Ticket not found",
+      });
+    }
+
+    const adjustments = await StockAdjustment.find({ ticketId: ticket._id })
+      .sort({ createdAt: -1 })
+      .limit(parseInt(req.query.limit as string) || 50);
 
     res.json({
       status: "success",
-      message: "Ticket deleted successfully",
+      data: {
+        adjustments,
+        count: adjustments.length,
+      },
     });
   } catch (error) {
-    console.error("Error deleting ticket:", error);
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    console.error("Error fetching stock adjustments:", error);
     res.status(500).json({
       status: "error",
-      message: "Failed to delete ticket",
+      message: "Failed to fetch stock adjustments",
     });
   }
 };
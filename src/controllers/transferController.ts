@@ -0,0 +1,72 @@
+import type { Request, Response } from "express";
+import { TicketTransfer } from "../models/TicketTransfer.js";
+import {
+  getEventScope,
+  eventRecordFilter,
+} from "../middleware/eventScope.js";
+
+/**
+ * Get the ticket transfer log, newest first
+ */
+export const getTransfers = async (req: Request, res: Response) => {
+  try {
+    const filter: any = {};
+
+    if (req.query.status) {
+      filter.status = req.query.status;
+    }
+
+    if (req.query.ticketType) {
+      filter.ticketType = (req.query.ticketType as string).toUpperCase();
+    }
+
+    const conditions: any[] = [];
+
+    // Either ticket ID, so a ticket's history can be followed across reissues
+    if (req.query.ticketId) {
+      conditions.push({
+        $or: [
+          { fromTicketId: req.query.ticketId },
+          { toTicketId: req.query.ticketId },
+        ],
+      });
+    }
+
+    // Sent or received by this chat
+    if (req.query.chatId) {
+      conditions.push({
+        $or: [{ fromChatId: req.query.chatId }, { toChatId: req.query.chatId }],
+      });
+    }
+
+    if (getEventScope(req)) {
+      conditions.push(eventRecordFilter(req));
+    }
+
+    if (conditions.length > 0) {
+      filter.$and = conditions;
+    }
+
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+
+    const transfers = await TicketTransfer.find(filter)
+      .sort({ createdAt: -1 })
+      .limit(limit)
+      .populate("fromUserId", "name email phoneNumber")
+      .populate("toUserId", "name email phoneNumber");
+
+    res.json({
+      status: "success",
+      data: {
+        transfers,
+        count: transfers.length,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching ticket transfers:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch ticket transfers",
+    });
+  }
+};
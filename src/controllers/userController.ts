@@ -1,16 +1,20 @@
 import type { Request, Response } from "express";
 import { User } from "../models/User.js";
+import { getEventScope, eventUserFilter } from "../middleware/eventScope.js";
 
 /**
  * Get user statistics
  */
 export const getUserStats = async (req: Request, res: Response) => {
   try {
-    const totalUsers = await User.countDocuments({});
+    const userScope = eventUserFilter(req);
+    const totalUsers = await User.countDocuments(userScope);
     const paidUsers = await User.countDocuments({
+      ...userScope,
       "session.ticketId": { $exists: true, $ne: null },
     });
     const pendingPaymentUsers = await User.countDocuments({
+      ...userScope,
       "session.ticketId": { $exists: false },
       "session.remainingBalance": { $gt: 0 },
     });
@@ -58,6 +62,11 @@ export const getAllUsers = async (req: Request, res: Response) => {
       ];
     }
 
+    // Users buying tickets for one event (combined with search)
+    if (getEventScope(req)) {
+      filter.$and = [eventUserFilter(req)];
+    }
+
     const users = await User.find(filter)
       .sort({ createdAt: -1 })
       .limit(limit)
@@ -0,0 +1,211 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import mongoose from "mongoose";
+import { WaitlistEntry } from "../models/WaitlistEntry.js";
+import { waitlist } from "../services/waitlist.js";
+import { getTicketByType } from "../utils/ticketCatalog.js";
+import { getEventScope, eventIdFilter } from "../middleware/eventScope.js";
+
+const moveEntrySchema = z.object({
+  position: z.number().int().positive("Position must be positive"),
+});
+
+const processSchema = z.object({
+  ticketType: z.string().min(1).toUpperCase().optional(),
+});
+
+/**
+ * Get waitlist entries, in queue order per tier
+ */
+export const getWaitlist = async (req: Request, res: Response) => {
+  try {
+    const filter: any = {};
+
+    if (req.query.ticketType) {
+      filter.ticketType = (req.query.ticketType as string).toUpperCase();
+    }
+
+    // Open entries (waiting or offered) unless a status is asked for
+    filter.status = req.query.status
+      ? req.query.status
+      : { $in: ["waiting", "offered"] };
+
+    Object.assign(filter, eventIdFilter(req));
+
+    const entries = await WaitlistEntry.find(filter)
+      .sort({ eventId: 1, ticketType: 1, position: 1, createdAt: 1 })
+      .populate("userId", "name email phoneNumber");
+
+    // Queue place among those still waiting, per event tier
+    const places = new Map<string, number>();
+    const data = entries.map((entry) => {
+      let queuePosition: number | null = null;
+      if (entry.status === "waiting") {
+        const queue = `${entry.eventId}:${entry.ticketType}`;
+        queuePosition = (places.get(queue) || 0) + 1;
+        places.set(queue, queuePosition);
+      }
+      return { ...entry.toObject(), queuePosition };
+    });
+
+    res.json({
+      status: "success",
+      data: {
+        entries: data,
+        count: data.length,
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching waitlist:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch waitlist",
+    });
+  }
+};
+
+/**
+ * Move a waiting entry to a new place in its tier's queue
+ */
+export const moveWaitlistEntry = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+    const { position } = moveEntrySchema.parse(req.body);
+
+    if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        status: "error",
+        message: "Valid waitlist entry ID is required",
+      });
+    }
+
+    const entry = await WaitlistEntry.findOne({ _id: id, status: "waiting" });
+    if (!entry) {
+      return res.status(404).json({
+        status: "error",
+        message: "Waiting entry not found",
+      });
+    }
+
+    // Renumber the tier's queue with the entry at its new place
+    const queue = await WaitlistEntry.find({
+      ticketType: entry.ticketType,
+      eventId: entry.eventId ?? null,
+      status: "waiting",
+      _id: { $ne: entry._id },
+    }).sort({ position: 1, createdAt: 1 });
+
+    const index = Math.min(position - 1, queue.length);
+    queue.splice(index, 0, entry);
+
+    await WaitlistEntry.bulkWrite(
+      queue.map((item, i) => ({
+        updateOne: {
+          filter: { _id: item._id },
+          update: { $set: { position: i + 1, updatedAt: new Date() } },
+        },
+      }))
+    );
+
+    res.json({
+      status: "success",
+      data: {
+        id: entry._id,
+        ticketType: entry.ticketType,
+        chatId: entry.chatId,
+        queuePosition: index + 1,
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: "error",
+        message: "Validation error",
+        errors: error.issues,
+      });
+    }
+
+    console.error("Error moving waitlist entry:", error);
+    res.status(500).json({
+      status: "error",
+      message: error.message || "Failed to move waitlist entry",
+    });
+  }
+};
+
+/**
+ * Remove an entry from the waitlist (releases any ticket offered to it)
+ */
+export const removeWaitlistEntry = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        status: "error",
+        message: "Valid waitlist entry ID is required",
+      });
+    }
+
+    const entry = await waitlist.cancel(id);
+    if (!entry) {
+      return res.status(404).json({
+        status: "error",
+        message: "Open waitlist entry not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      message: "Waitlist entry removed successfully",
+    });
+  } catch (error) {
+    console.error("Error removing waitlist entry:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to remove waitlist entry",
+    });
+  }
+};
+
+/**
+ * Expire stale offers and offer any free stock to the queue now
+ */
+export const processWaitlist = async (req: Request, res: Response) => {
+  try {
+    const { ticketType } = processSchema.parse(req.body || {});
+
+    let offered: number;
+    if (ticketType) {
+      await waitlist.expireOffers();
+      const tier = await getTicketByType(
+        ticketType,
+        getEventScope(req)?.event._id as mongoose.Types.ObjectId | undefined
+      );
+      offered = tier ? await waitlist.offerNext(tier.type, tier.eventId) : 0;
+    } else {
+      offered = await waitlist.processAll();
+    }
+
+    res.json({
+      status: "success",
+      data: {
+        offered,
+      },
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: "error",
+        message: "Validation error",
+        errors: error.issues,
+      });
+    }
+
+    console.error("Error processing waitlist:", error);
+    res.status(500).json({
+      status: "error",
+      message: error.message || "Failed to process waitlist",
+    });
+  }
+};
@@ -0,0 +1,443 @@
+import type { Request, Response } from "express";
+import { z } from "zod";
+import mongoose, { type PipelineStage } from "mongoose";
+import { WalletTransaction } from "../models/WalletTransaction.js";
+import { CreditVoucher } from "../models/CreditVoucher.js";
+import { Donation } from "../models/Donation.js";
+import { User } from "../models/User.js";
+import { wallet } from "../services/wallet.js";
+import { donations } from "../services/donations.js";
+import { eventIdFilter } from "../middleware/eventScope.js";
+import { toMajorUnits, toMinorUnits } from "../utils/money.js";
+import { ValidationError } from "../errors/AppError.js";
+
+const adjustmentSchema = z.object({
+  amount: z
+    .number()
+    .refine((amount) => amount !== 0, {
+      message: "Amount must not be zero",
+    })
+    .transform(toMinorUnits), // Cedis; negative takes money out
+  reason: z.string().trim().min(1, "Reason is required"),
+});
+
+// Each wallet's latest entry, which carries its balance
+const LATEST_BALANCES: PipelineStage[] = [
+  { $sort: { chatId: 1, sequence: -1 } },
+  {
+    $group: {
+      _id: "$chatId",
+      balance: { $first: "$balanceAfter" },
+      entries: { $sum: 1 },
+      lastActivityAt: { $first: "$createdAt" },
+    },
+  },
+];
+
+// Sum of a voucher's redemptions with the given status
+const redemptionTotal = (status: string) => ({
+  $sum: {
+    $map: {
+      input: {
+        $filter: {
+          input: "$redemptions",
+          cond: { $eq: ["$$this.status", status] },
+        },
+      },
+      in: "$$this.amount",
+    },
+  },
+});
+
+/**
+ * Get every wallet with its current balance, largest first
+ */
+export const getWallets = async (req: Request, res: Response) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 20;
+    const page = parseInt(req.query.page as string) || 1;
+    const skip = (page - 1) * limit;
+
+    const [result] = await WalletTransaction.aggregate([
+      ...LATEST_BALANCES,
+      ...(req.query.hasBalance === "true"
+        ? [{ $match: { balance: { $gt: 0 } } }]
+        : []),
+      {
+        $facet: {
+          wallets: [
+            { $sort: { balance: -1, _id: 1 } },
+            { $skip: skip },
+            { $limit: limit },
+          ],
+          totals: [
+            {
+              $group: {
+                _id: null,
+                count: { $sum: 1 },
+                balance: { $sum: "$balance" },
+              },
+            },
+          ],
+        },
+      },
+    ]);
+
+    const wallets = result?.wallets || [];
+    const totals = result?.totals[0] || { count: 0, balance: 0 };
+    const users = await User.find({
+      chatId: { $in: wallets.map((w: any) => w._id) },
+    }).select("chatId name");
+    const names = new Map(users.map((user) => [user.chatId, user.name]));
+
+    res.json({
+      status: "success",
+      data: {
+        wallets: wallets.map((w: any) => ({
+          chatId: w._id,
+          name: names.get(w._id) || null,
+          balance: toMajorUnits(w.balance),
+          entries: w.entries,
+          lastActivityAt: w.lastActivityAt,
+        })),
+        totalBalance: toMajorUnits(totals.balance),
+        pagination: {
+          page,
+          limit,
+          total: totals.count,
+          totalPages: Math.ceil(totals.count / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching wallets:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch wallets",
+    });
+  }
+};
+
+/**
+ * Get a buyer's wallet balance and statement (newest first)
+ */
+export const getWalletStatement = async (req: Request, res: Response) => {
+  try {
+    const { chatId } = req.params;
+    const limit = parseInt(req.query.limit as string) || 50;
+    const page = parseInt(req.query.page as string) || 1;
+    const skip = (page - 1) * limit;
+
+    if (!chatId) {
+      return res.status(400).json({
+        status: "error",
+        message: "Chat ID is required",
+      });
+    }
+
+    const [balance, transactions, total] = await Promise.all([
+      wallet.getBalance(chatId),
+      wallet.getStatement(chatId, limit, skip),
+      WalletTransaction.countDocuments({ chatId }),
+    ]);
+
+    res.json({
+      status: "success",
+      data: {
+        chatId,
+        balance: toMajorUnits(balance),
+        transactions,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching wallet statement:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch wallet statement",
+    });
+  }
+};
+
+/**
+ * Credit or debit a buyer's wallet by hand, with a reason for the statement
+ */
+export const createWalletAdjustment = async (req: Request, res: Response) => {
+  try {
+    const { chatId } = req.params;
+    const validatedData = adjustmentSchema.parse(req.body);
+
+    if (!chatId) {
+      return res.status(400).json({
+        status: "error",
+        message: "Chat ID is required",
+      });
+    }
+
+    if (!(await User.exists({ chatId }))) {
+      return res.status(404).json({
+        status: "error",
+        message: "User not found",
+      });
+    }
+
+    const transaction = await wallet.adjust(
+      chatId,
+      validatedData.amount,
+      validatedData.reason,
+      (req as any).admin?.id
+    );
+
+    res.status(201).json({
+      status: "success",
+      data: transaction,
+    });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({
+        status: "error",
+        message: "Validation error",
+        errors: error.issues,
+      });
+    }
+
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    console.error("Error adjusting wallet:", error);
+    res.status(500).json({
+      status: "error",
+      message: error.message || "Failed to adjust wallet",
+    });
+  }
+};
+
+/**
+ * Get event credit vouchers (newest first), optionally filtered by buyer,
+ * event or status
+ */
+export const getVouchers = async (req: Request, res: Response) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 20;
+    const page = parseInt(req.query.page as string) || 1;
+    const skip = (page - 1) * limit;
+
+    const filter: any = { ...eventIdFilter(req) };
+    if (req.query.status) {
+      filter.status = req.query.status;
+    }
+    if (req.query.chatId) {
+      filter.chatId = req.query.chatId;
+    }
+
+    const [vouchers, total] = await Promise.all([
+      CreditVoucher.find(filter)
+        .sort({ createdAt: -1 })
+        .limit(limit)
+        .skip(skip),
+      CreditVoucher.countDocuments(filter),
+    ]);
+
+    res.json({
+      status: "success",
+      data: {
+        vouchers,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching vouchers:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch vouchers",
+    });
+  }
+};
+
+/**
+ * Get what is owed to buyers: money still in wallets, and event credit per
+ * event that hasn't been spent yet (including credit held by checkouts in
+ * progress)
+ */
+export const getCreditLiabilities = async (req: Request, res: Response) => {
+  try {
+    const [walletTotals, events] = await Promise.all([
+      WalletTransaction.aggregate([
+        ...LATEST_BALANCES,
+        { $match: { balance: { $gt: 0 } } },
+        {
+          $group: {
+            _id: null,
+            balance: { $sum: "$balance" },
+            wallets: { $sum: 1 },
+          },
+        },
+      ]),
+      CreditVoucher.aggregate([
+        { $match: eventIdFilter(req) },
+        {
+          $group: {
+            _id: "$eventId",
+            eventName: { $last: "$eventName" },
+            issued: { $sum: "$amount" },
+            available: { $sum: "$balance" },
+            held: { $sum: redemptionTotal("held") },
+            redeemed: { $sum: redemptionTotal("redeemed") },
+            vouchers: { $sum: 1 },
+            buyers: { $addToSet: "$chatId" },
+          },
+        },
+        { $sort: { available: -1 } },
+      ]),
+    ]);
+
+    const byEvent = events.map((event) => ({
+      eventId: event._id,
+      eventName: event.eventName,
+      issued: toMajorUnits(event.issued),
+      redeemed: toMajorUnits(event.redeemed),
+      held: toMajorUnits(event.held),
+      outstanding: toMajorUnits(event.available + event.held),
+      vouchers: event.vouchers,
+      buyers: event.buyers.length,
+    }));
+    const outstandingCredit = events.reduce(
+      (sum, event) => sum + event.available + event.held,
+      0
+    );
+    const inWallets = walletTotals[0] || { balance: 0, wallets: 0 };
+
+    res.json({
+      status: "success",
+      data: {
+        wallets: {
+          outstanding: toMajorUnits(inWallets.balance),
+          count: inWallets.wallets,
+        },
+        events: byEvent,
+        totalOutstanding: toMajorUnits(inWallets.balance + outstandingCredit),
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching credit liabilities:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch credit liabilities",
+    });
+  }
+};
+
+/**
+ * Get donations (newest first) with totals per recipient
+ */
+export const getDonations = async (req: Request, res: Response) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 20;
+    const page = parseInt(req.query.page as string) || 1;
+    const skip = (page - 1) * limit;
+
+    const filter: any = {};
+    if (req.query.recipient) {
+      filter.recipient = req.query.recipient;
+    }
+    if (req.query.chatId) {
+      filter.chatId = req.query.chatId;
+    }
+
+    const [donationList, total, totals] = await Promise.all([
+      Donation.find(filter).sort({ createdAt: -1 }).limit(limit).skip(skip),
+      Donation.countDocuments(filter),
+      Donation.aggregate([
+        { $match: filter },
+        {
+          $group: {
+            _id: "$recipient",
+            amount: { $sum: "$amount" },
+            donations: { $sum: 1 },
+          },
+        },
+        { $sort: { amount: -1 } },
+      ]),
+    ]);
+
+    res.json({
+      status: "success",
+      data: {
+        donations: donationList,
+        totals: totals.map((recipient) => ({
+          recipient: recipient._id,
+          amount: toMajorUnits(recipient.amount),
+          donations: recipient.donations,
+        })),
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching donations:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch donations",
+    });
+  }
+};
+
+/**
+ * Send a donor their receipt again
+ */
+export const resendDonationReceipt = async (req: Request, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+      return res.status(400).json({
+        status: "error",
+        message: "A valid donation ID is required",
+      });
+    }
+
+    const donation = await Donation.findById(id);
+    if (!donation) {
+      return res.status(404).json({
+        status: "error",
+        message: "Donation not found",
+      });
+    }
+
+    if (!(await donations.sendReceipt(donation))) {
+      return res.status(502).json({
+        status: "error",
+        message: "Failed to send the receipt on WhatsApp",
+      });
+    }
+
+    res.json({
+      status: "success",
+      message: "Receipt sent",
+    });
+  } catch (error) {
+    console.error("Error resending donation receipt:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to resend donation receipt",
+    });
+  }
+};
@@ -0,0 +1,130 @@
+import type { Request, Response } from "express";
+import mongoose from "mongoose";
+import { WebhookEvent } from "../models/WebhookEvent.js";
+import { webhooks } from "../services/webhooks.js";
+import { ValidationError } from "../errors/AppError.js";
+
+/**
+ * Get logged provider webhooks (newest first), without their payloads
+ */
+export const getWebhookEvents = async (req: Request, res: Response) => {
+  try {
+    const limit = parseInt(req.query.limit as string) || 20;
+    const page = parseInt(req.query.page as string) || 1;
+    const skip = (page - 1) * limit;
+
+    const filter: any = {};
+    if (req.query.provider) {
+      filter.provider = req.query.provider;
+    }
+    if (req.query.event) {
+      filter.event = req.query.event;
+    }
+    if (req.query.status) {
+      filter.status = req.query.status;
+    }
+    if (req.query.reference) {
+      filter.reference = req.query.reference;
+    }
+
+    const [events, total] = await Promise.all([
+      WebhookEvent.find(filter)
+        .select("-payload")
+        .sort({ receivedAt: -1 })
+        .limit(limit)
+        .skip(skip),
+      WebhookEvent.countDocuments(filter),
+    ]);
+
+    res.json({
+      status: "success",
+      data: {
+        events,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+      },
+    });
+  } catch (error) {
+    console.error("Error fetching webhook events:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch webhook events",
+    });
+  }
+};
+
+/**
+ * Get one logged webhook with the payload the provider sent
+ */
+export const getWebhookEvent = async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const event = mongoose.Types.ObjectId.isValid(id)
+      ? await WebhookEvent.findById(id)
+      : null;
+
+    if (!event) {
+      return res.status(404).json({
+        status: "error",
+        message: "Webhook event not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      data: { event },
+    });
+  } catch (error) {
+    console.error("Error fetching webhook event:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to fetch webhook event",
+    });
+  }
+};
+
+/**
+ * Handle a logged webhook again, e.g. one that failed or arrived before a
+ * fix was deployed
+ */
+export const replayWebhookEvent = async (req: Request, res: Response) => {
+  try {
+    const id = req.params.id as string;
+    const event = mongoose.Types.ObjectId.isValid(id)
+      ? await webhooks.replay(id, (req as any).admin?.id)
+      : null;
+
+    if (!event) {
+      return res.status(404).json({
+        status: "error",
+        message: "Webhook event not found",
+      });
+    }
+
+    res.json({
+      status: "success",
+      message:
+        event.status === "failed"
+          ? `Replay failed: ${event.error}`
+          : `Replay ${event.status}`,
+      data: { event },
+    });
+  } catch (error) {
+    if (error instanceof ValidationError) {
+      return res.status(400).json({
+        status: "error",
+        message: error.message,
+      });
+    }
+
+    console.error("Error replaying webhook event:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to replay webhook event",
+    });
+  }
+};
@@ -40,3 +40,10 @@ export class BackendError extends AppError {
     this.name = "BackendError";
   }
 }
+
+export class StockError extends AppError {
+  constructor(message: string) {
+    super(message, "OUT_OF_STOCK", 409, true);
+    this.name = "StockError";
+  }
+}
@@ -3,75 +3,233 @@ import type { UserSession } from "../types/session.js";
 import {
   validateInstallmentPlan,
   validateSessionForPayment,
+  validateCustomPaymentCount,
+  validateCustomPlanDates,
 } from "../validators/input.js";
+import { SESSION_STATES } from "../config/constants.js";
+import { paymentLinks } from "../services/paymentLinks.js";
+import { pricing } from "../services/pricing.js";
 import {
-  SESSION_STATES,
-  TICKETS,
-  INSTALLMENT_PLANS,
-} from "../config/constants.js";
-import { backend } from "../services/backend.js";
-import { updateSession, getSession } from "../utils/session.js";
+  installments,
+  CUSTOM_PLAN_CODE,
+} from "../services/installments.js";
+import {
+  customPlans,
+  MIN_CUSTOM_PAYMENTS,
+  MAX_CUSTOM_PAYMENTS,
+} from "../services/customPlans.js";
+import { getTicketByType } from "../utils/ticketCatalog.js";
+import type { ITicket } from "../models/Ticket.js";
+import type { IInstallmentPlan } from "../models/InstallmentPlan.js";
+import { ValidationError } from "../errors/AppError.js";
 import {
   getInstallmentPlansMessage,
-  getCustomPlanMessage,
   getInstallmentPaymentMessage,
-  getInstallmentConfirmationMessage,
+  getCustomPlanCountMessage,
+  getCustomPlanDatesMessage,
+  getCustomPlanSubmittedMessage,
+  getEmailPromptMessage,
+  type InstallmentPlanOffer,
 } from "../messages/payments.js";
 import {
   getContinueInstallmentMessage,
   getNoPendingPaymentsMessage,
 } from "../messages/status.js";
 
+// The tier chosen in this session and the plans it can be paid with
+async function getTicketPlans(
+  session: UserSession
+): Promise<{ ticket: ITicket; plans: IInstallmentPlan[] }> {
+  const ticket = session.ticketType
+    ? await getTicketByType(session.ticketType, session.eventId)
+    : null;
+  if (!ticket || !ticket.isActive) {
+    throw new ValidationError(
+      "❌ This ticket type is no longer on sale. Please type *menu* to choose another ticket."
+    );
+  }
+
+  const plans = await installments.getPlans(ticket);
+  if (plans.length === 0) {
+    throw new ValidationError(
+      "Installment plans are not available for this ticket type. Please type *menu* to start over."
+    );
+  }
+
+  return { ticket, plans };
+}
+
 export async function showInstallmentPlans(
   message: Message,
   session: UserSession
 ): Promise<void> {
   validateSessionForPayment(session);
 
-  const msg = getInstallmentPlansMessage(session.ticketType!);
-  await message.reply(msg);
+  const { ticket, plans } = await getTicketPlans(session);
+  const { price } = await pricing.resolve(ticket);
+
+  const offers: InstallmentPlanOffer[] = [];
+  for (const plan of plans) {
+    const deadline = await installments.getDeadline(plan, ticket);
+    offers.push({
+      code: plan.code,
+      name: plan.name,
+      deadline,
+      installments: installments.preview(plan, price, deadline),
+    });
+  }
+
+  await message.reply(getInstallmentPlansMessage(offers));
+  session.state = SESSION_STATES.SELECT_INSTALLMENT_PLAN;
 }
 
 export async function handleInstallmentPlanSelection(
   message: Message,
-  chatId: string,
   userMessage: string,
   session: UserSession
 ): Promise<void> {
   validateSessionForPayment(session);
 
-  const plan = validateInstallmentPlan(userMessage);
+  const { ticket, plans } = await getTicketPlans(session);
+  const plan = validateInstallmentPlan(
+    userMessage,
+    plans.map((p) => p.code)
+  );
   session.installmentPlan = plan;
 
-  if (plan === "C") {
-    const msg = getCustomPlanMessage();
-    await message.reply(msg);
-    session.state = SESSION_STATES.MAIN_MENU;
+  if (plan === CUSTOM_PLAN_CODE) {
+    const deadline = await installments.getEventDeadline(ticket);
+    await message.reply(
+      getCustomPlanCountMessage(
+        MIN_CUSTOM_PAYMENTS,
+        MAX_CUSTOM_PAYMENTS,
+        deadline
+      )
+    );
+    session.state = SESSION_STATES.AWAITING_CUSTOM_PLAN_COUNT;
     return;
   }
 
-  // Get first installment amount
-  const ticketType = session.ticketType!;
-  const plans = INSTALLMENT_PLANS[ticketType];
-  const selectedPlan = plan === "A" ? plans.A : plans.B;
-  const firstPayment = selectedPlan[0]!;
+  // Collect the email and any coupon before the schedule is set up
+  await message.reply(getEmailPromptMessage());
+  session.state = SESSION_STATES.AWAITING_EMAIL;
+}
 
-  session.installmentNumber = 1;
-  session.totalInstallments = selectedPlan.length;
-  session.amountPaid = 0;
-  session.totalPrice = TICKETS[ticketType].price;
+export async function handleCustomPaymentCount(
+  message: Message,
+  userMessage: string,
+  session: UserSession
+): Promise<void> {
+  validateSessionForPayment(session);
 
-  const { paymentLink } = await backend.generatePaymentLink(
-    firstPayment,
-    chatId,
+  const count = validateCustomPaymentCount(
+    userMessage,
+    MIN_CUSTOM_PAYMENTS,
+    MAX_CUSTOM_PAYMENTS
+  );
+  const { ticket } = await getTicketPlans(session);
+  const deadline = await installments.getEventDeadline(ticket);
+
+  session.customPaymentCount = count;
+  await message.reply(getCustomPlanDatesMessage(count, deadline));
+  session.state = SESSION_STATES.AWAITING_CUSTOM_PLAN_DATES;
+}
+
+export async function handleCustomPlanDates(
+  message: Message,
+  userMessage: string,
+  session: UserSession
+): Promise<void> {
+  validateSessionForPayment(session);
+
+  const count = session.customPaymentCount || MIN_CUSTOM_PAYMENTS;
+  const dates = validateCustomPlanDates(userMessage, count - 1);
+
+  // Catch dates past the deadline now rather than after the email questions
+  const { ticket } = await getTicketPlans(session);
+  const deadline = await installments.getEventDeadline(ticket);
+  customPlans.check(
+    customPlans.propose(session.totalPrice!, [new Date(), ...dates]),
+    session.totalPrice!,
+    deadline
+  );
+
+  session.customPlanDates = dates.map((date) => date.toISOString());
+  await message.reply(getEmailPromptMessage());
+  session.state = SESSION_STATES.AWAITING_EMAIL;
+}
+
+/**
+ * File the buyer's custom plan for an admin to review. They get their
+ * schedule and first payment link once it is approved.
+ */
+async function submitCustomPlan(
+  message: Message,
+  session: UserSession,
+  ticket: ITicket,
+  total: number
+): Promise<void> {
+  const dates = (session.customPlanDates || []).map((date) => new Date(date));
+  const request = await customPlans.submit(
+    message.from,
+    ticket,
+    total,
+    dates,
+    session.appliedCoupon
+  );
+
+  await message.reply(
+    getCustomPlanSubmittedMessage(ticket.name, request.installments)
+  );
+  session.customPaymentCount = undefined;
+  session.customPlanDates = undefined;
+  session.state = SESSION_STATES.MAIN_MENU;
+}
+
+/**
+ * Put the buyer on the plan they picked and send the link for the first
+ * installment. The price is fixed at sign-up, after any coupon.
+ */
+export async function startInstallmentPlan(
+  message: Message,
+  session: UserSession
+): Promise<void> {
+  const chatId = message.from;
+  const { ticket, plans } = await getTicketPlans(session);
+  const total =
+    session.appliedCoupon && session.discountedPrice !== undefined
+      ? session.discountedPrice
+      : (await pricing.resolve(ticket)).price;
+
+  if (session.installmentPlan === CUSTOM_PLAN_CODE) {
+    await submitCustomPlan(message, session, ticket, total);
+    return;
+  }
+
+  const plan = plans.find((p) => p.code === session.installmentPlan);
+  if (!plan) {
+    throw new ValidationError(
+      "❌ This payment plan is no longer available. Please type *menu* to start over."
+    );
+  }
+
+  const schedule = await installments.start(
     chatId,
-    {
-      ticketType: session.ticketType!,
-      paymentType: "installment",
-      installmentNumber: 1,
-    }
+    ticket,
+    plan,
+    total,
+    session.appliedCoupon
+  );
+  Object.assign(session, installments.sessionFields(schedule));
+
+  const { paymentLink, holdMinutes } =
+    await installments.firstPaymentLink(schedule);
+  const msg = getInstallmentPaymentMessage(
+    plan.code,
+    schedule.installments[0]!.amount,
+    paymentLink,
+    holdMinutes
   );
-  const msg = getInstallmentPaymentMessage(plan, firstPayment, paymentLink);
 
   await message.reply(msg);
   session.state = SESSION_STATES.AWAITING_PAYMENT;
@@ -81,33 +239,36 @@ export async function handleContinueInstallment(
   message: Message,
   session: UserSession
 ): Promise<void> {
-  if (
-    !session.ticketId &&
-    session.remainingBalance &&
-    session.remainingBalance > 0
-  ) {
-    const ticket = TICKETS[session.ticketType!];
-    const { paymentLink } = await backend.generatePaymentLink(
-      session.remainingBalance,
-      message.from,
-      message.from,
-      {
-        ticketType: session.ticketType!,
-        paymentType: "installment",
-        installmentNumber: session.installmentNumber || 1,
-      }
-    );
-
-    const msg = getContinueInstallmentMessage(
-      ticket.name,
-      session.remainingBalance,
-      session.nextDueDate!,
-      paymentLink
-    );
-
-    await message.reply(msg);
-  } else {
+  const schedule = await installments.getActive(message.from);
+  const next = schedule && installments.nextInstallment(schedule);
+  if (!schedule || !next) {
     const msg = getNoPendingPaymentsMessage();
     await message.reply(msg);
+    return;
   }
+
+  Object.assign(session, installments.sessionFields(schedule));
+  const ticket = await getTicketByType(
+    schedule.ticketType,
+    schedule.eventId
+  );
+  const { paymentLink } = await paymentLinks.get(
+    installments.amountDue(schedule),
+    message.from,
+    {
+      ticketType: schedule.ticketType,
+      eventId: schedule.eventId?.toString(),
+      paymentType: "installment",
+      installmentNumber: next.number,
+    }
+  );
+
+  const msg = getContinueInstallmentMessage(
+    ticket?.name || schedule.ticketType,
+    schedule.remainingBalance,
+    session.nextDueDate!,
+    paymentLink
+  );
+
+  await message.reply(msg);
 }
@@ -6,6 +6,7 @@ import { showTicketTypes } from "./ticket.js";
 import { handleCheckPaymentStatus } from "./status.js";
 import { handleWalletBalance } from "./wallet.js";
 import { showHelpSupport } from "./support.js";
+import { showTransferableTickets } from "./transfer.js";
 
 export async function handleMainMenu(
   message: Message,
@@ -17,8 +18,7 @@ export async function handleMainMenu(
 
   switch (option) {
     case "1":
-      await showTicketTypes(message);
-      session.state = SESSION_STATES.SELECT_TICKET;
+      await showTicketTypes(message, session);
       break;
 
     case "2":
@@ -33,5 +33,9 @@ export async function handleMainMenu(
       await showHelpSupport(message);
       session.state = SESSION_STATES.MAIN_MENU;
       break;
+
+    case "5":
+      await showTransferableTickets(message, session);
+      break;
   }
 }
@@ -8,16 +8,34 @@ import { sanitizeInput } from "../validators/input.js";
 import { SESSION_STATES } from "../config/constants.js";
 import { getWelcomeMessage } from "../messages/welcome.js";
 import { handleError } from "../errors/errorHandler.js";
+import { checkoutRecovery } from "../services/checkoutRecovery.js";
 import { handleMainMenu } from "./menu.js";
-import { handleTicketSelection } from "./ticket.js";
 import {
+  handleEventSelection,
+  handleTicketSelection,
+  handleQuantitySelection,
+  handleAttendeeNamesAnswer,
+  handleAttendeeName,
+  handleWaitlistAnswer,
+} from "./ticket.js";
+import {
+  handlePaymentTypeSelection,
   handleEmailCollection,
   handleCouponAnswer,
   handleCouponCode,
   handleContinueAnswer,
 } from "./payment.js";
-import { handleInstallmentPlanSelection } from "./installment.js";
+import {
+  handleInstallmentPlanSelection,
+  handleCustomPaymentCount,
+  handleCustomPlanDates,
+} from "./installment.js";
 import { handleWalletTransfer } from "./wallet.js";
+import {
+  handleTransferTicketSelection,
+  handleTransferPhone,
+  handleTransferResponse,
+} from "./transfer.js";
 
 export async function handleMessage(
   message: Message,
@@ -42,11 +60,21 @@ export async function handleMessage(
 
     // Handle menu command – always reset session to a clean main menu state
     if (msg === "menu" || msg === "start") {
+      // Leaving a checkout means no more "still want your ticket?" nudges
+      await checkoutRecovery.stop(chatId, "menu");
       await resetToMainMenu(chatId);
       await sendWelcomeMessage(message, userName);
       return;
     }
 
+    // A transfer recipient can answer whatever they were doing in the chat
+    if (msg === "accept" || msg === "decline") {
+      if (await handleTransferResponse(message, msg, session)) {
+        await updateSession(chatId, session);
+        return;
+      }
+    }
+
     // If user is in initial welcome state, show menu but don't wipe existing data
     if (session.state === SESSION_STATES.WELCOME) {
       await sendWelcomeMessage(message, userName);
@@ -61,11 +89,41 @@ export async function handleMessage(
         await updateSession(chatId, session);
         break;
 
+      case SESSION_STATES.SELECT_EVENT:
+        await handleEventSelection(message, msg, session);
+        await updateSession(chatId, session);
+        break;
+
       case SESSION_STATES.SELECT_TICKET:
         await handleTicketSelection(message, msg, session);
         await updateSession(chatId, session);
         break;
 
+      case SESSION_STATES.SELECT_QUANTITY:
+        await handleQuantitySelection(message, msg, session);
+        await updateSession(chatId, session);
+        break;
+
+      case SESSION_STATES.AWAITING_ATTENDEE_NAMES_ANSWER:
+        await handleAttendeeNamesAnswer(message, msg, session);
+        await updateSession(chatId, session);
+        break;
+
+      case SESSION_STATES.AWAITING_ATTENDEE_NAME:
+        await handleAttendeeName(message, sanitized, session);
+        await updateSession(chatId, session);
+        break;
+
+      case SESSION_STATES.AWAITING_WAITLIST_ANSWER:
+        await handleWaitlistAnswer(message, msg, session);
+        await updateSession(chatId, session);
+        break;
+
+      case SESSION_STATES.SELECT_PAYMENT_TYPE:
+        await handlePaymentTypeSelection(message, msg, session);
+        await updateSession(chatId, session);
+        break;
+
       case SESSION_STATES.AWAITING_EMAIL:
         await handleEmailCollection(message, userMessage, session);
         await updateSession(chatId, session);
@@ -87,7 +145,17 @@ export async function handleMessage(
         break;
 
       case SESSION_STATES.SELECT_INSTALLMENT_PLAN:
-        await handleInstallmentPlanSelection(message, chatId, msg, session);
+        await handleInstallmentPlanSelection(message, msg, session);
+        await updateSession(chatId, session);
+        break;
+
+      case SESSION_STATES.AWAITING_CUSTOM_PLAN_COUNT:
+        await handleCustomPaymentCount(message, msg, session);
+        await updateSession(chatId, session);
+        break;
+
+      case SESSION_STATES.AWAITING_CUSTOM_PLAN_DATES:
+        await handleCustomPlanDates(message, msg, session);
         await updateSession(chatId, session);
         break;
 
@@ -102,6 +170,16 @@ export async function handleMessage(
         await updateSession(chatId, session);
         break;
 
+      case SESSION_STATES.SELECT_TRANSFER_TICKET:
+        await handleTransferTicketSelection(message, msg, session);
+        await updateSession(chatId, session);
+        break;
+
+      case SESSION_STATES.AWAITING_TRANSFER_PHONE:
+        await handleTransferPhone(message, sanitized, session);
+        await updateSession(chatId, session);
+        break;
+
       default:
         console.log(
           `[DEBUG] Unknown state: ${session.state}, sending welcome message`
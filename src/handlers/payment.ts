@@ -5,14 +5,28 @@ import {
   validateSessionForPayment,
   validateEmail,
 } from "../validators/input.js";
-import { SESSION_STATES, TICKETS } from "../config/constants.js";
+import { SESSION_STATES } from "../config/constants.js";
 import { backend } from "../services/backend.js";
+import { inventory } from "../services/inventory.js";
+import { vouchers, MIN_CHARGE } from "../services/vouchers.js";
+import { pricing } from "../services/pricing.js";
+import { env } from "../config/env.js";
 import { updateSession } from "../utils/session.js";
-import { getFullPaymentMessage } from "../messages/payments.js";
+import {
+  getFullPaymentMessage,
+  getEmailPromptMessage,
+} from "../messages/payments.js";
 import { User } from "../models/User.js";
+import { Order } from "../models/Order.js";
 import { Coupon } from "../models/Coupon.js";
 import { resetToMainMenu } from "../utils/session.js";
 import { getWelcomeMessage } from "../messages/welcome.js";
+import { getVoucherCreditAppliedMessage } from "../messages/wallet.js";
+import { getTicketByType } from "../utils/ticketCatalog.js";
+import type { ITicket } from "../models/Ticket.js";
+import { ValidationError } from "../errors/AppError.js";
+import { formatMoney, percentOf } from "../utils/money.js";
+import { showInstallmentPlans, startInstallmentPlan } from "./installment.js";
 
 export async function handlePaymentTypeSelection(
   message: Message,
@@ -22,15 +36,16 @@ export async function handlePaymentTypeSelection(
   validateSessionForPayment(session);
 
   const paymentType = validatePaymentType(userMessage);
-  const ticket = TICKETS[session.ticketType!];
-
-  // Full payment only – first collect user's email before generating link
   session.paymentType = paymentType;
-  session.state = SESSION_STATES.AWAITING_EMAIL;
 
-  await message.reply(
-    "📧 Before we generate your payment link, please reply with your *email address* (e.g. name@example.com). We'll send your receipt and ticket details there."
-  );
+  if (paymentType === "installment") {
+    await showInstallmentPlans(message, session);
+    return;
+  }
+
+  // Collect the user's email before generating the link
+  session.state = SESSION_STATES.AWAITING_EMAIL;
+  await message.reply(getEmailPromptMessage());
 }
 
 export async function handleEmailCollection(
@@ -113,25 +128,30 @@ export async function handleCouponCode(
     return;
   }
 
-  // Apply discount
-  const ticket = TICKETS[session.ticketType!];
-  const originalPrice = ticket.price;
-  let discountedPrice = originalPrice;
-
-  if (coupon.discountType === "percentage") {
-    discountedPrice = originalPrice * (1 - coupon.discountValue / 100);
-  } else {
-    discountedPrice = Math.max(0, originalPrice - coupon.discountValue);
+  // Coupons tied to an event only work on that event's tickets
+  const ticket = await getSelectedTicket(session);
+  if (coupon.eventId && !coupon.eventId.equals(ticket.eventId)) {
+    session.state = SESSION_STATES.AWAITING_CONTINUE_ANSWER;
+    await message.reply(
+      "⚠️ This coupon isn't valid for this event. Would you like to *continue* with the original price? (Reply *Yes* or *No*)"
+    );
+    return;
   }
 
+  // Apply discount
+  const quantity = session.quantity || 1;
+  const { price } = await pricing.resolve(ticket, new Date(), quantity);
+  const originalPrice = price * quantity;
+  const discountedPrice = applyCouponDiscount(coupon, originalPrice);
+
   session.appliedCoupon = code;
   session.originalPrice = originalPrice;
   session.discountedPrice = discountedPrice;
 
   await message.reply(
     `🎉 Coupon applied successfully! You've received a discount.\n\n` +
-      `Original Price: GHS ${originalPrice}\n` +
-      `*Discounted Price: GHS ${discountedPrice.toFixed(2)}*`
+      `Original Price: ${formatMoney(originalPrice)}\n` +
+      `*Discounted Price: ${formatMoney(discountedPrice)}*`
   );
 
   await generatePayment(message, session);
@@ -156,26 +176,129 @@ export async function handleContinueAnswer(
   }
 }
 
+// Load the ticket tier chosen in this session, making sure it is still on sale
+async function getSelectedTicket(session: UserSession): Promise<ITicket> {
+  const ticket = session.ticketType
+    ? await getTicketByType(session.ticketType, session.eventId)
+    : null;
+
+  if (!ticket || !ticket.isActive) {
+    throw new ValidationError(
+      "❌ This ticket type is no longer on sale. Please type *menu* to choose another ticket."
+    );
+  }
+
+  return ticket;
+}
+
+// Prices and fixed discounts are in pesewas; the result is a whole pesewa
+function applyCouponDiscount(
+  coupon: { discountType: string; discountValue: number },
+  originalPrice: number
+): number {
+  if (coupon.discountType === "percentage") {
+    return originalPrice - percentOf(originalPrice, coupon.discountValue);
+  }
+  return Math.max(0, originalPrice - coupon.discountValue);
+}
+
 async function generatePayment(
   message: Message,
   session: UserSession
 ): Promise<void> {
+  if (session.paymentType === "installment") {
+    await startInstallmentPlan(message, session);
+    return;
+  }
+
   const chatId = message.from;
-  const ticket = TICKETS[session.ticketType!];
-  const price = session.discountedPrice !== undefined ? session.discountedPrice : ticket.price;
+  const ticket = await getSelectedTicket(session);
+  const quantity = session.quantity || 1;
 
-  const { paymentLink } = await backend.generatePaymentLink(
-    price,
-    chatId,
+  // Hold the tickets before handing out a link so two buyers can't pay for the last one.
+  // The hold also fixes the unit price at the sale wave running right now.
+  const reservation = await inventory.hold(ticket, quantity, chatId);
+  const reservationId = reservation._id.toString();
+  const unitPrice = reservation.unitPrice ?? ticket.price;
+  const subtotal = unitPrice * quantity;
+
+  let price = subtotal;
+  if (session.appliedCoupon) {
+    const coupon = await Coupon.findOne({ code: session.appliedCoupon });
+    if (coupon) {
+      price = applyCouponDiscount(coupon, subtotal);
+      session.originalPrice = subtotal;
+      session.discountedPrice = price;
+    }
+  }
+
+  // The wave may have rolled over since the buyer picked their ticket
+  if (session.totalPrice !== undefined && session.totalPrice !== subtotal) {
+    await message.reply(
+      `ℹ️ *Ticket prices have changed* since you made your selection. Your order total is now *${formatMoney(price)}*.`
+    );
+  }
+  session.totalPrice = subtotal;
+
+  const user = await User.findOne({ chatId });
+  const attendeeNames = session.attendeeNames || [];
+  const order = new Order({
     chatId,
-    {
-      ticketType: session.ticketType!,
+    userId: user?._id,
+    ticketType: ticket.type,
+    quantity,
+    unitPrice,
+    pricingPhaseId: reservation.pricingPhaseId,
+    totalAmount: price,
+    coupon: session.appliedCoupon,
+    attendees: Array.from({ length: quantity }, (_, i) => ({
+      name: attendeeNames[i] || (i === 0 ? user?.name : undefined),
+    })),
+  });
+
+  // Credit the buyer moved to this event from their wallet comes off the total
+  const credit =
+    ticket.eventId && price > MIN_CHARGE
+      ? await vouchers.hold(
+          chatId,
+          ticket.eventId,
+          order._id,
+          price - MIN_CHARGE
+        )
+      : 0;
+  if (credit > 0) {
+    price -= credit;
+    order.totalAmount = price;
+    order.voucherCredit = credit;
+    await message.reply(getVoucherCreditAppliedMessage(credit, price));
+  }
+  await order.save();
+  const orderId = order._id.toString();
+
+  let paymentLink: string;
+  try {
+    const payment = await backend.generatePaymentLink(price, chatId, chatId, {
+      ticketType: ticket.type,
+      eventId: ticket.eventId?.toString(),
       paymentType: session.paymentType || "full",
       coupon: session.appliedCoupon,
-    }
-  );
+      quantity,
+      orderId,
+      reservationId,
+    });
+    paymentLink = payment.paymentLink;
+    await inventory.attachPayment(reservationId, payment.reference);
+    order.paymentReference = payment.reference;
+    await order.save();
+  } catch (error) {
+    await inventory.releaseById(reservationId, "link_failed");
+    await vouchers.release(order._id);
+    order.status = "cancelled";
+    await order.save();
+    throw error;
+  }
 
-  const msg = getFullPaymentMessage(paymentLink);
+  const msg = getFullPaymentMessage(paymentLink, env.reservationTtlMinutes);
   await message.reply(msg);
 
   session.state = SESSION_STATES.AWAITING_PAYMENT;
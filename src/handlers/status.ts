@@ -1,7 +1,8 @@
 import type { Message } from "whatsapp-web.js";
 import type { UserSession } from "../types/session.js";
-import { TICKETS } from "../config/constants.js";
-import { backend } from "../services/backend.js";
+import { installments } from "../services/installments.js";
+import { paymentLinks } from "../services/paymentLinks.js";
+import { getTicketByType } from "../utils/ticketCatalog.js";
 import {
   getCompletedPaymentStatusMessage,
   getInProgressPaymentStatusMessage,
@@ -12,23 +13,49 @@ export async function handleCheckPaymentStatus(
   message: Message,
   session: UserSession
 ): Promise<void> {
+  // The schedule, not the session, knows what has been paid on a plan
+  const schedule = await installments.getActive(message.from);
+  const next = schedule && installments.nextInstallment(schedule);
+
   if (session.ticketId) {
     // Fully paid
-    const ticket = TICKETS[session.ticketType!];
-    const paidAmount = session.totalPrice ? session.totalPrice : ticket.price;
+    const ticket = await getTicketByType(
+      session.ticketType!,
+      session.eventId
+    );
+    const paidAmount = session.totalPrice || ticket?.price || 0;
 
     const msg = getCompletedPaymentStatusMessage(
-      ticket.name,
+      ticket?.name || session.ticketType!,
       session.ticketId,
       paidAmount
     );
 
     await message.reply(msg);
-  } else if (session.amountPaid && session.amountPaid > 0) {
-    // Legacy partial/installment-style payments are no longer supported
-    await message.reply(
-      "💳 We see a payment in progress on your account.\n\nInstallment plans are no longer supported via this bot. Please contact support if you need help completing your payment."
+  } else if (schedule && next) {
+    Object.assign(session, installments.sessionFields(schedule));
+    const ticket = await getTicketByType(
+      schedule.ticketType,
+      schedule.eventId
+    );
+    const amountDue = installments.amountDue(schedule);
+    const { paymentLink } = await paymentLinks.get(amountDue, message.from, {
+      ticketType: schedule.ticketType,
+      eventId: schedule.eventId?.toString(),
+      paymentType: "installment",
+      installmentNumber: next.number,
+    });
+
+    const msg = getInProgressPaymentStatusMessage(
+      ticket?.name || schedule.ticketType,
+      schedule.amountPaid,
+      schedule.remainingBalance,
+      amountDue,
+      session.nextDueDate!,
+      paymentLink
     );
+
+    await message.reply(msg);
   } else {
     const msg = getNoTicketsMessage();
     await message.reply(msg);
@@ -1,16 +1,95 @@
 import type { Message } from "whatsapp-web.js";
 import type { UserSession } from "../types/session.js";
-import { validateTicketType } from "../validators/input.js";
-import { SESSION_STATES, TICKETS } from "../config/constants.js";
+import {
+  validateTicketType,
+  validateQuantity,
+  validateAttendeeName,
+  validateListSelection,
+} from "../validators/input.js";
+import { SESSION_STATES } from "../config/constants.js";
 import {
   getTicketSelectionMessage,
   getTicketConfirmationMessage,
+  getQuantityPromptMessage,
+  getAttendeeNamesPromptMessage,
+  getAttendeeNamePromptMessage,
+  getPaymentTypePromptMessage,
 } from "../messages/tickets.js";
-import { isVIPOutOfStock } from "../utils/ticketAvailability.js";
+import {
+  getOutOfStockTypes,
+  getRemaining,
+} from "../utils/ticketAvailability.js";
+import { getActiveTickets, getTicketByType } from "../utils/ticketCatalog.js";
+import {
+  findEventByIdOrSlug,
+  getOnSaleEvents,
+} from "../utils/eventCatalog.js";
+import {
+  getEventSelectionMessage,
+  getNoEventsOnSaleMessage,
+} from "../messages/events.js";
+import {
+  getWaitlistPromptMessage,
+  getWaitlistJoinedMessage,
+} from "../messages/waitlist.js";
+import { pricing } from "../services/pricing.js";
+import { waitlist } from "../services/waitlist.js";
+import { installments } from "../services/installments.js";
+import type { ITicket } from "../models/Ticket.js";
+import type { IEvent } from "../models/Event.js";
+import type { TicketInfo } from "../types/session.js";
+import { ValidationError } from "../errors/AppError.js";
+
+export async function showTicketTypes(
+  message: Message,
+  session: UserSession
+): Promise<void> {
+  const events = await getOnSaleEvents();
+
+  if (events.length === 0) {
+    await message.reply(getNoEventsOnSaleMessage());
+    session.state = SESSION_STATES.MAIN_MENU;
+    return;
+  }
+
+  // Several events on sale: ask which one first
+  if (events.length > 1) {
+    await message.reply(getEventSelectionMessage(events));
+    session.state = SESSION_STATES.SELECT_EVENT;
+    return;
+  }
+
+  await showEventTickets(message, events[0]!, session);
+}
+
+export async function handleEventSelection(
+  message: Message,
+  userMessage: string,
+  session: UserSession
+): Promise<void> {
+  const events = await getOnSaleEvents();
+  if (events.length === 0) {
+    await showTicketTypes(message, session);
+    return;
+  }
+
+  const index = validateListSelection(userMessage, events.length);
+  await showEventTickets(message, events[index]!, session);
+}
+
+async function showEventTickets(
+  message: Message,
+  event: IEvent,
+  session: UserSession
+): Promise<void> {
+  session.eventId = String(event._id);
+  session.state = SESSION_STATES.SELECT_TICKET;
+  await message.reply(await getTicketSelectionMessage(event));
+}
 
-export async function showTicketTypes(message: Message): Promise<void> {
-  const msg = await getTicketSelectionMessage();
-  await message.reply(msg);
+// The event the user picked (null for sessions started before events existed)
+async function getSessionEvent(session: UserSession): Promise<IEvent | null> {
+  return session.eventId ? findEventByIdOrSlug(session.eventId) : null;
 }
 
 export async function handleTicketSelection(
@@ -18,26 +97,210 @@ export async function handleTicketSelection(
   userMessage: string,
   session: UserSession
 ): Promise<void> {
-  const normalized = userMessage.toLowerCase().trim();
+  const tickets = await getActiveTickets(session.eventId);
+
+  const outOfStockTypes = await getOutOfStockTypes(
+    tickets.map((ticket) => ticket.type),
+    session.eventId
+  );
+
+  // Validate ticket type (sold-out tiers can still be picked to join their waitlist)
+  const ticketType = validateTicketType(
+    userMessage,
+    tickets.map((ticket) => ticket.type)
+  );
+  const ticket = tickets.find((t) => t.type === ticketType)!;
+
+  if (outOfStockTypes.includes(ticketType)) {
+    session.waitlistTicketType = ticket.type;
+    session.state = SESSION_STATES.AWAITING_WAITLIST_ANSWER;
+    await message.reply(getWaitlistPromptMessage(ticket.name));
+    return;
+  }
+  const priced = await getPricedTicket(ticket);
+
+  session.ticketType = ticket.type;
+  session.totalPrice = priced.price;
+  session.paymentType = "full";
+  session.quantity = 1;
+  session.attendeeNames = [];
+
+  const maxQuantity = Math.min(
+    ticket.maxPerOrder || 1,
+    await getRemaining(ticket.type, ticket.eventId)
+  );
+
+  // Only one ticket possible: skip the quantity question
+  if (maxQuantity <= 1) {
+    await confirmSingleTicket(message, session, ticket, priced);
+    return;
+  }
+
+  await message.reply(getQuantityPromptMessage(priced, maxQuantity));
+  session.state = SESSION_STATES.SELECT_QUANTITY;
+}
+
+export async function handleQuantitySelection(
+  message: Message,
+  userMessage: string,
+  session: UserSession
+): Promise<void> {
+  const ticket = session.ticketType
+    ? await getTicketByType(session.ticketType, session.eventId)
+    : null;
+  if (!ticket || !ticket.isActive) {
+    throw new ValidationError(
+      "❌ This ticket type is no longer on sale. Please type *menu* to choose another ticket."
+    );
+  }
+
+  const maxQuantity = Math.min(
+    ticket.maxPerOrder || 1,
+    await getRemaining(ticket.type, ticket.eventId)
+  );
+  if (maxQuantity < 1) {
+    throw new ValidationError(
+      `❌ *${ticket.name} tickets are currently out of stock.*\n\nType *menu* to choose another ticket.`
+    );
+  }
+
+  const quantity = validateQuantity(userMessage, maxQuantity);
+  const priced = await getPricedTicket(ticket, quantity);
+
+  session.quantity = quantity;
+  session.totalPrice = priced.price * quantity;
+  session.attendeeNames = [];
+
+  if (quantity === 1) {
+    await confirmSingleTicket(message, session, ticket, priced);
+    return;
+  }
+
+  await message.reply(
+    getAttendeeNamesPromptMessage(quantity, session.totalPrice)
+  );
+  session.state = SESSION_STATES.AWAITING_ATTENDEE_NAMES_ANSWER;
+}
+
+export async function handleAttendeeNamesAnswer(
+  message: Message,
+  userMessage: string,
+  session: UserSession
+): Promise<void> {
+  const msg = userMessage.toLowerCase();
+  const quantity = session.quantity || 1;
+
+  if (msg === "yes" || msg === "y") {
+    session.attendeeNames = [];
+    session.state = SESSION_STATES.AWAITING_ATTENDEE_NAME;
+    await message.reply(getAttendeeNamePromptMessage(1, quantity));
+  } else if (msg === "no" || msg === "n") {
+    await askForEmail(message, session);
+  } else {
+    await message.reply("❓ Please reply with *Yes* or *No*.");
+  }
+}
 
-  // Check for VIP selection first (before validation) if VIP is out of stock
-  const vipOutOfStock = await isVIPOutOfStock();
-  if (vipOutOfStock && (normalized === "b" || normalized === "vip")) {
+export async function handleAttendeeName(
+  message: Message,
+  userMessage: string,
+  session: UserSession
+): Promise<void> {
+  const name = validateAttendeeName(userMessage);
+  const quantity = session.quantity || 1;
+
+  session.attendeeNames = [...(session.attendeeNames || []), name];
+
+  if (session.attendeeNames.length < quantity) {
     await message.reply(
-      "❌ *VIP tickets are currently out of stock.*\n\nPlease select *A* for GA tickets, or type *menu* to return to the main menu."
+      getAttendeeNamePromptMessage(session.attendeeNames.length + 1, quantity)
     );
-    return; // Don't proceed with VIP selection
+    return;
   }
 
-  // Validate ticket type (will throw error for invalid input)
-  const ticketType = validateTicketType(userMessage, vipOutOfStock);
+  await askForEmail(message, session);
+}
 
-  session.ticketType = ticketType;
-  session.totalPrice = TICKETS[ticketType].price;
-  session.paymentType = "full";
+export async function handleWaitlistAnswer(
+  message: Message,
+  userMessage: string,
+  session: UserSession
+): Promise<void> {
+  const msg = userMessage.toLowerCase();
+  const ticketType = session.waitlistTicketType;
 
-  const msg = getTicketConfirmationMessage(ticketType);
-  await message.reply(msg);
+  if (!ticketType) {
+    session.state = SESSION_STATES.MAIN_MENU;
+    await message.reply("Type *menu* to return to the main menu.");
+    return;
+  }
+
+  if (msg === "yes" || msg === "y") {
+    const ticket = await getTicketByType(ticketType, session.eventId);
+    const { position } = await waitlist.join(
+      ticketType,
+      message.from,
+      ticket?.eventId
+    );
 
+    session.waitlistTicketType = undefined;
+    session.state = SESSION_STATES.MAIN_MENU;
+    await message.reply(
+      getWaitlistJoinedMessage(ticket?.name || ticketType, position)
+    );
+  } else if (msg === "no" || msg === "n") {
+    session.waitlistTicketType = undefined;
+    session.state = SESSION_STATES.SELECT_TICKET;
+    await message.reply(
+      await getTicketSelectionMessage(await getSessionEvent(session))
+    );
+  } else {
+    await message.reply("❓ Please reply with *Yes* or *No*.");
+  }
+}
+
+// A single ticket can be paid in installments when its tier has plans
+async function confirmSingleTicket(
+  message: Message,
+  session: UserSession,
+  ticket: ITicket,
+  priced: TicketInfo
+): Promise<void> {
+  const plans = await installments.getPlans(ticket);
+  if (plans.length === 0) {
+    await message.reply(getTicketConfirmationMessage(priced));
+    session.state = SESSION_STATES.AWAITING_EMAIL;
+    return;
+  }
+
+  await message.reply(getPaymentTypePromptMessage(priced));
+  session.state = SESSION_STATES.SELECT_PAYMENT_TYPE;
+}
+
+async function askForEmail(
+  message: Message,
+  session: UserSession
+): Promise<void> {
+  const ticket = await getTicketByType(session.ticketType!, session.eventId);
+  if (!ticket) {
+    throw new ValidationError(
+      "❌ This ticket type is no longer on sale. Please type *menu* to choose another ticket."
+    );
+  }
+
+  const quantity = session.quantity || 1;
+  const priced = await getPricedTicket(ticket, quantity);
+  session.totalPrice = priced.price * quantity;
+
+  await message.reply(getTicketConfirmationMessage(priced, quantity));
   session.state = SESSION_STATES.AWAITING_EMAIL;
 }
+
+// Ticket details at the price of the sale wave running right now
+async function getPricedTicket(
+  ticket: ITicket,
+  quantity: number = 1
+): Promise<TicketInfo> {
+  const { price } = await pricing.resolve(ticket, new Date(), quantity);
+  return { name: ticket.name, description: ticket.description, price };
+}
@@ -0,0 +1,137 @@
+import type { Message } from "whatsapp-web.js";
+import type { UserSession } from "../types/session.js";
+import {
+  validateListSelection,
+  validateWhatsAppNumber,
+} from "../validators/input.js";
+import { SESSION_STATES } from "../config/constants.js";
+import { env } from "../config/env.js";
+import { ticketTransfer } from "../services/ticketTransfer.js";
+import { getTicketMap } from "../utils/ticketCatalog.js";
+import {
+  getNoTransferableTicketsMessage,
+  getTransferTicketListMessage,
+  getTransferPhonePromptMessage,
+  getTransferRequestedMessage,
+  getTransferAcceptedMessage,
+  getTransferDeclinedConfirmationMessage,
+  getTransferFailedMessage,
+} from "../messages/transfers.js";
+
+export async function showTransferableTickets(
+  message: Message,
+  session: UserSession
+): Promise<void> {
+  const tickets = await ticketTransfer.getTransferableTickets(message.from);
+
+  if (tickets.length === 0) {
+    await message.reply(getNoTransferableTicketsMessage());
+    session.state = SESSION_STATES.MAIN_MENU;
+    return;
+  }
+
+  const ticketMap = await getTicketMap();
+  await message.reply(
+    getTransferTicketListMessage(
+      tickets.map((ticket) => ({
+        ticketId: ticket.ticketId!,
+        ticketName: ticketMap.get(ticket.ticketType)?.name || ticket.ticketType,
+        attendeeName: ticket.attendeeName,
+      }))
+    )
+  );
+
+  // Remember the list order so the reply number maps to the right ticket
+  session.transferSoldTicketIds = tickets.map((ticket) =>
+    ticket._id.toString()
+  );
+  session.state = SESSION_STATES.SELECT_TRANSFER_TICKET;
+}
+
+export async function handleTransferTicketSelection(
+  message: Message,
+  userMessage: string,
+  session: UserSession
+): Promise<void> {
+  const ticketIds = session.transferSoldTicketIds || [];
+  const index = validateListSelection(userMessage, ticketIds.length);
+
+  const tickets = await ticketTransfer.getTransferableTickets(message.from);
+  const selected = tickets.find(
+    (ticket) => ticket._id.toString() === ticketIds[index]
+  );
+  if (!selected) {
+    await showTransferableTickets(message, session);
+    return;
+  }
+
+  const ticketMap = await getTicketMap();
+  session.transferSoldTicketId = ticketIds[index];
+  session.state = SESSION_STATES.AWAITING_TRANSFER_PHONE;
+  await message.reply(
+    getTransferPhonePromptMessage(
+      ticketMap.get(selected.ticketType)?.name || selected.ticketType
+    )
+  );
+}
+
+export async function handleTransferPhone(
+  message: Message,
+  userMessage: string,
+  session: UserSession
+): Promise<void> {
+  const toChatId = validateWhatsAppNumber(userMessage);
+
+  const transfer = await ticketTransfer.request(
+    session.transferSoldTicketId!,
+    message.from,
+    toChatId
+  );
+
+  const ticketMap = await getTicketMap();
+  await message.reply(
+    getTransferRequestedMessage(
+      ticketMap.get(transfer.ticketType)?.name || transfer.ticketType,
+      toChatId.split("@")[0]!,
+      env.transferOfferHours
+    )
+  );
+
+  session.transferSoldTicketIds = undefined;
+  session.transferSoldTicketId = undefined;
+  session.state = SESSION_STATES.MAIN_MENU;
+}
+
+/**
+ * Handle ACCEPT / DECLINE from a transfer recipient, whatever they were
+ * doing in the chat. Returns false if no transfer is waiting for them.
+ */
+export async function handleTransferResponse(
+  message: Message,
+  userMessage: string,
+  session: UserSession
+): Promise<boolean> {
+  const response = await ticketTransfer.respond(
+    message.from,
+    userMessage === "accept"
+  );
+  if (!response) return false;
+
+  switch (response.result) {
+    case "accepted":
+      // The issuer has already sent the new QR and PDF
+      await message.reply(getTransferAcceptedMessage(response.ticketName));
+      session.ticketId = response.transfer.toTicketId;
+      break;
+
+    case "declined":
+      await message.reply(getTransferDeclinedConfirmationMessage());
+      break;
+
+    case "failed":
+      await message.reply(getTransferFailedMessage());
+      break;
+  }
+
+  return true;
+}
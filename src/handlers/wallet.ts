@@ -1,26 +1,42 @@
 import type { Message } from "whatsapp-web.js";
 import type { UserSession } from "../types/session.js";
-import { validateWalletTransfer } from "../validators/input.js";
+import { validateListSelection } from "../validators/input.js";
 import { SESSION_STATES } from "../config/constants.js";
-import { backend } from "../services/backend.js";
+import { env } from "../config/env.js";
+import { wallet } from "../services/wallet.js";
+import { vouchers } from "../services/vouchers.js";
+import { donations } from "../services/donations.js";
+import { getUpcomingEvents } from "../utils/eventCatalog.js";
 import {
   getWalletBalanceMessage,
-  getWalletTransferConfirmationMessage,
+  getVoucherIssuedMessage,
   getEmptyWalletMessage,
 } from "../messages/wallet.js";
 
+// Wallet movements shown under the balance
+const RECENT_ACTIVITY_LIMIT = 5;
+
 export async function handleWalletBalance(
   message: Message,
   session: UserSession
 ): Promise<void> {
-  const walletBalance = session.walletBalance || 0;
+  const [walletBalance, recent] = await Promise.all([
+    wallet.getBalance(message.from),
+    wallet.getStatement(message.from, RECENT_ACTIVITY_LIMIT),
+  ]);
 
   if (walletBalance > 0) {
-    const msg = getWalletBalanceMessage(walletBalance);
+    const events = await getUpcomingEvents();
+    const msg = getWalletBalanceMessage(
+      walletBalance,
+      events,
+      env.foundationName,
+      recent
+    );
     await message.reply(msg);
     session.state = SESSION_STATES.WALLET_TRANSFER;
   } else {
-    const msg = getEmptyWalletMessage();
+    const msg = getEmptyWalletMessage(recent);
     await message.reply(msg);
   }
 }
@@ -30,36 +46,28 @@ export async function handleWalletTransfer(
   userMessage: string,
   session: UserSession
 ): Promise<void> {
-  const option = validateWalletTransfer(userMessage);
-
-  const walletBalance = session.walletBalance || 0;
-  let destination = "";
-
-  switch (option) {
-    case "1":
-      destination = "AfroFuture 2026";
-      break;
-    case "2":
-      destination = "AfroFuture Weekender";
-      break;
-    case "3":
-      destination = "AfroFuture Foundation";
-      break;
+  // Re-read the balance: it may have changed since the menu was shown
+  const walletBalance = await wallet.getBalance(message.from);
+  if (walletBalance <= 0) {
+    await message.reply(getEmptyWalletMessage());
+    session.state = SESSION_STATES.MAIN_MENU;
+    return;
   }
 
-  // Process the transfer
-  await backend.processWalletTransfer(message.from, walletBalance, destination);
+  // Upcoming events first, then the donation option
+  const events = await getUpcomingEvents();
+  const index = validateListSelection(userMessage, events.length + 1);
+  const event = events[index];
 
-  const isDonation = option === "3";
-  const msg = getWalletTransferConfirmationMessage(
-    walletBalance,
-    destination,
-    isDonation
-  );
-
-  await message.reply(msg);
+  if (event) {
+    const voucher = await vouchers.fromWallet(message.from, event);
+    await message.reply(
+      getVoucherIssuedMessage(voucher.amount, event.name, voucher.code)
+    );
+  } else {
+    const donation = await donations.fromWallet(message.from);
+    await donations.sendReceipt(donation);
+  }
 
-  // Clear wallet balance and reset state
-  session.walletBalance = 0;
   session.state = SESSION_STATES.MAIN_MENU;
 }
@@ -0,0 +1,23 @@
+import type { IEvent } from "../models/Event.js";
+
+export function getNoEventsOnSaleMessage(): string {
+  return `🎟️ *No tickets are on sale right now.*
+
+Please check back soon, or type *menu* to return to the main menu.`;
+}
+
+export function getEventSelectionMessage(events: IEvent[]): string {
+  const lines = events
+    .map(
+      (event, i) =>
+        `${i + 1}️⃣ *${event.name}*
+   📅 ${event.dates} · 📍 ${event.location}`
+    )
+    .join("\n\n");
+
+  return `🎉 *Which event would you like tickets for?*
+
+${lines}
+
+Reply with the event's number, or type *menu* to cancel.`;
+}
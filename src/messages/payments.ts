@@ -1,11 +1,11 @@
-import {
-  INSTALLMENT_PLANS,
-  TICKETS,
-  EVENT_CONFIG,
-} from "../config/constants.js";
-import type { TicketType } from "../types/session.js";
-
-export function getFullPaymentMessage(paymentLink: string): string {
+import { EVENT_CONFIG, SUPPORT_INFO } from "../config/constants.js";
+import { formatMoney } from "../utils/money.js";
+import { formatDate } from "../utils/date.js";
+
+export function getFullPaymentMessage(
+  paymentLink: string,
+  holdMinutes: number
+): string {
   return `🎫 *Perfect — let's secure your spot!*
 
 Click to pay:
@@ -16,27 +16,52 @@ Once payment is confirmed, you will receive your:
 🎫 Ticket ID
 🔳 Official QR Code Ticket (sent here in WhatsApp)
 
-_The payment link is valid for 24 hours._`;
+_Your ticket is held for ${holdMinutes} minutes. If payment isn't completed by then, it goes back on sale._`;
 }
 
-export function getInstallmentPlansMessage(ticketType: TicketType): string {
-  const plans = INSTALLMENT_PLANS[ticketType];
+export function getEmailPromptMessage(): string {
+  return "📧 Before we generate your payment link, please reply with your *email address* (e.g. name@example.com). We'll send your receipt and ticket details there.";
+}
 
-  return `💳 *Choose a payment plan:*
+// A plan as offered to one buyer: each payment's share, amount and due date
+export interface InstallmentPlanOffer {
+  code: string;
+  name: string;
+  deadline: Date;
+  installments: { percent: number; amount: number; dueDate: Date }[];
+}
+
+export function getInstallmentPlansMessage(
+  plans: InstallmentPlanOffer[]
+): string {
+  if (plans.length === 0) {
+    return "Installment plans are not available for this ticket type. Type *menu* to return to the main menu.";
+  }
+
+  const blocks = plans.map((plan) => {
+    const lines = plan.installments.map((installment, index) => {
+      const when =
+        index === 0 ? "now" : `by ${formatDate(installment.dueDate)}`;
+      return `   • ${installment.percent}% ${when}: ${formatMoney(
+        installment.amount
+      )}`;
+    });
+    return `*Plan ${plan.code} — ${plan.name}*\n${lines.join("\n")}`;
+  });
+
+  const deadline = new Date(
+    Math.max(...plans.map((plan) => plan.deadline.getTime()))
+  );
+  const codes = plans.map((plan) => `*${plan.code}*`).join(", ");
 
-🅰️ *Plan A — 3 Payments*
-   • 40% now: GH₵${plans.A[0]}
-   • 30% in 3 weeks: GH₵${plans.A[1]}
-   • 30% by Dec 13, 2025: GH₵${plans.A[2]}
+  return `💳 *Choose a payment plan:*
 
-🅱️ *Plan B — 2 Payments*
-   • 50% now: GH₵${plans.B[0]}
-   • 50% by Dec 13, 2025: GH₵${plans.B[1]}
+${blocks.join("\n\n")}
 
-🅾️ *Plan C — Custom*
-   • Choose any schedule (Final deadline: Dec 13, 2025)
+*Plan C — Custom*
+   • Choose any schedule (Final deadline: ${formatDate(deadline)})
 
-Reply *A*, *B*, or *C*.`;
+Reply ${codes} or *C*.`;
 }
 
 export function getPaymentConfirmationMessage(
@@ -57,16 +82,17 @@ Your QR Code will be delivered shortly...`;
 export function getInstallmentPaymentMessage(
   plan: string,
   firstPayment: number,
-  paymentLink: string
+  paymentLink: string,
+  holdMinutes: number
 ): string {
   return `💳 *Payment Plan ${plan} Selected*
 
-First payment: GH₵${firstPayment}
+First payment: ${formatMoney(firstPayment)}
 
 Click to pay:
 ${paymentLink}
 
-_You'll receive a confirmation once payment is processed._`;
+_You'll receive a confirmation once payment is processed. Your ticket is held for ${holdMinutes} minutes; if the first payment isn't made by then, it goes back on sale._`;
 }
 
 export function getInstallmentConfirmationMessage(
@@ -81,7 +107,7 @@ export function getInstallmentConfirmationMessage(
 
 🎫 Ticket: ${ticketName}
 💰 Installment: ${installmentNumber}/${totalInstallments}
-💵 Remaining Balance: GH₵${remainingBalance.toFixed(2)}
+💵 Remaining Balance: ${formatMoney(remainingBalance)}
 📅 Next Due Date: ${nextDueDate}
 
 `;
@@ -97,11 +123,189 @@ export function getInstallmentConfirmationMessage(
   );
 }
 
-export function getCustomPlanMessage(): string {
-  return `📞 *Custom Plan Selected*
+// "1. GH₵400.00 — now" for each payment of a schedule
+function formatScheduleLines(
+  schedule: { amount: number; dueDate: Date }[]
+): string {
+  return schedule
+    .map(
+      (installment, index) =>
+        `${index + 1}. ${formatMoney(installment.amount)} — ${
+          index === 0 ? "now" : `by ${formatDate(installment.dueDate)}`
+        }`
+    )
+    .join("\n");
+}
+
+export function getCustomPlanCountMessage(
+  minPayments: number,
+  maxPayments: number,
+  deadline: Date
+): string {
+  return `🅾️ *Custom Plan*
+
+Tell us how you'd like to pay and our team will review it.
+
+How many payments would you like to make? Reply with a number from *${minPayments}* to *${maxPayments}*.
+
+_The first payment is made when your plan is approved, and the last must be by ${formatDate(
+    deadline
+  )}._`;
+}
+
+export function getCustomPlanDatesMessage(
+  count: number,
+  deadline: Date
+): string {
+  const others = count - 1;
+  const which =
+    others === 1
+      ? "your *other payment*"
+      : `each of your *other ${others} payments*`;
+  return `📅 Your first payment is made when your plan is approved.
+
+Please reply with the date for ${which}, separated by commas (e.g. *15/11/2026, 10/12/2026*).
+
+The last payment must be by *${formatDate(deadline)}*.`;
+}
+
+export function getCustomPlanSubmittedMessage(
+  ticketName: string,
+  schedule: { amount: number; dueDate: Date }[]
+): string {
+  return `📨 *Custom Plan Submitted*
+
+🎫 Ticket: ${ticketName}
+
+${formatScheduleLines(schedule)}
+
+Our team will review your plan within 24 hours. We'll message you here with your first payment link once it's approved.
+
+Support: ${SUPPORT_INFO.phone}
+Email: ${SUPPORT_INFO.email}`;
+}
+
+export function getCustomPlanApprovedMessage(
+  ticketName: string,
+  schedule: { amount: number; dueDate: Date }[],
+  paymentLink: string,
+  note?: string
+): string {
+  return `✅ *Your Custom Plan is Approved!*
+
+🎫 Ticket: ${ticketName}
+
+${formatScheduleLines(schedule)}
+${note ? `\n📝 ${note}\n` : ""}
+Click to make your first payment:
+${paymentLink}
+
+_A reminder will be sent before each payment is due._`;
+}
+
+export function getCustomPlanRejectedMessage(note?: string): string {
+  return `❌ *Custom Plan Not Approved*
+
+We couldn't approve the payment plan you asked for.${
+    note ? `\n\n📝 ${note}` : ""
+  }
+
+You can still pay in full or pick one of our standard plans. Type *menu* to start again, or contact support:
+${SUPPORT_INFO.phone}
+${SUPPORT_INFO.email}`;
+}
+
+export function getChargeFailedMessage(
+  amount: number,
+  reason: string | undefined,
+  retry?: { paymentLink: string; holdMinutes?: number }
+): string {
+  const why = reason ? `\n📝 ${reason}` : "";
+
+  if (!retry) {
+    return `❌ *Your payment of ${formatMoney(amount)} didn't go through.*${why}
+
+No money was taken. Type *menu* to start a new order.`;
+  }
+
+  return `❌ *Your payment of ${formatMoney(amount)} didn't go through.*${why}
+
+No money was taken. Please check your Mobile Money balance and try again on this fresh link:
+${retry.paymentLink}${
+    retry.holdMinutes
+      ? `\n\n_Your ticket is still held for ${retry.holdMinutes} minute${
+          retry.holdMinutes === 1 ? "" : "s"
+        }._`
+      : ""
+  }`;
+}
+
+export function getCheckoutNudgeMessage(
+  amount: number,
+  paymentLink: string,
+  holdMinutes?: number
+): string {
+  const hold = holdMinutes
+    ? `\n\n_Your ticket is held for ${holdMinutes} more minute${
+        holdMinutes === 1 ? "" : "s"
+      }._`
+    : "";
+
+  return `👋 *Still want your ticket?*
+
+Your payment of ${formatMoney(amount)} hasn't come through yet. Here's a fresh link to finish your order:
+${paymentLink}${hold}
+
+_Please pay on this link only: your earlier link has been replaced, and a payment on both would need to be refunded._
+
+Changed your mind? Type *menu* and we won't remind you again.`;
+}
+
+export function getChargebackMessage(ticketsCancelled: number): string {
+  const tickets =
+    ticketsCancelled > 0
+      ? `\n\n🎫 ${ticketsCancelled} ticket${
+          ticketsCancelled > 1 ? "s have" : " has"
+        } been cancelled and will no longer work at the gate.`
+      : "";
+
+  return `⚠️ *Your AfroFuture payment was reversed*
+
+Your bank or Mobile Money provider returned this payment to you after a dispute.${tickets}
+
+If you think this is a mistake, please contact support.`;
+}
+
+export function getDuplicatePaymentMessage(amount: number): string {
+  return `⚠️ *We received an extra payment of ${formatMoney(amount)}*
+
+What it was for had already been paid on another link, or the plan it was for has closed, so nothing was bought with it. Our team will refund it to you.
+
+If you have any questions, please contact support.`;
+}
+
+export function getReceiptCaption(amount: number, reference: string): string {
+  return `🧾 Receipt for your payment of ${formatMoney(amount)} (${reference})`;
+}
+
+export function getReceiptEmail(details: {
+  buyerName: string;
+  eventName: string;
+  amount: number;
+  reference: string;
+}): { subject: string; text: string } {
+  return {
+    subject: `Your ${details.eventName} payment receipt (${details.reference})`,
+    text: `Hi ${details.buyerName},
+
+Thank you for your payment of ${formatMoney(details.amount)} for ${details.eventName}.
+
+Your receipt is attached. Your tickets are sent to you on WhatsApp.
+
+Receipt no.: ${details.reference}
 
-Our team will contact you within 24 hours to arrange a custom payment schedule.
+Questions about this payment? Email ${SUPPORT_INFO.email}.
 
-Support: +233 55 000 0000
-Email: support@afrofuture.com`;
+The AfroFuture team`,
+  };
 }
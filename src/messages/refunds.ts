@@ -0,0 +1,40 @@
+import { formatMoney } from "../utils/money.js";
+
+export function getRefundIssuedMessage(
+  amount: number,
+  fullRefund: boolean,
+  ticketsCancelled: number,
+  reason: string
+): string {
+  const tickets =
+    ticketsCancelled > 0
+      ? `🎫 ${ticketsCancelled} ticket${
+          ticketsCancelled > 1 ? "s have" : " has"
+        } been cancelled and the QR code${
+          ticketsCancelled > 1 ? "s" : ""
+        } will no longer work at the gate.`
+      : "🎫 Your tickets are still valid — see you at the event!";
+
+  return `💸 *${fullRefund ? "Refund" : "Partial refund"} on its way*
+
+We're refunding *${formatMoney(amount)}* of your AfroFuture payment.
+📝 Reason: ${reason}
+
+${tickets}
+
+Refunds usually reach your Mobile Money wallet within a few working days.`;
+}
+
+export function getRefundFailedMessage(
+  amount: number,
+  ticketsRestored: number
+): string {
+  const tickets =
+    ticketsRestored > 0
+      ? "\n\n🎫 Your tickets have been restored and their QR codes work again."
+      : "";
+
+  return `⚠️ *Your refund of ${formatMoney(amount)} couldn't be completed.*
+
+An AfroFuture admin will contact you about it.${tickets}`;
+}
@@ -1,13 +1,14 @@
 import { EVENT_CONFIG } from "../config/constants.js";
+import type { IEvent } from "../models/Event.js";
+import { formatMoney } from "../utils/money.js";
+import { formatWalletOptions } from "./wallet.js";
 
 export function get5DayReminderMessage(
   amount: number,
   daysLeft: number,
   paymentLink: string
 ): string {
-  return `🔔 Hi there — your next AfroFuture payment of GH₵${amount.toFixed(
-    2
-  )} is due in ${daysLeft} days.
+  return `🔔 Hi there — your next AfroFuture payment of ${formatMoney(amount)} is due in ${daysLeft} days.
 
 Pay now: ${paymentLink}
 
@@ -21,7 +22,7 @@ export function get1DayReminderMessage(
 ): string {
   return `⏰ *Reminder — final call!*
 
-GH₵${amount.toFixed(2)} due *tomorrow*.
+${formatMoney(amount)} due *tomorrow*.
 
 Pay to keep your ticket confirmed: ${paymentLink}
 
@@ -32,42 +33,48 @@ export function getDeadlineMissedWithDowngradeMessage(
   amountPaid: number,
   originalPrice: number,
   downgradedTicketName: string,
-  ticketId: string,
-  walletAmount: number
+  ticketId: string | null,
+  walletAmount: number,
+  events: IEvent[],
+  foundationName: string
 ): string {
-  return `Hi there, your installment window closed.
+  const ticketLine = ticketId
+    ? `🆔 Ticket ID: #${ticketId}`
+    : "🎫 An AfroFuture admin will send your ticket to this chat shortly.";
+  const walletSection =
+    walletAmount > 0
+      ? `
 
-You paid GH₵${amountPaid.toFixed(2)} of GH₵${originalPrice.toFixed(2)}.
+💰 The remaining ${formatMoney(walletAmount)} has been added to your AfroFuture Wallet.
 
-✅ You qualify for *${downgradedTicketName}*
-🆔 Ticket ID: #${ticketId}
+*Choose how to use it:*
+${formatWalletOptions(events, foundationName)}
 
-💰 Your remaining balance GH₵${walletAmount.toFixed(
-    2
-  )} has been added to your AfroFuture Wallet.
+Reply with a number, or type *menu* to cancel.`
+      : "";
 
-*Options:*
-1️⃣ Transfer to AfroFuture 2026
-2️⃣ Use for AfroFuture Weekender
-3️⃣ Donate to AfroFuture Foundation
+  return `Hi there, your installment window closed.
 
-Reply 1, 2, or 3 to choose.`;
+You paid ${formatMoney(amountPaid)} of ${formatMoney(originalPrice)}.
+
+✅ You qualify for *${downgradedTicketName}*
+${ticketLine}${walletSection}`;
 }
 
 export function getDeadlineMissedFullRolloverMessage(
   amountPaid: number,
-  originalPrice: number
+  originalPrice: number,
+  events: IEvent[],
+  foundationName: string
 ): string {
   return `Hi there, your installment window closed.
 
-You paid GH₵${amountPaid.toFixed(2)} of GH₵${originalPrice.toFixed(2)}.
+You paid ${formatMoney(amountPaid)} of ${formatMoney(originalPrice)}.
 
 💰 Your balance has been moved to your AfroFuture Wallet.
 
 *Choose how to use it:*
-1️⃣ AfroFuture 2026
-2️⃣ AfroFuture Weekender
-3️⃣ Donate to AfroFuture Foundation
+${formatWalletOptions(events, foundationName)}
 
-Reply 1, 2, or 3.`;
+Reply with a number, or type *menu* to cancel.`;
 }
@@ -1,5 +1,6 @@
 import { EVENT_CONFIG } from "../config/constants.js";
 import type { TicketType } from "../types/session.js";
+import { formatMoney } from "../utils/money.js";
 
 export function getCompletedPaymentStatusMessage(
   ticketName: string,
@@ -10,7 +11,7 @@ export function getCompletedPaymentStatusMessage(
 
 🎫 Ticket: ${ticketName}
 🆔 Ticket ID: #${ticketId}
-💰 Paid: GH₵${amountPaid.toFixed(2)}
+💰 Paid: ${formatMoney(amountPaid)}
 📅 Event: ${EVENT_CONFIG.eventDates}
 
 Your QR ticket has been sent to this chat. 🎉`;
@@ -20,15 +21,16 @@ export function getInProgressPaymentStatusMessage(
   ticketName: string,
   amountPaid: number,
   balance: number,
+  amountDue: number,
   nextDueDate: string,
   paymentLink: string
 ): string {
   return `💳 *Payment Status: IN PROGRESS*
 
 🎫 Ticket: ${ticketName}
-✅ Paid: GH₵${amountPaid.toFixed(2)}
-💵 Balance: GH₵${balance.toFixed(2)}
-📅 Next Payment Due: ${nextDueDate}
+✅ Paid: ${formatMoney(amountPaid)}
+💵 Balance: ${formatMoney(balance)}
+📅 Next Payment: ${formatMoney(amountDue)} due ${nextDueDate}
 
 Pay now: ${paymentLink}`;
 }
@@ -46,7 +48,7 @@ export function getContinueInstallmentMessage(
   return `💳 *Continue Your Payment*
 
 🎫 Ticket: ${ticketName}
-💵 Remaining Balance: GH₵${remainingBalance.toFixed(2)}
+💵 Remaining Balance: ${formatMoney(remainingBalance)}
 📅 Due Date: ${dueDate}
 
 Click to pay:
@@ -1,38 +1,127 @@
-import { TICKETS } from "../config/constants.js";
-import type { TicketType } from "../types/session.js";
-import { isVIPOutOfStock } from "../utils/ticketAvailability.js";
+import type mongoose from "mongoose";
+import type { TicketInfo } from "../types/session.js";
+import type { ITicket } from "../models/Ticket.js";
+import type { IEvent } from "../models/Event.js";
+import { getActiveTickets, getOptionLetter } from "../utils/ticketCatalog.js";
+import { formatMoney } from "../utils/money.js";
+import { getOutOfStockTypes } from "../utils/ticketAvailability.js";
+import { pricing } from "../services/pricing.js";
 
-export async function getTicketSelectionMessage(): Promise<string> {
-  // Check VIP availability dynamically
-  const vipOutOfStock = await isVIPOutOfStock();
+export async function getTicketSelectionMessage(
+  event?: IEvent | null
+): Promise<string> {
+  const eventId = event?._id as mongoose.Types.ObjectId | undefined;
+  const tickets = await getActiveTickets(eventId);
 
-  if (vipOutOfStock) {
-    // Only show GA when VIP is out of stock
-    return `🎟️ *Choose your ticket type* (Both Days Included):
+  if (tickets.length === 0) {
+    return `🎟️ *No tickets are on sale right now.*
 
-*A.* ${TICKETS.GA.name} — GH₵${TICKETS.GA.price}
-   ${TICKETS.GA.description}
+Please check back soon, or type *menu* to return to the main menu.`;
+  }
 
-⚠️ *VIP tickets are currently out of stock.*
+  // Check availability dynamically from the stock counters
+  const outOfStockTypes = await getOutOfStockTypes(
+    tickets.map((ticket) => ticket.type),
+    eventId
+  );
+  const isOutOfStock = (ticket: ITicket) =>
+    outOfStockTypes.includes(ticket.type);
 
-Reply with *A* to select.`;
-  }
+  const options = tickets
+    .map((ticket, index) => ({ ticket, letter: getOptionLetter(index) }))
+    .filter(({ ticket }) => !isOutOfStock(ticket));
+  const soldOut = tickets
+    .map((ticket, index) => ({ ticket, letter: getOptionLetter(index) }))
+    .filter(({ ticket }) => isOutOfStock(ticket));
+
+  // Prices come from the sale wave running right now
+  const quotes = await Promise.all(
+    options.map(({ ticket }) => pricing.resolve(ticket))
+  );
+
+  const lines = options.map(({ ticket, letter }, index) => {
+    const { price, phase } = quotes[index]!;
+    const wave = phase ? ` (${phase.name})` : "";
+    return `*${letter}.* ${ticket.name} — ${formatMoney(price)}${wave}
+   ${ticket.description}`;
+  });
+
+  const soldOutNotice = soldOut
+    .map(
+      ({ ticket, letter }) =>
+        `⚠️ *${ticket.name} tickets are currently out of stock.* Reply *${letter}* to join the waitlist.`
+    )
+    .join("\n");
+
+  const letters = options.map(({ letter }) => `*${letter}*`);
+  const replyHint =
+    letters.length > 1
+      ? `Reply with ${letters.slice(0, -1).join(", ")} or ${letters.at(-1)} to select.`
+      : `Reply with ${letters[0] ?? "*menu*"} to select.`;
 
-  // If VIP is available, show both options
-  return `🎟️ *Choose your ticket type* (Both Days Included):
+  const heading = event
+    ? `🎟️ *${event.name}* — ${event.dates}, ${event.location}
 
-*A.* ${TICKETS.GA.name} — GH₵${TICKETS.GA.price}
-   ${TICKETS.GA.description}
+*Choose your ticket type:*`
+    : "🎟️ *Choose your ticket type* (Both Days Included):";
 
-*B.* ${TICKETS.VIP.name} — GH₵${TICKETS.VIP.price}
-   ${TICKETS.VIP.description}
+  return `${heading}
 
-Reply with *A* or *B* to select.`;
+${lines.join("\n\n")}
+${soldOutNotice ? `\n${soldOutNotice}\n` : ""}
+${replyHint}`;
 }
 
-export function getTicketConfirmationMessage(ticketType: TicketType): string {
-  const ticket = TICKETS[ticketType];
-  return `✅ You selected *${ticket.name}* — GH₵${ticket.price}
+export function getQuantityPromptMessage(
+  ticket: TicketInfo,
+  maxQuantity: number
+): string {
+  return `✅ You selected *${ticket.name}* — ${formatMoney(ticket.price)} each
+
+🔢 *How many tickets would you like?*
+
+Reply with a number from *1* to *${maxQuantity}*.`;
+}
+
+export function getAttendeeNamesPromptMessage(
+  quantity: number,
+  total: number
+): string {
+  return `🎟️ ${quantity} tickets — ${formatMoney(total)} in total
+
+👥 Would you like to add a *name for each attendee*? Names appear on each ticket. (Reply *Yes* or *No*)`;
+}
+
+export function getAttendeeNamePromptMessage(
+  attendeeNumber: number,
+  quantity: number
+): string {
+  return `👤 Please enter the *name for attendee ${attendeeNumber} of ${quantity}*:`;
+}
+
+export function getTicketConfirmationMessage(
+  ticket: TicketInfo,
+  quantity: number = 1
+): string {
+  const summary =
+    quantity > 1
+      ? `✅ Your order: *${quantity} x ${ticket.name}* — ${formatMoney(
+          ticket.price * quantity
+        )}`
+      : `✅ You selected *${ticket.name}* — ${formatMoney(ticket.price)}`;
+
+  return `${summary}
 
 📧 Before we generate your payment link, please reply with your *email address* (e.g. name@example.com). We'll send your receipt and ticket details there.`;
 }
+
+export function getPaymentTypePromptMessage(ticket: TicketInfo): string {
+  return `✅ You selected *${ticket.name}* — ${formatMoney(ticket.price)}
+
+💳 *How would you like to pay?*
+
+1️⃣ Pay in full
+2️⃣ Pay in installments
+
+Reply *1* or *2*.`;
+}
@@ -0,0 +1,113 @@
+export interface TransferableTicketLine {
+  ticketId: string;
+  ticketName: string;
+  attendeeName?: string | null;
+}
+
+export function getNoTransferableTicketsMessage(): string {
+  return `🎫 *You don't have any tickets that can be transferred.*
+
+Only tickets issued to this chat with a QR code can be passed on. Type *menu* to return to the main menu.`;
+}
+
+export function getTransferTicketListMessage(
+  tickets: TransferableTicketLine[]
+): string {
+  const lines = tickets
+    .map(
+      (ticket, i) =>
+        `${i + 1}️⃣ ${ticket.ticketName} — ${ticket.ticketId}${
+          ticket.attendeeName ? ` (${ticket.attendeeName})` : ""
+        }`
+    )
+    .join("\n");
+
+  return `🔁 *Transfer a Ticket*
+
+Which ticket would you like to transfer?
+
+${lines}
+
+Reply with the ticket's number, or type *menu* to cancel.`;
+}
+
+export function getTransferPhonePromptMessage(ticketName: string): string {
+  return `📱 Please reply with the WhatsApp number of the person receiving your *${ticketName}* ticket (e.g. *0241234567* or *+233241234567*).
+
+_Once they accept, your current QR code will stop working and they'll get a new one._`;
+}
+
+export function getTransferRequestedMessage(
+  ticketName: string,
+  recipientNumber: string,
+  hours: number
+): string {
+  return `📨 *Transfer request sent!*
+
+We've asked *+${recipientNumber}* to accept your *${ticketName}* ticket. They have ${hours} hours to accept.
+
+Your ticket stays valid until they do. Type *menu* to return to the main menu.`;
+}
+
+export function getTransferOfferMessage(
+  senderName: string,
+  ticketName: string,
+  hours: number
+): string {
+  return `🎁 *${senderName} wants to transfer a ${ticketName} ticket to you!*
+
+Reply *ACCEPT* to receive the ticket, or *DECLINE* to turn it down.
+
+_This offer expires in ${hours} hours._`;
+}
+
+export function getTransferAcceptedMessage(ticketName: string): string {
+  return `✅ *Transfer complete!* Your *${ticketName}* ticket and QR code have been sent to this chat.
+
+Show the QR code at the gate for entry.`;
+}
+
+export function getTransferCompletedSenderMessage(
+  ticketName: string,
+  recipientNumber: string
+): string {
+  return `✅ *+${recipientNumber} accepted your ${ticketName} ticket.*
+
+Your old QR code for this ticket is no longer valid.`;
+}
+
+export function getTransferDeclinedMessage(
+  ticketName: string,
+  recipientNumber: string
+): string {
+  return `❌ *+${recipientNumber} declined your ${ticketName} ticket.*
+
+The ticket is still yours. Type *menu* if you'd like to transfer it to someone else.`;
+}
+
+export function getTransferDeclinedConfirmationMessage(): string {
+  return "👍 No problem — the transfer has been declined. Type *menu* to see what else we can help with.";
+}
+
+export function getTransferExpiredMessage(
+  ticketName: string,
+  recipientNumber: string
+): string {
+  return `⌛ *Your transfer of a ${ticketName} ticket to +${recipientNumber} has expired.*
+
+They didn't accept in time, so the ticket is still yours. Type *menu* to try again.`;
+}
+
+export function getTransferFailedSenderMessage(
+  ticketName: string,
+  recipientNumber: string,
+  reason: string
+): string {
+  return `⚠️ *Your transfer of a ${ticketName} ticket to +${recipientNumber} couldn't be completed:* ${reason}.
+
+Type *menu* to check your tickets or contact support.`;
+}
+
+export function getTransferFailedMessage(): string {
+  return "⚠️ This ticket can no longer be transferred — it may have been used or changed. The sender has been notified.";
+}
@@ -0,0 +1,40 @@
+import { formatMoney } from "../utils/money.js";
+
+export function getWaitlistPromptMessage(ticketName: string): string {
+  return `❌ *${ticketName} tickets are currently sold out.*
+
+⏳ Would you like to join the *waitlist*? If a ticket frees up, we'll message you here with a payment link. (Reply *Yes* or *No*)`;
+}
+
+export function getWaitlistJoinedMessage(
+  ticketName: string,
+  position: number
+): string {
+  return `✅ *You're on the ${ticketName} waitlist!*
+
+📋 Your position: *#${position}*
+
+We'll message you here as soon as a ticket is available. Type *menu* to return to the main menu.`;
+}
+
+export function getWaitlistOfferMessage(
+  ticketName: string,
+  price: number,
+  paymentLink: string,
+  holdMinutes: number
+): string {
+  return `🎉 *Good news — a ${ticketName} ticket is available for you!*
+
+We've reserved it from the waitlist. Price: *${formatMoney(price)}*
+
+Click to pay:
+${paymentLink}
+
+_This ticket is held for you for ${holdMinutes} minutes. If payment isn't completed by then, it goes to the next person on the waitlist._`;
+}
+
+export function getWaitlistOfferExpiredMessage(ticketName: string): string {
+  return `⌛ *Your reserved ${ticketName} ticket has been released.*
+
+The payment window closed, so the ticket was offered to the next person on the waitlist. Type *menu* to see what's on sale.`;
+}
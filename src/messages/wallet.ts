@@ -1,34 +1,96 @@
-export function getWalletBalanceMessage(balance: number): string {
+import type { IWalletTransaction } from "../models/WalletTransaction.js";
+import type { IEvent } from "../models/Event.js";
+import { formatMoney } from "../utils/money.js";
+import { formatDate } from "../utils/date.js";
+
+// The latest wallet movements, newest first
+function formatRecentActivity(transactions: IWalletTransaction[]): string {
+  if (transactions.length === 0) return "";
+
+  const lines = transactions.map((transaction) => {
+    const sign = transaction.amount > 0 ? "+" : "−";
+    return `• ${formatDate(transaction.createdAt)}: ${sign}${formatMoney(
+      Math.abs(transaction.amount)
+    )} ${transaction.description}`;
+  });
+  return `\n\n🧾 *Recent activity*\n${lines.join("\n")}`;
+}
+
+// What a wallet balance can go to: credit for an upcoming event, or a
+// donation (always last)
+export function formatWalletOptions(
+  events: IEvent[],
+  foundationName: string
+): string {
+  return [
+    ...events.map((event) => `Credit for *${event.name}*`),
+    `Donate to *${foundationName}*`,
+  ]
+    .map((option, i) => `${i + 1}️⃣ ${option}`)
+    .join("\n");
+}
+
+export function getWalletBalanceMessage(
+  balance: number,
+  events: IEvent[],
+  foundationName: string,
+  recent: IWalletTransaction[] = []
+): string {
   return `💰 *AfroFuture Wallet Balance*
 
-Your balance: GH₵${balance.toFixed(2)}
+Your balance: ${formatMoney(balance)}${formatRecentActivity(recent)}
 
 Choose how to use it:
-1️⃣ AfroFuture 2026
-2️⃣ AfroFuture Weekender
-3️⃣ Donate to AfroFuture Foundation
+${formatWalletOptions(events, foundationName)}
 
-Reply 1, 2, or 3.`;
+Reply with a number, or type *menu* to cancel.`;
 }
 
-export function getWalletTransferConfirmationMessage(
+export function getVoucherIssuedMessage(
   amount: number,
-  destination: string,
-  isDonation: boolean
+  eventName: string,
+  code: string
 ): string {
-  const thankYouMessage = isDonation
-    ? "🙏 Thank you for your generous donation to the AfroFuture Foundation!"
-    : `🎉 Your balance is reserved for ${destination}. You'll be notified when tickets go on sale!`;
-
   return `✅ *Transfer Complete!*
 
-💰 GH₵${amount.toFixed(2)} has been transferred to *${destination}*
+💰 ${formatMoney(amount)} is now credit for *${eventName}* (voucher *${code}*).
 
-${thankYouMessage}
+🎉 It will come off your next ticket purchase for ${eventName} automatically.
 
 Type *menu* to return to main menu.`;
 }
 
-export function getEmptyWalletMessage(): string {
-  return "Your wallet balance is GH₵0.00\n\nType *menu* to see all options.";
+export function getDonationReceiptMessage(
+  receiptNumber: string,
+  amount: number,
+  recipient: string,
+  donatedAt: Date,
+  donorName?: string
+): string {
+  return `🙏 *Thank you for your generous donation to the ${recipient}!*
+
+🧾 *Donation Receipt*
+Receipt no: ${receiptNumber}
+Date: ${formatDate(donatedAt)}${donorName ? `\nDonor: ${donorName}` : ""}
+Amount: ${formatMoney(amount)}
+To: ${recipient}
+
+Please keep this message as your receipt.
+
+Type *menu* to return to main menu.`;
+}
+
+export function getVoucherCreditAppliedMessage(
+  credit: number,
+  total: number
+): string {
+  return `💳 ${formatMoney(credit)} of your event credit has been applied. You pay *${formatMoney(total)}*.`;
+}
+
+export function getEmptyWalletMessage(
+  recent: IWalletTransaction[] = []
+): string {
+  return `Your wallet balance is ${formatMoney(0)}${formatRecentActivity(
+    recent
+  )}\n\nType *menu* to see all options.`;
 }
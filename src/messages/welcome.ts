@@ -12,6 +12,7 @@ What would you like to do today?
 2️⃣ Check My Payment Status
 3️⃣ Transfer / Use My Wallet Balance
 4️⃣ Help / Contact Support
+5️⃣ Transfer a Ticket
 
 _Please save this contact to receive your QR ticket, reminders & lineup announcements._`;
 }
@@ -8,15 +8,34 @@ export interface AdminPayload {
   exp?: number;
 }
 
+type AdminRole = "super_admin" | "admin" | "scanner";
+
 /**
  * JWT authentication middleware for admin routes
  * Expects Bearer token: Authorization: Bearer <token>
  */
-export const authenticateAdmin = async (
+export const authenticateAdmin = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => authenticate(req, res, next, ["super_admin", "admin"]);
+
+/**
+ * JWT authentication middleware for gate check-in routes.
+ * Scanner accounts can only reach these; admins can use them too.
+ */
+export const authenticateScanner = (
   req: Request,
   res: Response,
   next: NextFunction
-) => {
+) => authenticate(req, res, next, ["super_admin", "admin", "scanner"]);
+
+async function authenticate(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  allowedRoles: AdminRole[]
+) {
   try {
     // Get Authorization header
     const authHeader = req.headers.authorization;
@@ -49,6 +68,12 @@ export const authenticateAdmin = async (
           message: "Admin account not found or inactive",
         });
       }
+      if (!allowedRoles.includes(admin.role)) {
+        return res.status(403).json({
+          status: "error",
+          message: "Your account does not have access to this resource",
+        });
+      }
       (req as any).admin = { 
         email: admin.email, 
         name: admin.name,
@@ -69,4 +94,4 @@ export const authenticateAdmin = async (
       message: "Authentication failed",
     });
   }
-};
+}
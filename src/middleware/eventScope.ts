@@ -0,0 +1,102 @@
+import type { Request, Response, NextFunction } from "express";
+import type mongoose from "mongoose";
+import type { IEvent } from "../models/Event.js";
+import {
+  eventRecordsFilter,
+  findEventByIdOrSlug,
+  getEventTicketTypes,
+} from "../utils/eventCatalog.js";
+
+export interface EventScope {
+  event: IEvent;
+  ticketTypes: string[]; // Tiers sold for the event
+}
+
+/**
+ * Narrow a dashboard request to one event with ?eventId=<id or slug>.
+ * Without the parameter the request covers every event.
+ */
+export const scopeToEvent = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  const eventId = req.query.eventId;
+  if (!eventId) return next();
+
+  try {
+    const event = await findEventByIdOrSlug(String(eventId));
+    if (!event) {
+      return res.status(404).json({
+        status: "error",
+        message: "Event not found",
+      });
+    }
+
+    (req as any).eventScope = {
+      event,
+      ticketTypes: await getEventTicketTypes(event._id as mongoose.Types.ObjectId),
+    } satisfies EventScope;
+    next();
+  } catch (error) {
+    console.error("Error resolving event scope:", error);
+    res.status(500).json({
+      status: "error",
+      message: "Failed to resolve event",
+    });
+  }
+};
+
+/**
+ * The event a request was narrowed to, if any
+ */
+export function getEventScope(req: Request): EventScope | undefined {
+  return (req as any).eventScope;
+}
+
+/**
+ * ID of the event a request was narrowed to, if any
+ */
+export function getScopedEventId(
+  req: Request
+): mongoose.Types.ObjectId | undefined {
+  return getEventScope(req)?.event._id as mongoose.Types.ObjectId | undefined;
+}
+
+/**
+ * Filter on sales records for the request's event, including older ones
+ * that only recorded a ticket type (empty when the request isn't narrowed
+ * to one)
+ */
+export function eventRecordFilter(req: Request): Record<string, unknown> {
+  const scope = getEventScope(req);
+  return scope
+    ? eventRecordsFilter(
+        scope.event._id as mongoose.Types.ObjectId,
+        scope.ticketTypes
+      )
+    : {};
+}
+
+/**
+ * Filter on users whose chat session is for the request's event
+ */
+export function eventUserFilter(req: Request): Record<string, unknown> {
+  const scope = getEventScope(req);
+  // Chat sessions keep the event ID as a string
+  return scope
+    ? eventRecordsFilter(
+        (scope.event._id as mongoose.Types.ObjectId).toString(),
+        scope.ticketTypes,
+        "session."
+      )
+    : {};
+}
+
+/**
+ * Filter on an `eventId` field matching the request's event
+ */
+export function eventIdFilter(req: Request): Record<string, unknown> {
+  const scope = getEventScope(req);
+  return scope ? { eventId: scope.event._id } : {};
+}
@@ -4,7 +4,7 @@ export interface IAdmin extends Document {
   email: string;
   password: string;
   name: string;
-  role: "super_admin" | "admin";
+  role: "super_admin" | "admin" | "scanner"; // Scanners can only use gate check-in
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -31,7 +31,7 @@ const adminSchema = new Schema<IAdmin>(
     },
     role: {
       type: String,
-      enum: ["super_admin", "admin"],
+      enum: ["super_admin", "admin", "scanner"],
       default: "admin",
     },
     isActive: {
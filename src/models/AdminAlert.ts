@@ -0,0 +1,73 @@
+import mongoose from "mongoose";
+
+export interface IAdminAlert extends mongoose.Document {
+  type: string; // What happened, e.g. "payment.disputed"
+  severity: "info" | "warning" | "critical";
+  title: string;
+  message: string;
+  reference?: string; // Payment or transfer reference it is about
+  chatId?: string;
+  data?: Record<string, any>;
+  acknowledgedAt?: Date;
+  acknowledgedBy?: string; // Admin ID
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const adminAlertSchema = new mongoose.Schema({
+  type: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  severity: {
+    type: String,
+    enum: ["info", "warning", "critical"],
+    default: "warning",
+  },
+  title: {
+    type: String,
+    required: true,
+  },
+  message: {
+    type: String,
+    required: true,
+  },
+  reference: {
+    type: String,
+    index: true,
+  },
+  chatId: {
+    type: String,
+  },
+  data: {
+    type: mongoose.Schema.Types.Mixed,
+  },
+  acknowledgedAt: {
+    type: Date,
+    default: null,
+  },
+  acknowledgedBy: {
+    type: String,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+adminAlertSchema.pre("save", function () {
+  this.updatedAt = new Date();
+});
+
+// The dashboard lists open alerts, newest first
+adminAlertSchema.index({ acknowledgedAt: 1, createdAt: -1 });
+
+export const AdminAlert = mongoose.model<IAdminAlert>(
+  "AdminAlert",
+  adminAlertSchema
+);
@@ -3,6 +3,7 @@ import mongoose from "mongoose";
 export interface IBroadcast extends mongoose.Document {
   message: string;
   filter: "all" | "paid" | "pending";
+  eventId?: mongoose.Types.ObjectId | null; // Only users with tickets for this event
   status: "sent" | "scheduled" | "failed";
   sentCount?: number;
   totalUsers?: number;
@@ -23,6 +24,12 @@ const broadcastSchema = new mongoose.Schema({
     enum: ["all", "paid", "pending"],
     default: "all",
   },
+  eventId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Event",
+    default: null,
+    index: true,
+  },
   status: {
     type: String,
     enum: ["sent", "scheduled", "failed"],
@@ -0,0 +1,108 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface ICheckIn extends Document {
+  soldTicketId: mongoose.Types.ObjectId;
+  ticketId: string;
+  ticketType: string;
+  eventId?: mongoose.Types.ObjectId; // Event the gate was checking in for
+  result: "admitted" | "duplicate";
+  gate: string;
+  scannedAt: Date;
+  scannedBy?: mongoose.Types.ObjectId; // Scanner/admin account
+  scannedByEmail?: string;
+  source: "online" | "offline";
+  deviceId?: string; // Gate device that recorded an offline scan
+  scanId?: string; // Device's own ID for the scan, so re-uploads are ignored
+  conflict: boolean; // Device admitted the holder offline after another admission
+  conflictWith?: mongoose.Types.ObjectId; // The admission it clashed with
+  syncedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const checkInSchema = new Schema<ICheckIn>(
+  {
+    soldTicketId: {
+      type: Schema.Types.ObjectId,
+      ref: "SoldTicket",
+      required: true,
+    },
+    ticketId: {
+      type: String,
+      required: true,
+    },
+    ticketType: {
+      type: String,
+      required: true,
+      uppercase: true,
+    },
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: "Event",
+    },
+    result: {
+      type: String,
+      enum: ["admitted", "duplicate"],
+      required: true,
+    },
+    gate: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    scannedAt: {
+      type: Date,
+      required: true,
+    },
+    scannedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "Admin",
+    },
+    scannedByEmail: {
+      type: String,
+    },
+    source: {
+      type: String,
+      enum: ["online", "offline"],
+      default: "online",
+    },
+    deviceId: {
+      type: String,
+      trim: true,
+    },
+    scanId: {
+      type: String,
+      trim: true,
+    },
+    conflict: {
+      type: Boolean,
+      default: false,
+    },
+    conflictWith: {
+      type: Schema.Types.ObjectId,
+      ref: "CheckIn",
+    },
+    syncedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A ticket can only be admitted once; repeat scans are kept for the audit trail
+checkInSchema.index(
+  { soldTicketId: 1 },
+  { unique: true, partialFilterExpression: { result: "admitted" } }
+);
+// Offline uploads are idempotent per device scan
+checkInSchema.index(
+  { deviceId: 1, scanId: 1 },
+  { unique: true, partialFilterExpression: { scanId: { $type: "string" } } }
+);
+checkInSchema.index({ ticketId: 1, scannedAt: -1 });
+checkInSchema.index({ conflict: 1, scannedAt: -1 });
+checkInSchema.index({ result: 1, ticketType: 1 });
+
+export const CheckIn = mongoose.model<ICheckIn>("CheckIn", checkInSchema);
@@ -0,0 +1,100 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { minorUnits, serializeMoney } from "../utils/money.js";
+
+// One nudge sent (or tried) to a buyer who left a checkout link unpaid
+export interface ICheckoutNudge extends Document {
+  templateId?: mongoose.Types.ObjectId;
+  templateName?: string;
+  chatId: string;
+  userName?: string;
+  message: string;
+  status: "sent" | "failed";
+  errorMessage?: string;
+  attempt: number; // 1 for the first nudge about a checkout
+  checkoutReference: string; // First link of the checkout (same for each nudge)
+  paymentReference: string; // The unpaid link this nudge replaced
+  newReference?: string; // Fresh link sent in the nudge
+  ticketType?: string;
+  eventId?: mongoose.Types.ObjectId;
+  amount: number; // Pesewas
+  sentAt: Date;
+}
+
+const checkoutNudgeSchema = new Schema<ICheckoutNudge>(
+  {
+    templateId: {
+      type: Schema.Types.ObjectId,
+      ref: "ReminderTemplate",
+    },
+    templateName: {
+      type: String,
+    },
+    chatId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    userName: {
+      type: String,
+    },
+    message: {
+      type: String,
+      default: "",
+    },
+    status: {
+      type: String,
+      enum: ["sent", "failed"],
+      required: true,
+      default: "sent",
+    },
+    errorMessage: {
+      type: String,
+    },
+    attempt: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    checkoutReference: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    paymentReference: {
+      type: String,
+      required: true,
+    },
+    newReference: {
+      type: String,
+      index: true,
+    },
+    ticketType: {
+      type: String,
+    },
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: "Event",
+    },
+    amount: {
+      ...minorUnits,
+      required: true,
+    },
+    sentAt: {
+      type: Date,
+      default: Date.now,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+checkoutNudgeSchema.index({ status: 1, sentAt: -1 });
+
+checkoutNudgeSchema.plugin(serializeMoney(["amount"]));
+
+export const CheckoutNudge = mongoose.model<ICheckoutNudge>(
+  "CheckoutNudge",
+  checkoutNudgeSchema
+);
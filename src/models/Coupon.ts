@@ -1,6 +1,17 @@
 import mongoose from "mongoose";
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  toMajorUnits,
+} from "../utils/money.js";
 
 const couponSchema = new mongoose.Schema({
+  eventId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Event",
+    default: null, // null means valid for every event
+    index: true,
+  },
   code: {
     type: String,
     required: true,
@@ -13,11 +24,17 @@ const couponSchema = new mongoose.Schema({
     enum: ["percentage", "fixed"],
     required: true,
   },
+  // A percentage (e.g. 15), or pesewas off for fixed coupons
   discountValue: {
     type: Number,
     required: true,
     min: 0,
   },
+  currency: {
+    type: String,
+    enum: CURRENCIES,
+    default: DEFAULT_CURRENCY,
+  },
   isActive: {
     type: Boolean,
     default: true,
@@ -40,4 +57,17 @@ const couponSchema = new mongoose.Schema({
   },
 });
 
+// Fixed discounts go out in cedis like every other amount
+couponSchema.set("toJSON", {
+  transform(_doc: unknown, ret: Record<string, any>) {
+    if (
+      ret.discountType === "fixed" &&
+      typeof ret.discountValue === "number"
+    ) {
+      ret.discountValue = toMajorUnits(ret.discountValue);
+    }
+    return ret;
+  },
+});
+
 export const Coupon = mongoose.model("Coupon", couponSchema);
@@ -0,0 +1,146 @@
+import mongoose, { Schema, Document } from "mongoose";
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  minorUnits,
+  serializeMoney,
+  type Currency,
+} from "../utils/money.js";
+
+// Credit from a voucher put towards one checkout. It is held while the
+// buyer pays, then redeemed, or released back to the voucher if they don't.
+export interface IVoucherRedemption {
+  orderId: mongoose.Types.ObjectId;
+  amount: number; // Pesewas
+  status: "held" | "redeemed" | "released";
+  paymentReference?: string; // Set once redeemed
+  heldAt: Date;
+  redeemedAt?: Date;
+  releasedAt?: Date;
+}
+
+// Wallet money a buyer moved to an event, taken off their checkouts for
+// that event until it is used up
+export interface ICreditVoucher extends Document {
+  code: string;
+  chatId: string;
+  userId?: mongoose.Types.ObjectId;
+  eventId: mongoose.Types.ObjectId;
+  eventName: string;
+  amount: number; // Pesewas moved from the wallet
+  balance: number; // Pesewas not held or redeemed yet
+  currency: Currency;
+  status: "active" | "used";
+  walletTransactionId: mongoose.Types.ObjectId;
+  redemptions: IVoucherRedemption[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const redemptionSchema = new Schema<IVoucherRedemption>(
+  {
+    orderId: {
+      type: Schema.Types.ObjectId,
+      ref: "Order",
+      required: true,
+    },
+    amount: {
+      ...minorUnits,
+      required: true,
+      min: 1,
+    },
+    status: {
+      type: String,
+      enum: ["held", "redeemed", "released"],
+      default: "held",
+    },
+    paymentReference: {
+      type: String,
+    },
+    heldAt: {
+      type: Date,
+      default: Date.now,
+    },
+    redeemedAt: {
+      type: Date,
+    },
+    releasedAt: {
+      type: Date,
+    },
+  },
+  { _id: false }
+);
+
+redemptionSchema.plugin(serializeMoney(["amount"]));
+
+const creditVoucherSchema = new Schema<ICreditVoucher>(
+  {
+    code: {
+      type: String,
+      required: true,
+      unique: true,
+      uppercase: true,
+    },
+    chatId: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: "Event",
+      required: true,
+    },
+    eventName: {
+      type: String,
+      required: true,
+    },
+    amount: {
+      ...minorUnits,
+      required: true,
+      min: 1,
+    },
+    balance: {
+      ...minorUnits,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      enum: CURRENCIES,
+      default: DEFAULT_CURRENCY,
+    },
+    status: {
+      type: String,
+      enum: ["active", "used"],
+      default: "active",
+    },
+    walletTransactionId: {
+      type: Schema.Types.ObjectId,
+      ref: "WalletTransaction",
+      required: true,
+      unique: true, // One voucher per wallet transfer
+    },
+    redemptions: {
+      type: [redemptionSchema],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+creditVoucherSchema.index({ chatId: 1, eventId: 1, status: 1 });
+creditVoucherSchema.index({ "redemptions.orderId": 1 });
+creditVoucherSchema.index({ "redemptions.status": 1 });
+
+creditVoucherSchema.plugin(serializeMoney(["amount", "balance"]));
+
+export const CreditVoucher = mongoose.model<ICreditVoucher>(
+  "CreditVoucher",
+  creditVoucherSchema
+);
@@ -0,0 +1,146 @@
+import mongoose, { Schema, Document } from "mongoose";
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  minorUnits,
+  serializeMoney,
+  type Currency,
+} from "../utils/money.js";
+
+// One payment of a proposed custom plan
+export interface ICustomInstallment {
+  amount: number; // Pesewas
+  dueDate: Date;
+}
+
+// A buyer's request to pay a ticket on their own schedule (plan "C"),
+// waiting for an admin to approve, edit or reject it
+export interface ICustomPlanRequest extends Document {
+  chatId: string;
+  userId?: mongoose.Types.ObjectId;
+  ticketId: mongoose.Types.ObjectId;
+  ticketType: string;
+  eventId?: mongoose.Types.ObjectId;
+  totalAmount: number; // Pesewas, after any coupon
+  currency: Currency;
+  coupon?: string;
+  proposed: ICustomInstallment[]; // As the buyer asked for it
+  installments: ICustomInstallment[]; // As it stands now, after any edits
+  finalDeadline: Date;
+  status: "pending" | "approved" | "rejected";
+  adminNote?: string; // Shown to the buyer on approval or rejection
+  editedBy?: string; // Admin ID
+  editedAt?: Date;
+  reviewedBy?: string; // Admin ID
+  reviewedAt?: Date;
+  scheduleId?: mongoose.Types.ObjectId; // Created on approval
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const customInstallmentSchema = new Schema<ICustomInstallment>(
+  {
+    amount: {
+      ...minorUnits,
+      required: true,
+      min: 1,
+    },
+    dueDate: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+customInstallmentSchema.plugin(serializeMoney(["amount"]));
+
+const customPlanRequestSchema = new Schema<ICustomPlanRequest>(
+  {
+    chatId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    ticketId: {
+      type: Schema.Types.ObjectId,
+      ref: "Ticket",
+      required: true,
+    },
+    ticketType: {
+      type: String,
+      required: true,
+      uppercase: true,
+    },
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: "Event",
+    },
+    totalAmount: {
+      ...minorUnits,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      enum: CURRENCIES,
+      default: DEFAULT_CURRENCY,
+    },
+    coupon: {
+      type: String,
+    },
+    proposed: {
+      type: [customInstallmentSchema],
+      default: [],
+    },
+    installments: {
+      type: [customInstallmentSchema],
+      default: [],
+    },
+    finalDeadline: {
+      type: Date,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "approved", "rejected"],
+      default: "pending",
+      index: true,
+    },
+    adminNote: {
+      type: String,
+    },
+    editedBy: {
+      type: String,
+    },
+    editedAt: {
+      type: Date,
+    },
+    reviewedBy: {
+      type: String,
+    },
+    reviewedAt: {
+      type: Date,
+    },
+    scheduleId: {
+      type: Schema.Types.ObjectId,
+      ref: "InstallmentSchedule",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+customPlanRequestSchema.index({ chatId: 1, status: 1 });
+
+customPlanRequestSchema.plugin(serializeMoney(["totalAmount"]));
+
+export const CustomPlanRequest = mongoose.model<ICustomPlanRequest>(
+  "CustomPlanRequest",
+  customPlanRequestSchema
+);
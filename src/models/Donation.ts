@@ -0,0 +1,77 @@
+import mongoose, { Schema, Document } from "mongoose";
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  minorUnits,
+  serializeMoney,
+  type Currency,
+} from "../utils/money.js";
+
+// Wallet money a buyer gave away, with the receipt they were sent
+export interface IDonation extends Document {
+  receiptNumber: string;
+  chatId: string;
+  userId?: mongoose.Types.ObjectId;
+  donorName?: string;
+  recipient: string; // e.g. "AfroFuture Foundation"
+  amount: number; // Pesewas
+  currency: Currency;
+  walletTransactionId: mongoose.Types.ObjectId;
+  receiptSentAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const donationSchema = new Schema<IDonation>(
+  {
+    receiptNumber: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    chatId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    donorName: {
+      type: String,
+    },
+    recipient: {
+      type: String,
+      required: true,
+    },
+    amount: {
+      ...minorUnits,
+      required: true,
+      min: 1,
+    },
+    currency: {
+      type: String,
+      enum: CURRENCIES,
+      default: DEFAULT_CURRENCY,
+    },
+    walletTransactionId: {
+      type: Schema.Types.ObjectId,
+      ref: "WalletTransaction",
+      required: true,
+      unique: true, // One donation per wallet debit
+    },
+    receiptSentAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+donationSchema.index({ recipient: 1, createdAt: -1 });
+
+donationSchema.plugin(serializeMoney(["amount"]));
+
+export const Donation = mongoose.model<IDonation>("Donation", donationSchema);
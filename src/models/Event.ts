@@ -0,0 +1,93 @@
+import mongoose from "mongoose";
+
+export interface IEvent extends mongoose.Document {
+  name: string;
+  slug: string; // Short unique key, usable in place of the ID (e.g. "afrofuture-2026")
+  description?: string;
+  location: string;
+  dates: string; // As shown to users (e.g. "28th - 29th December 2026")
+  startsAt?: Date;
+  endsAt?: Date; // Once passed, the event is kept for reporting but no longer sold
+  installmentDeadline?: Date;
+  status: "draft" | "on_sale" | "closed";
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Whether the bot should offer the event's tickets: sales are open and the
+ * event hasn't finished
+ */
+export function isEventOnSale(
+  event: Pick<IEvent, "status" | "endsAt">,
+  at: Date = new Date()
+): boolean {
+  return event.status === "on_sale" && !isEventPast(event, at);
+}
+
+/**
+ * Whether the event has finished
+ */
+export function isEventPast(
+  event: Pick<IEvent, "endsAt">,
+  at: Date = new Date()
+): boolean {
+  return !!event.endsAt && event.endsAt <= at;
+}
+
+const eventSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+  },
+  slug: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true,
+  },
+  description: {
+    type: String,
+  },
+  location: {
+    type: String,
+    required: true,
+  },
+  dates: {
+    type: String,
+    required: true,
+  },
+  startsAt: {
+    type: Date,
+  },
+  endsAt: {
+    type: Date,
+  },
+  installmentDeadline: {
+    type: Date,
+  },
+  status: {
+    type: String,
+    enum: ["draft", "on_sale", "closed"],
+    default: "draft",
+    index: true,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+eventSchema.pre("save", function () {
+  this.updatedAt = new Date();
+});
+
+eventSchema.index({ startsAt: 1 });
+
+export const Event = mongoose.model<IEvent>("Event", eventSchema);
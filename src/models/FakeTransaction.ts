@@ -0,0 +1,108 @@
+import mongoose from "mongoose";
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  minorUnits,
+  type Currency,
+} from "../utils/money.js";
+
+// A charge taken by the fake payment provider (local development only)
+export interface IFakeRefund {
+  refundId: string;
+  amount: number; // Pesewas
+  reason?: string;
+  status: "pending" | "processed" | "failed";
+  createdAt: Date;
+}
+
+export interface IFakeTransaction extends mongoose.Document {
+  reference: string;
+  amount: number; // Pesewas
+  currency: Currency;
+  email: string;
+  metadata?: Record<string, any>;
+  status: "pending" | "success" | "failed" | "abandoned";
+  paidAt?: Date;
+  refunds: IFakeRefund[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const fakeRefundSchema = new mongoose.Schema(
+  {
+    refundId: {
+      type: String,
+      required: true,
+    },
+    amount: {
+      ...minorUnits,
+      required: true,
+    },
+    reason: {
+      type: String,
+    },
+    status: {
+      type: String,
+      enum: ["pending", "processed", "failed"],
+      default: "pending",
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const fakeTransactionSchema = new mongoose.Schema({
+  reference: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  amount: {
+    ...minorUnits,
+    required: true,
+  },
+  currency: {
+    type: String,
+    enum: CURRENCIES,
+    default: DEFAULT_CURRENCY,
+  },
+  email: {
+    type: String,
+    required: true,
+  },
+  metadata: {
+    type: mongoose.Schema.Types.Mixed,
+  },
+  status: {
+    type: String,
+    enum: ["pending", "success", "failed", "abandoned"],
+    default: "pending",
+  },
+  paidAt: {
+    type: Date,
+  },
+  refunds: {
+    type: [fakeRefundSchema],
+    default: [],
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+fakeTransactionSchema.pre("save", function () {
+  this.updatedAt = new Date();
+});
+
+export const FakeTransaction = mongoose.model<IFakeTransaction>(
+  "FakeTransaction",
+  fakeTransactionSchema
+);
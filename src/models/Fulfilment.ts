@@ -0,0 +1,105 @@
+import mongoose from "mongoose";
+
+// What has to happen after a payment succeeds, in the order it is done
+export const FULFILMENT_STEPS = [
+  "stock", // Turn the checkout hold into a sale
+  "order", // Mark the order paid and record its sold tickets
+  "schedule", // Count an installment towards the buyer's schedule
+  "waitlist", // Close the waitlist offer the payment came from
+  "session", // Bring the buyer's chat back to the main menu
+  "confirmation", // Tell the buyer their payment went through
+  "tickets", // Issue signed QR tickets
+  "receipt", // Send the PDF receipt on WhatsApp and by email
+] as const;
+
+export type FulfilmentStep = (typeof FULFILMENT_STEPS)[number];
+
+export interface IFulfilment extends mongoose.Document {
+  paymentReference: string;
+  chatId: string;
+  orderId?: mongoose.Types.ObjectId;
+  status: "paid" | "fulfilled" | "failed";
+  completedSteps: FulfilmentStep[];
+  attempts: number;
+  lastError?: string;
+  failedStep?: FulfilmentStep;
+  lockedUntil?: Date | null; // Set while a run is working through the steps
+  nextAttemptAt?: Date | null;
+  paidAt: Date;
+  fulfilledAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const fulfilmentSchema = new mongoose.Schema({
+  paymentReference: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  chatId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  orderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Order",
+  },
+  status: {
+    type: String,
+    enum: ["paid", "fulfilled", "failed"],
+    default: "paid",
+  },
+  completedSteps: {
+    type: [String],
+    enum: FULFILMENT_STEPS,
+    default: [],
+  },
+  attempts: {
+    type: Number,
+    default: 0,
+  },
+  lastError: {
+    type: String,
+  },
+  failedStep: {
+    type: String,
+    enum: FULFILMENT_STEPS,
+  },
+  lockedUntil: {
+    type: Date,
+    default: null,
+  },
+  nextAttemptAt: {
+    type: Date,
+    default: null,
+  },
+  paidAt: {
+    type: Date,
+    required: true,
+  },
+  fulfilledAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+fulfilmentSchema.pre("save", function () {
+  this.updatedAt = new Date();
+});
+
+// The retry scheduler looks for unfinished fulfilments that are due
+fulfilmentSchema.index({ status: 1, nextAttemptAt: 1 });
+
+export const Fulfilment = mongoose.model<IFulfilment>(
+  "Fulfilment",
+  fulfilmentSchema
+);
@@ -0,0 +1,91 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+// One payment in a plan, as a share of the ticket price
+export interface IInstallmentSplit {
+  percent: number;
+  // Days after the buyer signs up that it is due. Unset means "by the final
+  // deadline". The first split is always due at sign-up (0).
+  dueAfterDays?: number | null;
+}
+
+export interface IInstallmentPlan extends Document {
+  ticketId: mongoose.Types.ObjectId;
+  ticketType: string;
+  code: string; // What buyers reply to pick it, e.g. "A"
+  name: string; // e.g. "3 Payments"
+  splits: IInstallmentSplit[];
+  finalDeadline?: Date; // Falls back to the event's installment deadline
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const splitSchema = new Schema<IInstallmentSplit>(
+  {
+    percent: {
+      type: Number,
+      required: true,
+      min: 1,
+      max: 100,
+    },
+    dueAfterDays: {
+      type: Number,
+      min: 0,
+    },
+  },
+  { _id: false }
+);
+
+const installmentPlanSchema = new Schema<IInstallmentPlan>(
+  {
+    ticketId: {
+      type: Schema.Types.ObjectId,
+      ref: "Ticket",
+      required: true,
+    },
+    ticketType: {
+      type: String,
+      required: true,
+      uppercase: true,
+    },
+    code: {
+      type: String,
+      required: true,
+      uppercase: true,
+      trim: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    splits: {
+      type: [splitSchema],
+      validate: {
+        validator: (splits: IInstallmentSplit[]) =>
+          splits.length >= 2 &&
+          splits.reduce((sum, split) => sum + split.percent, 0) === 100,
+        message: "A plan needs at least two payments adding up to 100%",
+      },
+    },
+    finalDeadline: {
+      type: Date,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Buyers pick a plan by its code, so codes are unique per tier
+installmentPlanSchema.index({ ticketId: 1, code: 1 }, { unique: true });
+installmentPlanSchema.index({ ticketType: 1, isActive: 1 });
+
+export const InstallmentPlan = mongoose.model<IInstallmentPlan>(
+  "InstallmentPlan",
+  installmentPlanSchema
+);
@@ -0,0 +1,266 @@
+import mongoose, { Schema, Document } from "mongoose";
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  minorUnits,
+  serializeMoney,
+  type Currency,
+} from "../utils/money.js";
+
+export interface IScheduledInstallment {
+  number: number; // 1-based
+  amount: number; // Pesewas
+  dueDate: Date;
+  paidAmount: number; // Pesewas of this installment covered so far
+  paidAt?: Date; // When it was fully covered
+  remindersSent: string[]; // Reminder keys already sent, e.g. "5DaySent"
+}
+
+// A payment counted towards the schedule
+export interface IInstallmentLedgerEntry {
+  paymentReference: string;
+  amount: number; // Pesewas
+  installmentNumber?: number; // Installment the link was sent for
+  refundedAmount?: number; // Pesewas given back since (refunds, chargebacks)
+  paidAt: Date;
+  appliedAt: Date;
+}
+
+// What another tier of the event cost when the plan started
+export interface IScheduleTierPrice {
+  ticketType: string;
+  price: number; // Pesewas
+}
+
+// A buyer's installment plan for one ticket: what is due when, and what has
+// been paid against it
+export interface IInstallmentSchedule extends Document {
+  chatId: string;
+  userId?: mongoose.Types.ObjectId;
+  ticketType: string;
+  eventId?: mongoose.Types.ObjectId;
+  planId?: mongoose.Types.ObjectId;
+  planCode: string;
+  planName: string;
+  totalAmount: number; // Pesewas, after any coupon
+  currency: Currency;
+  coupon?: string;
+  tierPrices: IScheduleTierPrice[]; // What a missed deadline can drop to
+  installments: IScheduledInstallment[];
+  ledger: IInstallmentLedgerEntry[];
+  amountPaid: number; // Pesewas; the sum of the ledger, less refunds
+  remainingBalance: number; // Pesewas
+  finalDeadline: Date;
+  reservationId?: mongoose.Types.ObjectId; // Unit held for the first payment
+  status: "active" | "completed" | "defaulted" | "cancelled";
+  completedAt?: Date;
+  completedBy?: string; // Reference of the payment that cleared the balance
+  defaultedAt?: Date; // When the final deadline passed with a balance left
+  downgradedTo?: string; // Lower tier the payments covered, if any
+  downgradedPrice?: number; // Pesewas; that tier's price at sign-up
+  rolledOverAt?: Date; // When the ticket was issued and the rest credited
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const installmentSchema = new Schema<IScheduledInstallment>(
+  {
+    number: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    amount: {
+      ...minorUnits,
+      required: true,
+      min: 0,
+    },
+    dueDate: {
+      type: Date,
+      required: true,
+    },
+    paidAmount: {
+      ...minorUnits,
+      default: 0,
+    },
+    paidAt: {
+      type: Date,
+    },
+    remindersSent: {
+      type: [String],
+      default: [],
+    },
+  },
+  { _id: false }
+);
+
+installmentSchema.plugin(serializeMoney(["amount", "paidAmount"]));
+
+const ledgerEntrySchema = new Schema<IInstallmentLedgerEntry>(
+  {
+    paymentReference: {
+      type: String,
+      required: true,
+    },
+    amount: {
+      ...minorUnits,
+      required: true,
+    },
+    installmentNumber: {
+      type: Number,
+    },
+    refundedAmount: {
+      ...minorUnits,
+      default: 0,
+    },
+    paidAt: {
+      type: Date,
+      required: true,
+    },
+    appliedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+ledgerEntrySchema.plugin(serializeMoney(["amount", "refundedAmount"]));
+
+const tierPriceSchema = new Schema<IScheduleTierPrice>(
+  {
+    ticketType: {
+      type: String,
+      required: true,
+      uppercase: true,
+    },
+    price: {
+      ...minorUnits,
+      required: true,
+      min: 0,
+    },
+  },
+  { _id: false }
+);
+
+tierPriceSchema.plugin(serializeMoney(["price"]));
+
+const installmentScheduleSchema = new Schema<IInstallmentSchedule>(
+  {
+    chatId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    ticketType: {
+      type: String,
+      required: true,
+      uppercase: true,
+    },
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: "Event",
+    },
+    planId: {
+      type: Schema.Types.ObjectId,
+      ref: "InstallmentPlan",
+    },
+    planCode: {
+      type: String,
+      required: true,
+    },
+    planName: {
+      type: String,
+      required: true,
+    },
+    totalAmount: {
+      ...minorUnits,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      enum: CURRENCIES,
+      default: DEFAULT_CURRENCY,
+    },
+    coupon: {
+      type: String,
+    },
+    tierPrices: {
+      type: [tierPriceSchema],
+      default: [],
+    },
+    installments: {
+      type: [installmentSchema],
+      default: [],
+    },
+    ledger: {
+      type: [ledgerEntrySchema],
+      default: [],
+    },
+    amountPaid: {
+      ...minorUnits,
+      default: 0,
+    },
+    remainingBalance: {
+      ...minorUnits,
+      required: true,
+    },
+    finalDeadline: {
+      type: Date,
+      required: true,
+    },
+    reservationId: {
+      type: Schema.Types.ObjectId,
+      ref: "Reservation",
+    },
+    status: {
+      type: String,
+      enum: ["active", "completed", "defaulted", "cancelled"],
+      default: "active",
+      index: true,
+    },
+    completedAt: {
+      type: Date,
+    },
+    completedBy: {
+      type: String,
+    },
+    defaultedAt: {
+      type: Date,
+    },
+    downgradedTo: {
+      type: String,
+    },
+    downgradedPrice: {
+      ...minorUnits,
+    },
+    rolledOverAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+installmentScheduleSchema.index({ chatId: 1, status: 1 });
+installmentScheduleSchema.index({ "ledger.paymentReference": 1 });
+
+installmentScheduleSchema.plugin(
+  serializeMoney([
+    "totalAmount",
+    "amountPaid",
+    "remainingBalance",
+    "downgradedPrice",
+  ])
+);
+
+export const InstallmentSchedule = mongoose.model<IInstallmentSchedule>(
+  "InstallmentSchedule",
+  installmentScheduleSchema
+);
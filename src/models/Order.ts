@@ -0,0 +1,116 @@
+import mongoose from "mongoose";
+import { minorUnits, serializeMoney } from "../utils/money.js";
+
+export interface IOrderAttendee {
+  name?: string;
+}
+
+export interface IOrder extends mongoose.Document {
+  chatId: string;
+  userId?: mongoose.Types.ObjectId;
+  ticketType: string;
+  quantity: number;
+  unitPrice: number; // Pesewas
+  pricingPhaseId?: mongoose.Types.ObjectId; // Sale wave the unit price came from
+  totalAmount: number; // Pesewas charged (after any coupon and credit)
+  coupon?: string;
+  voucherCredit: number; // Pesewas of event credit put towards the order
+  attendees: IOrderAttendee[];
+  paymentReference?: string;
+  status: "pending" | "paid" | "fulfilled" | "cancelled";
+  paidAt?: Date;
+  fulfilledAt?: Date; // Everything owed for the payment has been delivered
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const attendeeSchema = new mongoose.Schema(
+  {
+    name: {
+      type: String,
+      trim: true,
+    },
+  },
+  { _id: false }
+);
+
+const orderSchema = new mongoose.Schema({
+  chatId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+  },
+  ticketType: {
+    type: String,
+    required: true,
+    uppercase: true,
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  unitPrice: {
+    ...minorUnits,
+    required: true,
+    min: 0,
+  },
+  pricingPhaseId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "PricingPhase",
+  },
+  totalAmount: {
+    ...minorUnits,
+    required: true,
+    min: 0,
+  },
+  coupon: {
+    type: String,
+  },
+  voucherCredit: {
+    ...minorUnits,
+    default: 0,
+    min: 0,
+  },
+  attendees: {
+    type: [attendeeSchema],
+    default: [],
+  },
+  paymentReference: {
+    type: String,
+    unique: true,
+    sparse: true,
+  },
+  status: {
+    type: String,
+    enum: ["pending", "paid", "fulfilled", "cancelled"],
+    default: "pending",
+    index: true,
+  },
+  paidAt: {
+    type: Date,
+  },
+  fulfilledAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+orderSchema.pre("save", function () {
+  this.updatedAt = new Date();
+});
+
+orderSchema.plugin(serializeMoney(["unitPrice", "totalAmount", "voucherCredit"]));
+
+export const Order = mongoose.model<IOrder>("Order", orderSchema);
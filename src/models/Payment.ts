@@ -1,23 +1,109 @@
 import mongoose from "mongoose";
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  minorUnits,
+  serializeMoney,
+  type Currency,
+} from "../utils/money.js";
+
+// Services that can take a payment (see services/paymentProvider.ts)
+export const PAYMENT_PROVIDERS = ["paystack", "fake"] as const;
+
+export type PaymentProviderName = (typeof PAYMENT_PROVIDERS)[number];
+
+// A chargeback raised by the buyer with their bank or MoMo operator
+export interface IPaymentDispute {
+  disputeId?: string;
+  reason?: string;
+  amount?: number; // Pesewas
+  previousStatus: string; // Status to go back to if the dispute is won
+  openedAt: Date;
+  resolution?: string; // e.g. "merchant-accepted" (buyer refunded), "declined"
+  resolvedAt?: Date;
+}
+
+// Where the payment's receipt has been sent (see services/receipts.ts)
+export interface IPaymentReceipt {
+  emailedTo?: string;
+  emailedAt?: Date;
+  whatsappSentAt?: Date;
+}
+
+// Why an unpaid checkout stopped getting nudges (see services/checkoutRecovery.ts)
+export const NUDGE_STOP_REASONS = [
+  "menu",
+  "paid",
+  "left_checkout",
+  "max_attempts",
+  "link_failed",
+] as const;
 
 export interface IPayment extends mongoose.Document {
   userId: string;
   chatId: string;
-  amount: number;
-  currency: string;
-  paystackReference: string;
+  amount: number; // Pesewas
+  currency: Currency;
+  provider: PaymentProviderName;
+  paystackReference: string; // The provider's transaction reference
   paystackAccessCode?: string;
-  status: "pending" | "success" | "failed" | "abandoned";
-  ticketType?: "GA" | "VIP";
+  paymentLink?: string; // Checkout URL sent to the buyer
+  expiresAt?: Date; // Not reused after this (see services/paymentLinks.ts)
+  supersededBy?: string; // Reference of the link that replaced this one
+  supersededAt?: Date;
+  status:
+    | "pending"
+    | "success"
+    | "failed"
+    | "abandoned"
+    | "refunded"
+    | "partially_refunded"
+    | "disputed"
+    | "reversed"
+    | "superseded"; // Replaced by a newer link before it was paid
+  failureReason?: string; // Provider's reason for a failed charge
+  dispute?: IPaymentDispute;
+  ticketType?: string;
+  eventId?: mongoose.Types.ObjectId; // Event the ticket type belongs to
   paymentType?: "full" | "installment";
   installmentNumber?: number;
   coupon?: string;
   metadata?: Record<string, any>;
   paidAt?: Date;
+  refundedAmount: number; // Pesewas returned (or on their way) to the buyer
+  refundedAt?: Date;
+  reconciledAt?: Date; // Last time the reconciler checked it with Paystack
+  nudgesStoppedAt?: Date; // Set once the buyer shouldn't be nudged about this link
+  nudgesStopReason?: (typeof NUDGE_STOP_REASONS)[number];
+  receipt?: IPaymentReceipt;
   createdAt: Date;
   updatedAt: Date;
 }
 
+const disputeSchema = new mongoose.Schema(
+  {
+    disputeId: String,
+    reason: String,
+    amount: minorUnits,
+    previousStatus: String,
+    openedAt: Date,
+    resolution: String,
+    resolvedAt: Date,
+  },
+  { _id: false }
+);
+
+disputeSchema.plugin(serializeMoney(["amount"]));
+
+const receiptSchema = new mongoose.Schema(
+  {
+    emailedTo: String,
+    emailedAt: Date,
+    whatsappSentAt: Date,
+  },
+  { _id: false }
+);
+
 const paymentSchema = new mongoose.Schema({
   userId: {
     type: String,
@@ -30,12 +116,18 @@ const paymentSchema = new mongoose.Schema({
     index: true,
   },
   amount: {
-    type: Number,
+    ...minorUnits,
     required: true,
   },
   currency: {
     type: String,
-    default: "GHS",
+    enum: CURRENCIES,
+    default: DEFAULT_CURRENCY,
+  },
+  provider: {
+    type: String,
+    enum: PAYMENT_PROVIDERS,
+    default: "paystack",
   },
   paystackReference: {
     type: String,
@@ -46,15 +138,47 @@ const paymentSchema = new mongoose.Schema({
   paystackAccessCode: {
     type: String,
   },
+  paymentLink: {
+    type: String,
+  },
+  expiresAt: {
+    type: Date,
+  },
+  supersededBy: {
+    type: String,
+  },
+  supersededAt: {
+    type: Date,
+  },
   status: {
     type: String,
-    enum: ["pending", "success", "failed", "abandoned"],
+    enum: [
+      "pending",
+      "success",
+      "failed",
+      "abandoned",
+      "refunded",
+      "partially_refunded",
+      "disputed",
+      "reversed",
+      "superseded",
+    ],
     default: "pending",
     index: true,
   },
+  failureReason: {
+    type: String,
+  },
+  dispute: {
+    type: disputeSchema,
+  },
   ticketType: {
     type: String,
-    enum: ["GA", "VIP"],
+    uppercase: true,
+  },
+  eventId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Event",
   },
   paymentType: {
     type: String,
@@ -72,6 +196,26 @@ const paymentSchema = new mongoose.Schema({
   paidAt: {
     type: Date,
   },
+  refundedAmount: {
+    ...minorUnits,
+    default: 0,
+  },
+  refundedAt: {
+    type: Date,
+  },
+  reconciledAt: {
+    type: Date,
+  },
+  nudgesStoppedAt: {
+    type: Date,
+  },
+  nudgesStopReason: {
+    type: String,
+    enum: NUDGE_STOP_REASONS,
+  },
+  receipt: {
+    type: receiptSchema,
+  },
   createdAt: {
     type: Date,
     default: Date.now,
@@ -82,8 +226,28 @@ const paymentSchema = new mongoose.Schema({
   },
 });
 
+// Looking up a buyer's open link for a purpose
+paymentSchema.index({ chatId: 1, status: 1, ticketType: 1, paymentType: 1 });
+
 paymentSchema.pre("save", function () {
   this.updatedAt = new Date();
 });
 
+paymentSchema.plugin(serializeMoney(["amount", "refundedAmount"]));
+
+/**
+ * Payments that took the buyer's money, including those refunded since.
+ * Revenue from them is netAmountExpr, so refunds come off.
+ */
+export const COLLECTED_STATUSES: IPayment["status"][] = [
+  "success",
+  "partially_refunded",
+  "refunded",
+];
+
+// What a payment brought in after refunds, as an aggregation expression
+export const netAmountExpr = {
+  $subtract: ["$amount", { $ifNull: ["$refundedAmount", 0] }],
+};
+
 export const Payment = mongoose.model<IPayment>("Payment", paymentSchema);
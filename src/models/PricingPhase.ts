@@ -0,0 +1,81 @@
+import mongoose, { Schema, Document } from "mongoose";
+import { minorUnits, serializeMoney } from "../utils/money.js";
+
+export interface IPricingPhase extends Document {
+  ticketId: mongoose.Types.ObjectId;
+  ticketType: string;
+  name: string; // e.g. "Wave 1", "Early Bird"
+  price: number; // Pesewas
+  startsAt: Date;
+  endsAt?: Date; // Open-ended when not set
+  quantityCap?: number; // Units sold at this price before rolling over
+  sold: number;
+  reserved: number; // Held by unpaid checkouts at this price
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const pricingPhaseSchema = new Schema<IPricingPhase>(
+  {
+    ticketId: {
+      type: Schema.Types.ObjectId,
+      ref: "Ticket",
+      required: true,
+    },
+    ticketType: {
+      type: String,
+      required: true,
+      uppercase: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    price: {
+      ...minorUnits,
+      required: true,
+      min: 0,
+    },
+    startsAt: {
+      type: Date,
+      required: true,
+    },
+    endsAt: {
+      type: Date,
+    },
+    quantityCap: {
+      type: Number,
+      min: 1,
+    },
+    sold: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    reserved: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Phases are resolved per tier in start order
+pricingPhaseSchema.index({ ticketId: 1, startsAt: 1 });
+pricingPhaseSchema.index({ ticketType: 1, isActive: 1 });
+
+pricingPhaseSchema.plugin(serializeMoney(["price"]));
+
+export const PricingPhase = mongoose.model<IPricingPhase>(
+  "PricingPhase",
+  pricingPhaseSchema
+);
@@ -0,0 +1,118 @@
+import mongoose from "mongoose";
+import { minorUnits, serializeMoney } from "../utils/money.js";
+
+export type ReconciliationOutcome =
+  | "fulfilled" // Paystack took the money; the order went through the normal path
+  | "failed"
+  | "abandoned"
+  | "still_pending" // Paystack hasn't settled it yet; checked again next run
+  | "unchanged" // Already abandoned here and on Paystack
+  | "error";
+
+export interface IReconciliationItem {
+  reference: string;
+  chatId: string;
+  amount: number; // Pesewas
+  previousStatus: string;
+  paystackStatus?: string;
+  outcome: ReconciliationOutcome;
+  error?: string;
+}
+
+export interface IReconciliationReport extends mongoose.Document {
+  trigger: "scheduled" | "manual";
+  triggeredBy?: mongoose.Types.ObjectId; // Admin who ran it by hand
+  status: "running" | "completed" | "failed";
+  checked: number;
+  summary: Record<ReconciliationOutcome, number>;
+  items: IReconciliationItem[];
+  error?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+}
+
+const itemSchema = new mongoose.Schema(
+  {
+    reference: {
+      type: String,
+      required: true,
+    },
+    chatId: {
+      type: String,
+    },
+    amount: minorUnits,
+    previousStatus: {
+      type: String,
+    },
+    paystackStatus: {
+      type: String,
+    },
+    outcome: {
+      type: String,
+      enum: [
+        "fulfilled",
+        "failed",
+        "abandoned",
+        "still_pending",
+        "unchanged",
+        "error",
+      ],
+      required: true,
+    },
+    error: {
+      type: String,
+    },
+  },
+  { _id: false }
+);
+
+itemSchema.plugin(serializeMoney(["amount"]));
+
+const reconciliationReportSchema = new mongoose.Schema({
+  trigger: {
+    type: String,
+    enum: ["scheduled", "manual"],
+    required: true,
+  },
+  triggeredBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Admin",
+  },
+  status: {
+    type: String,
+    enum: ["running", "completed", "failed"],
+    default: "running",
+  },
+  checked: {
+    type: Number,
+    default: 0,
+  },
+  summary: {
+    fulfilled: { type: Number, default: 0 },
+    failed: { type: Number, default: 0 },
+    abandoned: { type: Number, default: 0 },
+    still_pending: { type: Number, default: 0 },
+    unchanged: { type: Number, default: 0 },
+    error: { type: Number, default: 0 },
+  },
+  items: {
+    type: [itemSchema],
+    default: [],
+  },
+  error: {
+    type: String,
+  },
+  startedAt: {
+    type: Date,
+    default: Date.now,
+    index: true,
+  },
+  finishedAt: {
+    type: Date,
+  },
+});
+
+export const ReconciliationReport = mongoose.model<IReconciliationReport>(
+  "ReconciliationReport",
+  reconciliationReportSchema
+);
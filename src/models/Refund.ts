@@ -0,0 +1,106 @@
+import mongoose from "mongoose";
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  minorUnits,
+  serializeMoney,
+  type Currency,
+} from "../utils/money.js";
+
+export interface IRefund extends mongoose.Document {
+  paymentId: mongoose.Types.ObjectId;
+  paymentReference: string;
+  chatId: string;
+  amount: number; // Pesewas
+  currency: Currency;
+  reason: string;
+  ticketAction: "invalidate" | "keep";
+  soldTicketIds: mongoose.Types.ObjectId[]; // Tickets cancelled by this refund
+  status: "pending" | "processed" | "failed";
+  paystackRefundId?: string;
+  failureReason?: string;
+  requestedBy?: string; // Admin ID
+  processedAt?: Date;
+  failedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const refundSchema = new mongoose.Schema({
+  paymentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Payment",
+    required: true,
+    index: true,
+  },
+  paymentReference: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  chatId: {
+    type: String,
+    required: true,
+  },
+  amount: {
+    ...minorUnits,
+    required: true,
+  },
+  currency: {
+    type: String,
+    enum: CURRENCIES,
+    default: DEFAULT_CURRENCY,
+  },
+  reason: {
+    type: String,
+    required: true,
+  },
+  ticketAction: {
+    type: String,
+    enum: ["invalidate", "keep"],
+    required: true,
+  },
+  soldTicketIds: {
+    type: [mongoose.Schema.Types.ObjectId],
+    ref: "SoldTicket",
+    default: [],
+  },
+  status: {
+    type: String,
+    enum: ["pending", "processed", "failed"],
+    default: "pending",
+    index: true,
+  },
+  paystackRefundId: {
+    type: String,
+    index: true,
+  },
+  failureReason: {
+    type: String,
+  },
+  requestedBy: {
+    type: String,
+  },
+  processedAt: {
+    type: Date,
+  },
+  failedAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+refundSchema.pre("save", function () {
+  this.updatedAt = new Date();
+});
+
+refundSchema.plugin(serializeMoney(["amount"]));
+
+export const Refund = mongoose.model<IRefund>("Refund", refundSchema);
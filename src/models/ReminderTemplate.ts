@@ -3,11 +3,12 @@ import mongoose, { Schema, Document } from "mongoose";
 export interface IReminderTemplate extends Document {
   name: string;
   description?: string;
-  type: "payment_due" | "custom";
+  type: "payment_due" | "abandoned_checkout" | "custom";
   triggerDays?: number; // Days before due date (e.g., 5 for 5-day reminder, 1 for 1-day reminder)
   messageTemplate: string; // Template with variables like {{amount}}, {{daysLeft}}, {{paymentLink}}, {{dueDate}}, {{userName}}
   isActive: boolean;
   filter?: "all" | "paid" | "pending"; // Filter for who receives this reminder
+  eventId?: mongoose.Types.ObjectId | null; // Only users with tickets for this event (null = everyone)
   createdAt: Date;
   updatedAt: Date;
   createdBy?: mongoose.Types.ObjectId;
@@ -26,7 +27,7 @@ const reminderTemplateSchema = new Schema<IReminderTemplate>(
     },
     type: {
       type: String,
-      enum: ["payment_due", "custom"],
+      enum: ["payment_due", "abandoned_checkout", "custom"],
       required: true,
       default: "payment_due",
     },
@@ -48,6 +49,11 @@ const reminderTemplateSchema = new Schema<IReminderTemplate>(
       enum: ["all", "paid", "pending"],
       default: "pending",
     },
+    eventId: {
+      type: Schema.Types.ObjectId,
+      ref: "Event",
+      default: null,
+    },
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: "Admin",
@@ -62,6 +68,7 @@ const reminderTemplateSchema = new Schema<IReminderTemplate>(
 // Indexes
 reminderTemplateSchema.index({ type: 1, triggerDays: 1 });
 reminderTemplateSchema.index({ isActive: 1 });
+reminderTemplateSchema.index({ eventId: 1 });
 
 export const ReminderTemplate = mongoose.model<IReminderTemplate>(
   "ReminderTemplate",
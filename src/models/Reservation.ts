@@ -0,0 +1,97 @@
+import mongoose from "mongoose";
+import { minorUnits, serializeMoney } from "../utils/money.js";
+
+export interface IReservation extends mongoose.Document {
+  ticketType: string;
+  eventId?: mongoose.Types.ObjectId;
+  quantity: number;
+  chatId: string;
+  unitPrice?: number; // Pesewas quoted when the hold was taken
+  pricingPhaseId?: mongoose.Types.ObjectId;
+  paymentReference?: string;
+  status: "held" | "converted" | "released";
+  expiresAt: Date;
+  releaseReason?: "expired" | "abandoned" | "failed" | "link_failed";
+  convertedAt?: Date;
+  releasedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const reservationSchema = new mongoose.Schema({
+  ticketType: {
+    type: String,
+    required: true,
+    uppercase: true,
+    index: true,
+  },
+  eventId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Event",
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 1,
+  },
+  chatId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  unitPrice: {
+    ...minorUnits,
+    min: 0,
+  },
+  pricingPhaseId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "PricingPhase",
+  },
+  paymentReference: {
+    type: String,
+    unique: true,
+    sparse: true,
+  },
+  status: {
+    type: String,
+    enum: ["held", "converted", "released"],
+    default: "held",
+    index: true,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  releaseReason: {
+    type: String,
+    enum: ["expired", "abandoned", "failed", "link_failed"],
+  },
+  convertedAt: {
+    type: Date,
+  },
+  releasedAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+reservationSchema.pre("save", function () {
+  this.updatedAt = new Date();
+});
+
+reservationSchema.plugin(serializeMoney(["unitPrice"]));
+
+// Used by the expiry sweep to find holds that have run out
+reservationSchema.index({ status: 1, expiresAt: 1 });
+
+export const Reservation = mongoose.model<IReservation>(
+  "Reservation",
+  reservationSchema
+);
@@ -1,4 +1,10 @@
 import mongoose from "mongoose";
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  minorUnits,
+  serializeMoney,
+} from "../utils/money.js";
 
 const soldTicketSchema = new mongoose.Schema({
   userId: {
@@ -15,6 +21,45 @@ const soldTicketSchema = new mongoose.Schema({
     required: true,
     index: true,
   },
+  orderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Order",
+    index: true,
+  },
+  attendeeName: {
+    type: String,
+  },
+  ticketId: {
+    type: String,
+    unique: true,
+    sparse: true,
+  },
+  qrPayload: {
+    type: String, // Signed string encoded in the ticket's QR code
+  },
+  issuedBy: {
+    type: String,
+    enum: ["auto", "admin", "transfer"],
+  },
+  issuedAt: {
+    type: Date,
+  },
+  deliveredAt: {
+    type: Date, // Sent to the holder on WhatsApp
+  },
+  deliveryFailedAt: {
+    type: Date, // First failed attempt to generate or send it
+  },
+  revokedAt: {
+    type: Date, // Set when the ticket is cancelled, e.g. by a refund
+  },
+  revokedReason: {
+    type: String,
+  },
+  transferCount: {
+    type: Number,
+    default: 0, // Times the ticket has changed hands
+  },
   userEmail: {
     type: String,
   },
@@ -22,10 +67,20 @@ const soldTicketSchema = new mongoose.Schema({
     type: String,
     required: true,
   },
+  eventId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Event",
+    index: true,
+  },
   price: {
-    type: Number,
+    ...minorUnits, // Pesewas
     required: true,
   },
+  currency: {
+    type: String,
+    enum: CURRENCIES,
+    default: DEFAULT_CURRENCY,
+  },
   imageUrl: {
     type: String,
   },
@@ -38,4 +93,6 @@ const soldTicketSchema = new mongoose.Schema({
   },
 });
 
+soldTicketSchema.plugin(serializeMoney(["price"]));
+
 export const SoldTicket = mongoose.model("SoldTicket", soldTicketSchema);
@@ -0,0 +1,71 @@
+import mongoose, { Schema, Document } from "mongoose";
+
+export interface IStockAdjustment extends Document {
+  ticketId: mongoose.Types.ObjectId;
+  ticketType: string;
+  field: "totalQuantity" | "withheldQuantity";
+  previousValue: number;
+  newValue: number;
+  delta: number;
+  reason: string;
+  adjustedBy?: mongoose.Types.ObjectId; // Admin who made the change
+  adjustedByEmail?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const stockAdjustmentSchema = new Schema<IStockAdjustment>(
+  {
+    ticketId: {
+      type: Schema.Types.ObjectId,
+      ref: "Ticket",
+      required: true,
+    },
+    ticketType: {
+      type: String,
+      required: true,
+      uppercase: true,
+    },
+    field: {
+      type: String,
+      enum: ["totalQuantity", "withheldQuantity"],
+      required: true,
+    },
+    previousValue: {
+      type: Number,
+      required: true,
+    },
+    newValue: {
+      type: Number,
+      required: true,
+    },
+    delta: {
+      type: Number,
+      required: true,
+    },
+    reason: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    adjustedBy: {
+      type: Schema.Types.ObjectId,
+      ref: "Admin",
+    },
+    adjustedByEmail: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for the per-ticket audit trail
+stockAdjustmentSchema.index({ ticketId: 1, createdAt: -1 });
+stockAdjustmentSchema.index({ ticketType: 1 });
+
+export const StockAdjustment = mongoose.model<IStockAdjustment>(
+  "StockAdjustment",
+  stockAdjustmentSchema
+);
@@ -1,19 +1,75 @@
 import mongoose from "mongoose";
+import { PAYMENT_PROVIDERS, type PaymentProviderName } from "./Payment.js";
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  minorUnits,
+  serializeMoney,
+  type Currency,
+} from "../utils/money.js";
 
 export interface ITicket extends mongoose.Document {
+  eventId?: mongoose.Types.ObjectId; // Event this tier is sold for
   name: string;
   type: string; // Unique identifier like "GA", "VIP", "VVIP", etc.
   description: string;
-  price: number;
+  price: number; // Pesewas
+  currency: Currency;
   totalQuantity: number;
+  withheldQuantity: number; // Units kept off public sale (comps, partner allocations)
   sold: number;
+  reserved: number; // Units held by unpaid checkouts
   available: number;
+  maxPerOrder: number; // Most tickets of this tier one buyer can get in a single order
+  transfersEnabled: boolean; // Holders can pass tickets of this tier to someone else
+  maxTransfers: number | null; // Times a single ticket can change hands (null = no limit)
+  paymentProvider: PaymentProviderName | null; // null = the environment's provider
   isActive: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * Units that can still be sold: the public allocation minus what is sold or
+ * currently held by unpaid checkouts
+ */
+export function getRemainingStock(
+  ticket: Pick<
+    ITicket,
+    "totalQuantity" | "withheldQuantity" | "sold" | "reserved"
+  >
+): number {
+  return (
+    ticket.totalQuantity -
+    (ticket.withheldQuantity || 0) -
+    ticket.sold -
+    (ticket.reserved || 0)
+  );
+}
+
+/**
+ * Same calculation as getRemainingStock, as an aggregation expression for
+ * atomic conditional updates
+ */
+export const remainingStockExpr = {
+  $subtract: [
+    "$totalQuantity",
+    {
+      $add: [
+        { $ifNull: ["$withheldQuantity", 0] },
+        "$sold",
+        { $ifNull: ["$reserved", 0] },
+      ],
+    },
+  ],
+};
+
 const ticketSchema = new mongoose.Schema({
+  eventId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Event",
+    index: true,
+  },
   name: {
     type: String,
     required: true,
@@ -21,7 +77,6 @@ const ticketSchema = new mongoose.Schema({
   type: {
     type: String,
     required: true,
-    unique: true,
     uppercase: true,
     index: true,
   },
@@ -30,27 +85,61 @@ const ticketSchema = new mongoose.Schema({
     required: true,
   },
   price: {
-    type: Number,
+    ...minorUnits,
     required: true,
     min: 0,
   },
+  currency: {
+    type: String,
+    enum: CURRENCIES,
+    default: DEFAULT_CURRENCY,
+  },
   totalQuantity: {
     type: Number,
     required: true,
     min: 0,
   },
+  withheldQuantity: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
   sold: {
     type: Number,
     default: 0,
     min: 0,
   },
+  reserved: {
+    type: Number,
+    default: 0,
+    min: 0,
+  },
   available: {
     type: Number,
     default: function (this: ITicket) {
-      return this.totalQuantity - this.sold;
+      return Math.max(0, getRemainingStock(this));
     },
     min: 0,
   },
+  maxPerOrder: {
+    type: Number,
+    default: 10,
+    min: 1,
+  },
+  transfersEnabled: {
+    type: Boolean,
+    default: true,
+  },
+  maxTransfers: {
+    type: Number,
+    default: null,
+    min: 0,
+  },
+  paymentProvider: {
+    type: String,
+    enum: [...PAYMENT_PROVIDERS, null],
+    default: null,
+  },
   isActive: {
     type: Boolean,
     default: true,
@@ -69,12 +158,17 @@ const ticketSchema = new mongoose.Schema({
 // Calculate available before save
 ticketSchema.pre("save", function () {
   this.updatedAt = new Date();
-  this.available = this.totalQuantity - this.sold;
+  this.available = Math.max(0, getRemainingStock(this));
 });
 
+// Each event has its own tiers, so two events can both sell "GA"
+ticketSchema.index({ eventId: 1, type: 1 }, { unique: true });
+
+ticketSchema.plugin(serializeMoney(["price"]));
+
 // Virtual for available tickets
 ticketSchema.virtual("availableTickets").get(function () {
-  return this.totalQuantity - this.sold;
+  return getRemainingStock(this);
 });
 
 export const Ticket = mongoose.model<ITicket>("Ticket", ticketSchema);
@@ -0,0 +1,100 @@
+import mongoose from "mongoose";
+
+export interface ITicketTransfer extends mongoose.Document {
+  soldTicketId: mongoose.Types.ObjectId;
+  ticketType: string;
+  eventId?: mongoose.Types.ObjectId;
+  fromTicketId: string; // Ticket ID (and QR) the sender held
+  toTicketId?: string; // Ticket ID reissued to the recipient
+  fromChatId: string;
+  fromUserId?: mongoose.Types.ObjectId;
+  toChatId: string;
+  toUserId?: mongoose.Types.ObjectId;
+  status: "pending" | "accepted" | "declined" | "expired" | "failed";
+  failureReason?: string;
+  expiresAt: Date;
+  respondedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const ticketTransferSchema = new mongoose.Schema({
+  soldTicketId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "SoldTicket",
+    required: true,
+  },
+  ticketType: {
+    type: String,
+    required: true,
+    uppercase: true,
+  },
+  eventId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Event",
+  },
+  fromTicketId: {
+    type: String,
+    required: true,
+  },
+  toTicketId: {
+    type: String,
+  },
+  fromChatId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  fromUserId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+  },
+  toChatId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  toUserId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+  },
+  status: {
+    type: String,
+    enum: ["pending", "accepted", "declined", "expired", "failed"],
+    default: "pending",
+  },
+  failureReason: {
+    type: String,
+  },
+  expiresAt: {
+    type: Date,
+    required: true,
+  },
+  respondedAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+ticketTransferSchema.pre("save", function () {
+  this.updatedAt = new Date();
+});
+
+// Only one open transfer per ticket
+ticketTransferSchema.index(
+  { soldTicketId: 1 },
+  { unique: true, partialFilterExpression: { status: "pending" } }
+);
+ticketTransferSchema.index({ status: 1, expiresAt: 1 });
+
+export const TicketTransfer = mongoose.model<ITicketTransfer>(
+  "TicketTransfer",
+  ticketTransferSchema
+);
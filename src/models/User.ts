@@ -1,4 +1,15 @@
 import mongoose from "mongoose";
+import { toMajorUnits } from "../utils/money.js";
+
+// Session amounts are kept in pesewas; the admin API shows them in cedis
+const SESSION_MONEY_FIELDS = [
+  "amountPaid",
+  "totalPrice",
+  "remainingBalance",
+  "amountDue",
+  "originalPrice",
+  "discountedPrice",
+];
 
 const userSchema = new mongoose.Schema({
   chatId: {
@@ -34,4 +45,19 @@ userSchema.pre("save", function () {
   this.updatedAt = new Date();
 });
 
+userSchema.set("toJSON", {
+  transform(_doc, ret: Record<string, any>) {
+    if (ret.session) {
+      const session = { ...ret.session };
+      for (const field of SESSION_MONEY_FIELDS) {
+        if (typeof session[field] === "number") {
+          session[field] = toMajorUnits(session[field]);
+        }
+      }
+      ret.session = session;
+    }
+    return ret;
+  },
+});
+
 export const User = mongoose.model("User", userSchema);
@@ -0,0 +1,103 @@
+import mongoose from "mongoose";
+
+export interface IWaitlistEntry extends mongoose.Document {
+  ticketType: string;
+  eventId?: mongoose.Types.ObjectId;
+  chatId: string;
+  userId?: mongoose.Types.ObjectId;
+  position: number; // Queue order within the tier (lowest goes first)
+  status: "waiting" | "offered" | "converted" | "expired" | "cancelled";
+  offeredAt?: Date;
+  offerExpiresAt?: Date;
+  reservationId?: mongoose.Types.ObjectId;
+  orderId?: mongoose.Types.ObjectId;
+  paymentReference?: string;
+  convertedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const waitlistEntrySchema = new mongoose.Schema({
+  ticketType: {
+    type: String,
+    required: true,
+    uppercase: true,
+  },
+  eventId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Event",
+  },
+  chatId: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+  },
+  position: {
+    type: Number,
+    required: true,
+  },
+  status: {
+    type: String,
+    enum: ["waiting", "offered", "converted", "expired", "cancelled"],
+    default: "waiting",
+  },
+  offeredAt: {
+    type: Date,
+  },
+  offerExpiresAt: {
+    type: Date,
+  },
+  reservationId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Reservation",
+  },
+  orderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "Order",
+  },
+  paymentReference: {
+    type: String,
+    index: true,
+  },
+  convertedAt: {
+    type: Date,
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now,
+  },
+  updatedAt: {
+    type: Date,
+    default: Date.now,
+  },
+});
+
+waitlistEntrySchema.pre("save", function () {
+  this.updatedAt = new Date();
+});
+
+// Queue order per tier
+waitlistEntrySchema.index({
+  eventId: 1,
+  ticketType: 1,
+  status: 1,
+  position: 1,
+});
+
+// A user can only be queued once per tier at a time
+waitlistEntrySchema.index(
+  { eventId: 1, ticketType: 1, chatId: 1 },
+  {
+    unique: true,
+    partialFilterExpression: { status: { $in: ["waiting", "offered"] } },
+  }
+);
+
+export const WaitlistEntry = mongoose.model<IWaitlistEntry>(
+  "WaitlistEntry",
+  waitlistEntrySchema
+);
@@ -0,0 +1,103 @@
+import mongoose, { Schema, Document } from "mongoose";
+import {
+  CURRENCIES,
+  DEFAULT_CURRENCY,
+  minorUnits,
+  serializeMoney,
+  type Currency,
+} from "../utils/money.js";
+
+export const WALLET_TRANSACTION_TYPES = [
+  "credit",
+  "debit",
+  "transfer",
+  "donation",
+  "expiry",
+] as const;
+export type WalletTransactionType = (typeof WALLET_TRANSACTION_TYPES)[number];
+
+// One movement on a buyer's wallet. Entries are never edited; the balance
+// is the balanceAfter of the latest entry.
+export interface IWalletTransaction extends Document {
+  chatId: string;
+  userId?: mongoose.Types.ObjectId;
+  sequence: number; // 1-based, per chat; unique so two writers can't race
+  type: WalletTransactionType;
+  amount: number; // Pesewas; positive for credits, negative for the rest
+  balanceAfter: number; // Pesewas
+  currency: Currency;
+  description: string;
+  reference?: string; // Idempotency key, e.g. "deadline:<chatId>"
+  destination?: string; // Where a transfer or donation went
+  createdBy?: string; // Admin ID, for adjustments
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const walletTransactionSchema = new Schema<IWalletTransaction>(
+  {
+    chatId: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+    sequence: {
+      type: Number,
+      required: true,
+      min: 1,
+    },
+    type: {
+      type: String,
+      enum: WALLET_TRANSACTION_TYPES,
+      required: true,
+    },
+    amount: {
+      ...minorUnits,
+      required: true,
+    },
+    balanceAfter: {
+      ...minorUnits,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      enum: CURRENCIES,
+      default: DEFAULT_CURRENCY,
+    },
+    description: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    reference: {
+      type: String,
+    },
+    destination: {
+      type: String,
+    },
+    createdBy: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+walletTransactionSchema.index({ chatId: 1, sequence: -1 }, { unique: true });
+walletTransactionSchema.index(
+  { reference: 1 },
+  { unique: true, partialFilterExpression: { reference: { $type: "string" } } }
+);
+walletTransactionSchema.index({ type: 1, createdAt: -1 });
+
+walletTransactionSchema.plugin(serializeMoney(["amount", "balanceAfter"]));
+
+export const WalletTransaction = mongoose.model<IWalletTransaction>(
+  "WalletTransaction",
+  walletTransactionSchema
+);
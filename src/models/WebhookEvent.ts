@@ -0,0 +1,83 @@
+import mongoose from "mongoose";
+import { PAYMENT_PROVIDERS, type PaymentProviderName } from "./Payment.js";
+
+export interface IWebhookEvent extends mongoose.Document {
+  eventId: string; // "<event type>:<provider ID>", unique per delivery
+  provider: PaymentProviderName;
+  event: string; // e.g. "charge.success"
+  reference?: string;
+  payload?: Record<string, any>; // Body as the provider sent it, for replays
+  // ignored: no handler for this event type
+  status: "received" | "processed" | "ignored" | "failed";
+  error?: string;
+  deliveries: number; // How many times the provider sent it
+  replays: number; // How many times an admin ran it again
+  receivedAt: Date;
+  lastReceivedAt?: Date;
+  processedAt?: Date;
+  lastReplayedAt?: Date;
+  lastReplayedBy?: string; // Admin ID
+}
+
+const webhookEventSchema = new mongoose.Schema({
+  eventId: {
+    type: String,
+    required: true,
+    unique: true,
+  },
+  provider: {
+    type: String,
+    enum: PAYMENT_PROVIDERS,
+    default: "paystack",
+  },
+  event: {
+    type: String,
+    required: true,
+    index: true,
+  },
+  reference: {
+    type: String,
+    index: true,
+  },
+  payload: {
+    type: mongoose.Schema.Types.Mixed,
+  },
+  status: {
+    type: String,
+    enum: ["received", "processed", "ignored", "failed"],
+    default: "received",
+    index: true,
+  },
+  error: {
+    type: String,
+  },
+  deliveries: {
+    type: Number,
+  },
+  replays: {
+    type: Number,
+    default: 0,
+  },
+  receivedAt: {
+    type: Date,
+    default: Date.now,
+    index: true,
+  },
+  lastReceivedAt: {
+    type: Date,
+  },
+  processedAt: {
+    type: Date,
+  },
+  lastReplayedAt: {
+    type: Date,
+  },
+  lastReplayedBy: {
+    type: String,
+  },
+});
+
+export const WebhookEvent = mongoose.model<IWebhookEvent>(
+  "WebhookEvent",
+  webhookEventSchema
+);
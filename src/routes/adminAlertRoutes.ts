@@ -0,0 +1,137 @@
+import { Router } from "express";
+import { authenticateAdmin } from "../middleware/auth.js";
+import {
+  getAlerts,
+  acknowledgeAlert,
+} from "../controllers/adminAlertController.js";
+
+const router = Router();
+
+router.use(authenticateAdmin);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     AdminAlert:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         type:
+ *           type: string
+ *           example: payment.disputed
+ *           description: payment.disputed, payment.dispute_resolved, refund.external, refund.failed, transfer.failed or transfer.reversed
+ *         severity:
+ *           type: string
+ *           enum: [info, warning, critical]
+ *         title:
+ *           type: string
+ *         message:
+ *           type: string
+ *         reference:
+ *           type: string
+ *           description: Payment or transfer reference
+ *         chatId:
+ *           type: string
+ *         data:
+ *           type: object
+ *         acknowledgedAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         acknowledgedBy:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /admin/alerts:
+ *   get:
+ *     summary: Get admin alerts (Admin only)
+ *     description: Things that need an admin, such as disputes, failed refunds and failed payouts, newest first. Only open alerts are returned by default.
+ *     tags: [Alerts]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: acknowledged
+ *         schema:
+ *           type: string
+ *           enum: ["false", "true", all]
+ *           default: "false"
+ *       - in: query
+ *         name: severity
+ *         schema:
+ *           type: string
+ *           enum: [info, warning, critical]
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: reference
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Alerts retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     alerts:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/AdminAlert'
+ *                     pagination:
+ *                       type: object
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/", getAlerts);
+
+/**
+ * @swagger
+ * /admin/alerts/{id}/acknowledge:
+ *   post:
+ *     summary: Acknowledge an alert (Admin only)
+ *     tags: [Alerts]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Alert acknowledged
+ *       400:
+ *         description: Invalid alert ID
+ *       404:
+ *         description: Alert not found
+ */
+router.post("/:id/acknowledge", acknowledgeAlert);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { authenticateAdmin } from "../middleware/auth.js";
+import { scopeToEvent } from "../middleware/eventScope.js";
 import { uploadImage } from "../middleware/upload.js";
 import {
   adminLogin,
@@ -86,6 +87,7 @@ router.use(authenticateAdmin);
  *     security:
  *       - BearerAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
  *       - in: query
  *         name: page
  *         schema:
@@ -117,7 +119,7 @@ router.use(authenticateAdmin);
  *       500:
  *         description: Server error
  */
-router.get("/users", getAllUsers);
+router.get("/users", scopeToEvent, getAllUsers);
 
 /**
  * @swagger
@@ -152,7 +154,7 @@ router.get("/users/:chatId", getUserInfo);
  * /admin/payment-link:
  *   post:
  *     summary: Generate payment link for a user (Admin only)
- *     description: Allows admin to generate a payment link for any user
+ *     description: Allows admin to generate a payment link for any user. If the user already has an open, unexpired link for the same amount, ticket type, payment type and installment, that link is returned (reused is true); otherwise a new one is opened and their older open links for the same payment are marked superseded.
  *     tags: [Admin]
  *     security:
  *       - BearerAuth: []
@@ -176,8 +178,8 @@ router.get("/users/:chatId", getUserInfo);
  *                 example: 918.75
  *               ticketType:
  *                 type: string
- *                 enum: [GA, VIP]
- *                 description: Ticket type (optional, uses user's session if not provided)
+ *                 example: "VIP"
+ *                 description: Ticket type from the Ticket collection (optional, uses user's session if not provided)
  *               paymentType:
  *                 type: string
  *                 enum: [full, installment]
@@ -188,6 +190,27 @@ router.get("/users/:chatId", getUserInfo);
  *     responses:
  *       200:
  *         description: Payment link generated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     paymentLink:
+ *                       type: string
+ *                     reference:
+ *                       type: string
+ *                     expiresAt:
+ *                       type: string
+ *                       format: date-time
+ *                       description: The link is handed out again until then
+ *                     reused:
+ *                       type: boolean
+ *                       description: An open link was returned instead of a new one
  *       400:
  *         description: Validation error
  *       401:
@@ -204,7 +227,7 @@ router.post("/payment-link", generatePaymentLinkForUser);
  * /admin/send-message:
  *   post:
  *     summary: Send message to a user (Admin only)
- *     description: Send a WhatsApp message to a specific user with optional image attachment and record as a ticket sale
+ *     description: Send a WhatsApp message to a specific user with optional image attachment and record as a ticket sale. When sent as a ticket, the file replaces the next ticket of that payment not yet sent by an admin (including automatically generated ones).
  *     tags: [Admin]
  *     security:
  *       - BearerAuth: []
@@ -355,16 +378,37 @@ router.post("/users", createUser);
  *               type: string
  *         chatId:
  *           type: string
+ *         paymentId:
+ *           type: string
+ *         orderId:
+ *           type: string
+ *           description: Order this ticket was bought in (absent for older tickets)
+ *         attendeeName:
+ *           type: string
  *         userEmail:
  *           type: string
  *         ticketType:
  *           type: string
  *         price:
  *           type: number
+ *         ticketId:
+ *           type: string
+ *           description: Ticket ID shown on the ticket (set when issued automatically)
+ *         qrPayload:
+ *           type: string
+ *           description: Signed string encoded in the ticket's QR code
+ *         issuedBy:
+ *           type: string
+ *           enum: [auto, admin]
+ *         issuedAt:
+ *           type: string
+ *           format: date-time
  *         imageUrl:
  *           type: string
+ *           description: Ticket file name (under uploads/tickets when generated, uploads/admin-messages when sent by an admin)
  *         location:
  *           type: string
+ *           enum: [local, generated]
  *         createdAt:
  *           type: string
  *           format: date-time
@@ -380,6 +424,7 @@ router.post("/users", createUser);
  *     security:
  *       - BearerAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
  *       - in: query
  *         name: page
  *         schema:
@@ -415,6 +460,36 @@ router.post("/users", createUser);
  *                       type: array
  *                       items:
  *                         $ref: '#/components/schemas/SoldTicket'
+ *                     orders:
+ *                       type: array
+ *                       description: This page's tickets grouped by order (order is null for tickets bought before orders existed)
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           order:
+ *                             type: object
+ *                             nullable: true
+ *                             properties:
+ *                               _id:
+ *                                 type: string
+ *                               ticketType:
+ *                                 type: string
+ *                               quantity:
+ *                                 type: number
+ *                               unitPrice:
+ *                                 type: number
+ *                               totalAmount:
+ *                                 type: number
+ *                               status:
+ *                                 type: string
+ *                                 enum: [pending, paid, cancelled]
+ *                               paidAt:
+ *                                 type: string
+ *                                 format: date-time
+ *                           tickets:
+ *                             type: array
+ *                             items:
+ *                               $ref: '#/components/schemas/SoldTicket'
  *                     pagination:
  *                       type: object
  *                       properties:
@@ -427,7 +502,7 @@ router.post("/users", createUser);
  *                         totalPages:
  *                           type: number
  */
-router.get("/sold-tickets", getSoldTickets);
+router.get("/sold-tickets", scopeToEvent, getSoldTickets);
 
 /**
  * Admin Management Routes
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { validate } from "../middleware/validate.js";
 import { z } from "zod";
+import { scopeToEvent } from "../middleware/eventScope.js";
 import {
   createBroadcast,
   getRecentBroadcasts,
@@ -13,6 +14,7 @@ const broadcastSchema = z.object({
   message: z.string().min(1),
   filter: z.enum(["all", "paid", "pending"]).default("all"),
   scheduleTime: z.string().optional(), // ISO 8601 format or cron expression
+  eventId: z.string().min(1).optional(), // Event ID or slug
 });
 
 /**
@@ -44,11 +46,16 @@ const broadcastSchema = z.object({
  *                 type: string
  *                 description: ISO 8601 date or cron expression for scheduling
  *                 example: "2025-12-01T10:00:00Z"
+ *               eventId:
+ *                 type: string
+ *                 description: Only message users with tickets for this event (ID or slug)
  *     responses:
  *       200:
  *         description: Broadcast sent or scheduled successfully
  *       400:
  *         description: Validation error
+ *       404:
+ *         description: Event not found
  *       500:
  *         description: Server error
  */
@@ -62,6 +69,7 @@ router.post("/", validate(broadcastSchema), createBroadcast);
  *     description: Returns a paginated list of recently sent or failed broadcasts
  *     tags: [Broadcast]
  *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
  *       - in: query
  *         name: page
  *         schema:
@@ -80,7 +88,7 @@ router.post("/", validate(broadcastSchema), createBroadcast);
  *       500:
  *         description: Server error
  */
-router.get("/recent", getRecentBroadcasts);
+router.get("/recent", scopeToEvent, getRecentBroadcasts);
 
 /**
  * @swagger
@@ -89,12 +97,14 @@ router.get("/recent", getRecentBroadcasts);
  *     summary: Get scheduled broadcasts
  *     description: Returns a list of all scheduled broadcasts that haven't been executed yet
  *     tags: [Broadcast]
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
  *     responses:
  *       200:
  *         description: Scheduled broadcasts retrieved successfully
  *       500:
  *         description: Server error
  */
-router.get("/scheduled", getScheduledBroadcasts);
+router.get("/scheduled", scopeToEvent, getScheduledBroadcasts);
 
 export default router;
@@ -0,0 +1,328 @@
+import { Router } from "express";
+import { authenticateScanner, authenticateAdmin } from "../middleware/auth.js";
+import { scopeToEvent } from "../middleware/eventScope.js";
+import {
+  scanTicket,
+  getCheckInStats,
+  getRoster,
+  syncOfflineScans,
+  getCheckInConflicts,
+} from "../controllers/checkInController.js";
+
+const router = Router();
+
+// Scanner, admin and super admin accounts can check tickets in
+router.use(authenticateScanner);
+router.use(scopeToEvent);
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     GateEventIdQuery:
+ *       in: query
+ *       name: eventId
+ *       schema:
+ *         type: string
+ *       description: Event the gate is checking in for (ID or slug). Needed when more than one event is still to come.
+ *   schemas:
+ *     ScannedTicket:
+ *       type: object
+ *       properties:
+ *         ticketId:
+ *           type: string
+ *         ticketType:
+ *           type: string
+ *         tierName:
+ *           type: string
+ *         holderName:
+ *           type: string
+ *           nullable: true
+ *     AttendanceStats:
+ *       type: object
+ *       properties:
+ *         tiers:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               ticketType:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               issued:
+ *                 type: number
+ *               checkedIn:
+ *                 type: number
+ *               notArrived:
+ *                 type: number
+ *               lastScanAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *         totals:
+ *           type: object
+ *           properties:
+ *             issued:
+ *               type: number
+ *             checkedIn:
+ *               type: number
+ *             notArrived:
+ *               type: number
+ */
+
+/**
+ * @swagger
+ * /check-in/scan:
+ *   post:
+ *     summary: Check a ticket in at a gate (Scanner)
+ *     description: Verifies the signed QR payload against the sold ticket and admits it. A ticket for another event than the gate's is rejected, and so is a second scan of the same ticket, with the gate and time of the first scan.
+ *     tags: [Check-in]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/GateEventIdQuery'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - payload
+ *               - gate
+ *             properties:
+ *               payload:
+ *                 type: string
+ *                 description: Raw text read from the QR code
+ *                 example: "AFT1.AF123456780042.VIP.kq3...Zx0"
+ *               gate:
+ *                 type: string
+ *                 example: "Gate A"
+ *     responses:
+ *       200:
+ *         description: Ticket admitted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                   example: success
+ *                 result:
+ *                   type: string
+ *                   example: admitted
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     ticket:
+ *                       $ref: '#/components/schemas/ScannedTicket'
+ *                     checkIn:
+ *                       type: object
+ *                       properties:
+ *                         gate:
+ *                           type: string
+ *                         scannedAt:
+ *                           type: string
+ *                           format: date-time
+ *       400:
+ *         description: Invalid, tampered or unknown QR code, a ticket for another event, or no event chosen
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: Ticket already checked in (response includes the first scan's gate and time)
+ */
+router.post("/scan", scanTicket);
+
+/**
+ * @swagger
+ * /check-in/stats:
+ *   get:
+ *     summary: Live attendance per tier (Scanner)
+ *     tags: [Check-in]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
+ *     responses:
+ *       200:
+ *         description: Attendance retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/AttendanceStats'
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/stats", getCheckInStats);
+
+/**
+ * @swagger
+ * /check-in/roster:
+ *   get:
+ *     summary: Export a signed roster for offline gate devices (Scanner)
+ *     description: Lists every ticket issued for the gate's event with a SHA-256 hash of its QR payload, so a device can validate scans without a connection. The signature is an HMAC over the JSON-serialised roster.
+ *     tags: [Check-in]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/GateEventIdQuery'
+ *     responses:
+ *       200:
+ *         description: Roster exported successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     roster:
+ *                       type: object
+ *                       properties:
+ *                         eventId:
+ *                           type: string
+ *                         generatedAt:
+ *                           type: string
+ *                           format: date-time
+ *                         count:
+ *                           type: number
+ *                         tickets:
+ *                           type: array
+ *                           items:
+ *                             allOf:
+ *                               - $ref: '#/components/schemas/ScannedTicket'
+ *                               - type: object
+ *                                 properties:
+ *                                   payloadHash:
+ *                                     type: string
+ *                                   checkedIn:
+ *                                     type: boolean
+ *                     signature:
+ *                       type: string
+ *       400:
+ *         description: No event chosen while several are coming up
+ *       401:
+ *         description: Unauthorized
+ *       503:
+ *         description: Ticket signing is not configured
+ */
+router.get("/roster", getRoster);
+
+/**
+ * @swagger
+ * /check-in/sync:
+ *   post:
+ *     summary: Upload scans recorded offline (Scanner)
+ *     description: Merges a batch of offline scans into the check-in records. Each scan is identified by deviceId + scanId, so re-uploading a batch is safe. Scans of tickets for another event than the gate's come back invalid. If the device admitted a ticket that was already admitted elsewhere, the scan is flagged as a conflict.
+ *     tags: [Check-in]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/GateEventIdQuery'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - deviceId
+ *               - scans
+ *             properties:
+ *               deviceId:
+ *                 type: string
+ *                 example: "gate-a-tablet-2"
+ *               scans:
+ *                 type: array
+ *                 maxItems: 500
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - scanId
+ *                     - payload
+ *                     - gate
+ *                     - scannedAt
+ *                   properties:
+ *                     scanId:
+ *                       type: string
+ *                       description: Unique per device
+ *                     payload:
+ *                       type: string
+ *                     gate:
+ *                       type: string
+ *                     scannedAt:
+ *                       type: string
+ *                       format: date-time
+ *                     admitted:
+ *                       type: boolean
+ *                       default: true
+ *                       description: Whether the device let the holder in
+ *     responses:
+ *       200:
+ *         description: Scans merged; see per-scan results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     deviceId:
+ *                       type: string
+ *                     summary:
+ *                       type: object
+ *                       additionalProperties:
+ *                         type: number
+ *                     results:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           scanId:
+ *                             type: string
+ *                           result:
+ *                             type: string
+ *                             enum: [admitted, duplicate, conflict, already_synced, invalid]
+ *                           ticketId:
+ *                             type: string
+ *                           reason:
+ *                             type: string
+ *       400:
+ *         description: Validation error, or no event chosen
+ *       401:
+ *         description: Unauthorized
+ */
+router.post("/sync", syncOfflineScans);
+
+/**
+ * @swagger
+ * /check-in/conflicts:
+ *   get:
+ *     summary: Tickets admitted more than once by offline gates (Admin)
+ *     tags: [Check-in]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Conflicts retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       403:
+ *         description: Scanner accounts cannot view this report
+ */
+router.get("/conflicts", authenticateAdmin, getCheckInConflicts);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { authenticateAdmin } from "../middleware/auth.js";
+import { scopeToEvent } from "../middleware/eventScope.js";
 import {
   getAllCoupons,
   createCoupon,
@@ -20,6 +21,10 @@ router.use(authenticateAdmin);
  *       properties:
  *         _id:
  *           type: string
+ *         eventId:
+ *           type: string
+ *           nullable: true
+ *           description: Event the coupon applies to; null for every event
  *         code:
  *           type: string
  *         discountType:
@@ -51,6 +56,8 @@ router.use(authenticateAdmin);
  *     tags: [Coupons]
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
  *     responses:
  *       200:
  *         description: Coupons retrieved successfully
@@ -71,7 +78,7 @@ router.use(authenticateAdmin);
  *                     count:
  *                       type: number
  */
-router.get("/", getAllCoupons);
+router.get("/", scopeToEvent, getAllCoupons);
 
 /**
  * @swagger
@@ -92,6 +99,10 @@ router.get("/", getAllCoupons);
  *               - discountType
  *               - discountValue
  *             properties:
+ *               eventId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Event ID or slug; omit for every event
  *               code:
  *                 type: string
  *                 example: "WAVE20"
@@ -148,6 +159,10 @@ router.post("/", createCoupon);
  *           schema:
  *             type: object
  *             properties:
+ *               eventId:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Event ID or slug; null for every event
  *               discountType:
  *                 type: string
  *                 enum: [percentage, fixed]
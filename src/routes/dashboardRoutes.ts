@@ -4,7 +4,12 @@
  */
 import { Router } from "express";
 import { authenticateAdmin } from "../middleware/auth.js";
-import { getDashboardOverview } from "../controllers/dashboardController.js";
+import { scopeToEvent } from "../middleware/eventScope.js";
+import {
+  getDashboardOverview,
+  getAttendance,
+  getCheckoutRecovery,
+} from "../controllers/dashboardController.js";
 import { getSystemHealth, getQRCodeEndpoint } from "../controllers/systemHealthController.js";
 
 const router = Router();
@@ -21,6 +26,8 @@ router.use(authenticateAdmin);
  *     tags: [Admin]
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
  *     responses:
  *       200:
  *         description: Dashboard overview retrieved successfully
@@ -71,9 +78,105 @@ router.use(authenticateAdmin);
  *       500:
  *         description: Server error
  */
-router.get("/overview", getDashboardOverview);
+router.get("/overview", scopeToEvent, getDashboardOverview);
 router.get("/system-health", getSystemHealth);
 
+/**
+ * @swagger
+ * /admin/dashboard/attendance:
+ *   get:
+ *     summary: Get live event attendance (Admin only)
+ *     description: Returns, per ticket tier, how many tickets were issued and how many holders have been checked in at the gates
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
+ *     responses:
+ *       200:
+ *         description: Attendance retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/AttendanceStats'
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.get("/attendance", scopeToEvent, getAttendance);
+
+/**
+ * @swagger
+ * /admin/dashboard/checkout-recovery:
+ *   get:
+ *     summary: Get conversion from abandoned checkout nudges (Admin only)
+ *     description: How many buyers who left a payment link unpaid were nudged with a fresh link, and how many of those checkouts were then paid, overall and per nudge
+ *     tags: [Admin]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
+ *     responses:
+ *       200:
+ *         description: Checkout recovery stats retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     nudges:
+ *                       type: object
+ *                       properties:
+ *                         sent:
+ *                           type: number
+ *                         failed:
+ *                           type: number
+ *                     checkouts:
+ *                       type: object
+ *                       properties:
+ *                         nudged:
+ *                           type: number
+ *                         recovered:
+ *                           type: number
+ *                           description: Nudged checkouts that were paid on any of their links
+ *                         conversionRate:
+ *                           type: number
+ *                           description: Percentage of nudged checkouts recovered
+ *                         recoveredRevenue:
+ *                           type: number
+ *                           description: Amount paid for recovered checkouts, in GHS
+ *                     byAttempt:
+ *                       type: array
+ *                       items:
+ *                         type: object
+ *                         properties:
+ *                           attempt:
+ *                             type: number
+ *                           sent:
+ *                             type: number
+ *                           paid:
+ *                             type: number
+ *                             description: Nudges whose fresh link was paid
+ *                           conversionRate:
+ *                             type: number
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.get("/checkout-recovery", scopeToEvent, getCheckoutRecovery);
+
 /**
  * @swagger
  * /admin/dashboard/qr-code:
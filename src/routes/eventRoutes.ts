@@ -0,0 +1,230 @@
+import { Router } from "express";
+import { authenticateAdmin } from "../middleware/auth.js";
+import {
+  getEvents,
+  getEventById,
+  createEvent,
+  updateEvent,
+  deleteEvent,
+} from "../controllers/eventController.js";
+
+const router = Router();
+
+router.use(authenticateAdmin);
+
+/**
+ * @swagger
+ * components:
+ *   parameters:
+ *     EventIdQuery:
+ *       in: query
+ *       name: eventId
+ *       schema:
+ *         type: string
+ *       description: Only include data for this event (ID or slug)
+ *   schemas:
+ *     Event:
+ *       type: object
+ *       properties:
+ *         id:
+ *           type: string
+ *         name:
+ *           type: string
+ *         slug:
+ *           type: string
+ *         description:
+ *           type: string
+ *         location:
+ *           type: string
+ *         dates:
+ *           type: string
+ *           description: Dates as shown to users in the chat
+ *         startsAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         endsAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         installmentDeadline:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         status:
+ *           type: string
+ *           enum: [draft, on_sale, closed]
+ *         isPast:
+ *           type: boolean
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     EventInput:
+ *       type: object
+ *       properties:
+ *         name:
+ *           type: string
+ *           example: "AfroFuture Weekender"
+ *         slug:
+ *           type: string
+ *           example: "afrofuture-weekender"
+ *         description:
+ *           type: string
+ *         location:
+ *           type: string
+ *           example: "El-Wak Stadium, Accra"
+ *         dates:
+ *           type: string
+ *           example: "April 11 & 12, 2026"
+ *         startsAt:
+ *           type: string
+ *           format: date-time
+ *         endsAt:
+ *           type: string
+ *           format: date-time
+ *           description: After this the event is no longer sold but stays available for reporting
+ *         installmentDeadline:
+ *           type: string
+ *           format: date-time
+ *         status:
+ *           type: string
+ *           enum: [draft, on_sale, closed]
+ */
+
+/**
+ * @swagger
+ * /admin/events:
+ *   get:
+ *     summary: Get all events (Admin only)
+ *     description: Lists every event, past ones included, newest first. When more than one event is on sale, the bot asks users which one they want.
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [draft, on_sale, closed]
+ *       - in: query
+ *         name: period
+ *         schema:
+ *           type: string
+ *           enum: [upcoming, past]
+ *     responses:
+ *       200:
+ *         description: Events retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     events:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Event'
+ *                     count:
+ *                       type: number
+ *       401:
+ *         description: Unauthorized
+ *   post:
+ *     summary: Create an event (Admin only)
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             allOf:
+ *               - $ref: '#/components/schemas/EventInput'
+ *               - type: object
+ *                 required: [name, slug, location, dates]
+ *     responses:
+ *       201:
+ *         description: Event created successfully
+ *       400:
+ *         description: Validation error or slug already in use
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/", getEvents);
+router.post("/", createEvent);
+
+/**
+ * @swagger
+ * /admin/events/{id}:
+ *   get:
+ *     summary: Get an event with its ticket tiers and sales totals (Admin only)
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID or slug
+ *     responses:
+ *       200:
+ *         description: Event retrieved successfully
+ *       404:
+ *         description: Event not found
+ *   put:
+ *     summary: Update an event (Admin only)
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID or slug
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/EventInput'
+ *     responses:
+ *       200:
+ *         description: Event updated successfully
+ *       400:
+ *         description: Validation error or slug already in use
+ *       404:
+ *         description: Event not found
+ *   delete:
+ *     summary: Delete an event without ticket tiers (Admin only)
+ *     description: Events that have ticket tiers are kept for reporting; close them instead.
+ *     tags: [Events]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Event ID or slug
+ *     responses:
+ *       200:
+ *         description: Event deleted successfully
+ *       400:
+ *         description: Event has ticket tiers
+ *       404:
+ *         description: Event not found
+ */
+router.get("/:id", getEventById);
+router.put("/:id", updateEvent);
+router.delete("/:id", deleteEvent);
+
+export default router;
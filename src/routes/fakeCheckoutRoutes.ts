@@ -0,0 +1,72 @@
+import express, { Router } from "express";
+import {
+  showFakeCheckout,
+  completeFakeCheckout,
+} from "../controllers/fakeCheckoutController.js";
+
+const router = Router();
+
+// The checkout page posts a plain HTML form
+router.use(express.urlencoded({ extended: false }));
+
+/**
+ * @swagger
+ * /api/payments/fake/checkout/{reference}:
+ *   get:
+ *     summary: Fake provider checkout page (development only)
+ *     description: Local stand-in for a provider's checkout, where the tester picks whether the payment succeeds, fails or is cancelled. Only mounted outside production.
+ *     tags: [Payments]
+ *     parameters:
+ *       - in: path
+ *         name: reference
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Checkout page
+ *         content:
+ *           text/html:
+ *             schema:
+ *               type: string
+ *       404:
+ *         description: Checkout not found
+ */
+router.get("/checkout/:reference", showFakeCheckout);
+
+/**
+ * @swagger
+ * /api/payments/fake/checkout/{reference}:
+ *   post:
+ *     summary: Finish a fake checkout (development only)
+ *     description: Records the outcome, sends a signed charge.success webhook to /api/payments/webhook/fake when paid, and redirects to the payment callback.
+ *     tags: [Payments]
+ *     parameters:
+ *       - in: path
+ *         name: reference
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/x-www-form-urlencoded:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - outcome
+ *             properties:
+ *               outcome:
+ *                 type: string
+ *                 enum: [success, failed, abandoned]
+ *     responses:
+ *       303:
+ *         description: Redirect to the payment callback
+ *       400:
+ *         description: Invalid outcome
+ *       404:
+ *         description: Checkout not found
+ */
+router.post("/checkout/:reference", completeFakeCheckout);
+
+export default router;
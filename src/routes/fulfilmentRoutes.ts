@@ -0,0 +1,138 @@
+import { Router } from "express";
+import { authenticateAdmin } from "../middleware/auth.js";
+import {
+  getFulfilments,
+  retryFulfilment,
+} from "../controllers/fulfilmentController.js";
+
+const router = Router();
+
+router.use(authenticateAdmin);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Fulfilment:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         paymentReference:
+ *           type: string
+ *         chatId:
+ *           type: string
+ *         orderId:
+ *           type: string
+ *         status:
+ *           type: string
+ *           enum: [paid, fulfilled, failed]
+ *           description: failed means automatic retries ran out and an admin should look at it
+ *         completedSteps:
+ *           type: array
+ *           items:
+ *             type: string
+ *             enum: [stock, order, schedule, waitlist, session, confirmation, tickets, receipt]
+ *         attempts:
+ *           type: number
+ *         lastError:
+ *           type: string
+ *         failedStep:
+ *           type: string
+ *         nextAttemptAt:
+ *           type: string
+ *           format: date-time
+ *           nullable: true
+ *         paidAt:
+ *           type: string
+ *           format: date-time
+ *         fulfilledAt:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /admin/fulfilments:
+ *   get:
+ *     summary: Get payment fulfilments (Admin only)
+ *     description: What was delivered for each successful payment (stock, sold tickets, messages, QR tickets, receipts), newest first. Failed steps are retried automatically with a growing delay.
+ *     tags: [Fulfilments]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [paid, fulfilled, failed]
+ *       - in: query
+ *         name: chatId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: reference
+ *         schema:
+ *           type: string
+ *         description: Payment reference
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           default: 100
+ *     responses:
+ *       200:
+ *         description: Fulfilments retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     fulfilments:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Fulfilment'
+ *                     count:
+ *                       type: number
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/", getFulfilments);
+
+/**
+ * @swagger
+ * /admin/fulfilments/{reference}/retry:
+ *   post:
+ *     summary: Retry a payment's fulfilment now (Admin only)
+ *     description: Runs the steps that haven't completed yet, starting from the one that failed. Works for fulfilments that ran out of automatic retries too.
+ *     tags: [Fulfilments]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reference
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Payment reference
+ *     responses:
+ *       200:
+ *         description: Fulfilment ran (check data.fulfilment.status)
+ *       400:
+ *         description: Already fulfilled
+ *       404:
+ *         description: Fulfilment not found
+ *       409:
+ *         description: Another run is in progress
+ */
+router.post("/:reference/retry", retryFulfilment);
+
+export default router;
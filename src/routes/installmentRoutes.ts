@@ -0,0 +1,285 @@
+import { Router } from "express";
+import { authenticateAdmin } from "../middleware/auth.js";
+import { scopeToEvent } from "../middleware/eventScope.js";
+import {
+  getInstallmentSchedules,
+  getInstallmentSchedule,
+  getCustomPlanRequests,
+  updateCustomPlanRequest,
+  approveCustomPlanRequest,
+  rejectCustomPlanRequest,
+} from "../controllers/installmentController.js";
+
+const router = Router();
+
+router.use(authenticateAdmin);
+router.use(scopeToEvent);
+
+/**
+ * @swagger
+ * /admin/installments:
+ *   get:
+ *     summary: Get installment schedules (Admin only)
+ *     description: Buyers paying in installments, newest first, with what is due when and what has been paid. The ledger of payments is left out; fetch a single schedule for it.
+ *     tags: [Installments]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, completed, defaulted, cancelled]
+ *       - in: query
+ *         name: chatId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: ticketType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: eventId
+ *         schema:
+ *           type: string
+ *         description: Event ID or slug
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Installment schedules retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.get("/", getInstallmentSchedules);
+
+/**
+ * @swagger
+ * /admin/installments/custom-requests:
+ *   get:
+ *     summary: Get custom plan requests (Admin only)
+ *     description: Plans buyers proposed by choosing plan C in the chat, newest first
+ *     tags: [Installments]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, approved, rejected]
+ *       - in: query
+ *         name: chatId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: eventId
+ *         schema:
+ *           type: string
+ *         description: Event ID or slug
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Custom plan requests retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.get("/custom-requests", getCustomPlanRequests);
+
+/**
+ * @swagger
+ * /admin/installments/custom-requests/{id}:
+ *   put:
+ *     summary: Edit a custom plan request (Admin only)
+ *     description: Change the payments of a pending request, e.g. after agreeing new dates with the buyer. The buyer is not messaged until it is approved.
+ *     tags: [Installments]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - installments
+ *             properties:
+ *               installments:
+ *                 type: array
+ *                 description: 2-6 payments in due order, adding up to the request's total, the last by its final deadline
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - amount
+ *                     - dueDate
+ *                   properties:
+ *                     amount:
+ *                       type: number
+ *                       example: 250
+ *                     dueDate:
+ *                       type: string
+ *                       format: date-time
+ *     responses:
+ *       200:
+ *         description: Custom plan request updated successfully
+ *       400:
+ *         description: Validation error or request already reviewed
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Custom plan request not found
+ *       500:
+ *         description: Server error
+ */
+router.put("/custom-requests/:id", updateCustomPlanRequest);
+
+/**
+ * @swagger
+ * /admin/installments/custom-requests/{id}/approve:
+ *   post:
+ *     summary: Approve a custom plan request (Admin only)
+ *     description: Puts the buyer on the plan and sends them the schedule with the link for their first payment. Payments can be edited in the same call.
+ *     tags: [Installments]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               installments:
+ *                 type: array
+ *                 description: Replaces the payments before approving (same rules as editing)
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     amount:
+ *                       type: number
+ *                       example: 250
+ *                     dueDate:
+ *                       type: string
+ *                       format: date-time
+ *               note:
+ *                 type: string
+ *                 description: Shown to the buyer with their schedule
+ *     responses:
+ *       200:
+ *         description: Custom plan approved and sent to the buyer
+ *       400:
+ *         description: Validation error, request already reviewed, or the buyer already has a plan with payments
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Custom plan request not found
+ *       409:
+ *         description: No tickets of the tier left to hold for the plan
+ *       500:
+ *         description: Server error
+ */
+router.post("/custom-requests/:id/approve", approveCustomPlanRequest);
+
+/**
+ * @swagger
+ * /admin/installments/custom-requests/{id}/reject:
+ *   post:
+ *     summary: Reject a custom plan request (Admin only)
+ *     description: The buyer is told, with the note, and can pick a standard plan instead
+ *     tags: [Installments]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - note
+ *             properties:
+ *               note:
+ *                 type: string
+ *                 example: "We can only offer payments up to the early-December deadline"
+ *     responses:
+ *       200:
+ *         description: Custom plan rejected
+ *       400:
+ *         description: Validation error or request already reviewed
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Custom plan request not found
+ *       500:
+ *         description: Server error
+ */
+router.post("/custom-requests/:id/reject", rejectCustomPlanRequest);
+
+/**
+ * @swagger
+ * /admin/installments/{id}:
+ *   get:
+ *     summary: Get an installment schedule (Admin only)
+ *     description: One buyer's schedule with the ledger of payments applied to it
+ *     tags: [Installments]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Installment schedule retrieved successfully
+ *       400:
+ *         description: Invalid schedule ID
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Installment schedule not found
+ *       500:
+ *         description: Server error
+ */
+router.get("/:id", getInstallmentSchedule);
+
+export default router;
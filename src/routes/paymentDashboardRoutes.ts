@@ -1,15 +1,24 @@
 import { Router } from "express";
 import { authenticateAdmin } from "../middleware/auth.js";
+import { scopeToEvent } from "../middleware/eventScope.js";
 import {
   getPaymentDashboard,
   getPaymentHistory,
   getPaymentStatistics,
+  getReconciliationReports,
+  getReconciliationReport,
+  runReconciliation,
+  refundPayment,
+  getRefunds,
+  getPaymentReceipt,
+  resendPaymentReceipt,
 } from "../controllers/paymentDashboardController.js";
 
 const router = Router();
 
 // All payment dashboard routes require admin authentication
 router.use(authenticateAdmin);
+router.use(scopeToEvent);
 
 /**
  * @swagger
@@ -20,6 +29,8 @@ router.use(authenticateAdmin);
  *     tags: [Payments]
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
  *     responses:
  *       200:
  *         description: Dashboard statistics retrieved successfully
@@ -70,6 +81,7 @@ router.get("/dashboard", getPaymentDashboard);
  *     security:
  *       - BearerAuth: []
  *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
  *       - in: query
  *         name: page
  *         schema:
@@ -105,6 +117,9 @@ router.get("/dashboard", getPaymentDashboard);
  *                             type: string
  *                           amount:
  *                             type: number
+ *                           provider:
+ *                             type: string
+ *                             enum: [paystack, fake]
  *                           paidAt:
  *                             type: string
  *                             format: date-time
@@ -135,6 +150,8 @@ router.get("/history", getPaymentHistory);
  *     tags: [Payments]
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
  *     responses:
  *       200:
  *         description: Payment statistics retrieved successfully
@@ -145,4 +162,424 @@ router.get("/history", getPaymentHistory);
  */
 router.get("/statistics", getPaymentStatistics);
 
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     ReconciliationReport:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         trigger:
+ *           type: string
+ *           enum: [scheduled, manual]
+ *         triggeredBy:
+ *           type: string
+ *           description: Admin who started a manual run
+ *         status:
+ *           type: string
+ *           enum: [running, completed, failed]
+ *         checked:
+ *           type: number
+ *         summary:
+ *           type: object
+ *           properties:
+ *             fulfilled:
+ *               type: number
+ *             failed:
+ *               type: number
+ *             abandoned:
+ *               type: number
+ *             still_pending:
+ *               type: number
+ *             unchanged:
+ *               type: number
+ *             error:
+ *               type: number
+ *         items:
+ *           type: array
+ *           description: Only returned when fetching a single report
+ *           items:
+ *             type: object
+ *             properties:
+ *               reference:
+ *                 type: string
+ *               chatId:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *               previousStatus:
+ *                 type: string
+ *               paystackStatus:
+ *                 type: string
+ *               outcome:
+ *                 type: string
+ *                 enum: [fulfilled, failed, abandoned, still_pending, unchanged, error]
+ *               error:
+ *                 type: string
+ *         error:
+ *           type: string
+ *         startedAt:
+ *           type: string
+ *           format: date-time
+ *         finishedAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /admin/payments/reconciliations:
+ *   get:
+ *     summary: Get payment reconciliation reports (Admin only)
+ *     description: Each run checks payments stuck in pending (and payments abandoned when their hold expired) with Paystack, fulfilling the ones that were paid and closing the rest. Newest first.
+ *     tags: [Payments]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: trigger
+ *         schema:
+ *           type: string
+ *           enum: [scheduled, manual]
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Reports retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     reports:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/ReconciliationReport'
+ *                     pagination:
+ *                       type: object
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/reconciliations", getReconciliationReports);
+
+/**
+ * @swagger
+ * /admin/payments/reconciliations:
+ *   post:
+ *     summary: Run payment reconciliation now (Admin only)
+ *     description: Starts a run in the background and returns its report, which can be polled until its status is no longer running.
+ *     tags: [Payments]
+ *     security:
+ *       - BearerAuth: []
+ *     responses:
+ *       202:
+ *         description: Reconciliation started
+ *       401:
+ *         description: Unauthorized
+ *       409:
+ *         description: A run is already in progress
+ */
+router.post("/reconciliations", runReconciliation);
+
+/**
+ * @swagger
+ * /admin/payments/reconciliations/{id}:
+ *   get:
+ *     summary: Get a reconciliation report with its per-payment results (Admin only)
+ *     tags: [Payments]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Report retrieved successfully
+ *       404:
+ *         description: Report not found
+ */
+router.get("/reconciliations/:id", getReconciliationReport);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     Refund:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         paymentReference:
+ *           type: string
+ *         chatId:
+ *           type: string
+ *         amount:
+ *           type: number
+ *         currency:
+ *           type: string
+ *         reason:
+ *           type: string
+ *         ticketAction:
+ *           type: string
+ *           enum: [invalidate, keep]
+ *         soldTicketIds:
+ *           type: array
+ *           description: Tickets cancelled by the refund
+ *           items:
+ *             type: string
+ *         status:
+ *           type: string
+ *           enum: [pending, processed, failed]
+ *           description: Pending until Paystack reports the refund processed or failed
+ *         paystackRefundId:
+ *           type: string
+ *         failureReason:
+ *           type: string
+ *         requestedBy:
+ *           type: string
+ *         processedAt:
+ *           type: string
+ *           format: date-time
+ *         failedAt:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /admin/payments/refunds:
+ *   get:
+ *     summary: Get refunds (Admin only)
+ *     description: Newest first
+ *     tags: [Payments]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, processed, failed]
+ *       - in: query
+ *         name: reference
+ *         description: Payment reference
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Refunds retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     refunds:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Refund'
+ *                     pagination:
+ *                       type: object
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/refunds", getRefunds);
+
+/**
+ * @swagger
+ * /admin/payments/{reference}/refund:
+ *   post:
+ *     summary: Refund a payment in full or in part (Admin only)
+ *     description: Asks Paystack to refund the buyer, marks the payment refunded or partially_refunded, takes it off the buyer's installment plan if it was an installment, cancels the chosen tickets (returning their stock) or keeps them, and tells the buyer on WhatsApp. Paystack's refund.processed / refund.failed webhooks settle the refund afterwards; a failed refund restores the payment and its tickets.
+ *     tags: [Payments]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reference
+ *         required: true
+ *         description: Paystack payment reference
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *               - ticketAction
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 description: Amount to refund in GHS. Defaults to everything not refunded yet.
+ *               reason:
+ *                 type: string
+ *                 example: Event date clash
+ *               ticketAction:
+ *                 type: string
+ *                 enum: [invalidate, keep]
+ *                 description: Cancel the tickets (their QR codes stop working) or let the buyer keep them
+ *               soldTicketIds:
+ *                 type: array
+ *                 description: Tickets to cancel when invalidating. Defaults to every valid ticket on the payment.
+ *                 items:
+ *                   type: string
+ *     responses:
+ *       201:
+ *         description: Refund requested
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     refund:
+ *                       $ref: '#/components/schemas/Refund'
+ *       400:
+ *         description: Validation error, or the payment can't be refunded for that amount
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Payment not found
+ *       502:
+ *         description: Paystack refused the refund
+ */
+router.post("/:reference/refund", refundPayment);
+
+/**
+ * @swagger
+ * /admin/payments/{reference}/receipt:
+ *   get:
+ *     summary: Download a payment's PDF receipt (Admin only)
+ *     description: The same receipt the buyer gets after paying, showing the amount, any coupon discount, the reference and the ticket tier.
+ *     tags: [Payments]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reference
+ *         required: true
+ *         description: Paystack payment reference
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The receipt
+ *         content:
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: The payment hasn't been paid
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Payment not found
+ */
+router.get("/:reference/receipt", getPaymentReceipt);
+
+/**
+ * @swagger
+ * /admin/payments/{reference}/receipt:
+ *   post:
+ *     summary: Resend a payment's receipt (Admin only)
+ *     description: Sends the PDF receipt to the buyer again on WhatsApp and/or by email. Email needs SMTP_HOST set and an address, either the buyer's or one given here.
+ *     tags: [Payments]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: reference
+ *         required: true
+ *         description: Paystack payment reference
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               channels:
+ *                 type: array
+ *                 description: Defaults to both
+ *                 items:
+ *                   type: string
+ *                   enum: [email, whatsapp]
+ *               email:
+ *                 type: string
+ *                 format: email
+ *                 description: Send to this address instead of the buyer's
+ *     responses:
+ *       200:
+ *         description: Receipt sent
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 message:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     channels:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *       400:
+ *         description: Validation error, the payment hasn't been paid, or email can't be sent
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Payment not found
+ */
+router.post("/:reference/receipt", resendPaymentReceipt);
+
 export default router;
@@ -1,6 +1,6 @@
 import { Router } from "express";
 import {
-  handlePaystackWebhook,
+  handlePaymentWebhook,
   handlePaymentCallback,
 } from "../controllers/paymentController.js";
 
@@ -21,7 +21,33 @@ const router = Router();
  *       500:
  *         description: Server error
  */
-router.post("/webhook", handlePaystackWebhook);
+router.post("/webhook", handlePaymentWebhook);
+
+/**
+ * @swagger
+ * /api/payments/webhook/{provider}:
+ *   post:
+ *     summary: Payment provider webhook endpoint
+ *     description: Receives payment events from a provider other than Paystack (e.g. the fake provider used for local testing)
+ *     tags: [Payments]
+ *     parameters:
+ *       - in: path
+ *         name: provider
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [paystack, fake]
+ *     responses:
+ *       200:
+ *         description: Webhook processed successfully
+ *       401:
+ *         description: Invalid signature
+ *       404:
+ *         description: Unknown payment provider
+ *       500:
+ *         description: Server error
+ */
+router.post("/webhook/:provider", handlePaymentWebhook);
 
 /**
  * @swagger
@@ -36,7 +62,7 @@ router.post("/webhook", handlePaystackWebhook);
  *         required: true
  *         schema:
  *           type: string
- *         description: Paystack payment reference
+ *         description: Payment reference from the provider
  *     responses:
  *       200:
  *         description: Payment verified successfully
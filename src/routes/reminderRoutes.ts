@@ -1,5 +1,6 @@
 import { Router } from "express";
 import { authenticateAdmin } from "../middleware/auth.js";
+import { scopeToEvent } from "../middleware/eventScope.js";
 import {
   getAllTemplates,
   getTemplateById,
@@ -7,6 +8,7 @@ import {
   updateTemplate,
   deleteTemplate,
   getReminderLogs,
+  getCheckoutNudges,
   sendReminder,
   getReminderStats,
 } from "../controllers/reminderController.js";
@@ -24,11 +26,13 @@ router.use(authenticateAdmin);
  *     tags: [Reminders]
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
  *     responses:
  *       200:
  *         description: Templates retrieved successfully
  */
-router.get("/templates", getAllTemplates);
+router.get("/templates", scopeToEvent, getAllTemplates);
 
 /**
  * @swagger
@@ -85,6 +89,46 @@ router.delete("/templates/:id", deleteTemplate);
  */
 router.get("/logs", getReminderLogs);
 
+/**
+ * @swagger
+ * /admin/reminders/nudges:
+ *   get:
+ *     summary: Get abandoned checkout nudges (Admin only)
+ *     description: Each nudge sent (or tried) to a buyer who left a payment link unpaid, newest first. Templates of type abandoned_checkout are used for the message when there is one.
+ *     tags: [Reminders]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [sent, failed]
+ *       - in: query
+ *         name: chatId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: checkoutReference
+ *         schema:
+ *           type: string
+ *         description: First payment reference of the checkout
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Nudges retrieved successfully
+ */
+router.get("/nudges", getCheckoutNudges);
+
 /**
  * @swagger
  * /admin/reminders/send:
@@ -1,27 +1,46 @@
 import { Router } from "express";
 import { authenticateAdmin } from "../middleware/auth.js";
+import { scopeToEvent } from "../middleware/eventScope.js";
 import {
   getAllTickets,
   getTicket,
   createTicket,
   updateTicket,
   deleteTicket,
+  adjustTicketStock,
+  getStockAdjustments,
 } from "../controllers/ticketController.js";
+import {
+  getPricingPhases,
+  createPricingPhase,
+  updatePricingPhase,
+  deletePricingPhase,
+  previewPricing,
+} from "../controllers/pricingPhaseController.js";
+import {
+  getInstallmentPlans,
+  createInstallmentPlan,
+  updateInstallmentPlan,
+  deleteInstallmentPlan,
+} from "../controllers/installmentController.js";
 
 const router = Router();
 
 // All ticket routes require admin authentication
 router.use(authenticateAdmin);
+router.use(scopeToEvent);
 
 /**
  * @swagger
  * /admin/tickets:
  *   get:
  *     summary: Get all tickets with stats (Admin only)
- *     description: Returns all tickets with pricing, quantity, sold, and available counts
+ *     description: Returns all tickets with pricing, quantity, sold, reserved (held by unpaid checkouts), and available counts
  *     tags: [Tickets]
  *     security:
  *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
  *     responses:
  *       200:
  *         description: Tickets retrieved successfully
@@ -43,6 +62,8 @@ router.use(authenticateAdmin);
  *                         properties:
  *                           id:
  *                             type: string
+ *                           eventId:
+ *                             type: string
  *                           name:
  *                             type: string
  *                           type:
@@ -53,8 +74,33 @@ router.use(authenticateAdmin);
  *                             type: number
  *                           totalQuantity:
  *                             type: number
+ *                           withheldQuantity:
+ *                             type: number
+ *                             description: Units kept off public sale (comps, partner allocations)
+ *                           currentPrice:
+ *                             type: number
+ *                             description: Price of the pricing phase running now (base price when none applies)
+ *                           currentPhase:
+ *                             type: string
+ *                             nullable: true
+ *                           maxPerOrder:
+ *                             type: number
+ *                             description: Most tickets of this type one buyer can order at once
+ *                           transfersEnabled:
+ *                             type: boolean
+ *                           maxTransfers:
+ *                             type: number
+ *                             nullable: true
+ *                             description: Times one ticket can be transferred (null = no limit)
+ *                           paymentProvider:
+ *                             type: string
+ *                             nullable: true
+ *                             enum: [paystack, fake]
+ *                             description: Provider this tier's payments go through (null = PAYMENT_PROVIDER)
  *                           sold:
  *                             type: number
+ *                           reserved:
+ *                             type: number
  *                           available:
  *                             type: number
  *                           isActive:
@@ -84,9 +130,12 @@ router.get("/", getAllTickets);
  *         schema:
  *           type: string
  *         description: Ticket ID or type (e.g., "GA", "VIP")
+ *       - $ref: '#/components/parameters/EventIdQuery'
  *     responses:
  *       200:
  *         description: Ticket retrieved successfully
+ *       400:
+ *         description: Several events sell that type and no eventId was given
  *       401:
  *         description: Unauthorized
  *       404:
@@ -118,13 +167,16 @@ router.get("/:id", getTicket);
  *               - price
  *               - totalQuantity
  *             properties:
+ *               eventId:
+ *                 type: string
+ *                 description: Event ID or slug (defaults to the only upcoming event)
  *               name:
  *                 type: string
  *                 example: "Wave 1: VVIP"
  *               type:
  *                 type: string
  *                 example: "VVIP"
- *                 description: Unique ticket type identifier (uppercase)
+ *                 description: Ticket type identifier, unique across all events (uppercase)
  *               description:
  *                 type: string
  *                 example: "Very Very Important Person access"
@@ -134,6 +186,27 @@ router.get("/:id", getTicket);
  *               totalQuantity:
  *                 type: number
  *                 example: 100
+ *               withheldQuantity:
+ *                 type: number
+ *                 example: 10
+ *                 description: Units kept off public sale (defaults to 0)
+ *               maxPerOrder:
+ *                 type: number
+ *                 example: 10
+ *                 description: Most tickets of this type one buyer can order at once (defaults to 10)
+ *               transfersEnabled:
+ *                 type: boolean
+ *                 description: Whether holders can transfer tickets of this type (defaults to true)
+ *               maxTransfers:
+ *                 type: number
+ *                 nullable: true
+ *                 example: 1
+ *                 description: Times one ticket can be transferred (defaults to no limit)
+ *               paymentProvider:
+ *                 type: string
+ *                 nullable: true
+ *                 enum: [paystack, fake]
+ *                 description: Take this tier's payments through a specific provider (defaults to PAYMENT_PROVIDER)
  *     responses:
  *       201:
  *         description: Ticket created successfully
@@ -162,6 +235,7 @@ router.post("/", createTicket);
  *         schema:
  *           type: string
  *         description: Ticket ID or type
+ *       - $ref: '#/components/parameters/EventIdQuery'
  *     requestBody:
  *       required: true
  *       content:
@@ -169,6 +243,9 @@ router.post("/", createTicket);
  *           schema:
  *             type: object
  *             properties:
+ *               eventId:
+ *                 type: string
+ *                 description: Move the tier to another event (ID or slug)
  *               name:
  *                 type: string
  *               description:
@@ -177,13 +254,30 @@ router.post("/", createTicket);
  *                 type: number
  *               totalQuantity:
  *                 type: number
+ *               withheldQuantity:
+ *                 type: number
+ *               maxPerOrder:
+ *                 type: number
+ *               transfersEnabled:
+ *                 type: boolean
+ *               maxTransfers:
+ *                 type: number
+ *                 nullable: true
+ *               paymentProvider:
+ *                 type: string
+ *                 nullable: true
+ *                 enum: [paystack, fake]
+ *                 description: null goes back to PAYMENT_PROVIDER
+ *               stockReason:
+ *                 type: string
+ *                 description: Reason recorded if totalQuantity or withheldQuantity changes
  *               isActive:
  *                 type: boolean
  *     responses:
  *       200:
  *         description: Ticket updated successfully
  *       400:
- *         description: Validation error
+ *         description: Validation error, total quantity below sold + reserved, or a type several events sell given without an eventId
  *       401:
  *         description: Unauthorized
  *       404:
@@ -198,7 +292,7 @@ router.put("/:id", updateTicket);
  * /admin/tickets/{id}:
  *   delete:
  *     summary: Delete a ticket (Admin only)
- *     description: Deletes a ticket if no tickets have been sold
+ *     description: Deletes a ticket if no tickets have been sold or reserved
  *     tags: [Tickets]
  *     security:
  *       - BearerAuth: []
@@ -209,11 +303,12 @@ router.put("/:id", updateTicket);
  *         schema:
  *           type: string
  *         description: Ticket ID or type
+ *       - $ref: '#/components/parameters/EventIdQuery'
  *     responses:
  *       200:
  *         description: Ticket deleted successfully
  *       400:
- *         description: Cannot delete ticket with sold tickets
+ *         description: Cannot delete ticket with sold or reserved tickets, or a type several events sell given without an eventId
  *       401:
  *         description: Unauthorized
  *       404:
@@ -223,4 +318,482 @@ router.put("/:id", updateTicket);
  */
 router.delete("/:id", deleteTicket);
 
+/**
+ * @swagger
+ * /admin/tickets/{id}/stock:
+ *   post:
+ *     summary: Adjust ticket stock (Admin only)
+ *     description: Sets the total and/or withheld quantity for a ticket and records the reason. Rejected if the units left for sale would drop below sold + reserved.
+ *     tags: [Tickets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Ticket ID or type
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               totalQuantity:
+ *                 type: number
+ *                 example: 550
+ *               withheldQuantity:
+ *                 type: number
+ *                 example: 20
+ *                 description: Units kept off public sale (comps, partner allocations)
+ *               reason:
+ *                 type: string
+ *                 example: "Venue released 50 extra VIP seats"
+ *     responses:
+ *       200:
+ *         description: Stock adjusted successfully
+ *       400:
+ *         description: Validation error or stock below sold + reserved
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Ticket not found
+ *       500:
+ *         description: Server error
+ */
+router.post("/:id/stock", adjustTicketStock);
+
+/**
+ * @swagger
+ * /admin/tickets/{id}/stock-adjustments:
+ *   get:
+ *     summary: Get stock adjustment history (Admin only)
+ *     description: Returns the recorded stock changes for a ticket, newest first
+ *     tags: [Tickets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Ticket ID or type
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Stock adjustments retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Ticket not found
+ *       500:
+ *         description: Server error
+ */
+router.get("/:id/stock-adjustments", getStockAdjustments);
+
+/**
+ * @swagger
+ * /admin/tickets/pricing/preview:
+ *   get:
+ *     summary: Preview ticket prices at a given time (Admin only)
+ *     description: Returns each ticket on sale with the pricing phase (sale wave) and price that would apply at the given time. Phase caps are checked against current sales.
+ *     tags: [Tickets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
+ *       - in: query
+ *         name: at
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Time to preview (defaults to now)
+ *     responses:
+ *       200:
+ *         description: Pricing preview retrieved successfully
+ *       400:
+ *         description: Invalid date
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.get("/pricing/preview", previewPricing);
+
+/**
+ * @swagger
+ * /admin/tickets/{id}/phases:
+ *   get:
+ *     summary: Get a ticket's pricing phases (Admin only)
+ *     description: Returns the sale waves of a ticket in start order, with how many units each has sold and its status right now (scheduled, running, sold_out, ended or inactive)
+ *     tags: [Tickets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Ticket ID or type
+ *     responses:
+ *       200:
+ *         description: Pricing phases retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Ticket not found
+ *       500:
+ *         description: Server error
+ *   post:
+ *     summary: Add a pricing phase to a ticket (Admin only)
+ *     description: The first running phase with units left sets the price. When none applies, the ticket's base price is used.
+ *     tags: [Tickets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Ticket ID or type
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - price
+ *               - startsAt
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Wave 2"
+ *               price:
+ *                 type: number
+ *                 example: 650
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *               endsAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: Leave empty for a phase that runs until its cap is used up
+ *               quantityCap:
+ *                 type: number
+ *                 nullable: true
+ *                 example: 200
+ *                 description: Units sold at this price before the next phase takes over
+ *     responses:
+ *       201:
+ *         description: Pricing phase created successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Ticket not found
+ *       500:
+ *         description: Server error
+ */
+router.get("/:id/phases", getPricingPhases);
+router.post("/:id/phases", createPricingPhase);
+
+/**
+ * @swagger
+ * /admin/tickets/{id}/phases/{phaseId}:
+ *   put:
+ *     summary: Update a pricing phase (Admin only)
+ *     description: Payment links already issued keep the price they were issued at
+ *     tags: [Tickets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Ticket ID or type
+ *       - in: path
+ *         name: phaseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "Wave 2"
+ *               price:
+ *                 type: number
+ *                 example: 650
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *               endsAt:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: Leave empty for a phase that runs until its cap is used up
+ *               quantityCap:
+ *                 type: number
+ *                 nullable: true
+ *                 example: 200
+ *                 description: Units sold at this price before the next phase takes over
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Pricing phase updated successfully
+ *       400:
+ *         description: Validation error or cap below units already sold
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Pricing phase not found
+ *       500:
+ *         description: Server error
+ *   delete:
+ *     summary: Delete a pricing phase (Admin only)
+ *     description: Only phases with no sold or reserved units can be deleted; deactivate the rest
+ *     tags: [Tickets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Ticket ID or type
+ *       - in: path
+ *         name: phaseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Pricing phase deleted successfully
+ *       400:
+ *         description: Phase has sales
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Pricing phase not found
+ *       500:
+ *         description: Server error
+ */
+router.put("/:id/phases/:phaseId", updatePricingPhase);
+router.delete("/:id/phases/:phaseId", deletePricingPhase);
+
+/**
+ * @swagger
+ * /admin/tickets/{id}/installment-plans:
+ *   get:
+ *     summary: Get a ticket's installment plans (Admin only)
+ *     description: Returns the plans buyers can pay the ticket with, each with what a buyer signing up now would pay and when
+ *     tags: [Tickets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Ticket ID or type
+ *     responses:
+ *       200:
+ *         description: Installment plans retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Ticket not found
+ *       500:
+ *         description: Server error
+ *   post:
+ *     summary: Add an installment plan to a ticket (Admin only)
+ *     description: Buyers pick a plan by its code. Code "C" is reserved for custom plans.
+ *     tags: [Tickets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Ticket ID or type
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - code
+ *               - name
+ *               - splits
+ *             properties:
+ *               code:
+ *                 type: string
+ *                 example: "A"
+ *               name:
+ *                 type: string
+ *                 example: "3 Payments"
+ *               splits:
+ *                 type: array
+ *                 description: Payments as shares of the price, adding up to 100. The first is due at sign-up.
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - percent
+ *                   properties:
+ *                     percent:
+ *                       type: number
+ *                       example: 40
+ *                     dueAfterDays:
+ *                       type: number
+ *                       nullable: true
+ *                       example: 21
+ *                       description: Days after sign-up it is due; leave empty for "by the final deadline"
+ *               finalDeadline:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: Leave empty to use the event's installment deadline
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Installment plan created successfully
+ *       400:
+ *         description: Validation error or code already used
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Ticket not found
+ *       500:
+ *         description: Server error
+ */
+router.get("/:id/installment-plans", getInstallmentPlans);
+router.post("/:id/installment-plans", createInstallmentPlan);
+
+/**
+ * @swagger
+ * /admin/tickets/{id}/installment-plans/{planId}:
+ *   put:
+ *     summary: Update an installment plan (Admin only)
+ *     description: Buyers already on the plan keep the schedule they signed up to
+ *     tags: [Tickets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Ticket ID or type
+ *       - in: path
+ *         name: planId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *                 example: "3 Payments"
+ *               splits:
+ *                 type: array
+ *                 description: Payments as shares of the price, adding up to 100. The first is due at sign-up.
+ *                 items:
+ *                   type: object
+ *                   required:
+ *                     - percent
+ *                   properties:
+ *                     percent:
+ *                       type: number
+ *                       example: 40
+ *                     dueAfterDays:
+ *                       type: number
+ *                       nullable: true
+ *                       example: 21
+ *                       description: Days after sign-up it is due; leave empty for "by the final deadline"
+ *               finalDeadline:
+ *                 type: string
+ *                 format: date-time
+ *                 nullable: true
+ *                 description: Leave empty to use the event's installment deadline
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: Installment plan updated successfully
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Installment plan not found
+ *       500:
+ *         description: Server error
+ *   delete:
+ *     summary: Delete an installment plan (Admin only)
+ *     description: Only plans nobody has signed up to can be deleted; deactivate the rest
+ *     tags: [Tickets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Ticket ID or type
+ *       - in: path
+ *         name: planId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Installment plan deleted successfully
+ *       400:
+ *         description: Buyers are on the plan
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Installment plan not found
+ *       500:
+ *         description: Server error
+ */
+router.put("/:id/installment-plans/:planId", updateInstallmentPlan);
+router.delete("/:id/installment-plans/:planId", deleteInstallmentPlan);
+
 export default router;
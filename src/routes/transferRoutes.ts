@@ -0,0 +1,126 @@
+import { Router } from "express";
+import { authenticateAdmin } from "../middleware/auth.js";
+import { scopeToEvent } from "../middleware/eventScope.js";
+import { getTransfers } from "../controllers/transferController.js";
+
+const router = Router();
+
+router.use(authenticateAdmin);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     TicketTransfer:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         soldTicketId:
+ *           type: string
+ *         ticketType:
+ *           type: string
+ *         fromTicketId:
+ *           type: string
+ *           description: Ticket ID the sender held (its QR stops working once accepted)
+ *         toTicketId:
+ *           type: string
+ *           description: Ticket ID reissued to the recipient
+ *         fromChatId:
+ *           type: string
+ *         fromUserId:
+ *           type: object
+ *           properties:
+ *             name:
+ *               type: string
+ *             email:
+ *               type: string
+ *             phoneNumber:
+ *               type: string
+ *         toChatId:
+ *           type: string
+ *         toUserId:
+ *           type: object
+ *           properties:
+ *             name:
+ *               type: string
+ *             email:
+ *               type: string
+ *             phoneNumber:
+ *               type: string
+ *         status:
+ *           type: string
+ *           enum: [pending, accepted, declined, expired, failed]
+ *         failureReason:
+ *           type: string
+ *         expiresAt:
+ *           type: string
+ *           format: date-time
+ *         respondedAt:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /admin/transfers:
+ *   get:
+ *     summary: Get the ticket transfer log (Admin only)
+ *     description: Every transfer requested from the chat, newest first. Transfers can be capped or disabled per ticket type with transfersEnabled and maxTransfers on the ticket.
+ *     tags: [Transfers]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [pending, accepted, declined, expired, failed]
+ *       - in: query
+ *         name: ticketType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: ticketId
+ *         schema:
+ *           type: string
+ *         description: Matches the ticket ID before or after the transfer
+ *       - in: query
+ *         name: chatId
+ *         schema:
+ *           type: string
+ *         description: Transfers sent or received by this chat
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: number
+ *           default: 100
+ *     responses:
+ *       200:
+ *         description: Transfers retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     transfers:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/TicketTransfer'
+ *                     count:
+ *                       type: number
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/", scopeToEvent, getTransfers);
+
+export default router;
@@ -1,8 +1,11 @@
 import { Router } from "express";
 import { getUserStats, getAllUsers } from "../controllers/userController.js";
+import { scopeToEvent } from "../middleware/eventScope.js";
 
 const router = Router();
 
+router.use(scopeToEvent);
+
 /**
  * @swagger
  * /users/stats:
@@ -10,6 +13,8 @@ const router = Router();
  *     summary: Get user statistics
  *     description: Returns counts of total users, paid users, and users with pending payments
  *     tags: [Users]
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
  *     responses:
  *       200:
  *         description: User statistics retrieved successfully
@@ -46,6 +51,7 @@ router.get("/stats", getUserStats);
  *     description: Returns a paginated list of all users with optional filtering and search
  *     tags: [Users]
  *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
  *       - in: query
  *         name: page
  *         schema:
@@ -0,0 +1,188 @@
+import { Router } from "express";
+import { authenticateAdmin } from "../middleware/auth.js";
+import { scopeToEvent } from "../middleware/eventScope.js";
+import {
+  getWaitlist,
+  moveWaitlistEntry,
+  removeWaitlistEntry,
+  processWaitlist,
+} from "../controllers/waitlistController.js";
+
+const router = Router();
+
+router.use(authenticateAdmin);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     WaitlistEntry:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         ticketType:
+ *           type: string
+ *         chatId:
+ *           type: string
+ *         userId:
+ *           type: object
+ *           properties:
+ *             _id:
+ *               type: string
+ *             name:
+ *               type: string
+ *             email:
+ *               type: string
+ *             phoneNumber:
+ *               type: string
+ *         position:
+ *           type: number
+ *         queuePosition:
+ *           type: number
+ *           nullable: true
+ *           description: Place among users still waiting for this tier (null once offered)
+ *         status:
+ *           type: string
+ *           enum: [waiting, offered, converted, expired, cancelled]
+ *         offeredAt:
+ *           type: string
+ *           format: date-time
+ *         offerExpiresAt:
+ *           type: string
+ *           format: date-time
+ *         paymentReference:
+ *           type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /admin/waitlist:
+ *   get:
+ *     summary: Get the waitlist (Admin only)
+ *     description: Returns waitlist entries in queue order per ticket type. Only open entries (waiting or offered) are returned unless a status is given.
+ *     tags: [Waitlist]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
+ *       - in: query
+ *         name: ticketType
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [waiting, offered, converted, expired, cancelled]
+ *     responses:
+ *       200:
+ *         description: Waitlist retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     entries:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/WaitlistEntry'
+ *                     count:
+ *                       type: number
+ */
+router.get("/", scopeToEvent, getWaitlist);
+
+/**
+ * @swagger
+ * /admin/waitlist/process:
+ *   post:
+ *     summary: Send waitlist offers now (Admin only)
+ *     description: Expires offers whose payment window has passed, then offers any free stock to the next people waiting. This also runs automatically with the checkout hold sweep.
+ *     tags: [Waitlist]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/EventIdQuery'
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               ticketType:
+ *                 type: string
+ *                 description: Only process this tier's queue (of the event given, else the one on sale)
+ *     responses:
+ *       200:
+ *         description: Number of offers sent
+ *       400:
+ *         description: Validation error
+ *       401:
+ *         description: Unauthorized
+ */
+router.post("/process", scopeToEvent, processWaitlist);
+
+/**
+ * @swagger
+ * /admin/waitlist/{id}:
+ *   put:
+ *     summary: Move a waitlist entry (Admin only)
+ *     description: Moves a waiting entry to a new place in its tier's queue
+ *     tags: [Waitlist]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - position
+ *             properties:
+ *               position:
+ *                 type: number
+ *                 example: 1
+ *     responses:
+ *       200:
+ *         description: Entry moved successfully
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Waiting entry not found
+ *   delete:
+ *     summary: Remove a waitlist entry (Admin only)
+ *     description: Takes the entry out of the queue. A ticket already offered to it is released and offered to the next person.
+ *     tags: [Waitlist]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Entry removed successfully
+ *       404:
+ *         description: Open waitlist entry not found
+ */
+router.put("/:id", moveWaitlistEntry);
+router.delete("/:id", removeWaitlistEntry);
+
+export default router;
@@ -0,0 +1,427 @@
+import { Router } from "express";
+import { authenticateAdmin } from "../middleware/auth.js";
+import { scopeToEvent } from "../middleware/eventScope.js";
+import {
+  getWallets,
+  getWalletStatement,
+  createWalletAdjustment,
+  getVouchers,
+  getCreditLiabilities,
+  getDonations,
+  resendDonationReceipt,
+} from "../controllers/walletController.js";
+
+const router = Router();
+
+router.use(authenticateAdmin);
+router.use(scopeToEvent);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     WalletTransaction:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         chatId:
+ *           type: string
+ *         sequence:
+ *           type: integer
+ *           description: Position in the buyer's ledger, starting at 1
+ *         type:
+ *           type: string
+ *           enum: [credit, debit, transfer, donation, expiry]
+ *         amount:
+ *           type: number
+ *           description: Cedis; positive for credits, negative for the rest
+ *         balanceAfter:
+ *           type: number
+ *           description: Wallet balance in cedis after this entry
+ *         currency:
+ *           type: string
+ *         description:
+ *           type: string
+ *         reference:
+ *           type: string
+ *         destination:
+ *           type: string
+ *         createdBy:
+ *           type: string
+ *           description: Admin who posted an adjustment
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     CreditVoucher:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         code:
+ *           type: string
+ *         chatId:
+ *           type: string
+ *         eventId:
+ *           type: string
+ *         eventName:
+ *           type: string
+ *         amount:
+ *           type: number
+ *           description: Cedis moved from the wallet
+ *         balance:
+ *           type: number
+ *           description: Cedis not yet held by a checkout or spent
+ *         status:
+ *           type: string
+ *           enum: [active, used]
+ *         redemptions:
+ *           type: array
+ *           items:
+ *             type: object
+ *             properties:
+ *               orderId:
+ *                 type: string
+ *               amount:
+ *                 type: number
+ *               status:
+ *                 type: string
+ *                 enum: [held, redeemed, released]
+ *               paymentReference:
+ *                 type: string
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ *     Donation:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         receiptNumber:
+ *           type: string
+ *         chatId:
+ *           type: string
+ *         donorName:
+ *           type: string
+ *         recipient:
+ *           type: string
+ *         amount:
+ *           type: number
+ *         receiptSentAt:
+ *           type: string
+ *           format: date-time
+ *         createdAt:
+ *           type: string
+ *           format: date-time
+ */
+
+/**
+ * @swagger
+ * /admin/wallets:
+ *   get:
+ *     summary: Get wallets (Admin only)
+ *     description: Every buyer with wallet activity and their current balance, largest balance first, plus the total held across all wallets
+ *     tags: [Wallets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: hasBalance
+ *         schema:
+ *           type: boolean
+ *         description: Only wallets with money in them
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Wallets retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.get("/", getWallets);
+
+/**
+ * @swagger
+ * /admin/wallets/vouchers:
+ *   get:
+ *     summary: Get event credit vouchers (Admin only)
+ *     description: Wallet balances buyers moved to an event, newest first, with the checkouts they were used on
+ *     tags: [Wallets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [active, used]
+ *       - in: query
+ *         name: chatId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: eventId
+ *         schema:
+ *           type: string
+ *         description: Event ID or slug
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Vouchers retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     vouchers:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/CreditVoucher'
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.get("/vouchers", getVouchers);
+
+/**
+ * @swagger
+ * /admin/wallets/liabilities:
+ *   get:
+ *     summary: Get outstanding credit (Admin only)
+ *     description: What is still owed to buyers, in cedis. Money left in wallets, and per event the credit issued, spent (redeemed), held by checkouts in progress and outstanding (not yet spent, held included).
+ *     tags: [Wallets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: eventId
+ *         schema:
+ *           type: string
+ *         description: Event ID or slug; narrows the per-event figures
+ *     responses:
+ *       200:
+ *         description: Liabilities retrieved successfully
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.get("/liabilities", getCreditLiabilities);
+
+/**
+ * @swagger
+ * /admin/wallets/donations:
+ *   get:
+ *     summary: Get donations (Admin only)
+ *     description: Wallet balances buyers donated, newest first, with totals per recipient
+ *     tags: [Wallets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: recipient
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: chatId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Donations retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     donations:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/Donation'
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.get("/donations", getDonations);
+
+/**
+ * @swagger
+ * /admin/wallets/donations/{id}/receipt:
+ *   post:
+ *     summary: Resend a donation receipt (Admin only)
+ *     description: Send the donor their receipt on WhatsApp again
+ *     tags: [Wallets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Receipt sent
+ *       400:
+ *         description: Invalid donation ID
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: Donation not found
+ *       502:
+ *         description: WhatsApp message could not be sent
+ *       500:
+ *         description: Server error
+ */
+router.post("/donations/:id/receipt", resendDonationReceipt);
+
+/**
+ * @swagger
+ * /admin/wallets/{chatId}:
+ *   get:
+ *     summary: Get a wallet statement (Admin only)
+ *     description: A buyer's balance and wallet entries, newest first
+ *     tags: [Wallets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chatId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 50
+ *     responses:
+ *       200:
+ *         description: Statement retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     chatId:
+ *                       type: string
+ *                     balance:
+ *                       type: number
+ *                     transactions:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/WalletTransaction'
+ *       401:
+ *         description: Unauthorized
+ *       500:
+ *         description: Server error
+ */
+router.get("/:chatId", getWalletStatement);
+
+/**
+ * @swagger
+ * /admin/wallets/{chatId}/adjustments:
+ *   post:
+ *     summary: Adjust a wallet (Admin only)
+ *     description: Credit (positive amount) or debit (negative amount) a buyer's wallet. A debit can't take the balance below zero.
+ *     tags: [Wallets]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: chatId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - amount
+ *               - reason
+ *             properties:
+ *               amount:
+ *                 type: number
+ *                 description: Cedis; negative to take money out
+ *                 example: 50
+ *               reason:
+ *                 type: string
+ *                 example: Goodwill credit for the gate delay
+ *     responses:
+ *       201:
+ *         description: Adjustment posted
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   $ref: '#/components/schemas/WalletTransaction'
+ *       400:
+ *         description: Validation error or not enough in the wallet
+ *       401:
+ *         description: Unauthorized
+ *       404:
+ *         description: User not found
+ *       500:
+ *         description: Server error
+ */
+router.post("/:chatId/adjustments", createWalletAdjustment);
+
+export default router;
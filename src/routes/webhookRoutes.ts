@@ -0,0 +1,172 @@
+import { Router } from "express";
+import { authenticateAdmin } from "../middleware/auth.js";
+import {
+  getWebhookEvents,
+  getWebhookEvent,
+  replayWebhookEvent,
+} from "../controllers/webhookController.js";
+
+const router = Router();
+
+router.use(authenticateAdmin);
+
+/**
+ * @swagger
+ * components:
+ *   schemas:
+ *     WebhookEvent:
+ *       type: object
+ *       properties:
+ *         _id:
+ *           type: string
+ *         eventId:
+ *           type: string
+ *           description: Same for every redelivery of one event
+ *         provider:
+ *           type: string
+ *           enum: [paystack, fake]
+ *         event:
+ *           type: string
+ *           example: charge.failed
+ *         reference:
+ *           type: string
+ *           description: Payment reference (transfer reference for transfer events)
+ *         payload:
+ *           type: object
+ *           description: Body as the provider sent it. Only returned for a single event.
+ *         status:
+ *           type: string
+ *           enum: [received, processed, ignored, failed]
+ *           description: ignored means there is no handler for this event type
+ *         error:
+ *           type: string
+ *         deliveries:
+ *           type: number
+ *         replays:
+ *           type: number
+ *         receivedAt:
+ *           type: string
+ *           format: date-time
+ *         lastReceivedAt:
+ *           type: string
+ *           format: date-time
+ *         processedAt:
+ *           type: string
+ *           format: date-time
+ *         lastReplayedAt:
+ *           type: string
+ *           format: date-time
+ *         lastReplayedBy:
+ *           type: string
+ */
+
+/**
+ * @swagger
+ * /admin/webhooks:
+ *   get:
+ *     summary: Get logged payment webhooks (Admin only)
+ *     description: Every webhook received from a payment provider, newest first, without payloads
+ *     tags: [Webhooks]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: provider
+ *         schema:
+ *           type: string
+ *           enum: [paystack, fake]
+ *       - in: query
+ *         name: event
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [received, processed, ignored, failed]
+ *       - in: query
+ *         name: reference
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *           default: 1
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *     responses:
+ *       200:
+ *         description: Webhook events retrieved successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 status:
+ *                   type: string
+ *                 data:
+ *                   type: object
+ *                   properties:
+ *                     events:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/WebhookEvent'
+ *                     pagination:
+ *                       type: object
+ *       401:
+ *         description: Unauthorized
+ */
+router.get("/", getWebhookEvents);
+
+/**
+ * @swagger
+ * /admin/webhooks/{id}:
+ *   get:
+ *     summary: Get a logged webhook with its payload (Admin only)
+ *     tags: [Webhooks]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Webhook event retrieved successfully
+ *       404:
+ *         description: Webhook event not found
+ */
+router.get("/:id", getWebhookEvent);
+
+/**
+ * @swagger
+ * /admin/webhooks/{id}/replay:
+ *   post:
+ *     summary: Replay a logged webhook (Admin only)
+ *     description: Runs the event's handler again from its stored payload, whatever its status. Handlers are safe to repeat, so a payment already settled, refunded or resolved is not changed again.
+ *     tags: [Webhooks]
+ *     security:
+ *       - BearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Replay ran (check data.event.status)
+ *       400:
+ *         description: The event was logged without its payload
+ *       404:
+ *         description: Webhook event not found
+ */
+router.post("/:id/replay", replayWebhookEvent);
+
+export default router;
@@ -0,0 +1,11 @@
+import { checkoutRecovery } from "../services/checkoutRecovery.js";
+
+export async function nudgeAbandonedCheckouts(): Promise<void> {
+  console.log("[SCHEDULER] Nudging buyers with unpaid checkout links...");
+
+  const sent = await checkoutRecovery.nudgeAbandoned();
+
+  if (sent > 0) {
+    console.log(`[CHECKOUT] Sent ${sent} checkout nudge(s)`);
+  }
+}
@@ -1,87 +1,238 @@
 import type { Client } from "whatsapp-web.js";
-import { storage } from "../services/storage.js";
-import { backend } from "../services/backend.js";
+import { User } from "../models/User.js";
+import { SoldTicket } from "../models/SoldTicket.js";
+import {
+  InstallmentSchedule,
+  type IInstallmentSchedule,
+  type IScheduleTierPrice,
+} from "../models/InstallmentSchedule.js";
+import { wallet } from "../services/wallet.js";
+import { inventory } from "../services/inventory.js";
+import { ticketIssuer } from "../services/ticketIssuer.js";
+import { adminAlerts } from "../services/adminAlerts.js";
 import { calculateEligibleTier } from "../utils/tier.js";
-import { EVENT_CONFIG, TICKETS, SESSION_STATES } from "../config/constants.js";
+import { getActiveTickets, getTicketByType } from "../utils/ticketCatalog.js";
+import { getUpcomingEvents } from "../utils/eventCatalog.js";
+import { updateSession } from "../utils/session.js";
+import { env } from "../config/env.js";
+import { SESSION_STATES } from "../config/constants.js";
 import { logError } from "../errors/errorHandler.js";
 import {
   getDeadlineMissedWithDowngradeMessage,
   getDeadlineMissedFullRolloverMessage,
 } from "../messages/reminders.js";
 
-export async function checkDeadlines(client: Client): Promise<void> {
-  console.log("[SCHEDULER] Checking for missed deadlines...");
+/**
+ * What the event's tiers cost today. Plans started before prices were
+ * recorded at sign-up are settled on these.
+ */
+async function getCurrentPrices(
+  schedule: IInstallmentSchedule
+): Promise<IScheduleTierPrice[]> {
+  const tiers = await getActiveTickets(schedule.eventId);
+  return tiers.map((tier) => ({ ticketType: tier.type, price: tier.price }));
+}
 
+/**
+ * Close a schedule whose final deadline passed with a balance left, so no
+ * more payments are taken on it, and settle on the tier its payments cover
+ * at the prices the buyer signed up under. The ticket's unit moves to that
+ * tier, or back on sale if none. Returns null if the schedule was paid off
+ * or changed in the meantime.
+ */
+async function markDefaulted(
+  schedule: IInstallmentSchedule
+): Promise<IInstallmentSchedule | null> {
+  const tiers = schedule.tierPrices.length
+    ? schedule.tierPrices
+    : await getCurrentPrices(schedule);
+  const downgraded =
+    schedule.amountPaid > 0 ? calculateEligibleTier(schedule, tiers) : null;
   const now = new Date();
-  const deadline = EVENT_CONFIG.installmentDeadline;
 
-  // Only run on Dec 14 or after
-  if (now <= deadline) {
-    return;
+  const defaulted = await InstallmentSchedule.findOneAndUpdate(
+    { _id: schedule._id, status: "active", amountPaid: schedule.amountPaid },
+    {
+      $set: {
+        status: "defaulted",
+        defaultedAt: now,
+        ...(downgraded && {
+          downgradedTo: downgraded.ticketType,
+          downgradedPrice: downgraded.price,
+        }),
+        // Nothing paid: nothing to issue or credit
+        ...(schedule.amountPaid === 0 && { rolledOverAt: now }),
+      },
+    },
+    { new: true }
+  );
+  if (!defaulted || defaulted.amountPaid === 0) return defaulted;
+
+  // The first installment took a unit of the tier off sale
+  if (downgraded) {
+    await inventory.moveSold(
+      defaulted.ticketType,
+      downgraded.ticketType,
+      defaulted.eventId
+    );
+  } else {
+    await inventory.returnSold(defaulted.ticketType, 1, defaulted.eventId);
   }
+  return defaulted;
+}
 
-  const sessions = storage.getAll();
-
-  for (const [chatId, session] of sessions.entries()) {
-    // Skip if already has ticket or already processed
-    if (session.ticketId || session.walletBalance !== undefined) {
-      continue;
+/**
+ * Issue the ticket a defaulted schedule's payments cover, credit the rest
+ * to the buyer's wallet and tell them. Every step is keyed to the schedule,
+ * so a run that stopped part-way is finished by the next one.
+ */
+async function rollOver(
+  client: Client,
+  schedule: IInstallmentSchedule
+): Promise<void> {
+  const chatId = schedule.chatId;
+  const reference = `deadline:${schedule._id}`;
+  const user = await User.findOne({ chatId });
+
+  let ticketId: string | null = null;
+  let downgradedName: string | null = null;
+  let walletAmount = schedule.amountPaid;
+
+  if (schedule.downgradedTo) {
+    const ticket = await getTicketByType(
+      schedule.downgradedTo,
+      schedule.eventId
+    );
+    if (!ticket) {
+      throw new Error(`Ticket tier ${schedule.downgradedTo} not found`);
     }
+    // Schedules defaulted before the price was recorded use today's
+    const price = schedule.downgradedPrice ?? ticket.price;
+    downgradedName = ticket.name;
+    walletAmount -= price;
+
+    const soldTicket = await SoldTicket.findOneAndUpdate(
+      { paymentId: reference },
+      {
+        $setOnInsert: {
+          userId: schedule.userId || user?._id,
+          chatId,
+          paymentId: reference,
+          attendeeName: user?.name,
+          userEmail: user?.email,
+          ticketType: ticket.type,
+          eventId: ticket.eventId,
+          price,
+        },
+      },
+      { upsert: true, new: true }
+    );
+    ticketId = await ticketIssuer.issue(
+      soldTicket,
+      `the ${schedule.ticketType} deadline of ${chatId}`
+    );
+    // A failed delivery is alerted by the issuer and tried again on the
+    // next run; without a signing key an admin has to send the ticket
+    if (!ticketId && ticketIssuer.isEnabled()) {
+      throw new Error(`Ticket for ${reference} not delivered yet`);
+    }
+    if (!ticketId) {
+      await adminAlerts.raise({
+        type: "deadline.ticket_not_issued",
+        severity: "warning",
+        title: "Downgraded ticket needs sending",
+        message: `${chatId} missed the ${schedule.ticketType} installment deadline and qualifies for ${ticket.name}, but tickets can't be issued automatically`,
+        reference,
+        chatId,
+        data: {
+          scheduleId: schedule._id.toString(),
+          soldTicketId: soldTicket._id.toString(),
+        },
+      });
+    }
+  }
 
-    // Check if user has pending payments
-    if (
-      session.amountPaid &&
-      session.amountPaid > 0 &&
-      session.remainingBalance &&
-      session.remainingBalance > 0
-    ) {
-      const originalTicket = TICKETS[session.ticketType!];
-      const eligibleTier = calculateEligibleTier(
-        session.ticketType!,
-        session.amountPaid
-      );
-
-      try {
-        if (eligibleTier) {
-          // User qualifies for a downgraded tier
-          const downgradedTicket = TICKETS[eligibleTier];
-          const walletAmount = session.amountPaid - downgradedTicket.price;
-
-          session.walletBalance = walletAmount;
-
-          const msg = getDeadlineMissedWithDowngradeMessage(
-            session.amountPaid,
-            originalTicket.price,
-            downgradedTicket.name,
-            "PENDING_ADMIN_TICKET",
-            walletAmount
-          );
-
-          await client.sendMessage(chatId, msg);
-
-          session.state = SESSION_STATES.WALLET_TRANSFER;
-          storage.set(chatId, session);
-
-          console.log(`[DEADLINE] Downgraded ${chatId} to ${eligibleTier}`);
-        } else {
-          // Full rollover to wallet
-          session.walletBalance = session.amountPaid;
+  if (walletAmount > 0) {
+    await wallet.credit(chatId, walletAmount, {
+      description: downgradedName
+        ? `Left over after moving to ${downgradedName}`
+        : `Paid towards ${schedule.ticketType} before the deadline`,
+      reference,
+    });
+  }
 
-          const msg = getDeadlineMissedFullRolloverMessage(
-            session.amountPaid,
-            originalTicket.price
-          );
+  const finished = await InstallmentSchedule.updateOne(
+    { _id: schedule._id, rolledOverAt: { $exists: false } },
+    { $set: { rolledOverAt: new Date() } }
+  );
+  if (finished.modifiedCount === 0) return; // Finished by a concurrent run
+
+  await updateSession(chatId, {
+    remainingBalance: 0,
+    amountDue: 0,
+    ...(ticketId && { ticketId }),
+    ...(walletAmount > 0 && { state: SESSION_STATES.WALLET_TRANSFER }),
+  });
+
+  const events = await getUpcomingEvents();
+  const msg = downgradedName
+    ? getDeadlineMissedWithDowngradeMessage(
+        schedule.amountPaid,
+        schedule.totalAmount,
+        downgradedName,
+        ticketId,
+        walletAmount,
+        events,
+        env.foundationName
+      )
+    : getDeadlineMissedFullRolloverMessage(
+        schedule.amountPaid,
+        schedule.totalAmount,
+        events,
+        env.foundationName
+      );
+  await client.sendMessage(chatId, msg);
 
-          await client.sendMessage(chatId, msg);
+  console.log(
+    downgradedName
+      ? `[DEADLINE] Downgraded ${chatId} from ${schedule.ticketType} to ${schedule.downgradedTo}`
+      : `[DEADLINE] Full rollover for ${chatId}`
+  );
+}
 
-          session.state = SESSION_STATES.WALLET_TRANSFER;
-          storage.set(chatId, session);
+export async function checkDeadlines(client: Client): Promise<void> {
+  console.log("[SCHEDULER] Checking for missed deadlines...");
 
-          console.log(`[DEADLINE] Full rollover for ${chatId}`);
-        }
-      } catch (error) {
-        logError(error, `processing deadline for ${chatId}`);
+  const schedules = await InstallmentSchedule.find({
+    $or: [
+      { status: "active", finalDeadline: { $lt: new Date() } },
+      // Defaulted by a run that stopped before finishing
+      { status: "defaulted", rolledOverAt: { $exists: false } },
+    ],
+  });
+
+  for (const schedule of schedules) {
+    try {
+      const defaulted =
+        schedule.status === "active"
+          ? await markDefaulted(schedule)
+          : schedule;
+      if (!defaulted) continue;
+
+      if (defaulted.amountPaid === 0) {
+        await updateSession(defaulted.chatId, {
+          remainingBalance: 0,
+          amountDue: 0,
+        });
+        console.log(
+          `[DEADLINE] Closed unpaid schedule for ${defaulted.chatId}`
+        );
+        continue;
       }
+
+      await rollOver(client, defaulted);
+    } catch (error) {
+      logError(error, `processing deadline for ${schedule.chatId}`);
     }
   }
 }
@@ -0,0 +1,11 @@
+import { fulfilment } from "../services/fulfilment.js";
+
+export async function retryFulfilments(): Promise<void> {
+  console.log("[SCHEDULER] Retrying unfinished payment fulfilments...");
+
+  const fulfilled = await fulfilment.retryDue();
+
+  if (fulfilled > 0) {
+    console.log(`[FULFILMENT] Completed ${fulfilled} fulfilment(s) on retry`);
+  }
+}
@@ -3,6 +3,10 @@ import { env } from "../config/env.js";
 import { logError } from "../errors/errorHandler.js";
 import { checkReminders } from "./reminders.js";
 import { checkDeadlines } from "./deadlines.js";
+import { releaseExpiredReservations } from "./reservations.js";
+import { retryFulfilments } from "./fulfilments.js";
+import { reconcilePayments } from "./reconciliation.js";
+import { nudgeAbandonedCheckouts } from "./checkoutRecovery.js";
 
 export function initializeSchedulers(client: Client): void {
   console.log("⏰ Starting automated schedulers...\n");
@@ -25,6 +29,42 @@ export function initializeSchedulers(client: Client): void {
     }
   }, env.deadlineCheckInterval);
 
+  // Release expired checkout holds and send waitlist offers every 5 minutes (default)
+  setInterval(async () => {
+    try {
+      await releaseExpiredReservations();
+    } catch (error) {
+      logError(error, "reservation scheduler");
+    }
+  }, env.reservationCheckInterval);
+
+  // Resume paid orders whose fulfilment failed part-way
+  setInterval(async () => {
+    try {
+      await retryFulfilments();
+    } catch (error) {
+      logError(error, "fulfilment scheduler");
+    }
+  }, env.fulfilmentRetryMinutes * 60 * 1000);
+
+  // Check payments stuck in pending with Paystack every 15 minutes (default)
+  setInterval(async () => {
+    try {
+      await reconcilePayments();
+    } catch (error) {
+      logError(error, "reconciliation scheduler");
+    }
+  }, env.reconciliationCheckInterval);
+
+  // Nudge buyers who left a checkout link unpaid every 5 minutes (default)
+  setInterval(async () => {
+    try {
+      await nudgeAbandonedCheckouts();
+    } catch (error) {
+      logError(error, "checkout nudge scheduler");
+    }
+  }, env.checkoutNudgeCheckInterval);
+
   // Run initial checks after 5 seconds
   setTimeout(() => {
     console.log("🔄 Running initial scheduler checks...\n");
@@ -34,6 +74,18 @@ export function initializeSchedulers(client: Client): void {
     checkDeadlines(client).catch((err) =>
       logError(err, "initial deadline check")
     );
+    releaseExpiredReservations().catch((err) =>
+      logError(err, "initial reservation check")
+    );
+    retryFulfilments().catch((err) =>
+      logError(err, "initial fulfilment check")
+    );
+    reconcilePayments().catch((err) =>
+      logError(err, "initial reconciliation check")
+    );
+    nudgeAbandonedCheckouts().catch((err) =>
+      logError(err, "initial checkout nudge check")
+    );
   }, 5000);
 
   console.log("✅ Schedulers initialized successfully!");
@@ -43,6 +95,26 @@ export function initializeSchedulers(client: Client): void {
   console.log(
     `   - Deadlines: Every ${
       env.deadlineCheckInterval / 1000 / 60 / 60
-    } hours\n`
+    } hours`
+  );
+  console.log(
+    `   - Checkout holds: Every ${
+      env.reservationCheckInterval / 1000 / 60
+    } minutes (TTL ${env.reservationTtlMinutes} minutes)`
+  );
+  console.log(
+    `   - Fulfilment retries: Every ${env.fulfilmentRetryMinutes} minutes`
+  );
+  console.log(
+    `   - Payment reconciliation: Every ${
+      env.reconciliationCheckInterval / 1000 / 60
+    } minutes (pending over ${env.reconcileAfterMinutes} minutes)`
+  );
+  console.log(
+    `   - Checkout nudges: Every ${
+      env.checkoutNudgeCheckInterval / 1000 / 60
+    } minutes (unpaid for ${env.checkoutNudgeDelayMinutes} minutes, at most ${
+      env.checkoutNudgeMaxAttempts
+    } per checkout)\n`
   );
 }
@@ -0,0 +1,13 @@
+import { reconciliation } from "../services/reconciliation.js";
+
+export async function reconcilePayments(): Promise<void> {
+  console.log("[SCHEDULER] Reconciling pending payments with Paystack...");
+
+  const run = await reconciliation.start("scheduled");
+  if (!run) {
+    console.log("[RECONCILIATION] A run is already in progress; skipping");
+    return;
+  }
+
+  await run.done;
+}
@@ -1,80 +1,57 @@
 import type { Client } from "whatsapp-web.js";
 import { User } from "../models/User.js";
+import {
+  InstallmentSchedule,
+  type IInstallmentSchedule,
+} from "../models/InstallmentSchedule.js";
 import { ReminderTemplate } from "../models/ReminderTemplate.js";
 import { ReminderLog } from "../models/ReminderLog.js";
-import { backend } from "../services/backend.js";
-import { daysUntil } from "../utils/date.js";
+import { paymentLinks } from "../services/paymentLinks.js";
+import { installments } from "../services/installments.js";
+import { daysUntil, formatDate } from "../utils/date.js";
+import { replaceTemplateVariables } from "../utils/reminderTemplate.js";
 import { logError } from "../errors/errorHandler.js";
+import { getTicketMap } from "../utils/ticketCatalog.js";
 import {
   get5DayReminderMessage,
   get1DayReminderMessage,
 } from "../messages/reminders.js";
-import type { UserSession } from "../types/session.js";
-
-/**
- * Replace template variables with actual values
- */
-function replaceTemplateVariables(
-  template: string,
-  variables: {
-    amount?: number;
-    daysLeft?: number;
-    paymentLink?: string;
-    dueDate?: string;
-    userName?: string;
-    ticketType?: string;
-  }
-): string {
-  let message = template;
-  if (variables.amount !== undefined) {
-    message = message.replace(/\{\{amount\}\}/g, variables.amount.toFixed(2));
-  }
-  if (variables.daysLeft !== undefined) {
-    message = message.replace(
-      /\{\{daysLeft\}\}/g,
-      variables.daysLeft.toString()
-    );
-  }
-  if (variables.paymentLink) {
-    message = message.replace(/\{\{paymentLink\}\}/g, variables.paymentLink);
-  }
-  if (variables.dueDate) {
-    message = message.replace(/\{\{dueDate\}\}/g, variables.dueDate);
-  }
-  if (variables.userName) {
-    message = message.replace(/\{\{userName\}\}/g, variables.userName);
-  }
-  if (variables.ticketType) {
-    message = message.replace(/\{\{ticketType\}\}/g, variables.ticketType);
-  }
-  return message;
+
+// Record a reminder as sent for one installment, so it isn't sent again
+async function markReminderSent(
+  schedule: IInstallmentSchedule,
+  installmentNumber: number,
+  reminderKey: string
+): Promise<void> {
+  await InstallmentSchedule.updateOne(
+    { _id: schedule._id, "installments.number": installmentNumber },
+    { $addToSet: { "installments.$.remindersSent": reminderKey } }
+  );
 }
 
 export async function checkReminders(client: Client): Promise<void> {
   console.log("[SCHEDULER] Checking for payment reminders...");
 
-  const users = await User.find({});
-
-  for (const user of users) {
-    const chatId = user.chatId;
-    const session = user.session as UserSession;
-
-    // Skip if no pending payments or already has ticket
-    if (
-      !session.nextDueDateISO ||
-      session.ticketId ||
-      !session.remainingBalance ||
-      session.remainingBalance <= 0
-    ) {
-      continue;
-    }
-
-    const daysLeft = daysUntil(session.nextDueDateISO);
-
-    // Initialize reminders object if not exists
-    if (!session.reminders) {
-      session.reminders = {};
-    }
+  const schedules = await InstallmentSchedule.find({ status: "active" });
+  const ticketMap = await getTicketMap();
+
+  for (const schedule of schedules) {
+    const chatId = schedule.chatId;
+    const next = installments.nextInstallment(schedule);
+    if (!next) continue;
+
+    const user = await User.findOne({ chatId });
+    const userName = user?.name || chatId;
+    const amount = installments.amountDue(schedule);
+    const daysLeft = daysUntil(next.dueDate.toISOString());
+    const dueDate = formatDate(next.dueDate);
+    const sent = new Set(next.remindersSent);
+    const purpose = {
+      ticketType: schedule.ticketType,
+      eventId: schedule.eventId?.toString(),
+      paymentType: "installment" as const,
+      installmentNumber: next.number,
+    };
 
     try {
       // Get active reminder templates for payment_due type
@@ -86,33 +63,32 @@ export async function checkReminders(client: Client): Promise<void> {
       // Try to use templates from database, fallback to hardcoded messages
       let reminderSent = false;
 
+      // Templates tied to an event only apply to that event's buyers
+      const userEventId = ticketMap.get(schedule.ticketType)?.eventId;
+
       for (const template of templates) {
         if (!template.triggerDays) continue;
+        if (template.eventId && !template.eventId.equals(userEventId)) {
+          continue;
+        }
 
         const reminderKey = `${template.triggerDays}DaySent`;
-        const alreadySent =
-          session.reminders?.[reminderKey as keyof typeof session.reminders];
 
-        if (daysLeft === template.triggerDays && !alreadySent) {
+        if (daysLeft === template.triggerDays && !sent.has(reminderKey)) {
           try {
-            const { paymentLink } = await backend.generatePaymentLink(
-              session.remainingBalance,
+            const { paymentLink } = await paymentLinks.get(
+              amount,
               chatId,
-              chatId,
-              {
-                ticketType: session.ticketType!,
-                paymentType: "installment",
-                installmentNumber: session.installmentNumber || 1,
-              }
+              purpose
             );
 
             const variables = {
-              amount: session.remainingBalance,
+              amount,
               daysLeft,
               paymentLink,
-              dueDate: session.nextDueDate || "",
-              userName: user.name,
-              ticketType: session.ticketType || "",
+              dueDate,
+              userName,
+              ticketType: schedule.ticketType,
             };
 
             const msg = replaceTemplateVariables(
@@ -126,7 +102,7 @@ export async function checkReminders(client: Client): Promise<void> {
               templateId: template._id,
               templateName: template.name,
               chatId,
-              userName: user.name,
+              userName,
               message: msg,
               status: "sent",
               triggerType: "automatic",
@@ -134,13 +110,7 @@ export async function checkReminders(client: Client): Promise<void> {
             });
 
             // Mark as sent
-            if (!session.reminders) {
-              session.reminders = {};
-            }
-            (session.reminders as any)[reminderKey] = true;
-            user.session = session;
-            user.markModified("session");
-            await user.save();
+            await markReminderSent(schedule, next.number, reminderKey);
 
             console.log(
               `[REMINDER] ${template.triggerDays}-day reminder sent to ${chatId} (template: ${template.name})`
@@ -156,7 +126,7 @@ export async function checkReminders(client: Client): Promise<void> {
               templateId: template._id,
               templateName: template.name,
               chatId,
-              userName: user.name,
+              userName,
               message: "",
               status: "failed",
               errorMessage:
@@ -171,77 +141,53 @@ export async function checkReminders(client: Client): Promise<void> {
       // Fallback to hardcoded messages if no templates found
       if (!reminderSent) {
         // 5-day reminder (fallback)
-        if (daysLeft <= 5 && daysLeft > 1 && !session.reminders.fiveDaySent) {
-          const { paymentLink } = await backend.generatePaymentLink(
-            session.remainingBalance,
-            chatId,
+        if (daysLeft <= 5 && daysLeft > 1 && !sent.has("fiveDaySent")) {
+          const { paymentLink } = await paymentLinks.get(
+            amount,
             chatId,
-            {
-              ticketType: session.ticketType!,
-              paymentType: "installment",
-              installmentNumber: session.installmentNumber || 1,
-            }
+            purpose
           );
 
-          const msg = get5DayReminderMessage(
-            session.remainingBalance,
-            daysLeft,
-            paymentLink
-          );
+          const msg = get5DayReminderMessage(amount, daysLeft, paymentLink);
 
           await client.sendMessage(chatId, msg);
 
           await ReminderLog.create({
             chatId,
-            userName: user.name,
+            userName,
             message: msg,
             status: "sent",
             triggerType: "automatic",
             triggerDays: 5,
           });
 
-          session.reminders.fiveDaySent = true;
-          user.session = session;
-          user.markModified("session");
-          await user.save();
+          await markReminderSent(schedule, next.number, "fiveDaySent");
 
           console.log(`[REMINDER] 5-day reminder sent to ${chatId} (fallback)`);
         }
 
         // 1-day reminder (fallback)
-        if (daysLeft === 1 && !session.reminders.oneDaySent) {
-          const { paymentLink } = await backend.generatePaymentLink(
-            session.remainingBalance,
+        if (daysLeft === 1 && !sent.has("oneDaySent")) {
+          const { paymentLink } = await paymentLinks.get(
+            amount,
             chatId,
-            chatId,
-            {
-              ticketType: session.ticketType!,
-              paymentType: "installment",
-              installmentNumber: session.installmentNumber || 1,
-            }
+            purpose
           );
 
-          const msg = get1DayReminderMessage(
-            session.remainingBalance,
-            paymentLink,
-            session.nextDueDate!
-          );
+          const msg = get1DayReminderMessage(amount, paymentLink, dueDate);
 
           await client.sendMessage(chatId, msg);
 
           await ReminderLog.create({
             chatId,
-            userName: user.name,
+            userName,
             message: msg,
             status: "sent",
             triggerType: "automatic",
             triggerDays: 1,
           });
 
-          session.reminders.oneDaySent = true;
-          user.session = session;
-          user.markModified("session");
-          await user.save();
+          await markReminderSent(schedule, next.number, "oneDaySent");
 
           console.log(`[REMINDER] 1-day reminder sent to ${chatId} (fallback)`);
         }
@@ -0,0 +1,35 @@
+import { inventory } from "../services/inventory.js";
+import { waitlist } from "../services/waitlist.js";
+import { ticketTransfer } from "../services/ticketTransfer.js";
+import { vouchers } from "../services/vouchers.js";
+
+export async function releaseExpiredReservations(): Promise<void> {
+  console.log("[SCHEDULER] Releasing expired checkout holds...");
+
+  const released = await inventory.releaseExpired();
+
+  if (released > 0) {
+    console.log(`[RESERVATIONS] Released ${released} expired hold(s)`);
+  }
+
+  // Event credit held by checkouts that lapsed unpaid
+  const releasedCredit = await vouchers.releaseLapsed();
+
+  if (releasedCredit > 0) {
+    console.log(`[VOUCHERS] Released credit from ${releasedCredit} checkout(s)`);
+  }
+
+  // Hand freed stock to anyone waiting for it
+  const offered = await waitlist.processAll();
+
+  if (offered > 0) {
+    console.log(`[WAITLIST] Sent ${offered} waitlist offer(s)`);
+  }
+
+  // Ticket transfers nobody accepted in time
+  const expiredTransfers = await ticketTransfer.expireStale();
+
+  if (expiredTransfers > 0) {
+    console.log(`[TRANSFERS] Expired ${expiredTransfers} transfer request(s)`);
+  }
+}
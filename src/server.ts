@@ -10,6 +10,17 @@ import paymentDashboardRoutes from "./routes/paymentDashboardRoutes.js";
 import dashboardRoutes from "./routes/dashboardRoutes.js";
 import reminderRoutes from "./routes/reminderRoutes.js";
 import couponRoutes from "./routes/couponRoutes.js";
+import waitlistRoutes from "./routes/waitlistRoutes.js";
+import transferRoutes from "./routes/transferRoutes.js";
+import fulfilmentRoutes from "./routes/fulfilmentRoutes.js";
+import eventRoutes from "./routes/eventRoutes.js";
+import checkInRoutes from "./routes/checkInRoutes.js";
+import fakeCheckoutRoutes from "./routes/fakeCheckoutRoutes.js";
+import adminAlertRoutes from "./routes/adminAlertRoutes.js";
+import webhookRoutes from "./routes/webhookRoutes.js";
+import installmentRoutes from "./routes/installmentRoutes.js";
+import walletRoutes from "./routes/walletRoutes.js";
+import { env } from "./config/env.js";
 import cors from "cors";
 import path from "path";
 
@@ -91,10 +102,46 @@ const swaggerOptions = {
         name: "Payments",
         description: "Payment dashboard and statistics endpoints",
       },
+      {
+        name: "Events",
+        description: "Events and their ticket sales",
+      },
       {
         name: "Coupons",
         description: "Coupon and discount management",
       },
+      {
+        name: "Waitlist",
+        description: "Waitlist queues for sold-out tickets",
+      },
+      {
+        name: "Transfers",
+        description: "Ticket transfers between WhatsApp users",
+      },
+      {
+        name: "Fulfilments",
+        description: "Delivery of what was bought after a successful payment",
+      },
+      {
+        name: "Check-in",
+        description: "Gate check-in for scanner accounts",
+      },
+      {
+        name: "Alerts",
+        description: "Disputes, failed refunds and other things an admin must see",
+      },
+      {
+        name: "Webhooks",
+        description: "Log of payment provider webhooks, with replay",
+      },
+      {
+        name: "Installments",
+        description: "Buyers' installment schedules and the payments applied to them",
+      },
+      {
+        name: "Wallets",
+        description: "Buyers' wallets, event credit vouchers and donations",
+      },
       {
         name: "Static Files",
         description: "Access uploaded images and assets",
@@ -155,12 +202,24 @@ app.use("/broadcast", broadcastRoutes); // POST /broadcast (backward compatibili
 app.use("/broadcasts", broadcastRoutes); // All broadcast routes
 app.use("/users", userRoutes);
 app.use("/api/payments", paymentRoutes); // Payment webhook and callback routes
+if (!env.isProduction) {
+  app.use("/api/payments/fake", fakeCheckoutRoutes); // Fake provider checkout for local testing
+}
 app.use("/admin", adminRoutes); // Admin routes (requires authentication)
+app.use("/admin/events", eventRoutes); // Event management routes (requires authentication)
 app.use("/admin/tickets", ticketRoutes); // Ticket management routes (requires authentication)
 app.use("/admin/payments", paymentDashboardRoutes); // Payment dashboard routes (requires authentication)
 app.use("/admin/dashboard", dashboardRoutes); // Dashboard overview routes (requires authentication) - NEW API
 app.use("/admin/reminders", reminderRoutes); // Reminder management routes (requires authentication)
 app.use("/admin/coupons", couponRoutes); // Coupon management routes (requires authentication)
+app.use("/admin/waitlist", waitlistRoutes); // Waitlist management routes (requires authentication)
+app.use("/admin/transfers", transferRoutes); // Ticket transfer log (requires authentication)
+app.use("/admin/fulfilments", fulfilmentRoutes); // Payment fulfilment status and retries (requires authentication)
+app.use("/admin/alerts", adminAlertRoutes); // Alerts for admins (requires authentication)
+app.use("/admin/webhooks", webhookRoutes); // Payment webhook log and replays (requires authentication)
+app.use("/admin/installments", installmentRoutes); // Installment schedules and ledgers (requires authentication)
+app.use("/admin/wallets", walletRoutes); // Wallets, event credit and donations (requires authentication)
+app.use("/check-in", checkInRoutes); // Gate check-in routes (scanner accounts; outside /admin so scanners aren't blocked)
 
 export const startServer = (port: number = 3000) => {
   console.log(`[DEBUG] Starting Express server on port ${port}...`);
@@ -0,0 +1,50 @@
+import { AdminAlert, type IAdminAlert } from "../models/AdminAlert.js";
+
+export interface AlertInput {
+  type: string;
+  severity?: IAdminAlert["severity"];
+  title: string;
+  message: string;
+  reference?: string;
+  chatId?: string;
+  data?: Record<string, any>;
+}
+
+// Things an admin needs to look at, shown on the dashboard until acknowledged
+export const adminAlerts = {
+  /**
+   * Record an alert. Never throws: a failed alert must not fail the work
+   * that raised it.
+   */
+  async raise(input: AlertInput): Promise<IAdminAlert | null> {
+    const log = input.severity === "info" ? console.log : console.warn;
+    log(`[ALERT] ${input.title}: ${input.message}`);
+
+    try {
+      return await AdminAlert.create(input);
+    } catch (error) {
+      console.error("[ALERT] Failed to record alert:", error);
+      return null;
+    }
+  },
+
+  /**
+   * Mark an alert as dealt with. Returns null if it doesn't exist.
+   */
+  async acknowledge(
+    alertId: string,
+    adminId?: string
+  ): Promise<IAdminAlert | null> {
+    return AdminAlert.findByIdAndUpdate(
+      alertId,
+      {
+        $set: {
+          acknowledgedAt: new Date(),
+          acknowledgedBy: adminId,
+          updatedAt: new Date(),
+        },
+      },
+      { new: true }
+    );
+  },
+};
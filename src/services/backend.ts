@@ -1,27 +1,35 @@
 import { BackendError } from "../errors/AppError.js";
-import { paystackService } from "./paystack.js";
+import { paymentProviders } from "./paymentProvider.js";
 import { Payment } from "../models/Payment.js";
 import { User } from "../models/User.js";
 import { client } from "../config/client.js";
+import { env } from "../config/env.js";
+import { money } from "../utils/money.js";
 import QRCode from "qrcode";
 import type { Message } from "whatsapp-web.js";
 
-// Backend functions with Paystack integration
+// Backend functions with payment provider integration
 export const backend = {
   /**
-   * Generate payment link using Paystack
+   * Generate a payment link with the ticket tier's payment provider for an
+   * amount in pesewas
    */
   async generatePaymentLink(
     amount: number,
     userId: string,
     chatId: string,
     metadata?: {
-      ticketType?: "GA" | "VIP";
+      ticketType?: string;
+      eventId?: string; // Event the ticket type is sold for
       paymentType?: "full" | "installment";
       installmentNumber?: number;
       coupon?: string;
+      quantity?: number;
+      orderId?: string;
+      reservationId?: string;
+      checkoutReference?: string; // First link of a checkout nudged with fresh links
     }
-  ): Promise<{ paymentLink: string; reference: string }> {
+  ): Promise<{ paymentLink: string; reference: string; expiresAt: Date }> {
     try {
       // Get user email or use a sensible fallback
       const user = await User.findOne({ chatId });
@@ -49,20 +57,32 @@ export const backend = {
           ? `${user.phoneNumber.split("@")[0]}@afrofuture.local`
           : `${user?.name || chatId}@afrofuture.com`);
 
-      // Initialize payment with Paystack
+      // Initialize payment with the tier's provider
+      const provider = await paymentProviders.forTicketType(
+        metadata?.ticketType,
+        metadata?.eventId
+      );
+      const charge = money(amount);
       const { authorizationUrl, accessCode, reference } =
-        await paystackService.initializePayment(amount, email, metadata);
+        await provider.initializePayment(charge, email, metadata);
 
       // Save payment record
+      const expiresAt = new Date(
+        Date.now() + env.paymentLinkTtlHours * 3600000
+      );
       const payment = new Payment({
         userId,
         chatId,
-        amount,
-        currency: "GHS",
+        amount: charge.amount,
+        currency: charge.currency,
+        provider: provider.name,
         paystackReference: reference,
         paystackAccessCode: accessCode,
+        paymentLink: authorizationUrl,
+        expiresAt,
         status: "pending",
         ticketType: metadata?.ticketType,
+        eventId: metadata?.eventId,
         paymentType: metadata?.paymentType,
         installmentNumber: metadata?.installmentNumber,
         coupon: metadata?.coupon,
@@ -76,6 +96,7 @@ export const backend = {
           chatId,
           userId,
           amount,
+          provider: provider.name,
           reference,
           email,
           metadata,
@@ -85,6 +106,7 @@ export const backend = {
       return {
         paymentLink: authorizationUrl,
         reference,
+        expiresAt,
       };
     } catch (error) {
       console.error("Payment link generation error:", error);
@@ -111,16 +133,18 @@ export const backend = {
   },
 
   /**
-   * Generate and send QR code
+   * Generate and send QR code. The QR encodes `qrPayload` (e.g. a signed
+   * ticket string) when given, otherwise the bare ticket ID.
    */
   async sendQRCode(
     messageOrClient: Message | typeof client,
     chatId: string,
-    ticketId: string
+    ticketId: string,
+    qrPayload: string = ticketId
   ): Promise<void> {
     try {
       // Generate QR code as data URL
-      const qrCodeDataUrl = await QRCode.toDataURL(ticketId, {
+      const qrCodeDataUrl = await QRCode.toDataURL(qrPayload, {
         errorCorrectionLevel: "H",
         type: "image/png",
         width: 300,
@@ -166,7 +190,7 @@ export const backend = {
   },
 
   /**
-   * Verify payment with Paystack
+   * Verify payment with the provider that took it
    */
   async verifyPayment(reference: string): Promise<{
     success: boolean;
@@ -176,14 +200,16 @@ export const backend = {
     try {
       console.log("[BACKEND] Verifying payment", { reference });
 
-      const verification = await paystackService.verifyPayment(reference);
+      const payment = await Payment.findOne({ paystackReference: reference });
+      console.log("[BACKEND] Matched payment record", payment);
+
+      const verification = await paymentProviders
+        .get(payment?.provider)
+        .verifyPayment(reference);
 
       console.log("[BACKEND] Verification result", verification);
 
       // Update payment record
-      const payment = await Payment.findOne({ paystackReference: reference });
-      console.log("[BACKEND] Matched payment record", payment);
-
       if (payment) {
         payment.status =
           verification.status === "success" ? "success" : "failed";
@@ -210,25 +236,4 @@ export const backend = {
       );
     }
   },
-
-  /**
-   * Process wallet transfer
-   */
-  async processWalletTransfer(
-    userId: string,
-    amount: number,
-    destination: string
-  ): Promise<void> {
-    try {
-      // In production, call backend API to process transfer
-      console.log(
-        `Processing wallet transfer: ${amount} to ${destination} for ${userId}`
-      );
-      // TODO: Implement actual wallet transfer logic
-    } catch (error) {
-      throw new BackendError(
-        "Failed to process wallet transfer. Please try again."
-      );
-    }
-  },
 };
@@ -0,0 +1,397 @@
+import mongoose from "mongoose";
+import { CheckIn, type ICheckIn } from "../models/CheckIn.js";
+import { SoldTicket } from "../models/SoldTicket.js";
+import {
+  verifyTicketPayload,
+  signRoster,
+  hashTicketPayload,
+} from "../utils/ticketSignature.js";
+import { getTicketMap, getTicketByType } from "../utils/ticketCatalog.js";
+import {
+  eventRecordsFilter,
+  getEventTicketTypes,
+} from "../utils/eventCatalog.js";
+
+export interface ScannedTicket {
+  ticketId: string;
+  ticketType: string;
+  tierName: string;
+  holderName: string | null;
+}
+
+export type ScanOutcome =
+  | { result: "admitted"; ticket: ScannedTicket; checkIn: ICheckIn }
+  | { result: "duplicate"; ticket: ScannedTicket; firstScan: ICheckIn }
+  | { result: "invalid"; reason: string };
+
+export interface OfflineScan {
+  scanId: string;
+  payload: string;
+  gate: string;
+  scannedAt: Date;
+  admitted: boolean; // Whether the device let the holder in
+}
+
+export interface SyncItemResult {
+  scanId: string;
+  result: "admitted" | "duplicate" | "conflict" | "already_synced" | "invalid";
+  ticketId?: string;
+  reason?: string;
+  firstScan?: { gate: string; scannedAt: Date };
+}
+
+/**
+ * Check a QR payload's signature and match it to the sold ticket it names.
+ * A ticket for another event than the gate's is turned away.
+ */
+async function resolveTicket(
+  payload: string,
+  eventId: mongoose.Types.ObjectId
+): Promise<
+  | { soldTicketId: mongoose.Types.ObjectId; ticket: ScannedTicket }
+  | { reason: string }
+> {
+  const claims = verifyTicketPayload(payload);
+  if (!claims) {
+    return { reason: "Invalid or tampered QR code" };
+  }
+
+  const soldTicket = await SoldTicket.findOne({
+    ticketId: claims.ticketId,
+  }).populate<{ userId: { name?: string } | null }>("userId", "name");
+  if (!soldTicket || soldTicket.ticketType !== claims.ticketType) {
+    return { reason: "Ticket not found" };
+  }
+
+  if (soldTicket.revokedAt) {
+    return { reason: "This ticket has been cancelled" };
+  }
+
+  // A reissued ticket gets a new payload; the old QR stops working
+  if (soldTicket.qrPayload !== payload.trim()) {
+    return { reason: "This QR code is no longer valid for this ticket" };
+  }
+
+  // Tickets sold before they recorded their event go by their tier's event
+  const tier = await getTicketByType(
+    soldTicket.ticketType,
+    soldTicket.eventId ?? eventId
+  );
+  const forGate = soldTicket.eventId
+    ? soldTicket.eventId.equals(eventId)
+    : !!tier;
+  if (!forGate) {
+    return { reason: "This ticket is for a different event" };
+  }
+
+  return {
+    soldTicketId: soldTicket._id as mongoose.Types.ObjectId,
+    ticket: {
+      ticketId: claims.ticketId,
+      ticketType: soldTicket.ticketType,
+      tierName: tier?.name || soldTicket.ticketType,
+      holderName: soldTicket.attendeeName || soldTicket.userId?.name || null,
+    },
+  };
+}
+
+function alreadySynced(scanId: string, existing: ICheckIn): SyncItemResult {
+  return {
+    scanId,
+    result: "already_synced",
+    ticketId: existing.ticketId,
+  };
+}
+
+// Gate check-in
+export const checkIn = {
+  /**
+   * Verify a scanned QR payload and admit the ticket if it is for the
+   * gate's event. The unique index on admitted check-ins means only the
+   * first scan of a ticket can win, even across gates scanning at the same
+   * moment.
+   */
+  async scan(
+    payload: string,
+    gate: string,
+    eventId: mongoose.Types.ObjectId,
+    scanner?: { id?: string; email?: string },
+    scannedAt: Date = new Date()
+  ): Promise<ScanOutcome> {
+    const resolved = await resolveTicket(payload, eventId);
+    if ("reason" in resolved) {
+      return { result: "invalid", reason: resolved.reason };
+    }
+
+    const { soldTicketId, ticket } = resolved;
+    const record = {
+      soldTicketId,
+      ticketId: ticket.ticketId,
+      ticketType: ticket.ticketType,
+      eventId,
+      gate,
+      scannedAt,
+      scannedBy: scanner?.id,
+      scannedByEmail: scanner?.email,
+    };
+
+    try {
+      const admitted = await CheckIn.create({ ...record, result: "admitted" });
+      console.log(`[CHECK-IN] Admitted ${ticket.ticketId} at ${gate}`);
+      return { result: "admitted", ticket, checkIn: admitted };
+    } catch (error: any) {
+      if (error.code !== 11000) throw error;
+    }
+
+    const firstScan = (await CheckIn.findOne({
+      soldTicketId,
+      result: "admitted",
+    }))!;
+    await CheckIn.create({ ...record, result: "duplicate" });
+    console.warn(
+      `[CHECK-IN] Duplicate scan of ${ticket.ticketId} at ${gate} (first at ${firstScan.gate})`
+    );
+
+    return { result: "duplicate", ticket, firstScan };
+  },
+
+  /**
+   * Snapshot of every ticket issued for an event, for gate devices to check
+   * against while offline. Devices get a hash of each QR payload rather
+   * than the payload itself, and the snapshot is signed so it can't be
+   * edited on the device.
+   */
+  async getRoster(eventId: mongoose.Types.ObjectId) {
+    const scope = eventRecordsFilter(
+      eventId,
+      await getEventTicketTypes(eventId)
+    );
+    const [soldTickets, admitted, ticketMap] = await Promise.all([
+      SoldTicket.find({
+        ...scope,
+        qrPayload: { $exists: true, $ne: null },
+        revokedAt: null,
+      })
+        .select("ticketId ticketType qrPayload attendeeName userId")
+        .populate<{ userId: { name?: string } | null }>("userId", "name")
+        .lean(),
+      CheckIn.find({ result: "admitted" }).select("soldTicketId").lean(),
+      getTicketMap(eventId),
+    ]);
+
+    const checkedIn = new Set(
+      admitted.map((row) => row.soldTicketId.toString())
+    );
+
+    const roster = {
+      eventId: eventId.toString(),
+      generatedAt: new Date().toISOString(),
+      count: soldTickets.length,
+      tickets: soldTickets.map((soldTicket) => ({
+        ticketId: soldTicket.ticketId!,
+        ticketType: soldTicket.ticketType,
+        tierName:
+          ticketMap.get(soldTicket.ticketType)?.name || soldTicket.ticketType,
+        holderName: soldTicket.attendeeName || soldTicket.userId?.name || null,
+        payloadHash: hashTicketPayload(soldTicket.qrPayload!),
+        checkedIn: checkedIn.has(soldTicket._id.toString()),
+      })),
+    };
+
+    return { roster, signature: signRoster(JSON.stringify(roster)) };
+  },
+
+  /**
+   * Merge scans a gate device recorded while offline at an event. Each
+   * scan is keyed by (deviceId, scanId), so uploading the same batch again
+   * changes nothing. The first admission to reach the server stays the
+   * admission of record; if the device also let the holder in, the later
+   * scan is flagged as a conflict for the admin report.
+   */
+  async sync(
+    deviceId: string,
+    scans: OfflineScan[],
+    eventId: mongoose.Types.ObjectId,
+    scanner?: { id?: string; email?: string }
+  ): Promise<SyncItemResult[]> {
+    const results: SyncItemResult[] = [];
+
+    for (const scan of scans) {
+      const existing = await CheckIn.findOne({ deviceId, scanId: scan.scanId });
+      if (existing) {
+        results.push(alreadySynced(scan.scanId, existing));
+        continue;
+      }
+
+      const resolved = await resolveTicket(scan.payload, eventId);
+      if ("reason" in resolved) {
+        results.push({
+          scanId: scan.scanId,
+          result: "invalid",
+          reason: resolved.reason,
+        });
+        continue;
+      }
+
+      const { soldTicketId, ticket } = resolved;
+      const record = {
+        soldTicketId,
+        ticketId: ticket.ticketId,
+        ticketType: ticket.ticketType,
+        eventId,
+        gate: scan.gate,
+        scannedAt: scan.scannedAt,
+        scannedBy: scanner?.id,
+        scannedByEmail: scanner?.email,
+        source: "offline" as const,
+        deviceId,
+        scanId: scan.scanId,
+        syncedAt: new Date(),
+      };
+
+      try {
+        await CheckIn.create({ ...record, result: "admitted" });
+        results.push({
+          scanId: scan.scanId,
+          result: "admitted",
+          ticketId: ticket.ticketId,
+        });
+        continue;
+      } catch (error: any) {
+        if (error.code !== 11000) throw error;
+        // Same scan uploaded twice at once
+        if (error.keyPattern?.scanId) {
+          const raced = await CheckIn.findOne({ deviceId, scanId: scan.scanId });
+          results.push(alreadySynced(scan.scanId, raced!));
+          continue;
+        }
+      }
+
+      const firstScan = (await CheckIn.findOne({
+        soldTicketId,
+        result: "admitted",
+      }))!;
+      const conflict = scan.admitted;
+
+      try {
+        await CheckIn.create({
+          ...record,
+          result: "duplicate",
+          conflict,
+          conflictWith: conflict ? firstScan._id : undefined,
+        });
+      } catch (error: any) {
+        if (error.code !== 11000) throw error;
+        const raced = await CheckIn.findOne({ deviceId, scanId: scan.scanId });
+        results.push(alreadySynced(scan.scanId, raced!));
+        continue;
+      }
+
+      if (conflict) {
+        console.warn(
+          `[CHECK-IN] Conflict: ${ticket.ticketId} admitted offline at ${scan.gate} (${deviceId}) and at ${firstScan.gate}`
+        );
+      }
+
+      results.push({
+        scanId: scan.scanId,
+        result: conflict ? "conflict" : "duplicate",
+        ticketId: ticket.ticketId,
+        firstScan: { gate: firstScan.gate, scannedAt: firstScan.scannedAt },
+      });
+    }
+
+    return results;
+  },
+
+  /**
+   * Tickets that were let in more than once because gates were offline
+   */
+  async getConflicts() {
+    const conflicts = await CheckIn.find({ conflict: true })
+      .sort({ scannedAt: -1 })
+      .populate<{ conflictWith: ICheckIn | null }>(
+        "conflictWith",
+        "gate scannedAt source deviceId scannedByEmail"
+      )
+      .lean();
+
+    return conflicts.map((row) => ({
+      id: row._id,
+      ticketId: row.ticketId,
+      ticketType: row.ticketType,
+      gate: row.gate,
+      deviceId: row.deviceId || null,
+      scannedAt: row.scannedAt,
+      scannedByEmail: row.scannedByEmail || null,
+      syncedAt: row.syncedAt || null,
+      firstAdmission: row.conflictWith
+        ? {
+            gate: row.conflictWith.gate,
+            scannedAt: row.conflictWith.scannedAt,
+            source: row.conflictWith.source,
+            deviceId: row.conflictWith.deviceId || null,
+            scannedByEmail: row.conflictWith.scannedByEmail || null,
+          }
+        : null,
+    }));
+  },
+
+  /**
+   * Tickets issued vs. people admitted, per tier. Pass an event to limit it
+   * to that event's tickets.
+   */
+  async getAttendance(eventId?: mongoose.Types.ObjectId) {
+    const scope = eventId
+      ? eventRecordsFilter(eventId, await getEventTicketTypes(eventId))
+      : {};
+    const [sold, admitted, ticketMap] = await Promise.all([
+      SoldTicket.aggregate<{ _id: string; count: number }>([
+        { $match: scope },
+        { $group: { _id: "$ticketType", count: { $sum: 1 } } },
+      ]),
+      CheckIn.aggregate<{ _id: string; count: number; lastScanAt: Date }>([
+        { $match: { ...scope, result: "admitted" } },
+        {
+          $group: {
+            _id: "$ticketType",
+            count: { $sum: 1 },
+            lastScanAt: { $max: "$scannedAt" },
+          },
+        },
+      ]),
+      getTicketMap(eventId),
+    ]);
+
+    const types = new Set([
+      ...ticketMap.keys(),
+      ...sold.map((row) => row._id),
+      ...admitted.map((row) => row._id),
+    ]);
+
+    const tiers = [...types].map((type) => {
+      const issued = sold.find((row) => row._id === type)?.count || 0;
+      const scans = admitted.find((row) => row._id === type);
+      const checkedIn = scans?.count || 0;
+      return {
+        ticketType: type,
+        name: ticketMap.get(type)?.name || type,
+        issued,
+        checkedIn,
+        notArrived: Math.max(0, issued - checkedIn),
+        lastScanAt: scans?.lastScanAt || null,
+      };
+    });
+
+    const totals = tiers.reduce(
+      (sum, tier) => ({
+        issued: sum.issued + tier.issued,
+        checkedIn: sum.checkedIn + tier.checkedIn,
+        notArrived: sum.notArrived + tier.notArrived,
+      }),
+      { issued: 0, checkedIn: 0, notArrived: 0 }
+    );
+
+    return { tiers, totals };
+  },
+};
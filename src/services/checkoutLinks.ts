@@ -0,0 +1,93 @@
+import type { IPayment } from "../models/Payment.js";
+import { Reservation } from "../models/Reservation.js";
+import { Order } from "../models/Order.js";
+import { WaitlistEntry } from "../models/WaitlistEntry.js";
+import { inventory } from "./inventory.js";
+import { waitlist } from "./waitlist.js";
+import { backend } from "./backend.js";
+import { paymentLinks } from "./paymentLinks.js";
+
+// Fresh payment links for a purchase whose first link wasn't paid
+export const checkoutLinks = {
+  /**
+   * Open a new link for the same purchase and move the buyer's hold, order
+   * and waitlist offer over to it. The old link is marked superseded unless
+   * it had already failed. Returns null if the hold has lapsed (the
+   * tickets are no longer theirs) or the link couldn't be created.
+   * `metadata` is merged into the new payment's metadata.
+   */
+  async reopen(
+    payment: IPayment,
+    metadata: Record<string, any> = {}
+  ): Promise<{
+    paymentLink: string;
+    reference: string;
+    holdMinutes?: number;
+  } | null> {
+    const reference = payment.paystackReference;
+    const previous = payment.metadata || {};
+
+    const hold = previous.reservationId
+      ? await Reservation.findOne({
+          _id: previous.reservationId,
+          paymentReference: reference,
+          status: "held",
+          expiresAt: { $gt: new Date() },
+        })
+      : null;
+    if (previous.reservationId && !hold) return null;
+
+    try {
+      const retry = await backend.generatePaymentLink(
+        payment.amount,
+        payment.userId,
+        payment.chatId,
+        { ...previous, ...metadata }
+      );
+
+      if (hold) {
+        await inventory.attachPayment(hold._id.toString(), retry.reference);
+      }
+      await paymentLinks.supersede(reference, retry.reference);
+      if (previous.orderId) {
+        await Order.updateOne(
+          { _id: previous.orderId, status: "pending" },
+          { $set: { paymentReference: retry.reference, updatedAt: new Date() } }
+        );
+      }
+      await WaitlistEntry.updateOne(
+        { paymentReference: reference, status: "offered" },
+        { $set: { paymentReference: retry.reference, updatedAt: new Date() } }
+      );
+
+      console.log(
+        `[PAYMENTS] Link ${retry.reference} opened in place of ${reference}`
+      );
+
+      // Installment links have no hold and no time limit
+      const holdMinutes = hold
+        ? Math.max(
+            1,
+            Math.ceil((hold.expiresAt.getTime() - Date.now()) / 60000)
+          )
+        : undefined;
+      return {
+        paymentLink: retry.paymentLink,
+        reference: retry.reference,
+        holdMinutes,
+      };
+    } catch (error) {
+      console.error(
+        `[PAYMENTS] Failed to open a new link in place of ${reference}:`,
+        error
+      );
+      if (
+        hold &&
+        (await inventory.releaseById(hold._id.toString(), "failed"))
+      ) {
+        await waitlist.offerNext(hold.ticketType, hold.eventId);
+      }
+      return null;
+    }
+  },
+};
@@ -0,0 +1,347 @@
+import type mongoose from "mongoose";
+import { Payment, type IPayment } from "../models/Payment.js";
+import { User } from "../models/User.js";
+import { CheckoutNudge } from "../models/CheckoutNudge.js";
+import { Reservation } from "../models/Reservation.js";
+import {
+  ReminderTemplate,
+  type IReminderTemplate,
+} from "../models/ReminderTemplate.js";
+import { fulfilment } from "./fulfilment.js";
+import { inventory } from "./inventory.js";
+import { waitlist } from "./waitlist.js";
+import { checkoutLinks } from "./checkoutLinks.js";
+import { client } from "../config/client.js";
+import { env } from "../config/env.js";
+import { SESSION_STATES } from "../config/constants.js";
+import { getCheckoutNudgeMessage } from "../messages/payments.js";
+import { getTicketByType } from "../utils/ticketCatalog.js";
+import {
+  eventRecordsFilter,
+  getEventTicketTypes,
+} from "../utils/eventCatalog.js";
+import { replaceTemplateVariables } from "../utils/reminderTemplate.js";
+import type { UserSession } from "../types/session.js";
+import { toMajorUnits } from "../utils/money.js";
+
+// Links looked at per run, so one run never floods the provider with new links
+const BATCH_SIZE = 50;
+
+type StopReason = NonNullable<IPayment["nudgesStopReason"]>;
+
+/**
+ * The admin's abandoned checkout template for the buyer's event (falling
+ * back to one for every event), filled in. Null if there is none.
+ */
+async function renderTemplate(
+  payment: IPayment,
+  variables: { amount: number; paymentLink: string; userName?: string }
+): Promise<{ message: string; template: IReminderTemplate } | null> {
+  const ticket = payment.ticketType
+    ? await getTicketByType(payment.ticketType, payment.eventId)
+    : null;
+  const templates = await ReminderTemplate.find({
+    type: "abandoned_checkout",
+    isActive: true,
+  }).sort({ createdAt: 1 });
+
+  const eventId = ticket?.eventId;
+  const template =
+    (eventId && templates.find((t) => t.eventId?.equals(eventId))) ||
+    templates.find((t) => !t.eventId);
+  if (!template) return null;
+
+  return {
+    message: replaceTemplateVariables(template.messageTemplate, {
+      ...variables,
+      ticketType: payment.ticketType || "",
+    }),
+    template,
+  };
+}
+
+async function stopNudges(
+  filter: Record<string, unknown>,
+  reason: StopReason
+): Promise<void> {
+  await Payment.updateMany(
+    { ...filter, status: "pending", nudgesStoppedAt: null },
+    {
+      $set: {
+        nudgesStoppedAt: new Date(),
+        nudgesStopReason: reason,
+        updatedAt: new Date(),
+      },
+    }
+  );
+}
+
+/**
+ * Replace one unpaid link with a fresh one and send it to the buyer.
+ * Returns true if a nudge was sent.
+ */
+async function nudge(payment: IPayment): Promise<boolean> {
+  const reference = payment.paystackReference;
+  const chatId = payment.chatId;
+  const stop = (reason: StopReason) =>
+    stopNudges({ paystackReference: reference }, reason);
+
+  // Paid some other way (another link, or an admin-made one) since
+  const paidSince = await Payment.exists({
+    chatId,
+    paidAt: { $gte: payment.createdAt },
+  });
+  if (paidSince) {
+    await stop("paid");
+    return false;
+  }
+
+  // Moved on: typed menu, or started another checkout
+  const user = await User.findOne({ chatId });
+  const session = user?.session as UserSession | undefined;
+  const newerLink = await Payment.exists({
+    chatId,
+    createdAt: { $gt: payment.createdAt },
+  });
+  if (session?.state !== SESSION_STATES.AWAITING_PAYMENT || newerLink) {
+    await stop("left_checkout");
+    return false;
+  }
+
+  const checkoutReference = payment.metadata?.checkoutReference || reference;
+  const attempt =
+    (await CheckoutNudge.countDocuments({
+      checkoutReference,
+      status: "sent",
+    })) + 1;
+  if (attempt > env.checkoutNudgeMaxAttempts) {
+    await stop("max_attempts");
+    return false;
+  }
+
+  // Retire the old link first; if it was paid meanwhile there's nothing to do
+  const claimed = await fulfilment.markUnpaid(reference, "abandoned", {
+    keepHold: true,
+  });
+  if (!claimed) return false;
+
+  const log = {
+    chatId,
+    userName: user?.name,
+    attempt,
+    checkoutReference,
+    paymentReference: reference,
+    ticketType: payment.ticketType,
+    eventId: payment.eventId,
+    amount: payment.amount,
+  };
+
+  const fresh = await checkoutLinks.reopen(payment, { checkoutReference });
+  if (!fresh) {
+    // Any hold still on the dead link goes to the next person waiting
+    if (await inventory.releaseByReference(reference, "abandoned")) {
+      const ticketType = payment.metadata?.ticketType;
+      if (ticketType) {
+        await waitlist.offerNext(ticketType, payment.metadata?.eventId);
+      }
+    }
+    await CheckoutNudge.create({
+      ...log,
+      status: "failed",
+      errorMessage: "The hold had lapsed or a fresh link couldn't be created",
+    });
+    return false;
+  }
+
+  const variables = {
+    amount: payment.amount,
+    paymentLink: fresh.paymentLink,
+    userName: user?.name,
+  };
+  const rendered = await renderTemplate(payment, variables);
+  const message =
+    rendered?.message ||
+    getCheckoutNudgeMessage(
+      payment.amount,
+      fresh.paymentLink,
+      fresh.holdMinutes
+    );
+  const sentLog = {
+    ...log,
+    templateId: rendered?.template._id,
+    templateName: rendered?.template.name,
+    message,
+    newReference: fresh.reference,
+  };
+
+  try {
+    await client.sendMessage(chatId, message);
+  } catch (error) {
+    await CheckoutNudge.create({
+      ...sentLog,
+      status: "failed",
+      errorMessage: error instanceof Error ? error.message : "Unknown error",
+    });
+    throw error;
+  }
+
+  await CheckoutNudge.create({ ...sentLog, status: "sent" });
+
+  console.log(
+    `[CHECKOUT] Nudge ${attempt}/${env.checkoutNudgeMaxAttempts} sent to ${chatId} (${reference} → ${fresh.reference})`
+  );
+  return true;
+}
+
+// Nudges for buyers who were sent a checkout link and never paid it
+export const checkoutRecovery = {
+  /**
+   * Nudge buyers whose latest checkout link has gone unpaid for the
+   * configured delay, each with a fresh link, up to the configured number
+   * of nudges per checkout. Returns the number of nudges sent.
+   */
+  async nudgeAbandoned(): Promise<number> {
+    if (env.checkoutNudgeMaxAttempts <= 0) return 0;
+
+    // Only bot checkouts whose tickets are still held; installment, balance
+    // and admin links are reused as they are and must not be replaced
+    const heldReferences = await Reservation.distinct("paymentReference", {
+      status: "held",
+      paymentReference: { $ne: null },
+    });
+
+    const now = Date.now();
+    const candidates = await Payment.find({
+      paystackReference: { $in: heldReferences },
+      "metadata.orderId": { $ne: null },
+      status: "pending",
+      nudgesStoppedAt: null,
+      createdAt: {
+        $gte: new Date(now - env.checkoutNudgeMaxAgeHours * 3600000),
+        $lte: new Date(now - env.checkoutNudgeDelayMinutes * 60000),
+      },
+    })
+      .sort({ createdAt: -1 })
+      .limit(BATCH_SIZE);
+
+    // Only a buyer's newest link is theirs to pay
+    const seen = new Set<string>();
+    let sent = 0;
+    for (const payment of candidates) {
+      if (seen.has(payment.chatId)) continue;
+      seen.add(payment.chatId);
+
+      try {
+        if (await nudge(payment)) sent++;
+      } catch (error) {
+        console.error(
+          `[CHECKOUT] Failed to nudge ${payment.chatId} about ${payment.paystackReference}:`,
+          error
+        );
+      }
+    }
+
+    return sent;
+  },
+
+  /**
+   * Stop nudging a buyer about their unpaid links, e.g. when they type menu
+   */
+  async stop(chatId: string, reason: StopReason): Promise<void> {
+    await stopNudges({ chatId }, reason);
+  },
+
+  /**
+   * How many nudged checkouts ended up paid, overall and per nudge. A
+   * checkout counts as recovered if any of its links (the first one or a
+   * fresh one from a nudge) was paid. Pass an event to limit it to that
+   * event's checkouts.
+   */
+  async getStats(eventId?: mongoose.Types.ObjectId) {
+    const scope = eventId
+      ? eventRecordsFilter(eventId, await getEventTicketTypes(eventId))
+      : {};
+
+    const [sent, failed, checkoutReferences, byAttempt] = await Promise.all([
+      CheckoutNudge.countDocuments({ ...scope, status: "sent" }),
+      CheckoutNudge.countDocuments({ ...scope, status: "failed" }),
+      CheckoutNudge.distinct("checkoutReference", {
+        ...scope,
+        status: "sent",
+      }),
+      CheckoutNudge.aggregate<{ _id: number; sent: number; paid: number }>([
+        { $match: { ...scope, status: "sent" } },
+        {
+          $lookup: {
+            from: "payments",
+            localField: "newReference",
+            foreignField: "paystackReference",
+            as: "payment",
+          },
+        },
+        {
+          $group: {
+            _id: "$attempt",
+            sent: { $sum: 1 },
+            paid: {
+              $sum: {
+                $cond: [
+                  { $ifNull: [{ $first: "$payment.paidAt" }, false] },
+                  1,
+                  0,
+                ],
+              },
+            },
+          },
+        },
+        { $sort: { _id: 1 } },
+      ]),
+    ]);
+
+    // Paid links per checkout; paidAt stays set even if it was refunded later
+    const recovered = await Payment.aggregate<{
+      _id: string;
+      amount: number;
+    }>([
+      {
+        $match: {
+          paidAt: { $ne: null },
+          $or: [
+            { paystackReference: { $in: checkoutReferences } },
+            { "metadata.checkoutReference": { $in: checkoutReferences } },
+          ],
+        },
+      },
+      {
+        $group: {
+          _id: {
+            $ifNull: ["$metadata.checkoutReference", "$paystackReference"],
+          },
+          amount: { $sum: "$amount" },
+        },
+      },
+    ]);
+
+    const checkouts = checkoutReferences.length;
+    const conversionRate = (paid: number, total: number) =>
+      total > 0 ? Math.round((paid / total) * 1000) / 10 : 0;
+
+    return {
+      nudges: { sent, failed },
+      checkouts: {
+        nudged: checkouts,
+        recovered: recovered.length,
+        conversionRate: conversionRate(recovered.length, checkouts),
+        recoveredRevenue: toMajorUnits(
+          recovered.reduce((sum, checkout) => sum + checkout.amount, 0)
+        ),
+      },
+      byAttempt: byAttempt.map((row) => ({
+        attempt: row._id,
+        sent: row.sent,
+        paid: row.paid,
+        conversionRate: conversionRate(row.paid, row.sent),
+      })),
+    };
+  },
+};
@@ -0,0 +1,308 @@
+import {
+  CustomPlanRequest,
+  type ICustomInstallment,
+  type ICustomPlanRequest,
+} from "../models/CustomPlanRequest.js";
+import { User } from "../models/User.js";
+import { Ticket, type ITicket } from "../models/Ticket.js";
+import { installments } from "./installments.js";
+import { adminAlerts } from "./adminAlerts.js";
+import { client } from "../config/client.js";
+import { ValidationError } from "../errors/AppError.js";
+import { formatDate } from "../utils/date.js";
+import { allocate, DEFAULT_CURRENCY, formatMoney } from "../utils/money.js";
+import {
+  getCustomPlanApprovedMessage,
+  getCustomPlanRejectedMessage,
+} from "../messages/payments.js";
+
+export const MIN_CUSTOM_PAYMENTS = 2;
+export const MAX_CUSTOM_PAYMENTS = 6;
+
+function startOfToday(): Date {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+/**
+ * Check a custom schedule: between two and six payments that add up to the
+ * total, each due later than the one before, none in the past and the last
+ * by the final deadline
+ */
+function checkInstallments(
+  schedule: ICustomInstallment[],
+  totalAmount: number,
+  deadline: Date
+): void {
+  if (
+    schedule.length < MIN_CUSTOM_PAYMENTS ||
+    schedule.length > MAX_CUSTOM_PAYMENTS
+  ) {
+    throw new ValidationError(
+      `A custom plan needs ${MIN_CUSTOM_PAYMENTS} to ${MAX_CUSTOM_PAYMENTS} payments`
+    );
+  }
+
+  if (schedule.some((i) => !Number.isInteger(i.amount) || i.amount <= 0)) {
+    throw new ValidationError("Every payment must be more than zero");
+  }
+  const sum = schedule.reduce((total, i) => total + i.amount, 0);
+  if (sum !== totalAmount) {
+    throw new ValidationError(
+      `Payments add up to ${formatMoney(sum)} but the ticket costs ${formatMoney(
+        totalAmount
+      )}`
+    );
+  }
+
+  if (schedule[0]!.dueDate < startOfToday()) {
+    throw new ValidationError("Payments can't be due in the past");
+  }
+  for (let i = 1; i < schedule.length; i++) {
+    if (schedule[i]!.dueDate <= schedule[i - 1]!.dueDate) {
+      throw new ValidationError(
+        "Each payment must be due after the one before it"
+      );
+    }
+  }
+  if (schedule[schedule.length - 1]!.dueDate > deadline) {
+    throw new ValidationError(
+      `The last payment must be due by ${formatDate(deadline)}`
+    );
+  }
+}
+
+// Move a request on from "pending", so it is only ever reviewed once
+async function review(
+  requestId: string,
+  status: "approved" | "rejected",
+  adminId: string | undefined,
+  updates: Partial<ICustomPlanRequest> = {}
+): Promise<ICustomPlanRequest> {
+  const request = await CustomPlanRequest.findOneAndUpdate(
+    { _id: requestId, status: "pending" },
+    {
+      $set: {
+        ...updates,
+        status,
+        reviewedBy: adminId,
+        reviewedAt: new Date(),
+      },
+    },
+    { new: true }
+  );
+  if (!request) {
+    throw new ValidationError("This request has already been reviewed");
+  }
+  return request;
+}
+
+// Custom installment plans (plan "C"): buyers propose, admins decide
+export const customPlans = {
+  /**
+   * Split a total evenly over the due dates a buyer asked for
+   */
+  propose(totalAmount: number, dueDates: Date[]): ICustomInstallment[] {
+    const amounts = allocate(
+      totalAmount,
+      dueDates.map(() => 1)
+    );
+    return dueDates.map((dueDate, index) => ({
+      amount: amounts[index]!,
+      dueDate,
+    }));
+  },
+
+  /**
+   * Throw a ValidationError if a custom schedule can't be offered
+   */
+  check(
+    schedule: ICustomInstallment[],
+    totalAmount: number,
+    deadline: Date
+  ): void {
+    checkInstallments(schedule, totalAmount, deadline);
+  },
+
+  /**
+   * File a buyer's custom plan for an admin to review. The first payment is
+   * due straight away and the rest on the dates they chose.
+   */
+  async submit(
+    chatId: string,
+    ticket: ITicket,
+    totalAmount: number,
+    dueDates: Date[],
+    coupon?: string
+  ): Promise<ICustomPlanRequest> {
+    if (await CustomPlanRequest.exists({ chatId, status: "pending" })) {
+      throw new ValidationError(
+        "⏳ You already have a custom plan request waiting for review. We'll message you here as soon as it's decided."
+      );
+    }
+
+    const deadline = await installments.getEventDeadline(ticket);
+    const proposed = this.propose(totalAmount, [new Date(), ...dueDates]);
+    checkInstallments(proposed, totalAmount, deadline);
+
+    const user = await User.findOne({ chatId });
+    const request = await CustomPlanRequest.create({
+      chatId,
+      userId: user?._id,
+      ticketId: ticket._id,
+      ticketType: ticket.type,
+      eventId: ticket.eventId,
+      totalAmount,
+      currency: ticket.currency || DEFAULT_CURRENCY,
+      coupon,
+      proposed,
+      installments: proposed,
+      finalDeadline: deadline,
+    });
+
+    await adminAlerts.raise({
+      type: "installments.custom_plan_requested",
+      severity: "info",
+      title: "Custom payment plan requested",
+      message: `${user?.name || chatId} asked to pay ${ticket.name} (${formatMoney(
+        totalAmount
+      )}) in ${proposed.length} payments`,
+      chatId,
+      data: { requestId: request._id.toString() },
+    });
+
+    return request;
+  },
+
+  /**
+   * Change the payments of a request still waiting for review
+   */
+  async edit(
+    requestId: string,
+    schedule: ICustomInstallment[],
+    adminId?: string
+  ): Promise<ICustomPlanRequest> {
+    const request = await CustomPlanRequest.findById(requestId);
+    if (!request) {
+      throw new ValidationError("Custom plan request not found");
+    }
+    if (request.status !== "pending") {
+      throw new ValidationError("This request has already been reviewed");
+    }
+
+    checkInstallments(schedule, request.totalAmount, request.finalDeadline);
+    request.installments = schedule;
+    request.editedBy = adminId;
+    request.editedAt = new Date();
+    await request.save();
+    return request;
+  },
+
+  /**
+   * Approve a request (with any last edits), put the buyer on the schedule
+   * and send them the link for the first payment
+   */
+  async approve(
+    requestId: string,
+    adminId?: string,
+    options: { installments?: ICustomInstallment[]; note?: string } = {}
+  ): Promise<ICustomPlanRequest> {
+    const pending = await CustomPlanRequest.findById(requestId);
+    if (!pending) {
+      throw new ValidationError("Custom plan request not found");
+    }
+    const ticket = await Ticket.findById(pending.ticketId);
+    if (!ticket) {
+      throw new ValidationError(
+        `Ticket ${pending.ticketType} no longer exists`
+      );
+    }
+    if (options.installments) {
+      checkInstallments(
+        options.installments,
+        pending.totalAmount,
+        pending.finalDeadline
+      );
+    }
+
+    const request = await review(requestId, "approved", adminId, {
+      ...(options.installments && {
+        installments: options.installments,
+        editedBy: adminId,
+        editedAt: new Date(),
+      }),
+      ...(options.note && { adminNote: options.note }),
+    });
+
+    let schedule;
+    try {
+      schedule = await installments.startCustom(request, ticket);
+    } catch (error) {
+      // Leave it to be reviewed again once whatever blocked it is sorted
+      await CustomPlanRequest.updateOne(
+        { _id: request._id },
+        {
+          $set: { status: "pending" },
+          $unset: { reviewedBy: "", reviewedAt: "" },
+        }
+      );
+      throw error;
+    }
+    request.scheduleId = schedule._id as ICustomPlanRequest["scheduleId"];
+    await request.save();
+
+    const { paymentLink } = await installments.firstPaymentLink(schedule);
+    await client
+      .sendMessage(
+        request.chatId,
+        getCustomPlanApprovedMessage(
+          ticket.name,
+          schedule.installments,
+          paymentLink,
+          request.adminNote
+        )
+      )
+      .catch((error) =>
+        console.error(
+          `[INSTALLMENTS] Failed to send approved plan to ${request.chatId}:`,
+          error
+        )
+      );
+
+    console.log(
+      `[INSTALLMENTS] Custom plan ${request._id} approved for ${request.chatId}`
+    );
+    return request;
+  },
+
+  /**
+   * Turn a request down and tell the buyer why
+   */
+  async reject(
+    requestId: string,
+    adminId?: string,
+    note?: string
+  ): Promise<ICustomPlanRequest> {
+    if (!(await CustomPlanRequest.exists({ _id: requestId }))) {
+      throw new ValidationError("Custom plan request not found");
+    }
+    const request = await review(requestId, "rejected", adminId, {
+      ...(note && { adminNote: note }),
+    });
+
+    await client
+      .sendMessage(request.chatId, getCustomPlanRejectedMessage(note))
+      .catch((error) =>
+        console.error(
+          `[INSTALLMENTS] Failed to tell ${request.chatId} their plan was rejected:`,
+          error
+        )
+      );
+
+    console.log(
+      `[INSTALLMENTS] Custom plan ${request._id} rejected for ${request.chatId}`
+    );
+    return request;
+  },
+};
@@ -0,0 +1,100 @@
+import { Donation, type IDonation } from "../models/Donation.js";
+import { User } from "../models/User.js";
+import { wallet } from "./wallet.js";
+import { client } from "../config/client.js";
+import { env } from "../config/env.js";
+import { ValidationError } from "../errors/AppError.js";
+import { formatMoney } from "../utils/money.js";
+import { getDonationReceiptMessage } from "../messages/wallet.js";
+
+// Receipt number: DN + timestamp (last 8 digits) + random (4 digits)
+function generateReceiptNumber(): string {
+  const timestamp = Date.now().toString().slice(-8);
+  const random = Math.floor(Math.random() * 10000)
+    .toString()
+    .padStart(4, "0");
+  return `DN${timestamp}${random}`;
+}
+
+// Wallet balances given to the foundation, each with a receipt for the donor
+export const donations = {
+  /**
+   * Donate a buyer's whole wallet balance. The wallet debit is reversed if
+   * the donation can't be recorded.
+   */
+  async fromWallet(chatId: string): Promise<IDonation> {
+    const balance = await wallet.getBalance(chatId);
+    if (balance <= 0) {
+      throw new ValidationError(
+        "Your wallet is empty. Type *menu* to see all options."
+      );
+    }
+
+    const recipient = env.foundationName;
+    const transaction = await wallet.donate(chatId, balance, recipient);
+    const user = await User.findOne({ chatId });
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const donation = await Donation.create({
+            receiptNumber: generateReceiptNumber(),
+            chatId,
+            userId: user?._id,
+            donorName: user?.name,
+            recipient,
+            amount: balance,
+            walletTransactionId: transaction._id,
+          });
+          console.log(
+            `[DONATIONS] ${donation.receiptNumber}: ${formatMoney(balance)} from ${chatId} to ${recipient}`
+          );
+          return donation;
+        } catch (error: any) {
+          // Retry on a receipt number clash
+          if (error.code !== 11000 || !error.keyPattern?.receiptNumber) {
+            throw error;
+          }
+          if (attempt >= 3) throw error;
+        }
+      }
+    } catch (error) {
+      await wallet.credit(chatId, balance, {
+        description: `Donation to ${recipient} reversed`,
+        reference: `reversal:${transaction._id}`,
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Send the donor their receipt on WhatsApp. Returns false if it couldn't
+   * be sent; the donation stands either way.
+   */
+  async sendReceipt(donation: IDonation): Promise<boolean> {
+    try {
+      await client.sendMessage(
+        donation.chatId,
+        getDonationReceiptMessage(
+          donation.receiptNumber,
+          donation.amount,
+          donation.recipient,
+          donation.createdAt,
+          donation.donorName
+        )
+      );
+    } catch (error) {
+      console.error(
+        `[DONATIONS] Failed to send receipt ${donation.receiptNumber} to ${donation.chatId}:`,
+        error
+      );
+      return false;
+    }
+
+    await Donation.updateOne(
+      { _id: donation._id },
+      { $set: { receiptSentAt: new Date() } }
+    );
+    return true;
+  },
+};
@@ -0,0 +1,70 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import { env } from "../config/env.js";
+
+export interface EmailAttachment {
+  filename: string;
+  contentType: string;
+  content: Buffer;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  attachments?: EmailAttachment[];
+}
+
+// Give up on a server that stops answering
+const TIMEOUT_MS = 15000;
+
+let transporter: Transporter | null = null;
+
+// One SMTP transport for the process, created on first use
+function getTransporter(): Transporter {
+  transporter ??= nodemailer.createTransport({
+    host: env.smtpHost,
+    port: env.smtpPort,
+    secure: env.smtpSecure,
+    auth: env.smtpUser
+      ? { user: env.smtpUser, pass: env.smtpPass }
+      : undefined,
+    connectionTimeout: TIMEOUT_MS,
+    greetingTimeout: TIMEOUT_MS,
+    socketTimeout: TIMEOUT_MS,
+  });
+  return transporter;
+}
+
+// Outgoing email over SMTP
+export const email = {
+  isConfigured(): boolean {
+    return !!env.smtpHost;
+  },
+
+  /**
+   * Hand one message to the SMTP server. Throws if the server doesn't
+   * accept it.
+   */
+  async send(message: EmailMessage): Promise<void> {
+    if (!this.isConfigured()) {
+      throw new Error("Email is not configured (SMTP_HOST is not set)");
+    }
+
+    await getTransporter().sendMail({
+      from: env.emailFrom,
+      to: message.to,
+      subject: message.subject,
+      text: message.text,
+      attachments: message.attachments,
+    });
+
+    console.log(`[EMAIL] Sent "${message.subject}" to ${message.to}`);
+  },
+
+  /**
+   * Check the SMTP server answers and accepts our login, without sending
+   */
+  async verify(): Promise<void> {
+    await getTransporter().verify();
+  },
+};
@@ -0,0 +1,49 @@
+import { Payment } from "../models/Payment.js";
+import { fulfilment } from "./fulfilment.js";
+import { inventory } from "./inventory.js";
+import { waitlist } from "./waitlist.js";
+import { checkoutLinks } from "./checkoutLinks.js";
+import { client } from "../config/client.js";
+import { getChargeFailedMessage } from "../messages/payments.js";
+
+// Charges the provider declined (e.g. a MoMo prompt that was rejected)
+export const failedCharges = {
+  /**
+   * Record a failed charge and give the buyer a fresh link while their
+   * tickets are still held. Only the first report of a failure does this;
+   * returns false for payments that were no longer open.
+   */
+  async handle(paymentReference: string, reason?: string): Promise<boolean> {
+    const claimed = await fulfilment.markUnpaid(paymentReference, "failed", {
+      reason,
+      keepHold: true,
+    });
+    if (!claimed) return false;
+
+    const payment = await Payment.findOne({
+      paystackReference: paymentReference,
+    });
+    if (!payment) return false;
+
+    const retry = await checkoutLinks.reopen(payment);
+    if (!retry) {
+      // Any hold still on the dead link goes to the next person waiting
+      if (await inventory.releaseByReference(paymentReference, "failed")) {
+        const ticketType = payment.metadata?.ticketType;
+        if (ticketType) {
+          await waitlist.offerNext(ticketType, payment.metadata?.eventId);
+        }
+      }
+    }
+
+    await client
+      .sendMessage(
+        payment.chatId,
+        getChargeFailedMessage(payment.amount, reason, retry || undefined)
+      )
+      .catch((error) =>
+        console.error(`[PAYMENTS] Failed to notify ${payment.chatId}:`, error)
+      );
+    return true;
+  },
+};
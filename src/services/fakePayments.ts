@@ -0,0 +1,300 @@
+import axios from "axios";
+import crypto from "crypto";
+import type { IncomingHttpHeaders } from "http";
+import {
+  FakeTransaction,
+  type IFakeTransaction,
+} from "../models/FakeTransaction.js";
+import { env } from "../config/env.js";
+import { BackendError } from "../errors/AppError.js";
+import { formatMoney, type Money } from "../utils/money.js";
+import type {
+  PaymentProvider,
+  PaymentInitialization,
+  PaymentVerification,
+  RefundResult,
+  PaymentWebhookEvent,
+} from "./paymentProvider.js";
+
+const SIGNATURE_HEADER = "x-fake-signature";
+
+// How long a refund stays pending before it is reported processed
+const REFUND_DELAY_MS = 3000;
+
+function sign(body: string | Buffer): string {
+  return crypto
+    .createHmac("sha512", env.fakePaymentSecret)
+    .update(body)
+    .digest("hex");
+}
+
+function toBackendUrl(path: string): string {
+  return new URL(path, env.backendApiUrl).toString();
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Post a signed webhook to our own server, the way a real provider would
+ */
+async function sendWebhook(
+  event: string,
+  data: Record<string, any>
+): Promise<void> {
+  const body = JSON.stringify({ event, data });
+  try {
+    await axios.post(toBackendUrl("/api/payments/webhook/fake"), body, {
+      headers: {
+        "Content-Type": "application/json",
+        [SIGNATURE_HEADER]: sign(body),
+      },
+    });
+    console.log(`[FAKE PAYMENTS] Sent ${event} webhook`, data);
+  } catch (error: any) {
+    console.error(
+      `[FAKE PAYMENTS] ${event} webhook failed:`,
+      error?.message || error
+    );
+  }
+}
+
+/**
+ * A stand-in payment provider for local development and end-to-end tests.
+ * Checkouts happen on a local page where the tester picks the outcome.
+ */
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = "fake" as const;
+
+  async initializePayment(
+    amount: Money,
+    email: string,
+    metadata?: Record<string, any>
+  ): Promise<PaymentInitialization> {
+    const reference = `FAKE_${Date.now()}_${crypto
+      .randomBytes(4)
+      .toString("hex")}`;
+
+    await FakeTransaction.create({
+      reference,
+      amount: amount.amount,
+      currency: amount.currency,
+      email,
+      metadata,
+    });
+    console.log("[FAKE PAYMENTS] Checkout created", { reference, amount });
+
+    return {
+      authorizationUrl: toBackendUrl(
+        `/api/payments/fake/checkout/${reference}`
+      ),
+      reference,
+    };
+  }
+
+  async verifyPayment(reference: string): Promise<PaymentVerification> {
+    const transaction = await FakeTransaction.findOne({ reference });
+    if (!transaction) {
+      throw new BackendError("Transaction reference not found");
+    }
+
+    return {
+      status: transaction.status,
+      amount: transaction.amount,
+      currency: transaction.currency,
+      paidAt: transaction.paidAt?.toISOString() || "",
+      metadata: transaction.metadata,
+    };
+  }
+
+  async refund(
+    reference: string,
+    amount?: number,
+    reason?: string
+  ): Promise<RefundResult> {
+    const transaction = await FakeTransaction.findOne({
+      reference,
+      status: "success",
+    });
+    if (!transaction) {
+      throw new BackendError("Transaction has not been paid");
+    }
+
+    const refunded = transaction.refunds
+      .filter((refund) => refund.status !== "failed")
+      .reduce((total, refund) => total + refund.amount, 0);
+    const refundAmount = amount ?? transaction.amount - refunded;
+    if (refundAmount <= 0 || refunded + refundAmount > transaction.amount) {
+      throw new BackendError(
+        "Refund amount is more than what is left on the transaction"
+      );
+    }
+
+    const refundId = `FAKE_RFD_${crypto.randomBytes(6).toString("hex")}`;
+    transaction.refunds.push({
+      refundId,
+      amount: refundAmount,
+      reason,
+      status: "pending",
+      createdAt: new Date(),
+    });
+    await transaction.save();
+
+    // Settle it a moment later, so the pending state can be seen too
+    setTimeout(() => {
+      this.settleRefund(reference, refundId, "processed").catch((error) =>
+        console.error(`[FAKE PAYMENTS] Failed to settle ${refundId}:`, error)
+      );
+    }, REFUND_DELAY_MS);
+
+    return {
+      refundId,
+      status: "pending",
+      amount: refundAmount,
+      currency: transaction.currency,
+    };
+  }
+
+  verifyWebhook(
+    rawBody: string | Buffer,
+    headers: IncomingHttpHeaders
+  ): boolean {
+    return sign(rawBody) === headers[SIGNATURE_HEADER];
+  }
+
+  // Fake webhooks are already in our shape
+  parseWebhook(payload: any): PaymentWebhookEvent {
+    const data = payload.data || {};
+    const isRefund = String(payload.event).startsWith("refund.");
+
+    return {
+      eventId: `${payload.event}:${data.id}`,
+      event: payload.event,
+      reference: data.reference,
+      amount: data.amount,
+      reason: data.reason,
+      refundId: isRefund ? data.id : undefined,
+    };
+  }
+
+  /**
+   * Finish a checkout with the outcome picked on the checkout page.
+   * Successful and failed charges are reported by webhook, like Paystack
+   * does. Returns null if the checkout was already finished.
+   */
+  async completeCheckout(
+    reference: string,
+    outcome: "success" | "failed" | "abandoned"
+  ): Promise<IFakeTransaction | null> {
+    const transaction = await FakeTransaction.findOneAndUpdate(
+      { reference, status: "pending" },
+      {
+        $set: {
+          status: outcome,
+          ...(outcome === "success" && { paidAt: new Date() }),
+          updatedAt: new Date(),
+        },
+      },
+      { new: true }
+    );
+    if (!transaction) return null;
+
+    if (outcome !== "abandoned") {
+      await sendWebhook(`charge.${outcome}`, {
+        id: reference,
+        reference,
+        amount: transaction.amount,
+        currency: transaction.currency,
+        customer: { email: transaction.email },
+        metadata: transaction.metadata,
+        ...(outcome === "failed" && { reason: "Declined at fake checkout" }),
+      });
+    }
+
+    return transaction;
+  }
+
+  /**
+   * Settle a pending refund and report it by webhook
+   */
+  async settleRefund(
+    reference: string,
+    refundId: string,
+    outcome: "processed" | "failed"
+  ): Promise<void> {
+    const transaction = await FakeTransaction.findOneAndUpdate(
+      {
+        reference,
+        refunds: { $elemMatch: { refundId, status: "pending" } },
+      },
+      {
+        $set: { "refunds.$.status": outcome, updatedAt: new Date() },
+      },
+      { new: true }
+    );
+    if (!transaction) return;
+
+    const refund = transaction.refunds.find(
+      (item) => item.refundId === refundId
+    );
+    await sendWebhook(`refund.${outcome}`, {
+      id: refundId,
+      reference,
+      amount: refund?.amount,
+      status: outcome,
+    });
+  }
+
+  /**
+   * The local checkout page, where the tester decides how the payment ends
+   */
+  renderCheckoutPage(transaction: IFakeTransaction): string {
+    const reference = escapeHtml(transaction.reference);
+    const ticketType = escapeHtml(
+      String(transaction.metadata?.ticketType || "Ticket")
+    );
+    const quantity = Number(transaction.metadata?.quantity) || 1;
+    const finished =
+      transaction.status === "pending"
+        ? ""
+        : `<p class="done">This checkout is already ${escapeHtml(
+            transaction.status
+          )}.</p>`;
+    const buttons =
+      transaction.status === "pending"
+        ? `<form method="post">
+      <button name="outcome" value="success">Pay</button>
+      <button name="outcome" value="failed">Fail</button>
+      <button name="outcome" value="abandoned">Cancel</button>
+    </form>`
+        : "";
+
+    return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <meta name="viewport" content="width=device-width, initial-scale=1" />
+    <title>Fake checkout</title>
+    <style>
+      body { font-family: sans-serif; max-width: 420px; margin: 40px auto; padding: 0 16px; }
+      .notice { background: #fff3cd; padding: 8px 12px; border-radius: 4px; }
+      button { font-size: 16px; padding: 8px 16px; margin-right: 8px; }
+      .done { font-weight: bold; }
+    </style>
+  </head>
+  <body>
+    <p class="notice">Fake payment provider — no money moves.</p>
+    <h1>${formatMoney(transaction.amount, transaction.currency)}</h1>
+    <p>${quantity} x ${ticketType}<br />${escapeHtml(transaction.email)}</p>
+    <p><small>Reference: ${reference}</small></p>
+    ${finished}
+    ${buttons}
+  </body>
+</html>`;
+  }
+}
@@ -0,0 +1,623 @@
+import {
+  Fulfilment,
+  FULFILMENT_STEPS,
+  type FulfilmentStep,
+  type IFulfilment,
+} from "../models/Fulfilment.js";
+import { Payment, type IPayment } from "../models/Payment.js";
+import { Order } from "../models/Order.js";
+import { SoldTicket } from "../models/SoldTicket.js";
+import { User } from "../models/User.js";
+import type { ITicket } from "../models/Ticket.js";
+import {
+  InstallmentSchedule,
+  type IInstallmentSchedule,
+} from "../models/InstallmentSchedule.js";
+import { inventory } from "./inventory.js";
+import { waitlist } from "./waitlist.js";
+import { ticketIssuer } from "./ticketIssuer.js";
+import { receipts } from "./receipts.js";
+import { installments } from "./installments.js";
+import { vouchers } from "./vouchers.js";
+import { adminAlerts } from "./adminAlerts.js";
+import { client } from "../config/client.js";
+import { env } from "../config/env.js";
+import { SESSION_STATES } from "../config/constants.js";
+import { getSession, updateSession } from "../utils/session.js";
+import { getTicketByType } from "../utils/ticketCatalog.js";
+import { formatDate } from "../utils/date.js";
+import type { UserSession } from "../types/session.js";
+import { formatMoney } from "../utils/money.js";
+import {
+  getDuplicatePaymentMessage,
+  getInstallmentConfirmationMessage,
+} from "../messages/payments.js";
+
+// How long one run may work through the steps before another may take over
+const LEASE_MS = 5 * 60 * 1000;
+
+// Abandoned and superseded links can still be paid late; the sale stands
+// unless what they were for was paid on another link meanwhile
+const PAYABLE_STATUSES = ["pending", "abandoned", "superseded"];
+
+type UserDoc = InstanceType<typeof User>;
+
+interface FulfilmentContext {
+  payment: IPayment;
+  metadata: Record<string, any>;
+  user: UserDoc;
+  ticket: ITicket;
+  schedule: IInstallmentSchedule | null; // Set once an installment is applied
+  settledElsewhere: string | null; // Why there is nothing left to pay for
+}
+
+/**
+ * Why a payment has nothing left to pay for, if so: its order was paid on
+ * another link, or it is an installment with no plan still being paid off
+ * (e.g. the plan was cleared on a newer link). Null if it pays for
+ * something.
+ */
+async function findSettledElsewhere(
+  payment: IPayment,
+  metadata: Record<string, any>
+): Promise<string | null> {
+  const reference = payment.paystackReference;
+
+  if (metadata.orderId) {
+    const order = await Order.findById(metadata.orderId);
+    if (
+      order &&
+      (order.status === "paid" || order.status === "fulfilled") &&
+      order.paymentReference !== reference
+    ) {
+      return `Order ${order._id} was already paid by ${order.paymentReference}`;
+    }
+  }
+
+  if (
+    metadata.paymentType === "installment" &&
+    !(await installments.getFor(payment))
+  ) {
+    return `${payment.chatId} has no ${
+      metadata.ticketType || "installment"
+    } plan still being paid off`;
+  }
+
+  return null;
+}
+
+async function loadContext(payment: IPayment): Promise<FulfilmentContext> {
+  const user = await User.findOne({ chatId: payment.chatId });
+  if (!user) {
+    throw new Error(`User not found for chatId: ${payment.chatId}`);
+  }
+
+  const metadata = payment.metadata || {};
+  const session = (await getSession(payment.chatId)) as UserSession;
+  const ticketType = metadata.ticketType || session.ticketType;
+  const eventId = metadata.ticketType ? payment.eventId : session.eventId;
+
+  const ticket = ticketType ? await getTicketByType(ticketType, eventId) : null;
+  if (!ticket) {
+    throw new Error(`Invalid ticket type "${ticketType}"`);
+  }
+
+  const schedule = await InstallmentSchedule.findOne({
+    "ledger.paymentReference": payment.paystackReference,
+  });
+
+  const settledElsewhere = await findSettledElsewhere(payment, metadata);
+
+  return { payment, metadata, user, ticket, schedule, settledElsewhere };
+}
+
+/**
+ * Tell the buyer a payment bought nothing and ask an admin to refund it,
+ * instead of selling, confirming and receipting the same tickets twice
+ */
+async function flagForRefund(context: FulfilmentContext): Promise<void> {
+  const { payment } = context;
+
+  await client.sendMessage(
+    payment.chatId,
+    getDuplicatePaymentMessage(payment.amount)
+  );
+  await adminAlerts.raise({
+    type: "payment.duplicate_payment",
+    severity: "warning",
+    title: "Payment to refund",
+    message: `${formatMoney(payment.amount)} was paid on ${
+      payment.paystackReference
+    } with nothing left to buy: ${context.settledElsewhere}`,
+    reference: payment.paystackReference,
+    chatId: payment.chatId,
+    data: {
+      amount: payment.amount,
+      orderId: context.metadata.orderId,
+      paymentType: context.metadata.paymentType,
+    },
+  });
+}
+
+// Mark a payment paid unless it was settled some other way meanwhile
+async function markPaymentSuccess(
+  payment: IPayment,
+  paidAt: Date
+): Promise<void> {
+  await Payment.updateOne(
+    { _id: payment._id, status: { $in: PAYABLE_STATUSES } },
+    { $set: { status: "success", paidAt, updatedAt: new Date() } }
+  );
+}
+
+function isInstallment(context: FulfilmentContext): boolean {
+  return context.metadata.paymentType === "installment";
+}
+
+// Whether this payment paid off the buyer's installment schedule
+function completesSchedule(context: FulfilmentContext): boolean {
+  const { schedule, payment } = context;
+  return (
+    schedule?.status === "completed" &&
+    schedule.completedBy === payment.paystackReference
+  );
+}
+
+// Full payments, and the installment that clears the balance, get their
+// tickets automatically when a signing key is set; otherwise an admin sends
+// them by hand
+function issuesTickets(context: FulfilmentContext): boolean {
+  if (!ticketIssuer.isEnabled()) return false;
+  return !isInstallment(context) || completesSchedule(context);
+}
+
+/**
+ * Mark the order paid, spend any event credit put towards it and record one
+ * sold ticket per attendee. Safe to run again: only the tickets still
+ * missing are recorded.
+ */
+async function fulfilOrder(context: FulfilmentContext): Promise<void> {
+  const { payment, user } = context;
+  const orderId = context.metadata.orderId;
+
+  await Order.updateOne(
+    { _id: orderId, status: { $in: ["pending", "cancelled"] } },
+    {
+      $set: {
+        status: "paid",
+        paidAt: payment.paidAt || new Date(),
+        paymentReference: payment.paystackReference,
+        updatedAt: new Date(),
+      },
+    }
+  );
+
+  const order = await Order.findById(orderId);
+  if (!order) {
+    throw new Error(`Order ${orderId} not found`);
+  }
+  await vouchers.redeem(
+    order,
+    payment.paystackReference,
+    context.ticket.eventId
+  );
+
+  const recorded = await SoldTicket.countDocuments({ orderId: order._id });
+  if (recorded < order.quantity) {
+    await SoldTicket.insertMany(
+      Array.from({ length: order.quantity - recorded }, (_, i) => ({
+        userId: user._id,
+        chatId: user.chatId,
+        paymentId: payment._id.toString(),
+        orderId: order._id,
+        attendeeName: order.attendees[recorded + i]?.name,
+        userEmail: user.email,
+        ticketType: order.ticketType,
+        eventId: context.ticket.eventId,
+        price: order.unitPrice,
+      }))
+    );
+  }
+
+  console.log(
+    `[ORDER] Order ${orderId} paid: ${order.quantity} x ${order.ticketType}`
+  );
+}
+
+/**
+ * Turn the unit held for a plan into a sale with the first payment counted
+ * towards it, whichever link that came through. Later installments, and
+ * payments on a plan that is no longer being paid, sell nothing.
+ */
+async function confirmScheduleStock(payment: IPayment): Promise<void> {
+  const reference = payment.paystackReference;
+  const schedule = await installments.getFor(payment);
+  if (!schedule) return;
+  if (schedule.ledger.some((entry) => entry.paymentReference !== reference)) {
+    return;
+  }
+
+  if (schedule.reservationId) {
+    await inventory.attachPayment(schedule.reservationId.toString(), reference);
+  }
+  await inventory.confirm(reference, schedule.ticketType, 1, schedule.eventId);
+}
+
+/**
+ * Count an installment towards the buyer's schedule and, when it clears the
+ * balance, record the sold ticket for the whole plan
+ */
+async function fulfilSchedule(context: FulfilmentContext): Promise<void> {
+  const { payment, user } = context;
+
+  context.schedule = await installments.apply(payment);
+  if (!context.schedule) {
+    // The plan closed since the run started; the retry flags it for refund
+    throw new Error(
+      `No installment schedule for ${payment.paystackReference} (${payment.chatId})`
+    );
+  }
+  if (!completesSchedule(context)) return;
+
+  const paymentId = payment._id.toString();
+  if (await SoldTicket.exists({ paymentId })) return;
+
+  await SoldTicket.create({
+    userId: user._id,
+    chatId: user.chatId,
+    paymentId,
+    attendeeName: user.name,
+    userEmail: user.email,
+    ticketType: context.schedule.ticketType,
+    eventId: context.schedule.eventId,
+    price: context.schedule.totalAmount,
+  });
+}
+
+const STEPS: Record<
+  FulfilmentStep,
+  (context: FulfilmentContext) => Promise<void>
+> = {
+  // Once per ticket, not per installment
+  async stock(context) {
+    const { payment, metadata, ticket } = context;
+    if (isInstallment(context)) {
+      await confirmScheduleStock(payment);
+      return;
+    }
+
+    // A nudge moves the checkout's hold to its newest link; a late payment
+    // on an older one takes it back rather than selling again
+    if (metadata.reservationId) {
+      await inventory.attachPayment(
+        metadata.reservationId,
+        payment.paystackReference
+      );
+    }
+    await inventory.confirm(
+      payment.paystackReference,
+      ticket.type,
+      metadata.quantity || 1,
+      ticket.eventId
+    );
+  },
+
+  async order(context) {
+    if (context.metadata.orderId) {
+      await fulfilOrder(context);
+    }
+  },
+
+  async schedule(context) {
+    if (isInstallment(context)) {
+      await fulfilSchedule(context);
+    }
+  },
+
+  async waitlist({ payment }) {
+    await waitlist.markConverted(payment.paystackReference);
+  },
+
+  async session(context) {
+    const { payment } = context;
+    // Installment figures were synced from the schedule when it was applied
+    await updateSession(payment.chatId, {
+      ...(!isInstallment(context) && {
+        amountPaid: payment.amount,
+        remainingBalance: 0,
+      }),
+      state: SESSION_STATES.MAIN_MENU,
+    });
+  },
+
+  async confirmation(context) {
+    const { payment, metadata, ticket, schedule } = context;
+    if (isInstallment(context) && schedule) {
+      const next = installments.nextInstallment(schedule);
+      const paidCount = schedule.installments.filter(
+        (installment) => installment.paidAt
+      ).length;
+      await client.sendMessage(
+        payment.chatId,
+        getInstallmentConfirmationMessage(
+          ticket.name,
+          paidCount,
+          schedule.installments.length,
+          schedule.remainingBalance,
+          next ? formatDate(next.dueDate) : "—",
+          schedule.status === "completed"
+        )
+      );
+      return;
+    }
+
+    const quantity = metadata.quantity || 1;
+    const ticketName =
+      quantity > 1 ? `${quantity} x ${ticket.name}` : ticket.name;
+    const delivery = issuesTickets(context)
+      ? "🔳 Your official ticket and QR code are on their way to this chat now."
+      : "👥 An AfroFuture admin will send your official ticket and QR code to this chat shortly.";
+
+    await client.sendMessage(
+      payment.chatId,
+      `✅ Payment Confirmed!\n\n🎫 Ticket: ${ticketName}\n\n${delivery}\n\nThank you for your payment!`
+    );
+  },
+
+  async tickets(context) {
+    if (!issuesTickets(context)) return;
+
+    const { payment } = context;
+    const ticketIds = await ticketIssuer.issueForPayment(
+      payment.paystackReference
+    );
+    if (ticketIds.length > 0) {
+      await updateSession(payment.chatId, { ticketId: ticketIds[0] });
+    }
+
+    const undelivered = await SoldTicket.countDocuments({
+      paymentId: payment._id.toString(),
+      deliveredAt: { $exists: false },
+      issuedBy: { $ne: "admin" },
+    });
+    if (undelivered > 0) {
+      throw new Error(`${undelivered} ticket(s) could not be delivered`);
+    }
+  },
+
+  async receipt({ payment }) {
+    await receipts.deliver(payment);
+  },
+};
+
+// Payment fulfilment: everything owed to a buyer once their payment succeeds
+export const fulfilment = {
+  /**
+   * Record a successful payment. Its fulfilment is opened (once per
+   * payment, however many times it is reported) before the payment is
+   * marked paid, so a crash in between still leaves a record for the retry
+   * scheduler. Returns the payment's fulfilment (new or existing), or null
+   * if the payment isn't ours or was never fulfilled through this flow.
+   */
+  async markPaid(
+    paymentReference: string,
+    paidAt: Date = new Date()
+  ): Promise<IFulfilment | null> {
+    const payment = await Payment.findOne({
+      paystackReference: paymentReference,
+      status: { $in: PAYABLE_STATUSES },
+    });
+
+    if (!payment) {
+      return Fulfilment.findOne({ paymentReference });
+    }
+
+    let record: IFulfilment;
+    try {
+      record = await Fulfilment.findOneAndUpdate(
+        { paymentReference },
+        {
+          $setOnInsert: {
+            chatId: payment.chatId,
+            orderId: payment.metadata?.orderId,
+            status: "paid",
+            paidAt,
+            // Picked up by the retry scheduler if this process dies before running it
+            nextAttemptAt: new Date(Date.now() + LEASE_MS),
+          },
+        },
+        { upsert: true, new: true }
+      );
+    } catch (error: any) {
+      // Opened by a concurrent report of the same payment
+      if (error.code !== 11000) throw error;
+      record = (await Fulfilment.findOne({ paymentReference }))!;
+    }
+
+    await markPaymentSuccess(payment, paidAt);
+    return record;
+  },
+
+  /**
+   * Record a verified payment and deliver what was bought. Safe to call for
+   * every report of the same payment: only the first opens its fulfilment,
+   * and later reports resume one that didn't finish.
+   */
+  async settle(paymentReference: string, paidAt: Date): Promise<void> {
+    const record = await this.markPaid(paymentReference, paidAt);
+    if (record) {
+      await this.run(paymentReference);
+    }
+  },
+
+  /**
+   * Record a payment Paystack reports as failed or abandoned and give its
+   * held tickets to the next person waiting. With `keepHold` the hold stays
+   * with the buyer, so they can retry on a fresh link. Returns false if the
+   * payment was no longer open.
+   */
+  async markUnpaid(
+    paymentReference: string,
+    status: "failed" | "abandoned",
+    options: { reason?: string; keepHold?: boolean } = {}
+  ): Promise<boolean> {
+    // Payments we abandoned when their hold expired can still be confirmed dead
+    const payment = await Payment.findOneAndUpdate(
+      {
+        paystackReference: paymentReference,
+        status: { $in: ["pending", "abandoned"] },
+      },
+      {
+        $set: {
+          status,
+          ...(options.reason && { failureReason: options.reason }),
+          updatedAt: new Date(),
+        },
+      },
+      { new: true }
+    );
+    if (!payment) return false;
+
+    if (options.keepHold) return true;
+    if (await inventory.releaseByReference(paymentReference, status)) {
+      const ticketType = payment.metadata?.ticketType;
+      if (ticketType) {
+        await waitlist.offerNext(ticketType, payment.metadata?.eventId);
+      }
+    }
+    return true;
+  },
+
+  /**
+   * Work through the steps not done yet. Returns null if the fulfilment is
+   * complete or another run is working on it. A failed step is recorded
+   * and retried later from that step.
+   */
+  async run(paymentReference: string): Promise<IFulfilment | null> {
+    const now = new Date();
+    const record = await Fulfilment.findOneAndUpdate(
+      {
+        paymentReference,
+        status: { $ne: "fulfilled" },
+        $or: [{ lockedUntil: null }, { lockedUntil: { $lte: now } }],
+      },
+      {
+        $set: {
+          lockedUntil: new Date(now.getTime() + LEASE_MS),
+          nextAttemptAt: new Date(now.getTime() + LEASE_MS),
+          updatedAt: now,
+        },
+        $inc: { attempts: 1 },
+      },
+      { new: true }
+    );
+    if (!record) return null;
+
+    let currentStep: FulfilmentStep | undefined;
+    try {
+      const payment = await Payment.findOne({
+        paystackReference: paymentReference,
+      });
+      if (!payment) {
+        throw new Error(`Payment ${paymentReference} not found`);
+      }
+      // Opened but not marked paid when the process died
+      if (PAYABLE_STATUSES.includes(payment.status)) {
+        await markPaymentSuccess(payment, record.paidAt);
+        payment.status = "success";
+        payment.paidAt = record.paidAt;
+      }
+
+      const context = await loadContext(payment);
+      if (context.settledElsewhere) {
+        await flagForRefund(context);
+        await Fulfilment.updateOne(
+          { _id: record._id },
+          { $addToSet: { completedSteps: { $each: [...FULFILMENT_STEPS] } } }
+        );
+      } else {
+        for (const step of FULFILMENT_STEPS) {
+          if (record.completedSteps.includes(step)) continue;
+
+          currentStep = step;
+          await STEPS[step](context);
+          await Fulfilment.updateOne(
+            { _id: record._id },
+            { $addToSet: { completedSteps: step } }
+          );
+        }
+      }
+    } catch (error: any) {
+      const exhausted = record.attempts >= env.fulfilmentMaxAttempts;
+      // Back off a little more after each attempt
+      const delay = record.attempts * env.fulfilmentRetryMinutes * 60000;
+
+      console.error(
+        `[FULFILMENT] ${paymentReference} failed at ${
+          currentStep || "setup"
+        } (attempt ${record.attempts}${exhausted ? ", giving up" : ""}):`,
+        error
+      );
+
+      return Fulfilment.findByIdAndUpdate(
+        record._id,
+        {
+          $set: {
+            status: exhausted ? "failed" : "paid",
+            lastError: error?.message || String(error),
+            failedStep: currentStep,
+            lockedUntil: null,
+            nextAttemptAt: exhausted ? null : new Date(Date.now() + delay),
+            updatedAt: new Date(),
+          },
+        },
+        { new: true }
+      );
+    }
+
+    const fulfilledAt = new Date();
+    if (record.orderId) {
+      await Order.updateOne(
+        { _id: record.orderId, status: "paid", paymentReference },
+        { $set: { status: "fulfilled", fulfilledAt, updatedAt: fulfilledAt } }
+      );
+    }
+
+    console.log(`[FULFILMENT] ${paymentReference} fulfilled`);
+    return Fulfilment.findByIdAndUpdate(
+      record._id,
+      {
+        $set: {
+          status: "fulfilled",
+          fulfilledAt,
+          lockedUntil: null,
+          nextAttemptAt: null,
+          updatedAt: fulfilledAt,
+        },
+        $unset: { lastError: "", failedStep: "" },
+      },
+      { new: true }
+    );
+  },
+
+  /**
+   * Retry unfinished fulfilments whose next attempt is due.
+   * Returns how many were completed.
+   */
+  async retryDue(): Promise<number> {
+    const due = await Fulfilment.find({
+      status: "paid",
+      nextAttemptAt: { $lte: new Date() },
+    })
+      .sort({ nextAttemptAt: 1 })
+      .limit(50);
+
+    let fulfilled = 0;
+    for (const record of due) {
+      const result = await this.run(record.paymentReference);
+      if (result?.status === "fulfilled") fulfilled++;
+    }
+
+    return fulfilled;
+  },
+};
@@ -0,0 +1,243 @@
+import {
+  afterEach,
+  beforeEach,
+  describe,
+  expect,
+  mock,
+  spyOn,
+  test,
+} from "bun:test";
+import {
+  InstallmentSchedule,
+  type IInstallmentSchedule,
+} from "../models/InstallmentSchedule.js";
+import type { IPayment } from "../models/Payment.js";
+import { installments } from "./installments.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A 300.00 GA plan in three parts of 120.00, 90.00 and 90.00
+function makeSchedule(): IInstallmentSchedule {
+  const start = new Date("2026-01-01T00:00:00Z");
+  return new InstallmentSchedule({
+    chatId: "233200000000@c.us",
+    ticketType: "GA",
+    planCode: "3",
+    planName: "3 payments",
+    totalAmount: 30000,
+    installments: [12000, 9000, 9000].map((amount, index) => ({
+      number: index + 1,
+      amount,
+      dueDate: new Date(start.getTime() + index * 30 * DAY_MS),
+      paidAmount: 0,
+      remindersSent: [],
+    })),
+    amountPaid: 0,
+    remainingBalance: 30000,
+    finalDeadline: new Date(start.getTime() + 60 * DAY_MS),
+  });
+}
+
+function makePayment(reference: string, amount: number): IPayment {
+  return {
+    chatId: "233200000000@c.us",
+    amount,
+    paystackReference: reference,
+    metadata: { ticketType: "GA" },
+  } as unknown as IPayment;
+}
+
+function paidAmounts(schedule: IInstallmentSchedule): number[] {
+  return schedule.installments.map((installment) => installment.paidAmount);
+}
+
+/**
+ * Stand in for the collection with the one schedule: queries on the ledger
+ * find it once the reference is in it, and updates apply to it only while
+ * their amountPaid filter still matches
+ */
+function useStoredSchedule(schedule: IInstallmentSchedule) {
+  spyOn(InstallmentSchedule, "findOne").mockImplementation(((
+    filter: Record<string, any>
+  ) => {
+    const reference = filter["ledger.paymentReference"];
+    const found = schedule.ledger.some(
+      (entry) => entry.paymentReference === reference
+    );
+    return Promise.resolve(found ? schedule : null);
+  }) as any);
+
+  spyOn(InstallmentSchedule, "findById").mockImplementation((() =>
+    Promise.resolve(schedule)) as any);
+
+  return spyOn(InstallmentSchedule, "findOneAndUpdate").mockImplementation(((
+    filter: Record<string, any>,
+    update: Record<string, any>
+  ) => {
+    if (
+      filter.amountPaid !== undefined &&
+      filter.amountPaid !== schedule.amountPaid
+    ) {
+      return Promise.resolve(null);
+    }
+    if (update.$push) {
+      schedule.ledger.push(update.$push.ledger);
+      schedule.amountPaid += update.$inc.amountPaid;
+    } else if (update.$inc) {
+      const entry = schedule.ledger.find(
+        (entry) => entry.paymentReference === filter["ledger.paymentReference"]
+      );
+      if (!entry) return Promise.resolve(null);
+      entry.refundedAmount =
+        (entry.refundedAmount || 0) + update.$inc["ledger.$.refundedAmount"];
+      schedule.amountPaid += update.$inc.amountPaid;
+    }
+    if (update.$set) {
+      schedule.set(update.$set);
+    }
+    return Promise.resolve(schedule);
+  }) as any);
+}
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe("installments.apply", () => {
+  let schedule: IInstallmentSchedule;
+
+  beforeEach(() => {
+    schedule = makeSchedule();
+    spyOn(installments, "syncSession").mockResolvedValue(undefined);
+  });
+
+  test("pays off the first installment", async () => {
+    useStoredSchedule(schedule);
+
+    const result = await installments.apply(makePayment("ref-1", 12000));
+
+    expect(result!.amountPaid).toBe(12000);
+    expect(result!.remainingBalance).toBe(18000);
+    expect(paidAmounts(result!)).toEqual([12000, 0, 0]);
+    expect(result!.installments[0]!.paidAt).toBeInstanceOf(Date);
+    expect(result!.status).toBe("active");
+    expect(installments.amountDue(result!)).toBe(9000);
+    expect(installments.isSettled(result!)).toBe(true);
+  });
+
+  test("carries an overpayment into the next installments", async () => {
+    useStoredSchedule(schedule);
+
+    const result = await installments.apply(makePayment("ref-1", 15000));
+
+    expect(paidAmounts(result!)).toEqual([12000, 3000, 0]);
+    expect(result!.installments[1]!.paidAt).toBeUndefined();
+    expect(installments.amountDue(result!)).toBe(6000);
+    expect(installments.nextInstallment(result!)?.number).toBe(2);
+  });
+
+  test("completes the plan on the payment that clears it", async () => {
+    useStoredSchedule(schedule);
+
+    await installments.apply(makePayment("ref-1", 12000));
+    await installments.apply(makePayment("ref-2", 9000));
+    const result = await installments.apply(makePayment("ref-3", 9000));
+
+    expect(result!.amountPaid).toBe(30000);
+    expect(result!.remainingBalance).toBe(0);
+    expect(paidAmounts(result!)).toEqual([12000, 9000, 9000]);
+    expect(result!.status).toBe("completed");
+    expect(result!.completedBy).toBe("ref-3");
+    expect(installments.amountDue(result!)).toBe(0);
+  });
+
+  test("counts a payment reported twice only once", async () => {
+    const findOneAndUpdate = useStoredSchedule(schedule);
+
+    await installments.apply(makePayment("ref-1", 12000));
+    const writes = findOneAndUpdate.mock.calls.length;
+    const result = await installments.apply(makePayment("ref-1", 12000));
+
+    expect(result!.amountPaid).toBe(12000);
+    expect(result!.ledger).toHaveLength(1);
+    expect(findOneAndUpdate.mock.calls.length).toBe(writes);
+  });
+
+  test("settles a payment entered by a run that stopped part-way", async () => {
+    useStoredSchedule(schedule);
+    schedule.ledger.push({
+      paymentReference: "ref-1",
+      amount: 12000,
+      paidAt: new Date(),
+      appliedAt: new Date(),
+    });
+    schedule.amountPaid = 12000;
+    expect(installments.isSettled(schedule)).toBe(false);
+
+    const result = await installments.apply(makePayment("ref-1", 12000));
+
+    expect(result!.ledger).toHaveLength(1);
+    expect(result!.remainingBalance).toBe(18000);
+    expect(paidAmounts(result!)).toEqual([12000, 0, 0]);
+  });
+});
+
+describe("installments.refund", () => {
+  let schedule: IInstallmentSchedule;
+
+  beforeEach(() => {
+    schedule = makeSchedule();
+    spyOn(installments, "syncSession").mockResolvedValue(undefined);
+    useStoredSchedule(schedule);
+  });
+
+  test("takes a refund off the balance it paid", async () => {
+    await installments.apply(makePayment("ref-1", 12000));
+    await installments.apply(makePayment("ref-2", 9000));
+
+    const result = await installments.refund("ref-2", 4000);
+
+    expect(result!.amountPaid).toBe(17000);
+    expect(result!.remainingBalance).toBe(13000);
+    expect(result!.ledger[1]!.refundedAmount).toBe(4000);
+    expect(paidAmounts(result!)).toEqual([12000, 5000, 0]);
+    expect(result!.installments[1]!.paidAt).toBeUndefined();
+    expect(installments.amountDue(result!)).toBe(4000);
+  });
+
+  test("puts a failed refund back", async () => {
+    await installments.apply(makePayment("ref-1", 12000));
+    await installments.refund("ref-1", 12000);
+
+    const result = await installments.refund("ref-1", -12000);
+
+    expect(result!.amountPaid).toBe(12000);
+    expect(result!.ledger[0]!.refundedAmount).toBe(0);
+    expect(paidAmounts(result!)).toEqual([12000, 0, 0]);
+  });
+
+  test("ignores a payment that isn't on a schedule", async () => {
+    expect(await installments.refund("ref-9", 1000)).toBeNull();
+  });
+});
+
+describe("installments.settle", () => {
+  test("starts over when a payment lands in the meantime", async () => {
+    const schedule = makeSchedule();
+    spyOn(installments, "syncSession").mockResolvedValue(undefined);
+    const findOneAndUpdate = useStoredSchedule(schedule);
+
+    // Settling on 12000 paid, while another 9000 has just been counted
+    const stale = makeSchedule();
+    stale._id = schedule._id;
+    stale.amountPaid = 12000;
+    schedule.amountPaid = 21000;
+
+    const result = await installments.settle(stale, "ref-2");
+
+    expect(findOneAndUpdate).toHaveBeenCalledTimes(2);
+    expect(result.remainingBalance).toBe(9000);
+    expect(paidAmounts(result)).toEqual([12000, 9000, 0]);
+    expect(installments.syncSession).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,548 @@
+import type mongoose from "mongoose";
+import {
+  InstallmentPlan,
+  type IInstallmentPlan,
+  type IInstallmentSplit,
+} from "../models/InstallmentPlan.js";
+import {
+  InstallmentSchedule,
+  type IInstallmentSchedule,
+  type IScheduledInstallment,
+  type IScheduleTierPrice,
+} from "../models/InstallmentSchedule.js";
+import type { IPayment } from "../models/Payment.js";
+import type { ICustomPlanRequest } from "../models/CustomPlanRequest.js";
+import type { ITicket } from "../models/Ticket.js";
+import { Event } from "../models/Event.js";
+import { User } from "../models/User.js";
+import { inventory } from "./inventory.js";
+import { pricing } from "./pricing.js";
+import { paymentLinks, type PaymentLink } from "./paymentLinks.js";
+import { EVENT_CONFIG } from "../config/constants.js";
+import { env } from "../config/env.js";
+import { ValidationError } from "../errors/AppError.js";
+import { updateSession } from "../utils/session.js";
+import { getActiveTickets } from "../utils/ticketCatalog.js";
+import { formatDate } from "../utils/date.js";
+import { allocate, DEFAULT_CURRENCY, formatMoney } from "../utils/money.js";
+import type { UserSession } from "../types/session.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// What buyers reply to ask for a schedule of their own
+export const CUSTOM_PLAN_CODE = "C";
+
+export interface PlannedInstallment {
+  number: number;
+  percent: number;
+  amount: number; // Pesewas
+  dueDate: Date;
+}
+
+/**
+ * When a split falls due for a buyer signing up at `start`: a number of
+ * days later, but never after the plan's final deadline
+ */
+function dueDateFor(
+  split: IInstallmentSplit,
+  start: Date,
+  deadline: Date
+): Date {
+  if (split.dueAfterDays === undefined || split.dueAfterDays === null) {
+    return deadline;
+  }
+  const due = new Date(start.getTime() + split.dueAfterDays * DAY_MS);
+  return due < deadline ? due : deadline;
+}
+
+// The first installment not fully paid yet
+function nextUnpaid(
+  schedule: IInstallmentSchedule
+): IScheduledInstallment | undefined {
+  return schedule.installments.find((i) => i.paidAmount < i.amount);
+}
+
+/**
+ * Spread what has been paid over the installments in order, so an early or
+ * larger payment covers later ones too
+ */
+function allocatePaid(
+  installments: IScheduledInstallment[],
+  amountPaid: number,
+  at: Date
+): IScheduledInstallment[] {
+  let left = amountPaid;
+  return installments.map((installment) => {
+    const paidAmount = Math.min(installment.amount, Math.max(0, left));
+    left -= paidAmount;
+    return {
+      number: installment.number,
+      amount: installment.amount,
+      dueDate: installment.dueDate,
+      paidAmount,
+      paidAt:
+        paidAmount >= installment.amount
+          ? installment.paidAt || at
+          : undefined,
+      remindersSent: installment.remindersSent || [],
+    };
+  });
+}
+
+/**
+ * The installments, balance and status a schedule should have for what has
+ * been paid on it
+ */
+function settlementFor(schedule: IInstallmentSchedule, at: Date) {
+  const remainingBalance = Math.max(
+    0,
+    schedule.totalAmount - schedule.amountPaid
+  );
+  return {
+    installments: allocatePaid(schedule.installments, schedule.amountPaid, at),
+    remainingBalance,
+    completed: remainingBalance === 0 && schedule.status === "active",
+  };
+}
+
+interface ScheduleTerms {
+  planId?: mongoose.Types.ObjectId;
+  planCode: string;
+  planName: string;
+  totalAmount: number; // Pesewas
+  coupon?: string;
+  installments: { amount: number; dueDate: Date }[];
+  finalDeadline: Date;
+}
+
+/**
+ * What the event's other tiers cost right now. A buyer who misses their
+ * deadline is moved down on these prices, not on whatever they cost then.
+ */
+async function getTierPrices(ticket: ITicket): Promise<IScheduleTierPrice[]> {
+  const tiers = await getActiveTickets(ticket.eventId);
+  return Promise.all(
+    tiers
+      .filter((tier) => tier.type !== ticket.type)
+      .map(async (tier) => ({
+        ticketType: tier.type,
+        price: (await pricing.resolve(tier)).price,
+      }))
+  );
+}
+
+// The buyer's schedule still being paid off for the ticket a payment is for
+function activeScheduleFilter(payment: IPayment) {
+  const ticketType = payment.metadata?.ticketType || payment.ticketType;
+  return {
+    chatId: payment.chatId,
+    ...(ticketType ? { ticketType: ticketType.toUpperCase() } : {}),
+    ...(payment.eventId && { eventId: payment.eventId }),
+    status: "active",
+  };
+}
+
+/**
+ * Open a buyer's schedule for one ticket. A schedule they started earlier
+ * and never paid anything on is cancelled; one with payments is kept, so
+ * nobody loses what they paid by starting over.
+ */
+async function createSchedule(
+  chatId: string,
+  ticket: ITicket,
+  terms: ScheduleTerms
+): Promise<IInstallmentSchedule> {
+  const existing = await installments.getActive(chatId);
+  if (existing && existing.amountPaid > 0) {
+    throw new ValidationError(
+      "💳 You already have an installment plan in progress. Type *menu* and choose *2* to see your balance and pay the next installment."
+    );
+  }
+
+  if (existing) {
+    existing.status = "cancelled";
+    await existing.save();
+    if (existing.reservationId) {
+      await inventory.releaseById(
+        existing.reservationId.toString(),
+        "abandoned"
+      );
+    }
+  }
+
+  const tierPrices = await getTierPrices(ticket);
+
+  // Hold a unit as a checkout does, so plans can't sell more than the stock
+  const hold = await inventory.hold(ticket, 1, chatId);
+  const holdId = hold._id.toString();
+
+  let schedule: IInstallmentSchedule;
+  try {
+    const user = await User.findOne({ chatId });
+    schedule = await InstallmentSchedule.create({
+      chatId,
+      userId: user?._id,
+      ticketType: ticket.type,
+      eventId: ticket.eventId,
+      planId: terms.planId,
+      planCode: terms.planCode,
+      planName: terms.planName,
+      totalAmount: terms.totalAmount,
+      currency: ticket.currency || DEFAULT_CURRENCY,
+      coupon: terms.coupon,
+      tierPrices,
+      installments: terms.installments.map((installment, index) => ({
+        number: index + 1,
+        amount: installment.amount,
+        dueDate: installment.dueDate,
+        paidAmount: 0,
+        remindersSent: [],
+      })),
+      amountPaid: 0,
+      remainingBalance: terms.totalAmount,
+      finalDeadline: terms.finalDeadline,
+      reservationId: hold._id,
+    });
+  } catch (error) {
+    await inventory.releaseById(holdId, "failed");
+    throw error;
+  }
+
+  await installments.syncSession(schedule);
+  console.log(
+    `[INSTALLMENTS] ${chatId} started plan ${terms.planCode} for ${ticket.type} (${schedule.installments.length} payments)`
+  );
+  return schedule;
+}
+
+// Installment plans and each buyer's payment schedule and ledger
+export const installments = {
+  /**
+   * The last day a tier can be paid off in installments, unless a plan sets
+   * its own: the event's installment deadline
+   */
+  async getEventDeadline(ticket: Pick<ITicket, "eventId">): Promise<Date> {
+    const event = ticket.eventId ? await Event.findById(ticket.eventId) : null;
+    return event?.installmentDeadline || EVENT_CONFIG.installmentDeadline;
+  },
+
+  /**
+   * The last day a tier's plan can be paid off: the plan's own deadline,
+   * else the event's installment deadline
+   */
+  async getDeadline(
+    plan: IInstallmentPlan,
+    ticket: Pick<ITicket, "eventId">
+  ): Promise<Date> {
+    return plan.finalDeadline || this.getEventDeadline(ticket);
+  },
+
+  /**
+   * Plans a buyer can sign up to for a tier right now (active, and with the
+   * final deadline still ahead), in code order
+   */
+  async getPlans(ticket: ITicket): Promise<IInstallmentPlan[]> {
+    const plans = await InstallmentPlan.find({
+      ticketId: ticket._id,
+      isActive: true,
+    }).sort({ code: 1 });
+
+    const now = new Date();
+    const open: IInstallmentPlan[] = [];
+    for (const plan of plans) {
+      if ((await this.getDeadline(plan, ticket)) > now) open.push(plan);
+    }
+    return open;
+  },
+
+  /**
+   * What each payment of a plan would be, and when it would be due, for a
+   * buyer signing up now at the given price
+   */
+  preview(
+    plan: Pick<IInstallmentPlan, "splits">,
+    total: number,
+    deadline: Date,
+    start: Date = new Date()
+  ): PlannedInstallment[] {
+    const amounts = allocate(
+      total,
+      plan.splits.map((split) => split.percent)
+    );
+    return plan.splits.map((split, index) => ({
+      number: index + 1,
+      percent: split.percent,
+      amount: amounts[index]!,
+      dueDate: index === 0 ? start : dueDateFor(split, start, deadline),
+    }));
+  },
+
+  /**
+   * Put a buyer on a plan for one ticket
+   */
+  async start(
+    chatId: string,
+    ticket: ITicket,
+    plan: IInstallmentPlan,
+    totalAmount: number,
+    coupon?: string
+  ): Promise<IInstallmentSchedule> {
+    const deadline = await this.getDeadline(plan, ticket);
+    return createSchedule(chatId, ticket, {
+      planId: plan._id as mongoose.Types.ObjectId,
+      planCode: plan.code,
+      planName: plan.name,
+      totalAmount,
+      coupon,
+      installments: this.preview(plan, totalAmount, deadline),
+      finalDeadline: deadline,
+    });
+  },
+
+  /**
+   * Put a buyer on the custom plan an admin approved for them
+   */
+  async startCustom(
+    request: ICustomPlanRequest,
+    ticket: ITicket
+  ): Promise<IInstallmentSchedule> {
+    return createSchedule(request.chatId, ticket, {
+      planCode: CUSTOM_PLAN_CODE,
+      planName: "Custom",
+      totalAmount: request.totalAmount,
+      coupon: request.coupon,
+      installments: request.installments,
+      finalDeadline: request.finalDeadline,
+    });
+  },
+
+  /**
+   * The link for a new schedule's first installment, tied to the unit held
+   * for it so the first payment turns the hold into the sale. The hold goes
+   * back on sale if the link can't be created.
+   */
+  async firstPaymentLink(
+    schedule: IInstallmentSchedule
+  ): Promise<PaymentLink & { holdMinutes: number }> {
+    const first = schedule.installments[0]!;
+    const holdId = schedule.reservationId?.toString();
+    try {
+      const link = await paymentLinks.get(first.amount, schedule.chatId, {
+        ticketType: schedule.ticketType,
+        eventId: schedule.eventId?.toString(),
+        paymentType: "installment",
+        installmentNumber: first.number,
+      });
+      if (holdId) await inventory.attachPayment(holdId, link.reference);
+      return { ...link, holdMinutes: env.reservationTtlMinutes };
+    } catch (error) {
+      if (holdId) await inventory.releaseById(holdId, "link_failed");
+      throw error;
+    }
+  },
+
+  /**
+   * The buyer's schedule that is still being paid off, if any
+   */
+  async getActive(chatId: string): Promise<IInstallmentSchedule | null> {
+    return InstallmentSchedule.findOne({ chatId, status: "active" }).sort({
+      createdAt: -1,
+    });
+  },
+
+  /**
+   * The schedule an installment payment is for: the one it was counted
+   * towards, else the buyer's schedule for that ticket still being paid off.
+   * Null if it has none, e.g. the plan was paid off on another link.
+   */
+  async getFor(payment: IPayment): Promise<IInstallmentSchedule | null> {
+    const counted = await InstallmentSchedule.findOne({
+      "ledger.paymentReference": payment.paystackReference,
+    });
+    return (
+      counted ??
+      InstallmentSchedule.findOne(activeScheduleFilter(payment)).sort({
+        createdAt: -1,
+      })
+    );
+  },
+
+  /**
+   * Count a successful installment payment towards the buyer's schedule.
+   * Safe to call more than once for the same payment: it is only entered in
+   * the ledger once. Returns the schedule, or null if the payment doesn't
+   * belong to one.
+   */
+  async apply(payment: IPayment): Promise<IInstallmentSchedule | null> {
+    const reference = payment.paystackReference;
+    const already = await InstallmentSchedule.findOne({
+      "ledger.paymentReference": reference,
+    });
+    if (already) {
+      // An earlier run may have entered it but failed to settle
+      return this.isSettled(already)
+        ? already
+        : this.settle(already, reference);
+    }
+
+    const schedule = await InstallmentSchedule.findOneAndUpdate(
+      {
+        ...activeScheduleFilter(payment),
+        "ledger.paymentReference": { $ne: reference },
+      },
+      {
+        $push: {
+          ledger: {
+            paymentReference: reference,
+            amount: payment.amount,
+            installmentNumber:
+              payment.metadata?.installmentNumber ?? payment.installmentNumber,
+            paidAt: payment.paidAt || new Date(),
+            appliedAt: new Date(),
+          },
+        },
+        $inc: { amountPaid: payment.amount },
+      },
+      { new: true, sort: { createdAt: -1 } }
+    );
+    if (!schedule) {
+      // Raced with another report of the same payment
+      return InstallmentSchedule.findOne({
+        "ledger.paymentReference": reference,
+      });
+    }
+
+    return this.settle(schedule, reference);
+  },
+
+  /**
+   * Take money given back on a payment (a refund or a lost chargeback) off
+   * the schedule it counted towards, so the balance and whatever a missed
+   * deadline credits to the wallet no longer include it. A negative amount
+   * puts back a refund that failed. Returns null if the payment wasn't an
+   * installment.
+   */
+  async refund(
+    paymentReference: string,
+    amount: number
+  ): Promise<IInstallmentSchedule | null> {
+    const schedule = await InstallmentSchedule.findOneAndUpdate(
+      { "ledger.paymentReference": paymentReference },
+      { $inc: { "ledger.$.refundedAmount": amount, amountPaid: -amount } },
+      { new: true }
+    );
+    if (!schedule) return null;
+
+    console.log(
+      `[INSTALLMENTS] ${formatMoney(Math.abs(amount))} of ${paymentReference} ${
+        amount > 0 ? "taken off" : "put back on"
+      } ${schedule.chatId}'s ${schedule.ticketType} plan`
+    );
+    return this.settle(schedule);
+  },
+
+  /**
+   * Bring the installments, balance and status in line with what has been
+   * paid. Writes only if nothing was paid in the meantime, and starts over
+   * if something was.
+   */
+  async settle(
+    schedule: IInstallmentSchedule,
+    reference?: string
+  ): Promise<IInstallmentSchedule> {
+    let current: IInstallmentSchedule | null = schedule;
+    for (let attempt = 0; attempt < 3 && current; attempt++) {
+      const now = new Date();
+      const { installments: allocated, remainingBalance, completed } =
+        settlementFor(current, now);
+
+      const updated: IInstallmentSchedule | null =
+        await InstallmentSchedule.findOneAndUpdate(
+          { _id: current._id, amountPaid: current.amountPaid },
+          {
+            $set: {
+              installments: allocated,
+              remainingBalance,
+              ...(completed
+                ? { status: "completed", completedAt: now, completedBy: reference }
+                : {}),
+            },
+          },
+          { new: true }
+        );
+
+      if (updated) {
+        await this.syncSession(updated);
+        if (completed) {
+          console.log(
+            `[INSTALLMENTS] ${updated.chatId} paid off ${updated.ticketType} (${reference})`
+          );
+        }
+        return updated;
+      }
+      current = await InstallmentSchedule.findById(schedule._id);
+    }
+    throw new Error(`Could not settle installment schedule ${schedule._id}`);
+  },
+
+  /**
+   * Whether the installments, balance and status match what has been paid
+   */
+  isSettled(schedule: IInstallmentSchedule): boolean {
+    const expected = settlementFor(schedule, new Date());
+    return (
+      !expected.completed &&
+      schedule.remainingBalance === expected.remainingBalance &&
+      expected.installments.every(
+        (installment, index) =>
+          installment.paidAmount === schedule.installments[index]?.paidAmount
+      )
+    );
+  },
+
+  /**
+   * Pesewas the buyer should pay next: what is left of the next installment
+   */
+  amountDue(schedule: IInstallmentSchedule): number {
+    const next = nextUnpaid(schedule);
+    return next ? next.amount - next.paidAmount : 0;
+  },
+
+  /**
+   * The first installment not fully paid yet
+   */
+  nextInstallment(
+    schedule: IInstallmentSchedule
+  ): IScheduledInstallment | undefined {
+    return nextUnpaid(schedule);
+  },
+
+  /**
+   * The schedule's figures as they are cached in the buyer's chat session,
+   * where the menus and reminder messages read them
+   */
+  sessionFields(schedule: IInstallmentSchedule): Partial<UserSession> {
+    const next = nextUnpaid(schedule);
+    return {
+      ticketType: schedule.ticketType,
+      eventId: schedule.eventId?.toString(),
+      paymentType: "installment",
+      installmentPlan: schedule.planCode,
+      totalPrice: schedule.totalAmount,
+      amountPaid: schedule.amountPaid,
+      remainingBalance: schedule.remainingBalance,
+      amountDue: this.amountDue(schedule),
+      installmentNumber: next?.number ?? schedule.installments.length,
+      totalInstallments: schedule.installments.length,
+      nextDueDate: next ? formatDate(next.dueDate) : undefined,
+      nextDueDateISO: next ? next.dueDate.toISOString() : undefined,
+    };
+  },
+
+  /**
+   * Copy the schedule's figures into the buyer's stored chat session
+   */
+  async syncSession(schedule: IInstallmentSchedule): Promise<void> {
+    await updateSession(schedule.chatId, this.sessionFields(schedule));
+  },
+};
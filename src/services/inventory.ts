@@ -0,0 +1,414 @@
+import mongoose from "mongoose";
+import {
+  Ticket,
+  remainingStockExpr,
+  getRemainingStock,
+  type ITicket,
+} from "../models/Ticket.js";
+import { StockAdjustment } from "../models/StockAdjustment.js";
+import {
+  Reservation,
+  type IReservation,
+} from "../models/Reservation.js";
+import { Payment } from "../models/Payment.js";
+import { pricing } from "./pricing.js";
+import { env } from "../config/env.js";
+import { StockError } from "../errors/AppError.js";
+
+type ReleaseReason = NonNullable<IReservation["releaseReason"]>;
+type EventRef = mongoose.Types.ObjectId | string | null;
+
+/**
+ * Match a tier by type within its event. Types repeat across events, so
+ * only records from before sales kept their event go by type alone.
+ */
+function tierFilter(ticketType: string, eventId?: EventRef) {
+  return { type: ticketType.toUpperCase(), ...(eventId && { eventId }) };
+}
+
+/**
+ * Flip a held reservation to released and give its units back to the tier.
+ * The status filter makes this race-safe against a concurrent conversion:
+ * only one of release/convert can ever win for a given hold.
+ */
+async function releaseWhere(
+  filter: Record<string, any>,
+  reason: ReleaseReason
+): Promise<IReservation | null> {
+  const reservation = await Reservation.findOneAndUpdate(
+    { ...filter, status: "held" },
+    {
+      $set: {
+        status: "released",
+        releaseReason: reason,
+        releasedAt: new Date(),
+        updatedAt: new Date(),
+      },
+    },
+    { new: true }
+  );
+
+  if (!reservation) {
+    return null;
+  }
+
+  await Ticket.updateOne(
+    tierFilter(reservation.ticketType, reservation.eventId),
+    {
+      $inc: {
+        reserved: -reservation.quantity,
+        available: reservation.quantity,
+      },
+    }
+  );
+
+  if (reservation.pricingPhaseId) {
+    await pricing.releaseClaim(
+      reservation.pricingPhaseId.toString(),
+      reservation.quantity
+    );
+  }
+
+  console.log(
+    `[INVENTORY] Released ${reservation.quantity} x ${reservation.ticketType} (${reason})`,
+    { reservationId: reservation._id.toString() }
+  );
+
+  return reservation;
+}
+
+/**
+ * Count units as sold without a matching hold (hold expired, or the link
+ * was created outside the bot checkout). Never blocks a paid buyer.
+ */
+async function recordUnreservedSale(
+  ticketType: string,
+  quantity: number,
+  eventId?: EventRef
+): Promise<void> {
+  const result = await Ticket.updateOne(
+    {
+      ...tierFilter(ticketType, eventId),
+      $expr: { $gte: [remainingStockExpr, quantity] },
+    },
+    { $inc: { sold: quantity, available: -quantity } }
+  );
+
+  if (result.modifiedCount === 0) {
+    // Paid but no stock left: still record the sale so counts stay truthful
+    await Ticket.updateOne(tierFilter(ticketType, eventId), {
+      $inc: { sold: quantity, available: -quantity },
+    });
+    console.warn(
+      `[INVENTORY] Oversold ${ticketType}: recorded ${quantity} sale(s) with no stock left`
+    );
+  }
+}
+
+// Inventory operations for checkout holds
+export const inventory = {
+  /**
+   * Atomically hold units of a ticket tier for a buyer, priced at the
+   * phase running right now. Throws StockError when fewer than
+   * `quantity` units are free.
+   */
+  async hold(
+    tier: Pick<ITicket, "_id" | "type">,
+    quantity: number,
+    chatId: string,
+    ttlMinutes: number = env.reservationTtlMinutes
+  ): Promise<IReservation> {
+    const ticket = await Ticket.findOneAndUpdate(
+      {
+        _id: tier._id,
+        isActive: true,
+        $expr: { $gte: [remainingStockExpr, quantity] },
+      },
+      { $inc: { reserved: quantity, available: -quantity } },
+      { new: true }
+    );
+
+    if (!ticket) {
+      throw new StockError(
+        `❌ *Sorry, there aren't enough ${tier.type} tickets left.*\n\nPlease choose another ticket type, or type *menu* to return to the main menu.`
+      );
+    }
+
+    const quote = await pricing.claim(ticket, quantity);
+
+    const reservation = await Reservation.create({
+      ticketType: ticket.type,
+      eventId: ticket.eventId,
+      quantity,
+      chatId,
+      unitPrice: quote.price,
+      pricingPhaseId: quote.phase?._id,
+      expiresAt: new Date(Date.now() + ttlMinutes * 60 * 1000),
+    });
+
+    console.log(`[INVENTORY] Held ${quantity} x ${ticket.type} for ${chatId}`, {
+      reservationId: reservation._id.toString(),
+      expiresAt: reservation.expiresAt,
+    });
+
+    return reservation;
+  },
+
+  /**
+   * Tie a hold to the payment reference created for it
+   */
+  async attachPayment(
+    reservationId: string,
+    paymentReference: string
+  ): Promise<void> {
+    await Reservation.updateOne(
+      { _id: reservationId },
+      { $set: { paymentReference, updatedAt: new Date() } }
+    );
+  },
+
+  /**
+   * Turn the hold for a paid reference into a sale.
+   * If the hold already expired (or never existed), the units are sold
+   * directly from stock instead.
+   */
+  async confirm(
+    paymentReference: string,
+    ticketType: string,
+    quantity: number = 1,
+    eventId?: EventRef
+  ): Promise<void> {
+    const reservation = await Reservation.findOneAndUpdate(
+      { paymentReference, status: "held" },
+      {
+        $set: {
+          status: "converted",
+          convertedAt: new Date(),
+          updatedAt: new Date(),
+        },
+      },
+      { new: true }
+    );
+
+    if (reservation) {
+      // Units move from reserved to sold; available is unchanged
+      await Ticket.updateOne(
+        tierFilter(reservation.ticketType, reservation.eventId),
+        {
+          $inc: {
+            reserved: -reservation.quantity,
+            sold: reservation.quantity,
+          },
+        }
+      );
+      if (reservation.pricingPhaseId) {
+        await pricing.convertClaim(
+          reservation.pricingPhaseId.toString(),
+          reservation.quantity
+        );
+      }
+      console.log(
+        `[INVENTORY] Converted hold for ${paymentReference} into ${reservation.quantity} sale(s)`
+      );
+      return;
+    }
+
+    const existing = await Reservation.findOne({ paymentReference });
+    if (existing?.status === "converted") {
+      return; // Already counted
+    }
+
+    await recordUnreservedSale(
+      existing?.ticketType || ticketType,
+      existing?.quantity || quantity,
+      existing?.eventId ?? eventId
+    );
+
+    // The buyer paid the price quoted with the (released) hold
+    if (existing?.pricingPhaseId) {
+      await pricing.recordSale(
+        existing.pricingPhaseId.toString(),
+        existing.quantity
+      );
+    }
+  },
+
+  /**
+   * Release the hold for a payment reference (abandoned or failed payment)
+   */
+  async releaseByReference(
+    paymentReference: string,
+    reason: ReleaseReason
+  ): Promise<boolean> {
+    return !!(await releaseWhere({ paymentReference }, reason));
+  },
+
+  /**
+   * Release a hold by its ID (e.g. when creating the payment link failed)
+   */
+  async releaseById(
+    reservationId: string,
+    reason: ReleaseReason
+  ): Promise<boolean> {
+    return !!(await releaseWhere({ _id: reservationId }, reason));
+  },
+
+  /**
+   * Put units sold on a refunded payment back on sale
+   */
+  async returnSold(
+    ticketType: string,
+    quantity: number,
+    eventId?: EventRef
+  ): Promise<void> {
+    await Ticket.updateOne(tierFilter(ticketType, eventId), {
+      $inc: { sold: -quantity, available: quantity },
+    });
+
+    console.log(`[INVENTORY] Returned ${quantity} x ${ticketType} to stock`);
+  },
+
+  /**
+   * Move a sold unit to another tier, e.g. when a buyer who missed their
+   * installment deadline gets a lower tier. The new tier counts the sale
+   * even if it has no stock left.
+   */
+  async moveSold(
+    fromType: string,
+    toType: string,
+    eventId?: EventRef
+  ): Promise<void> {
+    await Ticket.updateOne(tierFilter(fromType, eventId), {
+      $inc: { sold: -1, available: 1 },
+    });
+    await recordUnreservedSale(toType, 1, eventId);
+
+    console.log(`[INVENTORY] Moved a sold unit from ${fromType} to ${toType}`);
+  },
+
+  /**
+   * Count units as sold again after a refund fell through. The buyer
+   * keeps their tickets even if the units were resold meanwhile.
+   */
+  async reclaimSold(
+    ticketType: string,
+    quantity: number,
+    eventId?: EventRef
+  ): Promise<void> {
+    await recordUnreservedSale(ticketType, quantity, eventId);
+  },
+
+  /**
+   * Change a tier's total or withheld quantity and record why.
+   * The update is refused if it would leave fewer public units than are
+   * already sold or reserved.
+   */
+  async adjustStock(
+    ticketId: string,
+    changes: { totalQuantity?: number; withheldQuantity?: number },
+    reason: string,
+    admin?: { id?: string; email?: string }
+  ): Promise<ITicket> {
+    const current = await Ticket.findById(ticketId);
+    if (!current) {
+      throw new StockError("Ticket not found");
+    }
+
+    const totalQuantity = changes.totalQuantity ?? current.totalQuantity;
+    const withheldQuantity =
+      changes.withheldQuantity ?? (current.withheldQuantity || 0);
+
+    const previous = await Ticket.findOneAndUpdate(
+      {
+        _id: ticketId,
+        $expr: {
+          $gte: [
+            totalQuantity - withheldQuantity,
+            { $add: ["$sold", { $ifNull: ["$reserved", 0] }] },
+          ],
+        },
+      },
+      [
+        {
+          $set: {
+            totalQuantity,
+            withheldQuantity,
+            updatedAt: new Date(),
+          },
+        },
+        { $set: { available: { $max: [0, remainingStockExpr] } } },
+      ],
+      { new: false, updatePipeline: true }
+    );
+
+    if (!previous) {
+      const committed = current.sold + (current.reserved || 0);
+      throw new StockError(
+        `Stock for sale (total minus withheld) cannot be lower than ${committed} (sold + currently reserved)`
+      );
+    }
+
+    const entries = [
+      {
+        field: "totalQuantity" as const,
+        previousValue: previous.totalQuantity,
+        newValue: totalQuantity,
+      },
+      {
+        field: "withheldQuantity" as const,
+        previousValue: previous.withheldQuantity || 0,
+        newValue: withheldQuantity,
+      },
+    ].filter((entry) => entry.previousValue !== entry.newValue);
+
+    if (entries.length > 0) {
+      await StockAdjustment.insertMany(
+        entries.map((entry) => ({
+          ...entry,
+          ticketId: previous._id,
+          ticketType: previous.type,
+          delta: entry.newValue - entry.previousValue,
+          reason,
+          adjustedBy: admin?.id,
+          adjustedByEmail: admin?.email,
+        }))
+      );
+    }
+
+    const updated = (await Ticket.findById(ticketId))!;
+    console.log(
+      `[INVENTORY] Stock adjusted for ${updated.type}: ${getRemainingStock(
+        updated
+      )} remaining (${reason})`
+    );
+
+    return updated;
+  },
+
+  /**
+   * Release every hold past its TTL and mark the unpaid payments abandoned.
+   * Returns the number of holds released.
+   */
+  async releaseExpired(): Promise<number> {
+    let released = 0;
+
+    while (true) {
+      const reservation = await releaseWhere(
+        { expiresAt: { $lte: new Date() } },
+        "expired"
+      );
+      if (!reservation) break;
+
+      released++;
+
+      if (reservation.paymentReference) {
+        await Payment.updateOne(
+          { paystackReference: reservation.paymentReference, status: "pending" },
+          { $set: { status: "abandoned", updatedAt: new Date() } }
+        );
+      }
+    }
+
+    return released;
+  },
+};
@@ -0,0 +1,120 @@
+import { Payment } from "../models/Payment.js";
+import { backend } from "./backend.js";
+
+// A reused link must stay open long enough for the buyer to act on it
+const MIN_REMAINING_MS = 60 * 60 * 1000;
+
+// What a link pays for; a buyer has at most one open link per purpose
+export interface PaymentPurpose {
+  ticketType: string;
+  eventId?: string; // Event the ticket type is sold for
+  paymentType: "full" | "installment";
+  installmentNumber?: number;
+}
+
+export interface PaymentLink {
+  paymentLink: string;
+  reference: string;
+  expiresAt: Date; // Handed out again until then
+  reused: boolean; // An open link was handed out again
+}
+
+// Open links for a purpose. Checkout links (with an order and a hold) are
+// managed by the checkout itself, so they are never reused or superseded here.
+function purposeFilter(chatId: string, purpose: PaymentPurpose) {
+  return {
+    chatId,
+    status: "pending",
+    ticketType: purpose.ticketType.toUpperCase(),
+    ...(purpose.eventId && { eventId: purpose.eventId }),
+    paymentType: purpose.paymentType,
+    installmentNumber: purpose.installmentNumber ?? null,
+    "metadata.orderId": { $exists: false },
+  };
+}
+
+// Payment links for balances and installments, reused instead of opening a
+// new provider transaction every time the buyer is sent one
+export const paymentLinks = {
+  /**
+   * A link for the buyer to pay `amount` towards a purpose. Hands out their
+   * open, unexpired link for the same amount and purpose if there is one;
+   * otherwise opens a new link and supersedes their older open links for
+   * that purpose, so only the newest is ever sent again.
+   */
+  async get(
+    amount: number,
+    chatId: string,
+    purpose: PaymentPurpose,
+    userId: string = chatId
+  ): Promise<PaymentLink> {
+    const open = await Payment.findOne({
+      ...purposeFilter(chatId, purpose),
+      amount,
+      paymentLink: { $exists: true },
+      expiresAt: { $gt: new Date(Date.now() + MIN_REMAINING_MS) },
+    }).sort({ createdAt: -1 });
+
+    if (open) {
+      return {
+        paymentLink: open.paymentLink!,
+        reference: open.paystackReference,
+        expiresAt: open.expiresAt!,
+        reused: true,
+      };
+    }
+
+    const created = await backend.generatePaymentLink(
+      amount,
+      userId,
+      chatId,
+      purpose
+    );
+
+    const superseded = await Payment.updateMany(
+      {
+        ...purposeFilter(chatId, purpose),
+        paystackReference: { $ne: created.reference },
+      },
+      {
+        $set: {
+          status: "superseded",
+          supersededBy: created.reference,
+          supersededAt: new Date(),
+          updatedAt: new Date(),
+        },
+      }
+    );
+    if (superseded.modifiedCount > 0) {
+      console.log(
+        `[PAYMENTS] ${superseded.modifiedCount} open link(s) for ${chatId} superseded by ${created.reference}`
+      );
+    }
+
+    return { ...created, reused: false };
+  },
+
+  /**
+   * Mark an unpaid link as replaced by another one. Superseded links are
+   * left out of reconciliation and payment stats. A late payment on one is
+   * still honoured, or flagged for refund if what it was for was paid on
+   * another link meanwhile. Returns false if the link was no longer open.
+   */
+  async supersede(reference: string, supersededBy: string): Promise<boolean> {
+    const result = await Payment.updateOne(
+      {
+        paystackReference: reference,
+        status: { $in: ["pending", "abandoned"] },
+      },
+      {
+        $set: {
+          status: "superseded",
+          supersededBy,
+          supersededAt: new Date(),
+          updatedAt: new Date(),
+        },
+      }
+    );
+    return result.modifiedCount > 0;
+  },
+};
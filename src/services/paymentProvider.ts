@@ -0,0 +1,145 @@
+import type { IncomingHttpHeaders } from "http";
+import {
+  PAYMENT_PROVIDERS,
+  type PaymentProviderName,
+} from "../models/Payment.js";
+import { PaystackService } from "./paystack.js";
+import { FakePaymentProvider } from "./fakePayments.js";
+import { getTicketByType } from "../utils/ticketCatalog.js";
+import { env } from "../config/env.js";
+import { BackendError } from "../errors/AppError.js";
+import type { Money } from "../utils/money.js";
+
+export interface PaymentInitialization {
+  authorizationUrl: string; // Checkout page the buyer is sent to
+  accessCode?: string;
+  reference: string;
+}
+
+// Amounts are in pesewas, as everywhere else
+
+// Statuses use Paystack's names: success, failed, abandoned, reversed,
+// and ongoing/pending/processing/queued while the charge is unsettled
+export interface PaymentVerification {
+  status: string;
+  amount: number;
+  currency: string;
+  paidAt: string;
+  metadata?: Record<string, any>;
+}
+
+export interface RefundResult {
+  refundId: string;
+  status: string;
+  amount: number;
+  currency: string;
+  expectedAt?: string;
+}
+
+// A provider's webhook, in Paystack's event names: charge.success,
+// charge.failed, charge.dispute.create/resolve, refund.* and transfer.*
+export interface PaymentWebhookEvent {
+  eventId: string; // The same for every redelivery of one event
+  event: string;
+  reference?: string; // Payment reference
+  amount?: number; // The charge, refund, dispute or transfer amount
+  reason?: string; // Why a charge, refund or transfer failed, or was disputed
+  refundId?: string; // Provider's refund ID, for refund events
+  disputeId?: string;
+  resolution?: string; // How a dispute ended, e.g. "merchant-accepted"
+  transferReference?: string; // For transfer (payout) events
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+
+  /**
+   * Start a checkout for an amount
+   */
+  initializePayment(
+    amount: Money,
+    email: string,
+    metadata?: Record<string, any>
+  ): Promise<PaymentInitialization>;
+
+  /**
+   * Ask the provider what happened to a payment
+   */
+  verifyPayment(reference: string): Promise<PaymentVerification>;
+
+  /**
+   * Refund a payment in full, or part of it when an amount is given
+   */
+  refund(
+    reference: string,
+    amount?: number,
+    reason?: string
+  ): Promise<RefundResult>;
+
+  /**
+   * Check a webhook's signature against its raw body
+   */
+  verifyWebhook(
+    rawBody: string | Buffer,
+    headers: IncomingHttpHeaders
+  ): boolean;
+
+  /**
+   * Read a verified webhook payload
+   */
+  parseWebhook(payload: any): PaymentWebhookEvent;
+}
+
+// Providers are created on first use, so a missing key only matters for
+// the providers actually in use
+const instances: Partial<Record<PaymentProviderName, PaymentProvider>> = {};
+
+function createProvider(name: PaymentProviderName): PaymentProvider {
+  switch (name) {
+    case "paystack":
+      return new PaystackService();
+    case "fake":
+      return new FakePaymentProvider();
+  }
+}
+
+// Payment providers, chosen per environment or per ticket tier
+export const paymentProviders = {
+  isProviderName(value: string): value is PaymentProviderName {
+    return (PAYMENT_PROVIDERS as readonly string[]).includes(value);
+  },
+
+  /**
+   * Whether a provider can be used here. The fake provider never runs in
+   * production.
+   */
+  isAvailable(name: PaymentProviderName): boolean {
+    return name !== "fake" || !env.isProduction;
+  },
+
+  /**
+   * Get a provider by name (the environment's provider by default)
+   */
+  get(name: PaymentProviderName = env.paymentProvider): PaymentProvider {
+    if (!this.isAvailable(name)) {
+      throw new BackendError(
+        `The ${name} payment provider can't be used in production`
+      );
+    }
+    return (instances[name] ??= createProvider(name));
+  },
+
+  /**
+   * Provider for a new payment: the tier's own choice, otherwise the
+   * environment's
+   */
+  async forTicketType(
+    ticketType?: string,
+    eventId?: string
+  ): Promise<PaymentProvider> {
+    const ticket = ticketType
+      ? await getTicketByType(ticketType, eventId)
+      : null;
+    return this.get(ticket?.paymentProvider || env.paymentProvider);
+  },
+};
@@ -1,6 +1,16 @@
 import axios, { type AxiosInstance } from "axios";
+import crypto from "crypto";
+import type { IncomingHttpHeaders } from "http";
 import { env } from "../config/env.js";
 import { BackendError } from "../errors/AppError.js";
+import type { Money } from "../utils/money.js";
+import type {
+  PaymentProvider,
+  PaymentInitialization,
+  PaymentVerification,
+  RefundResult,
+  PaymentWebhookEvent,
+} from "./paymentProvider.js";
 
 interface PaystackInitializeResponse {
   status: boolean;
@@ -28,7 +38,20 @@ interface PaystackVerifyResponse {
   };
 }
 
-class PaystackService {
+interface PaystackRefundResponse {
+  status: boolean;
+  message: string;
+  data: {
+    id: number;
+    amount: number;
+    currency: string;
+    status: string;
+    expected_at?: string;
+  };
+}
+
+export class PaystackService implements PaymentProvider {
+  readonly name = "paystack" as const;
   private client: AxiosInstance;
   private secretKey: string;
 
@@ -53,28 +76,23 @@ class PaystackService {
    * Initialize a payment transaction
    */
   async initializePayment(
-    amount: number,
+    amount: Money,
     email: string,
     metadata?: Record<string, any>
-  ): Promise<{
-    authorizationUrl: string;
-    accessCode: string;
-    reference: string;
-  }> {
+  ): Promise<PaymentInitialization> {
     try {
-      const amountInKobo = Math.round(amount * 100); // Convert to kobo (smallest currency unit)
-
       console.log(
         "[PAYSTACK] Initializing payment",
-        JSON.stringify({ amount, amountInKobo, email, metadata })
+        JSON.stringify({ amount, email, metadata })
       );
 
+      // Paystack takes amounts in minor units, like we keep them
       const response = await this.client.post<PaystackInitializeResponse>(
         "/transaction/initialize",
         {
-          amount: amountInKobo,
+          amount: amount.amount,
           email,
-          currency: "GHS",
+          currency: amount.currency,
           channels: ["mobile_money"], // Restrict to Mobile Money only
           metadata,
           callback_url: new URL(
@@ -112,13 +130,7 @@ class PaystackService {
   /**
    * Verify a payment transaction
    */
-  async verifyPayment(reference: string): Promise<{
-    status: string;
-    amount: number;
-    currency: string;
-    paidAt: string;
-    metadata?: Record<string, any>;
-  }> {
+  async verifyPayment(reference: string): Promise<PaymentVerification> {
     try {
       console.log("[PAYSTACK] Verifying payment", { reference });
 
@@ -138,7 +150,7 @@ class PaystackService {
 
       return {
         status: transaction.status,
-        amount: transaction.amount / 100, // Convert from kobo
+        amount: transaction.amount,
         currency: transaction.currency,
         paidAt: transaction.paid_at,
         metadata: transaction.metadata,
@@ -155,6 +167,132 @@ class PaystackService {
     }
   }
 
+  /**
+   * Refund a transaction in full, or part of it when an amount is given.
+   * Paystack answers with a pending refund; refund.processed or
+   * refund.failed follows as a webhook.
+   */
+  async refund(
+    reference: string,
+    amount?: number,
+    reason?: string
+  ): Promise<RefundResult> {
+    try {
+      console.log("[PAYSTACK] Requesting refund", { reference, amount });
+
+      const response = await this.client.post<PaystackRefundResponse>(
+        "/refund",
+        {
+          transaction: reference,
+          amount,
+          merchant_note: reason,
+        }
+      );
+
+      if (!response.data.status) {
+        throw new BackendError(
+          response.data.message || "Failed to request refund"
+        );
+      }
+
+      const refund = response.data.data;
+
+      console.log("[PAYSTACK] Refund response", refund);
+
+      return {
+        refundId: String(refund.id),
+        status: refund.status,
+        amount: refund.amount,
+        currency: refund.currency,
+        expectedAt: refund.expected_at,
+      };
+    } catch (error: any) {
+      if (error instanceof BackendError) {
+        throw error;
+      }
+      console.error("Paystack refund error:", error);
+      throw new BackendError(
+        error.response?.data?.message ||
+          "Failed to request refund. Please try again."
+      );
+    }
+  }
+
+  /**
+   * Check the HMAC-SHA512 signature Paystack puts on every webhook
+   */
+  verifyWebhook(
+    rawBody: string | Buffer,
+    headers: IncomingHttpHeaders
+  ): boolean {
+    const hash = crypto
+      .createHmac("sha512", this.secretKey)
+      .update(rawBody)
+      .digest("hex");
+    return hash === headers["x-paystack-signature"];
+  }
+
+  /**
+   * Paystack sends no delivery ID, so the event type and transaction ID
+   * identify an event across redeliveries. Refund events may carry
+   * neither; their refund reference (or amount) tells refunds of one
+   * transaction apart.
+   */
+  parseWebhook(payload: any): PaymentWebhookEvent {
+    const event = String(payload.event);
+    const data = payload.data || {};
+    const toAmount = (value: any) =>
+      value === undefined || value === null ? undefined : Number(value);
+
+    const eventId =
+      data.id === undefined && data.transaction_reference
+        ? `${event}:${data.transaction_reference}:${
+            data.refund_reference ?? data.amount
+          }`
+        : `${event}:${data.id ?? data.reference}`;
+
+    if (event.startsWith("charge.dispute.")) {
+      return {
+        eventId,
+        event,
+        reference: data.transaction?.reference,
+        amount: toAmount(data.refund_amount ?? data.transaction?.amount),
+        reason: data.reason || data.category,
+        disputeId: data.id === undefined ? undefined : String(data.id),
+        resolution: data.resolution || undefined,
+      };
+    }
+
+    if (event.startsWith("refund.")) {
+      return {
+        eventId,
+        event,
+        reference: data.transaction_reference ?? data.transaction?.reference,
+        amount: toAmount(data.amount),
+        reason: data.reason,
+        refundId: data.id === undefined ? undefined : String(data.id),
+      };
+    }
+
+    if (event.startsWith("transfer.")) {
+      return {
+        eventId,
+        event,
+        amount: toAmount(data.amount),
+        reason: data.reason || data.failures?.reason,
+        transferReference: data.reference,
+      };
+    }
+
+    return {
+      eventId,
+      event,
+      reference: data.reference,
+      amount: toAmount(data.amount),
+      reason: data.gateway_response,
+    };
+  }
+
   /**
    * Generate a unique payment reference
    */
@@ -163,5 +301,3 @@ class PaystackService {
     return `AFROFUTURE_${userId}_${ts}`;
   }
 }
-
-export const paystackService = new PaystackService();
@@ -0,0 +1,117 @@
+import mongoose from "mongoose";
+import {
+  PricingPhase,
+  type IPricingPhase,
+} from "../models/PricingPhase.js";
+import type { ITicket } from "../models/Ticket.js";
+
+export interface PriceQuote {
+  price: number; // Unit price
+  phase: IPricingPhase | null; // null when the tier's base price applies
+}
+
+/**
+ * Phases of a tier that are running at the given time, in the order
+ * they are offered (earliest start first)
+ */
+async function getRunningPhases(
+  ticketId: mongoose.Types.ObjectId | string,
+  at: Date
+): Promise<IPricingPhase[]> {
+  return PricingPhase.find({
+    ticketId,
+    isActive: true,
+    startsAt: { $lte: at },
+    $or: [{ endsAt: null }, { endsAt: { $gt: at } }],
+  }).sort({ startsAt: 1, price: 1 });
+}
+
+function hasRoomFor(phase: IPricingPhase, quantity: number): boolean {
+  return (
+    phase.quantityCap == null ||
+    phase.sold + phase.reserved + quantity <= phase.quantityCap
+  );
+}
+
+// Pricing phase (sale wave) resolution
+export const pricing = {
+  /**
+   * Work out what a tier costs at a given time. The first running phase
+   * with room for `quantity` wins, so a phase rolls over to the next one
+   * when its end time passes or its cap is used up. Falls back to the
+   * tier's base price when no phase applies.
+   */
+  async resolve(
+    ticket: ITicket,
+    at: Date = new Date(),
+    quantity: number = 1
+  ): Promise<PriceQuote> {
+    const phases = await getRunningPhases(ticket._id, at);
+    const phase = phases.find((p) => hasRoomFor(p, quantity)) || null;
+
+    return { price: phase ? phase.price : ticket.price, phase };
+  },
+
+  /**
+   * Resolve the current price and atomically take `quantity` units of the
+   * phase's cap, so concurrent checkouts can't sell past it. The claimed
+   * units stay reserved until the hold is converted or released.
+   */
+  async claim(ticket: ITicket, quantity: number): Promise<PriceQuote> {
+    const phases = await getRunningPhases(ticket._id, new Date());
+
+    for (const phase of phases) {
+      const claimed = await PricingPhase.findOneAndUpdate(
+        {
+          _id: phase._id,
+          $or: [
+            { quantityCap: null },
+            {
+              $expr: {
+                $lte: [
+                  { $add: ["$sold", "$reserved", quantity] },
+                  "$quantityCap",
+                ],
+              },
+            },
+          ],
+        },
+        { $inc: { reserved: quantity } },
+        { new: true }
+      );
+
+      if (claimed) {
+        return { price: claimed.price, phase: claimed };
+      }
+    }
+
+    return { price: ticket.price, phase: null };
+  },
+
+  /**
+   * Move claimed units from reserved to sold once paid
+   */
+  async convertClaim(phaseId: string, quantity: number): Promise<void> {
+    await PricingPhase.updateOne(
+      { _id: phaseId },
+      { $inc: { reserved: -quantity, sold: quantity } }
+    );
+  },
+
+  /**
+   * Give claimed units back to the phase (hold released)
+   */
+  async releaseClaim(phaseId: string, quantity: number): Promise<void> {
+    await PricingPhase.updateOne(
+      { _id: phaseId },
+      { $inc: { reserved: -quantity } }
+    );
+  },
+
+  /**
+   * Count a late payment against the phase it was priced at
+   */
+  async recordSale(phaseId: string, quantity: number): Promise<void> {
+    await PricingPhase.updateOne({ _id: phaseId }, { $inc: { sold: quantity } });
+  },
+};
@@ -0,0 +1,175 @@
+import { MessageMedia } from "whatsapp-web.js";
+import { Payment, type IPayment } from "../models/Payment.js";
+import { Order } from "../models/Order.js";
+import { User } from "../models/User.js";
+import { email } from "./email.js";
+import { ValidationError } from "../errors/AppError.js";
+import { client } from "../config/client.js";
+import { EVENT_CONFIG, SUPPORT_INFO } from "../config/constants.js";
+import { getReceiptCaption, getReceiptEmail } from "../messages/payments.js";
+import { getTicketByType } from "../utils/ticketCatalog.js";
+import { getEventForTicketType } from "../utils/eventCatalog.js";
+import {
+  renderReceiptPdf,
+  type ReceiptPdfDetails,
+} from "../utils/receiptPdf.js";
+
+export type ReceiptChannel = "email" | "whatsapp";
+
+export interface Receipt {
+  pdf: Buffer;
+  filename: string;
+  details: ReceiptPdfDetails;
+}
+
+/**
+ * Work out what the receipt shows. Order checkouts know the unit price,
+ * quantity, coupon and any event credit; other payments (installments, admin links) are a
+ * single line for the amount paid.
+ */
+async function buildDetails(payment: IPayment): Promise<ReceiptPdfDetails> {
+  const metadata = payment.metadata || {};
+  const [user, order] = await Promise.all([
+    User.findOne({ chatId: payment.chatId }),
+    metadata.orderId ? Order.findById(metadata.orderId) : null,
+  ]);
+
+  const ticketType = order?.ticketType || payment.ticketType;
+  const [ticket, event] = ticketType
+    ? await Promise.all([
+        getTicketByType(ticketType, payment.eventId),
+        getEventForTicketType(ticketType, payment.eventId),
+      ])
+    : [null, null];
+
+  const quantity = order?.quantity || 1;
+  const unitPrice = order?.unitPrice ?? payment.amount;
+  const subtotal = order ? order.unitPrice * order.quantity : payment.amount;
+  const credit = order?.voucherCredit || 0;
+  const paymentType = metadata.paymentType || payment.paymentType;
+  const installmentNumber =
+    metadata.installmentNumber || payment.installmentNumber || 1;
+
+  return {
+    eventName: event?.name || EVENT_CONFIG.eventName,
+    eventDates: event?.dates || EVENT_CONFIG.eventDates,
+    eventLocation: event?.location || EVENT_CONFIG.eventLocation,
+    reference: payment.paystackReference,
+    paidAt: payment.paidAt || payment.updatedAt,
+    buyerName: user?.name || payment.chatId.split("@")[0] || payment.chatId,
+    buyerEmail: user?.email || undefined,
+    ticketName: ticket?.name || ticketType || "Ticket",
+    quantity,
+    unitPrice,
+    subtotal,
+    discount: Math.max(0, subtotal - credit - payment.amount),
+    credit,
+    total: payment.amount,
+    currency: payment.currency,
+    coupon: order?.coupon || payment.coupon,
+    description:
+      paymentType === "installment"
+        ? `Installment ${installmentNumber}`
+        : "Full payment",
+    supportEmail: SUPPORT_INFO.email,
+  };
+}
+
+// Payment receipts, as a PDF sent on WhatsApp and by email
+export const receipts = {
+  /**
+   * Render the receipt PDF for a paid payment
+   */
+  async render(payment: IPayment): Promise<Receipt> {
+    const details = await buildDetails(payment);
+    return {
+      pdf: await renderReceiptPdf(details),
+      filename: `receipt-${payment.paystackReference}.pdf`,
+      details,
+    };
+  },
+
+  /**
+   * Send a payment's receipt on the given channels. Email goes to `to`, or
+   * the buyer's address if none is given, and is skipped when there is no
+   * address or SMTP isn't set up. Returns the channels it went out on.
+   */
+  async send(
+    payment: IPayment,
+    channels: ReceiptChannel[],
+    to?: string
+  ): Promise<ReceiptChannel[]> {
+    if (!payment.paidAt) {
+      throw new ValidationError(
+        `Payment ${payment.paystackReference} has not been paid`
+      );
+    }
+
+    const { pdf, filename, details } = await this.render(payment);
+    const sent: ReceiptChannel[] = [];
+
+    if (channels.includes("whatsapp")) {
+      const media = new MessageMedia(
+        "application/pdf",
+        pdf.toString("base64"),
+        filename
+      );
+      await client.sendMessage(payment.chatId, media, {
+        sendMediaAsDocument: true,
+        caption: getReceiptCaption(payment.amount, payment.paystackReference),
+      });
+      await Payment.updateOne(
+        { _id: payment._id },
+        { $set: { "receipt.whatsappSentAt": new Date() } }
+      );
+      sent.push("whatsapp");
+    }
+
+    const recipient = to || details.buyerEmail;
+    if (channels.includes("email") && recipient && email.isConfigured()) {
+      const message = getReceiptEmail({
+        buyerName: details.buyerName,
+        eventName: details.eventName,
+        amount: payment.amount,
+        reference: payment.paystackReference,
+      });
+      await email.send({
+        to: recipient,
+        ...message,
+        attachments: [
+          { filename, contentType: "application/pdf", content: pdf },
+        ],
+      });
+      await Payment.updateOne(
+        { _id: payment._id },
+        {
+          $set: {
+            "receipt.emailedTo": recipient,
+            "receipt.emailedAt": new Date(),
+          },
+        }
+      );
+      sent.push("email");
+    }
+
+    console.log(
+      `[RECEIPTS] Receipt for ${payment.paystackReference} sent via ${
+        sent.join(", ") || "no channel"
+      }`
+    );
+    return sent;
+  },
+
+  /**
+   * Send the receipt for a newly paid payment on every channel it hasn't
+   * gone out on yet, so a retried fulfilment doesn't send it twice
+   */
+  async deliver(payment: IPayment): Promise<void> {
+    const channels: ReceiptChannel[] = [];
+    if (!payment.receipt?.whatsappSentAt) channels.push("whatsapp");
+    if (!payment.receipt?.emailedAt) channels.push("email");
+    if (channels.length > 0) {
+      await this.send(payment, channels);
+    }
+  },
+};
@@ -0,0 +1,179 @@
+import { afterEach, describe, expect, mock, spyOn, test } from "bun:test";
+import { Payment, type IPayment } from "../models/Payment.js";
+import {
+  ReconciliationReport,
+  type IReconciliationReport,
+} from "../models/ReconciliationReport.js";
+import { paymentProviders } from "./paymentProvider.js";
+import { fulfilment } from "./fulfilment.js";
+import { isPastExpiry, reconciliation } from "./reconciliation.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function makePayment(fields: Partial<IPayment> = {}): IPayment {
+  return {
+    paystackReference: "ref-1",
+    chatId: "233200000000@c.us",
+    amount: 15000,
+    status: "pending",
+    createdAt: new Date(Date.now() - HOUR_MS),
+    ...fields,
+  } as unknown as IPayment;
+}
+
+// A fresh payment and one older than the default 24-hour stale window
+const fresh = { createdAt: new Date(Date.now() - HOUR_MS) };
+const stale = { createdAt: new Date(Date.now() - 48 * HOUR_MS) };
+
+/**
+ * Run reconciliation over the given payments, with the provider reporting
+ * `verify` for each, and return the saved report
+ */
+async function runWith(
+  payments: IPayment[],
+  verify: () => Promise<{ status: string; paidAt?: string }>
+): Promise<IReconciliationReport> {
+  const report = new ReconciliationReport({ trigger: "manual" });
+  spyOn(report, "save").mockResolvedValue(report);
+  spyOn(ReconciliationReport, "create").mockResolvedValue(report as any);
+  spyOn(Payment, "find").mockReturnValue({
+    sort: () => ({ limit: () => Promise.resolve(payments) }),
+  } as any);
+  spyOn(Payment, "updateOne").mockResolvedValue({} as any);
+  spyOn(paymentProviders, "get").mockReturnValue({
+    verifyPayment: verify,
+  } as any);
+
+  const run = await reconciliation.start("manual");
+  return run!.done;
+}
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe("isPastExpiry", () => {
+  const staleBefore = new Date(Date.now() - 24 * HOUR_MS);
+
+  test("keeps a recent payment with time left on its link", () => {
+    const payment = makePayment({
+      ...fresh,
+      expiresAt: new Date(Date.now() + HOUR_MS),
+    });
+    expect(isPastExpiry(payment, staleBefore)).toBe(false);
+  });
+
+  test("gives up on a payment abandoned when its hold ran out", () => {
+    const payment = makePayment({ ...fresh, status: "abandoned" });
+    expect(isPastExpiry(payment, staleBefore)).toBe(true);
+  });
+
+  test("gives up on a payment whose link expired", () => {
+    const payment = makePayment({
+      ...fresh,
+      expiresAt: new Date(Date.now() - 1000),
+    });
+    expect(isPastExpiry(payment, staleBefore)).toBe(true);
+  });
+
+  test("gives up on a payment older than the stale window", () => {
+    expect(isPastExpiry(makePayment(stale), staleBefore)).toBe(true);
+  });
+});
+
+describe("reconciliation outcomes", () => {
+  test("fulfils a payment Paystack took", async () => {
+    const settle = spyOn(fulfilment, "settle").mockResolvedValue(undefined);
+
+    const report = await runWith([makePayment(fresh)], async () => ({
+      status: "success",
+      paidAt: "2026-01-01T10:00:00Z",
+    }));
+
+    expect(report.items[0]!.outcome).toBe("fulfilled");
+    expect(report.summary.fulfilled).toBe(1);
+    expect(settle).toHaveBeenCalledWith(
+      "ref-1",
+      new Date("2026-01-01T10:00:00Z")
+    );
+  });
+
+  test("marks failed and reversed charges failed", async () => {
+    const markUnpaid = spyOn(fulfilment, "markUnpaid").mockResolvedValue(
+      undefined as any
+    );
+
+    for (const status of ["failed", "reversed"]) {
+      const report = await runWith([makePayment(fresh)], async () => ({
+        status,
+      }));
+      expect(report.items[0]!.outcome).toBe("failed");
+    }
+    expect(markUnpaid).toHaveBeenCalledWith("ref-1", "failed");
+  });
+
+  test("leaves a live link Paystack calls abandoned alone", async () => {
+    const markUnpaid = spyOn(fulfilment, "markUnpaid");
+
+    const report = await runWith([makePayment(fresh)], async () => ({
+      status: "abandoned",
+    }));
+
+    expect(report.items[0]!.outcome).toBe("still_pending");
+    expect(markUnpaid).not.toHaveBeenCalled();
+  });
+
+  test("abandons a stale payment Paystack never settled", async () => {
+    const markUnpaid = spyOn(fulfilment, "markUnpaid").mockResolvedValue(
+      undefined as any
+    );
+
+    const report = await runWith([makePayment(stale)], async () => ({
+      status: "abandoned",
+    }));
+
+    expect(report.items[0]!.outcome).toBe("abandoned");
+    expect(markUnpaid).toHaveBeenCalledWith("ref-1", "abandoned");
+  });
+
+  test("reports a payment already abandoned here as unchanged", async () => {
+    spyOn(fulfilment, "markUnpaid").mockResolvedValue(undefined as any);
+
+    const report = await runWith(
+      [makePayment({ ...fresh, status: "abandoned" })],
+      async () => ({ status: "abandoned" })
+    );
+
+    expect(report.items[0]!.outcome).toBe("unchanged");
+  });
+
+  test("keeps checking a charge that is still processing", async () => {
+    const report = await runWith([makePayment(fresh)], async () => ({
+      status: "ongoing",
+    }));
+
+    expect(report.items[0]!.outcome).toBe("still_pending");
+  });
+
+  test("reports a status it doesn't know as an error", async () => {
+    const report = await runWith([makePayment(fresh)], async () => ({
+      status: "mystery",
+    }));
+
+    expect(report.items[0]!.outcome).toBe("error");
+    expect(report.items[0]!.error).toContain("mystery");
+  });
+
+  test("abandons a stale link Paystack has no transaction for", async () => {
+    spyOn(fulfilment, "markUnpaid").mockResolvedValue(undefined as any);
+    const missing = async () => {
+      throw new Error("Transaction reference not found");
+    };
+
+    const staleReport = await runWith([makePayment(stale)], missing);
+    expect(staleReport.items[0]!.outcome).toBe("abandoned");
+
+    const freshReport = await runWith([makePayment(fresh)], missing);
+    expect(freshReport.items[0]!.outcome).toBe("error");
+  });
+});
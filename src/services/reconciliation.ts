@@ -0,0 +1,216 @@
+import { Payment, type IPayment } from "../models/Payment.js";
+import {
+  ReconciliationReport,
+  type IReconciliationItem,
+  type IReconciliationReport,
+  type ReconciliationOutcome,
+} from "../models/ReconciliationReport.js";
+import { paymentProviders } from "./paymentProvider.js";
+import { fulfilment } from "./fulfilment.js";
+import { env } from "../config/env.js";
+
+// Payments checked per run, so one run never hammers Paystack
+const BATCH_SIZE = 100;
+
+// Paystack statuses for a charge that hasn't settled yet
+const UNSETTLED_STATUSES = ["ongoing", "pending", "processing", "queued"];
+
+export interface ReconciliationRun {
+  report: IReconciliationReport;
+  done: Promise<IReconciliationReport>; // Settles when the run finishes
+}
+
+// One run at a time; manual runs are refused while the scheduler is busy
+let running = false;
+
+/**
+ * Whether an unpaid payment can be given up on: its checkout hold already
+ * ran out (we abandoned it then), its link expired, or it is older than
+ * the stale window. Paystack reports every transaction not paid yet as
+ * "abandoned", so live checkouts and reusable links must not count.
+ */
+export function isPastExpiry(
+  payment: IPayment,
+  staleBefore: Date = new Date(Date.now() - env.reconcileStaleHours * 3600000)
+): boolean {
+  return (
+    payment.status === "abandoned" ||
+    payment.createdAt <= staleBefore ||
+    (!!payment.expiresAt && payment.expiresAt <= new Date())
+  );
+}
+
+/**
+ * Check one payment with its provider and settle it the same way the
+ * webhook and callback would
+ */
+async function reconcilePayment(
+  payment: IPayment,
+  staleBefore: Date
+): Promise<IReconciliationItem> {
+  const reference = payment.paystackReference;
+  const item = {
+    reference,
+    chatId: payment.chatId,
+    amount: payment.amount,
+    previousStatus: payment.status,
+  };
+  const isStale = isPastExpiry(payment, staleBefore);
+  const abandon = async (): Promise<ReconciliationOutcome> => {
+    await fulfilment.markUnpaid(reference, "abandoned");
+    return payment.status === "abandoned" ? "unchanged" : "abandoned";
+  };
+
+  await Payment.updateOne(
+    { _id: payment._id },
+    { $set: { reconciledAt: new Date() } }
+  );
+
+  let verification;
+  try {
+    verification = await paymentProviders
+      .get(payment.provider)
+      .verifyPayment(reference);
+  } catch (error: any) {
+    // Paystack has no transaction for links that were never opened
+    if (isStale) {
+      return { ...item, outcome: await abandon(), error: error?.message };
+    }
+    return {
+      ...item,
+      outcome: "error",
+      error: error?.message || String(error),
+    };
+  }
+
+  const paystackStatus = verification.status;
+  switch (paystackStatus) {
+    case "success":
+      await fulfilment.settle(reference, new Date(verification.paidAt));
+      return { ...item, paystackStatus, outcome: "fulfilled" };
+
+    case "failed":
+    case "reversed":
+      await fulfilment.markUnpaid(reference, "failed");
+      return { ...item, paystackStatus, outcome: "failed" };
+
+    case "abandoned":
+      // Not paid yet; the buyer may still pay on this link
+      if (!isStale) {
+        return { ...item, paystackStatus, outcome: "still_pending" };
+      }
+      return { ...item, paystackStatus, outcome: await abandon() };
+
+    default:
+      if (isStale) {
+        return { ...item, paystackStatus, outcome: await abandon() };
+      }
+      if (UNSETTLED_STATUSES.includes(paystackStatus)) {
+        return { ...item, paystackStatus, outcome: "still_pending" };
+      }
+      return {
+        ...item,
+        paystackStatus,
+        outcome: "error",
+        error: `Unexpected Paystack status "${paystackStatus}"`,
+      };
+  }
+}
+
+async function reconcile(
+  report: IReconciliationReport
+): Promise<IReconciliationReport> {
+  const now = Date.now();
+  const pendingBefore = new Date(now - env.reconcileAfterMinutes * 60000);
+  const staleBefore = new Date(now - env.reconcileStaleHours * 3600000);
+
+  const summary: Record<ReconciliationOutcome, number> = {
+    fulfilled: 0,
+    failed: 0,
+    abandoned: 0,
+    still_pending: 0,
+    unchanged: 0,
+    error: 0,
+  };
+
+  try {
+    // Pending payments past the grace period, and payments abandoned here
+    // when their hold expired that Paystack hasn't been asked about
+    const payments = await Payment.find({
+      $or: [
+        { status: "pending", createdAt: { $lte: pendingBefore } },
+        { status: "abandoned", reconciledAt: { $exists: false } },
+      ],
+    })
+      .sort({ reconciledAt: 1, createdAt: 1 })
+      .limit(BATCH_SIZE);
+
+    for (const payment of payments) {
+      let item: IReconciliationItem;
+      try {
+        item = await reconcilePayment(payment, staleBefore);
+      } catch (error: any) {
+        item = {
+          reference: payment.paystackReference,
+          chatId: payment.chatId,
+          amount: payment.amount,
+          previousStatus: payment.status,
+          outcome: "error",
+          error: error?.message || String(error),
+        };
+      }
+      report.items.push(item);
+      summary[item.outcome]++;
+    }
+
+    report.status = "completed";
+  } catch (error: any) {
+    console.error("[RECONCILIATION] Run failed:", error);
+    report.status = "failed";
+    report.error = error?.message || String(error);
+  }
+
+  report.checked = report.items.length;
+  report.summary = summary;
+  report.finishedAt = new Date();
+  await report.save();
+
+  console.log(
+    `[RECONCILIATION] Checked ${report.checked} payment(s): ${summary.fulfilled} fulfilled, ${summary.failed} failed, ${summary.abandoned} abandoned, ${summary.still_pending} still pending, ${summary.error} error(s)`
+  );
+  return report;
+}
+
+// Catches payments whose webhook and callback never arrived
+export const reconciliation = {
+  /**
+   * Start a reconciliation run. Resolves as soon as its report exists.
+   * Returns null if a run is already in progress.
+   */
+  async start(
+    trigger: "scheduled" | "manual",
+    triggeredBy?: string
+  ): Promise<ReconciliationRun | null> {
+    if (running) return null;
+    running = true;
+
+    let report: IReconciliationReport;
+    try {
+      report = await ReconciliationReport.create({ trigger, triggeredBy });
+    } catch (error) {
+      running = false;
+      throw error;
+    }
+
+    const done = reconcile(report)
+      .catch((error) => {
+        console.error("[RECONCILIATION] Failed to save report:", error);
+        return report;
+      })
+      .finally(() => {
+        running = false;
+      });
+
+    return { report, done };
+  },
+};
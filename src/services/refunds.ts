@@ -0,0 +1,461 @@
+import { Payment, type IPayment } from "../models/Payment.js";
+import { Refund, type IRefund } from "../models/Refund.js";
+import { SoldTicket } from "../models/SoldTicket.js";
+import { CheckIn } from "../models/CheckIn.js";
+import { paymentProviders } from "./paymentProvider.js";
+import { inventory } from "./inventory.js";
+import { waitlist } from "./waitlist.js";
+import { installments } from "./installments.js";
+import { client } from "../config/client.js";
+import { ValidationError } from "../errors/AppError.js";
+import { updateSession } from "../utils/session.js";
+import { formatMoney } from "../utils/money.js";
+import {
+  getRefundIssuedMessage,
+  getRefundFailedMessage,
+} from "../messages/refunds.js";
+
+type SoldTicketDoc = InstanceType<typeof SoldTicket>;
+
+export interface RefundRequest {
+  amount?: number; // Pesewas; defaults to everything not refunded yet
+  reason: string;
+  ticketAction: "invalidate" | "keep";
+  soldTicketIds?: string[]; // Defaults to every valid ticket on the payment
+}
+
+const refundedSoFar = { $ifNull: ["$refundedAmount", 0] };
+
+async function notifyBuyer(chatId: string, text: string): Promise<void> {
+  await client
+    .sendMessage(chatId, text)
+    .catch((error) =>
+      console.error(`[REFUNDS] Failed to notify ${chatId}:`, error)
+    );
+}
+
+// Point a holder's session at a ticket that still works (if any)
+async function refreshSession(chatId: string): Promise<void> {
+  const remaining = await SoldTicket.findOne({
+    chatId,
+    ticketId: { $exists: true },
+    revokedAt: null,
+  }).sort({ createdAt: 1 });
+  await updateSession(chatId, { ticketId: remaining?.ticketId || undefined });
+}
+
+/**
+ * Count an amount as refunded before asking the provider for it. The guard
+ * makes concurrent requests for the same payment unable to refund more
+ * than was paid. Returns null if the amount isn't refundable.
+ */
+async function reserveAmount(
+  paymentReference: string,
+  amount: number
+): Promise<IPayment | null> {
+  const now = new Date();
+  return Payment.findOneAndUpdate(
+    {
+      paystackReference: paymentReference,
+      status: { $in: ["success", "partially_refunded"] },
+      $expr: {
+        $lte: [{ $add: [refundedSoFar, amount] }, "$amount"],
+      },
+    },
+    [
+      {
+        $set: {
+          refundedAmount: { $add: [refundedSoFar, amount] },
+          refundedAt: now,
+          updatedAt: now,
+        },
+      },
+      {
+        $set: {
+          status: {
+            $cond: [
+              { $gte: ["$refundedAmount", "$amount"] },
+              "refunded",
+              "partially_refunded",
+            ],
+          },
+        },
+      },
+    ],
+    { new: true, updatePipeline: true }
+  );
+}
+
+// Undo reserveAmount for a refund the provider didn't go through with
+async function releaseAmount(
+  paymentReference: string,
+  amount: number
+): Promise<void> {
+  await Payment.updateOne(
+    {
+      paystackReference: paymentReference,
+      status: { $in: ["refunded", "partially_refunded"] },
+    },
+    [
+      {
+        $set: {
+          refundedAmount: {
+            $max: [0, { $subtract: [refundedSoFar, amount] }],
+          },
+          updatedAt: new Date(),
+        },
+      },
+      {
+        $set: {
+          status: {
+            $cond: [
+              { $gt: ["$refundedAmount", 0] },
+              "partially_refunded",
+              "success",
+            ],
+          },
+        },
+      },
+    ],
+    { updatePipeline: true }
+  );
+}
+
+/**
+ * Pick the tickets a refund cancels. Throws a ValidationError if a chosen
+ * ticket isn't on the payment, is already cancelled or was used at the gate.
+ */
+async function findTicketsToRevoke(
+  payment: IPayment,
+  soldTicketIds?: string[]
+): Promise<SoldTicketDoc[]> {
+  const filter: any = {
+    paymentId: payment._id.toString(),
+    revokedAt: null,
+  };
+  if (soldTicketIds) {
+    filter._id = { $in: soldTicketIds };
+  }
+
+  const soldTickets = await SoldTicket.find(filter);
+  if (soldTicketIds && soldTickets.length !== new Set(soldTicketIds).size) {
+    throw new ValidationError(
+      "Some of the chosen tickets aren't on this payment or are already cancelled"
+    );
+  }
+
+  const admitted = await CheckIn.findOne({
+    soldTicketId: { $in: soldTickets.map((soldTicket) => soldTicket._id) },
+    result: "admitted",
+  });
+  if (admitted) {
+    throw new ValidationError(
+      `Ticket ${admitted.ticketId} has already been used to enter the event`
+    );
+  }
+
+  return soldTickets;
+}
+
+// Tally tickets per event tier, for moving stock
+function countByTier(soldTickets: SoldTicketDoc[]) {
+  const tiers = new Map<
+    string,
+    Pick<SoldTicketDoc, "ticketType" | "eventId"> & { quantity: number }
+  >();
+  for (const { ticketType, eventId } of soldTickets) {
+    const key = `${eventId}:${ticketType}`;
+    const tier = tiers.get(key) || { ticketType, eventId, quantity: 0 };
+    tier.quantity++;
+    tiers.set(key, tier);
+  }
+  return [...tiers.values()];
+}
+
+/**
+ * Cancel the tickets, put their units back on sale and offer them to the
+ * waitlist. Returns how many tickets were cancelled.
+ */
+async function revokeTickets(
+  soldTickets: SoldTicketDoc[],
+  reason: string = "refunded"
+): Promise<number> {
+  const revoked: SoldTicketDoc[] = [];
+  for (const soldTicket of soldTickets) {
+    const result = await SoldTicket.updateOne(
+      { _id: soldTicket._id, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+    if (result.modifiedCount > 0) revoked.push(soldTicket);
+  }
+
+  for (const { ticketType, eventId, quantity } of countByTier(revoked)) {
+    await inventory.returnSold(ticketType, quantity, eventId);
+    await waitlist.offerNext(ticketType, eventId);
+  }
+
+  for (const chatId of new Set(revoked.map((ticket) => ticket.chatId))) {
+    await refreshSession(chatId);
+  }
+
+  return revoked.length;
+}
+
+// Give back the tickets of a refund that failed. Returns how many.
+async function restoreTickets(refund: IRefund): Promise<number> {
+  const soldTickets = await SoldTicket.find({
+    _id: { $in: refund.soldTicketIds },
+    revokedReason: "refunded",
+  });
+  if (soldTickets.length === 0) return 0;
+
+  await SoldTicket.updateMany(
+    { _id: { $in: soldTickets.map((soldTicket) => soldTicket._id) } },
+    { $unset: { revokedAt: "", revokedReason: "" } }
+  );
+
+  for (const { ticketType, eventId, quantity } of countByTier(soldTickets)) {
+    await inventory.reclaimSold(ticketType, quantity, eventId);
+  }
+
+  for (const chatId of new Set(soldTickets.map((ticket) => ticket.chatId))) {
+    await refreshSession(chatId);
+  }
+
+  return soldTickets.length;
+}
+
+/**
+ * Find the refund a provider webhook is about: by the provider's refund ID
+ * when the event has one, otherwise the oldest open refund on the
+ * transaction
+ */
+async function findForWebhook(
+  paymentReference: string,
+  paystackRefundId?: string
+): Promise<IRefund | null> {
+  if (paystackRefundId) {
+    const refund = await Refund.findOne({ paystackRefundId });
+    if (refund) return refund;
+  }
+  return Refund.findOne({ paymentReference, status: "pending" }).sort({
+    createdAt: 1,
+  });
+}
+
+// Refunds requested from the admin dashboard, or reported by the provider
+export const refunds = {
+  /**
+   * Refund all or part of a successful payment through its provider.
+   * Takes it off the installment schedule it counted towards, cancels the
+   * chosen tickets (or keeps them), returns their stock and tells the buyer.
+   * Throws a ValidationError for a refund that isn't allowed and a
+   * BackendError if the provider refuses it.
+   */
+  async request(
+    payment: IPayment,
+    input: RefundRequest,
+    adminId?: string
+  ): Promise<IRefund> {
+    const reference = payment.paystackReference;
+    if (!["success", "partially_refunded"].includes(payment.status)) {
+      throw new ValidationError(
+        `Only successful payments can be refunded (this one is ${payment.status})`
+      );
+    }
+
+    const refundable = payment.amount - (payment.refundedAmount || 0);
+    const amount = input.amount ?? refundable;
+    if (!Number.isInteger(amount) || amount <= 0 || amount > refundable) {
+      throw new ValidationError(
+        `Refund amount must be between 0 and ${formatMoney(refundable)}`
+      );
+    }
+
+    const soldTickets =
+      input.ticketAction === "invalidate"
+        ? await findTicketsToRevoke(payment, input.soldTicketIds)
+        : [];
+
+    const updated = await reserveAmount(reference, amount);
+    if (!updated) {
+      throw new ValidationError(
+        "This payment changed while the refund was being prepared. Please try again."
+      );
+    }
+
+    const refund = await Refund.create({
+      paymentId: payment._id,
+      paymentReference: reference,
+      chatId: payment.chatId,
+      amount,
+      currency: payment.currency,
+      reason: input.reason,
+      ticketAction: input.ticketAction,
+      soldTicketIds: soldTickets.map((soldTicket) => soldTicket._id),
+      requestedBy: adminId,
+    });
+
+    try {
+      const result = await paymentProviders
+        .get(payment.provider)
+        .refund(reference, amount, input.reason);
+      refund.paystackRefundId = result.refundId;
+      await refund.save();
+    } catch (error: any) {
+      await releaseAmount(reference, amount);
+      refund.status = "failed";
+      refund.failureReason = error?.message || String(error);
+      refund.failedAt = new Date();
+      await refund.save();
+      throw error;
+    }
+
+    await installments.refund(reference, amount);
+    const cancelled = await revokeTickets(soldTickets);
+
+    console.log(
+      `[REFUNDS] Refund of ${formatMoney(amount)} requested for ${reference} (${cancelled} ticket(s) cancelled)`
+    );
+
+    await notifyBuyer(
+      payment.chatId,
+      getRefundIssuedMessage(
+        amount,
+        updated.status === "refunded",
+        cancelled,
+        input.reason
+      )
+    );
+
+    return refund;
+  },
+
+  /**
+   * Record that the provider paid a refund out (refund.processed webhook)
+   */
+  async markProcessed(
+    paymentReference: string,
+    paystackRefundId?: string
+  ): Promise<IRefund | null> {
+    const refund = await findForWebhook(paymentReference, paystackRefundId);
+    if (!refund || refund.status !== "pending") return refund;
+
+    refund.status = "processed";
+    refund.processedAt = new Date();
+    if (paystackRefundId) refund.paystackRefundId = paystackRefundId;
+    await refund.save();
+
+    console.log(`[REFUNDS] Refund for ${paymentReference} processed`);
+    return refund;
+  },
+
+  /**
+   * Record a refund made outside the dashboard (e.g. from the Paystack
+   * dashboard), so the payment's refunded amount and any installment
+   * schedule it counted towards stay truthful. Tickets are kept. Returns
+   * null if the payment has nothing left to refund.
+   */
+  async recordExternal(
+    paymentReference: string,
+    amount?: number,
+    paystackRefundId?: string
+  ): Promise<IRefund | null> {
+    const payment = await Payment.findOne({
+      paystackReference: paymentReference,
+    });
+    if (!payment) return null;
+
+    const refundAmount =
+      amount ?? payment.amount - (payment.refundedAmount || 0);
+    if (refundAmount <= 0) return null;
+
+    const updated = await reserveAmount(paymentReference, refundAmount);
+    if (!updated) return null;
+    await installments.refund(paymentReference, refundAmount);
+
+    const refund = await Refund.create({
+      paymentId: payment._id,
+      paymentReference,
+      chatId: payment.chatId,
+      amount: refundAmount,
+      currency: payment.currency,
+      reason: "Refunded outside the dashboard",
+      ticketAction: "keep",
+      status: "processed",
+      paystackRefundId,
+      processedAt: new Date(),
+    });
+
+    console.log(
+      `[REFUNDS] Recorded an outside refund of ${formatMoney(
+        refundAmount
+      )} for ${paymentReference}`
+    );
+    return refund;
+  },
+
+  /**
+   * Record a payment the buyer got back some other way, e.g. a lost
+   * chargeback: take what was left of it off their installment schedule and
+   * cancel every ticket still valid on it. Their units go back on sale.
+   * Returns how many tickets were cancelled.
+   */
+  async reverse(payment: IPayment, reason: string): Promise<number> {
+    const unrefunded = payment.amount - (payment.refundedAmount || 0);
+    if (unrefunded > 0) {
+      await installments.refund(payment.paystackReference, unrefunded);
+    }
+
+    const soldTickets = await SoldTicket.find({
+      paymentId: payment._id.toString(),
+      revokedAt: null,
+    });
+    return revokeTickets(soldTickets, reason);
+  },
+
+  /**
+   * Record that the provider couldn't pay a refund out (refund.failed
+   * webhook). The payment goes back to its earlier status, counts towards
+   * its installment schedule again and cancelled tickets work again.
+   */
+  async markFailed(
+    paymentReference: string,
+    paystackRefundId?: string,
+    failureReason?: string
+  ): Promise<IRefund | null> {
+    const found = await findForWebhook(paymentReference, paystackRefundId);
+    if (!found) return null;
+
+    // Only one delivery gets to undo the refund
+    const refund = await Refund.findOneAndUpdate(
+      { _id: found._id, status: "pending" },
+      {
+        $set: {
+          status: "failed",
+          failureReason: failureReason || "Refund failed at the provider",
+          failedAt: new Date(),
+          updatedAt: new Date(),
+        },
+      },
+      { new: true }
+    );
+    if (!refund) return found;
+
+    await releaseAmount(paymentReference, refund.amount);
+    await installments.refund(paymentReference, -refund.amount);
+    const restored = await restoreTickets(refund);
+
+    console.warn(
+      `[REFUNDS] Refund of ${formatMoney(
+        refund.amount
+      )} for ${paymentReference} failed (${restored} ticket(s) restored)`
+    );
+
+    await notifyBuyer(
+      refund.chatId,
+      getRefundFailedMessage(refund.amount, restored)
+    );
+    return refund;
+  },
+};
@@ -0,0 +1,339 @@
+import fs from "fs/promises";
+import path from "path";
+import { MessageMedia } from "whatsapp-web.js";
+import { SoldTicket } from "../models/SoldTicket.js";
+import { Payment } from "../models/Payment.js";
+import { User } from "../models/User.js";
+import { backend } from "./backend.js";
+import { adminAlerts } from "./adminAlerts.js";
+import { client } from "../config/client.js";
+import { EVENT_CONFIG } from "../config/constants.js";
+import { getTicketByType } from "../utils/ticketCatalog.js";
+import { getEventForTicketType } from "../utils/eventCatalog.js";
+import {
+  createTicketPayload,
+  isTicketSigningConfigured,
+} from "../utils/ticketSignature.js";
+import { renderTicketPdf } from "../utils/ticketPdf.js";
+
+// Generated ticket PDFs live next to admin uploads (served from /uploads/tickets)
+const TICKETS_DIR = path.join(process.cwd(), "uploads", "tickets");
+
+type SoldTicketDoc = InstanceType<typeof SoldTicket>;
+
+export interface TicketOwner {
+  userId: unknown;
+  chatId: string;
+  name?: string;
+  email?: string | null;
+}
+
+/**
+ * Give a sold ticket its ID and signed QR payload. The ticketId filter
+ * makes this safe when the webhook and the callback race: only one of
+ * them can issue a given ticket.
+ */
+async function assignTicketId(
+  soldTicket: SoldTicketDoc
+): Promise<SoldTicketDoc | null> {
+  for (let attempt = 0; attempt < 3; attempt++) {
+    const ticketId = backend.generateTicketId();
+    try {
+      return await SoldTicket.findOneAndUpdate(
+        { _id: soldTicket._id, ticketId: { $exists: false } },
+        {
+          $set: {
+            ticketId,
+            qrPayload: createTicketPayload(ticketId, soldTicket.ticketType),
+            issuedBy: "auto",
+            issuedAt: new Date(),
+          },
+        },
+        { new: true }
+      );
+    } catch (error: any) {
+      if (error.code !== 11000) throw error; // Retry on a ticket ID clash
+    }
+  }
+  throw new Error("Could not generate a unique ticket ID");
+}
+
+/**
+ * Render the ticket PDF, store it and send it with its QR code on WhatsApp
+ */
+async function deliverTicket(
+  soldTicket: SoldTicketDoc,
+  ticketName: string
+): Promise<void> {
+  const ticketId = soldTicket.ticketId!;
+  const event = await getEventForTicketType(
+    soldTicket.ticketType,
+    soldTicket.eventId
+  );
+  const pdf = await renderTicketPdf({
+    eventName: event?.name || EVENT_CONFIG.eventName,
+    eventDates: event?.dates || EVENT_CONFIG.eventDates,
+    eventLocation: event?.location || EVENT_CONFIG.eventLocation,
+    ticketName,
+    ticketId,
+    attendeeName: soldTicket.attendeeName || undefined,
+    qrPayload: soldTicket.qrPayload!,
+  });
+
+  const filename = `ticket-${ticketId}.pdf`;
+  await fs.mkdir(TICKETS_DIR, { recursive: true });
+  await fs.writeFile(path.join(TICKETS_DIR, filename), pdf);
+
+  await SoldTicket.updateOne(
+    { _id: soldTicket._id },
+    { $set: { imageUrl: filename, location: "generated" } }
+  );
+
+  await backend.sendQRCode(
+    client,
+    soldTicket.chatId,
+    ticketId,
+    soldTicket.qrPayload!
+  );
+
+  const media = new MessageMedia(
+    "application/pdf",
+    pdf.toString("base64"),
+    filename
+  );
+  await client.sendMessage(soldTicket.chatId, media, {
+    sendMediaAsDocument: true,
+    caption: soldTicket.attendeeName
+      ? `🎫 ${ticketName} — ${soldTicket.attendeeName}`
+      : `🎫 ${ticketName}`,
+  });
+
+  await SoldTicket.updateOne(
+    { _id: soldTicket._id },
+    { $set: { deliveredAt: new Date() } }
+  );
+}
+
+/**
+ * Give a sold ticket its ID (unless it has one) and send it. Returns the
+ * ticket ID once delivered, or null if a concurrent run issued it or it
+ * couldn't be generated or sent. A ticket that failed keeps its ID and is
+ * only marked delivered once a later attempt sends it.
+ */
+async function issueTicket(
+  soldTicket: SoldTicketDoc,
+  source: string
+): Promise<string | null> {
+  const catalogTicket = await getTicketByType(
+    soldTicket.ticketType,
+    soldTicket.eventId
+  );
+  const ticketName = catalogTicket?.name || soldTicket.ticketType;
+
+  try {
+    const assigned = soldTicket.ticketId
+      ? soldTicket
+      : await assignTicketId(soldTicket);
+    if (!assigned) return null; // Issued by a concurrent run
+
+    await deliverTicket(assigned, ticketName);
+    console.log(
+      `[TICKETS] Issued ${assigned.ticketId} (${ticketName}) for ${source}`
+    );
+    return assigned.ticketId!;
+  } catch (error: any) {
+    console.error(
+      `[TICKETS] Failed to issue ticket ${soldTicket._id} for ${source}:`,
+      error
+    );
+
+    // Tell the buyer and the admins on the first failure; retries stay quiet
+    const firstFailure = await SoldTicket.updateOne(
+      { _id: soldTicket._id, deliveryFailedAt: { $exists: false } },
+      { $set: { deliveryFailedAt: new Date() } }
+    );
+    if (firstFailure.modifiedCount > 0) {
+      await adminAlerts.raise({
+        type: "tickets.delivery_failed",
+        severity: "warning",
+        title: "Ticket not delivered",
+        message: `The ${ticketName} ticket for ${source} couldn't be generated or sent: ${
+          error?.message || String(error)
+        }. It is retried automatically; send it by hand if it doesn't arrive.`,
+        chatId: soldTicket.chatId,
+        data: { soldTicketId: soldTicket._id.toString() },
+      });
+      await client
+        .sendMessage(
+          soldTicket.chatId,
+          `⚠️ We couldn't generate your ${ticketName} ticket automatically. An AfroFuture admin will send it to this chat shortly.`
+        )
+        .catch(() => undefined);
+    }
+    return null;
+  }
+}
+
+// Automatic ticket issuance after payment
+export const ticketIssuer = {
+  /**
+   * Whether tickets can be issued automatically (a signing key is set)
+   */
+  isEnabled(): boolean {
+    return isTicketSigningConfigured();
+  },
+
+  /**
+   * Issue and send every not-yet-delivered ticket bought with a payment.
+   * Payments made outside the order flow (e.g. admin payment links) get
+   * a single ticket. Returns the IDs of the tickets issued.
+   */
+  async issueForPayment(paymentReference: string): Promise<string[]> {
+    if (!this.isEnabled()) {
+      console.warn(
+        "[TICKETS] TICKET_SIGNING_SECRET not set; tickets must be sent by an admin"
+      );
+      return [];
+    }
+
+    const payment = await Payment.findOne({
+      paystackReference: paymentReference,
+    });
+    if (!payment) {
+      console.error(`[TICKETS] Payment ${paymentReference} not found`);
+      return [];
+    }
+
+    const paymentId = payment._id.toString();
+    let soldTickets = await SoldTicket.find({ paymentId }).sort({
+      createdAt: 1,
+      _id: 1,
+    });
+
+    if (soldTickets.length === 0) {
+      const user = await User.findOne({ chatId: payment.chatId });
+      if (!user || !payment.ticketType) return [];
+
+      soldTickets = [
+        await SoldTicket.create({
+          userId: user._id,
+          chatId: payment.chatId,
+          paymentId,
+          attendeeName: user.name,
+          userEmail: user.email,
+          ticketType: payment.ticketType,
+          eventId: payment.eventId,
+          price: payment.amount,
+        }),
+      ];
+    }
+
+    const issued: string[] = [];
+    for (const soldTicket of soldTickets) {
+      // Admins send the tickets they issue themselves
+      if (soldTicket.deliveredAt || soldTicket.issuedBy === "admin") continue;
+
+      const ticketId = await issueTicket(
+        soldTicket,
+        `payment ${paymentReference}`
+      );
+      if (ticketId) issued.push(ticketId);
+    }
+
+    return issued;
+  },
+
+  /**
+   * Issue and send a ticket that wasn't bought through a payment (e.g. the
+   * lower tier given when an installment deadline is missed). Returns its
+   * ticket ID once delivered, or null if it wasn't (admins are alerted when
+   * it fails, and nothing is issued without a signing key).
+   */
+  async issue(
+    soldTicket: SoldTicketDoc,
+    source: string
+  ): Promise<string | null> {
+    if (soldTicket.deliveredAt) return soldTicket.ticketId!;
+    if (!this.isEnabled()) {
+      console.warn(
+        "[TICKETS] TICKET_SIGNING_SECRET not set; tickets must be sent by an admin"
+      );
+      return null;
+    }
+
+    return (
+      (await issueTicket(soldTicket, source)) ||
+      // Issued by a concurrent run
+      (
+        await SoldTicket.findOne({
+          _id: soldTicket._id,
+          deliveredAt: { $exists: true },
+        })
+      )?.ticketId ||
+      null
+    );
+  },
+
+  /**
+   * Move an issued ticket to a new holder under a new ticket ID and QR, and
+   * send it to them. Filtering on the current ticket ID means the old QR
+   * stops scanning the moment this succeeds, and a ticket can't be handed
+   * over twice. Returns null if the ticket changed in the meantime.
+   */
+  async reissue(
+    soldTicketId: unknown,
+    currentTicketId: string,
+    owner: TicketOwner
+  ): Promise<SoldTicketDoc | null> {
+    let reissued: SoldTicketDoc | null = null;
+
+    for (let attempt = 0; ; attempt++) {
+      const ticketId = backend.generateTicketId();
+      const soldTicket = await SoldTicket.findById(soldTicketId);
+      if (!soldTicket || soldTicket.ticketId !== currentTicketId) return null;
+
+      try {
+        reissued = await SoldTicket.findOneAndUpdate(
+          { _id: soldTicket._id, ticketId: currentTicketId },
+          {
+            $set: {
+              userId: owner.userId,
+              chatId: owner.chatId,
+              attendeeName: owner.name,
+              ticketId,
+              qrPayload: createTicketPayload(ticketId, soldTicket.ticketType),
+              issuedBy: "transfer",
+              issuedAt: new Date(),
+              ...(owner.email && { userEmail: owner.email }),
+            },
+            // Delivery is tracked afresh for the new holder
+            $unset: {
+              deliveredAt: 1,
+              deliveryFailedAt: 1,
+              ...(!owner.email && { userEmail: 1 }),
+            },
+            $inc: { transferCount: 1 },
+          },
+          { new: true }
+        );
+        break;
+      } catch (error: any) {
+        // Retry on a ticket ID clash
+        if (error.code !== 11000 || attempt >= 2) throw error;
+      }
+    }
+
+    if (!reissued) return null;
+
+    const catalogTicket = await getTicketByType(
+      reissued.ticketType,
+      reissued.eventId
+    );
+    await deliverTicket(reissued, catalogTicket?.name || reissued.ticketType);
+    console.log(
+      `[TICKETS] Reissued ${currentTicketId} as ${reissued.ticketId} to ${owner.chatId}`
+    );
+
+    return reissued;
+  },
+};
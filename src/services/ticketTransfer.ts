@@ -0,0 +1,324 @@
+import type mongoose from "mongoose";
+import {
+  TicketTransfer,
+  type ITicketTransfer,
+} from "../models/TicketTransfer.js";
+import { SoldTicket } from "../models/SoldTicket.js";
+import { CheckIn } from "../models/CheckIn.js";
+import { User } from "../models/User.js";
+import { ticketIssuer } from "./ticketIssuer.js";
+import { client } from "../config/client.js";
+import { env } from "../config/env.js";
+import { ValidationError } from "../errors/AppError.js";
+import { updateSession } from "../utils/session.js";
+import { getTicketByType } from "../utils/ticketCatalog.js";
+import {
+  getTransferOfferMessage,
+  getTransferCompletedSenderMessage,
+  getTransferDeclinedMessage,
+  getTransferExpiredMessage,
+  getTransferFailedSenderMessage,
+} from "../messages/transfers.js";
+
+type SoldTicketDoc = InstanceType<typeof SoldTicket>;
+
+export type TransferResponse =
+  | { result: "accepted"; transfer: ITicketTransfer; ticketName: string }
+  | { result: "declined"; transfer: ITicketTransfer }
+  | { result: "failed"; transfer: ITicketTransfer };
+
+// "233241234567@c.us" -> "233241234567"
+function toNumber(chatId: string): string {
+  return chatId.split("@")[0] || chatId;
+}
+
+async function getTicketName(
+  record: { ticketType: string; eventId?: mongoose.Types.ObjectId | null }
+): Promise<string> {
+  const ticket = await getTicketByType(record.ticketType, record.eventId);
+  return ticket?.name || record.ticketType;
+}
+
+// Tell the sender what happened; a failed notification must not undo the transfer
+async function notifySender(
+  transfer: ITicketTransfer,
+  text: string
+): Promise<void> {
+  await client
+    .sendMessage(transfer.fromChatId, text)
+    .catch((error) =>
+      console.error(
+        `[TRANSFERS] Failed to notify ${transfer.fromChatId}:`,
+        error
+      )
+    );
+}
+
+// Point the sender's session at a ticket they still hold (if any)
+async function refreshSenderSession(chatId: string): Promise<void> {
+  const remaining = await SoldTicket.findOne({
+    chatId,
+    ticketId: { $exists: true },
+    revokedAt: null,
+  }).sort({ createdAt: 1 });
+  await updateSession(chatId, { ticketId: remaining?.ticketId || undefined });
+}
+
+/**
+ * Check the tier allows this ticket to change hands (again) and that it
+ * hasn't been used yet. Throws a ValidationError the user can read.
+ */
+async function assertTransferable(soldTicket: SoldTicketDoc): Promise<void> {
+  if (soldTicket.revokedAt) {
+    throw new ValidationError("❌ This ticket has been cancelled.");
+  }
+
+  if (!ticketIssuer.isEnabled() || !soldTicket.ticketId) {
+    throw new ValidationError(
+      "❌ This ticket can't be transferred from the chat. Please contact support."
+    );
+  }
+
+  const tier = await getTicketByType(
+    soldTicket.ticketType,
+    soldTicket.eventId
+  );
+  if (tier && !tier.transfersEnabled) {
+    throw new ValidationError(
+      `❌ *${tier.name}* tickets can't be transferred.`
+    );
+  }
+
+  const maxTransfers = tier?.maxTransfers;
+  if (
+    maxTransfers !== null &&
+    maxTransfers !== undefined &&
+    (soldTicket.transferCount || 0) >= maxTransfers
+  ) {
+    throw new ValidationError(
+      "❌ This ticket has already been transferred the maximum number of times."
+    );
+  }
+
+  const admitted = await CheckIn.exists({
+    soldTicketId: soldTicket._id,
+    result: "admitted",
+  });
+  if (admitted) {
+    throw new ValidationError(
+      "❌ This ticket has already been used to enter the event."
+    );
+  }
+}
+
+// Ticket transfers between WhatsApp users
+export const ticketTransfer = {
+  /**
+   * Issued tickets held by a chat, oldest first
+   */
+  async getTransferableTickets(chatId: string): Promise<SoldTicketDoc[]> {
+    return SoldTicket.find({
+      chatId,
+      ticketId: { $exists: true },
+      qrPayload: { $exists: true },
+      revokedAt: null,
+    }).sort({ createdAt: 1, _id: 1 });
+  },
+
+  /**
+   * Offer a ticket to another WhatsApp user. The ticket stays with the
+   * sender until the recipient accepts.
+   */
+  async request(
+    soldTicketId: string,
+    fromChatId: string,
+    toChatId: string
+  ): Promise<ITicketTransfer> {
+    const soldTicket = await SoldTicket.findOne({
+      _id: soldTicketId,
+      chatId: fromChatId,
+      revokedAt: null,
+    });
+    if (!soldTicket) {
+      throw new ValidationError(
+        "❌ That ticket is no longer in your chat. Type *menu* to start again."
+      );
+    }
+
+    if (toChatId === fromChatId) {
+      throw new ValidationError(
+        "❌ You can't transfer a ticket to yourself. Please enter someone else's number."
+      );
+    }
+
+    await assertTransferable(soldTicket);
+
+    const sender = await User.findOne({ chatId: fromChatId });
+    let transfer: ITicketTransfer;
+    try {
+      transfer = await TicketTransfer.create({
+        soldTicketId: soldTicket._id,
+        ticketType: soldTicket.ticketType,
+        eventId: soldTicket.eventId ?? undefined,
+        fromTicketId: soldTicket.ticketId!,
+        fromChatId,
+        fromUserId: sender?._id,
+        toChatId,
+        expiresAt: new Date(Date.now() + env.transferOfferHours * 3600000),
+      });
+    } catch (error: any) {
+      if (error.code !== 11000) throw error;
+      throw new ValidationError(
+        "⏳ This ticket already has a transfer waiting to be accepted."
+      );
+    }
+
+    const ticketName = await getTicketName(soldTicket);
+    try {
+      await client.sendMessage(
+        toChatId,
+        getTransferOfferMessage(
+          sender?.name || `+${toNumber(fromChatId)}`,
+          ticketName,
+          env.transferOfferHours
+        )
+      );
+    } catch (error) {
+      transfer.status = "failed";
+      transfer.failureReason = "Could not message the recipient";
+      await transfer.save();
+      console.error(`[TRANSFERS] Failed to message ${toChatId}:`, error);
+      throw new ValidationError(
+        "❌ We couldn't reach that WhatsApp number. Please check it and try again."
+      );
+    }
+
+    console.log(
+      `[TRANSFERS] ${soldTicket.ticketId} offered by ${fromChatId} to ${toChatId}`
+    );
+    return transfer;
+  },
+
+  /**
+   * Accept or decline the latest transfer waiting for a chat. Returns null
+   * if nothing is waiting for them.
+   */
+  async respond(
+    toChatId: string,
+    accept: boolean
+  ): Promise<TransferResponse | null> {
+    const now = new Date();
+    const transfer = await TicketTransfer.findOneAndUpdate(
+      { toChatId, status: "pending", expiresAt: { $gt: now } },
+      {
+        $set: {
+          status: accept ? "accepted" : "declined",
+          respondedAt: now,
+          updatedAt: now,
+        },
+      },
+      { sort: { createdAt: -1 }, new: true }
+    );
+    if (!transfer) return null;
+
+    const ticketName = await getTicketName(transfer);
+    const recipientNumber = toNumber(toChatId);
+
+    if (!accept) {
+      await notifySender(
+        transfer,
+        getTransferDeclinedMessage(ticketName, recipientNumber)
+      );
+      return { result: "declined", transfer };
+    }
+
+    const fail = async (reason: string): Promise<TransferResponse> => {
+      transfer.status = "failed";
+      transfer.failureReason = reason;
+      await transfer.save();
+      await notifySender(
+        transfer,
+        getTransferFailedSenderMessage(ticketName, recipientNumber, reason)
+      );
+      return { result: "failed", transfer };
+    };
+
+    const soldTicket = await SoldTicket.findById(transfer.soldTicketId);
+    if (
+      !soldTicket ||
+      soldTicket.ticketId !== transfer.fromTicketId ||
+      soldTicket.chatId !== transfer.fromChatId
+    ) {
+      return fail("the ticket has changed since the transfer was requested");
+    }
+
+    try {
+      await assertTransferable(soldTicket);
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error;
+      return fail("it is no longer eligible for transfer");
+    }
+
+    const recipient = await User.findOne({ chatId: toChatId });
+    const reissued = await ticketIssuer.reissue(
+      soldTicket._id,
+      transfer.fromTicketId,
+      {
+        userId: recipient?._id,
+        chatId: toChatId,
+        name: recipient?.name,
+        email: recipient?.email,
+      }
+    );
+    if (!reissued) {
+      return fail("the ticket has changed since the transfer was requested");
+    }
+
+    transfer.toTicketId = reissued.ticketId!;
+    transfer.toUserId = recipient?._id;
+    await transfer.save();
+
+    await refreshSenderSession(transfer.fromChatId);
+    await notifySender(
+      transfer,
+      getTransferCompletedSenderMessage(ticketName, recipientNumber)
+    );
+
+    console.log(
+      `[TRANSFERS] ${transfer.fromTicketId} -> ${reissued.ticketId} accepted by ${toChatId}`
+    );
+    return { result: "accepted", transfer, ticketName };
+  },
+
+  /**
+   * Close transfers nobody accepted in time and tell the senders.
+   * Returns how many expired.
+   */
+  async expireStale(): Promise<number> {
+    const stale = await TicketTransfer.find({
+      status: "pending",
+      expiresAt: { $lte: new Date() },
+    });
+
+    let expired = 0;
+    for (const candidate of stale) {
+      const transfer = await TicketTransfer.findOneAndUpdate(
+        { _id: candidate._id, status: "pending" },
+        { $set: { status: "expired", updatedAt: new Date() } },
+        { new: true }
+      );
+      if (!transfer) continue; // Answered in the meantime
+
+      expired++;
+      await notifySender(
+        transfer,
+        getTransferExpiredMessage(
+          await getTicketName(transfer),
+          toNumber(transfer.toChatId)
+        )
+      );
+    }
+
+    return expired;
+  },
+};
@@ -0,0 +1,295 @@
+import crypto from "crypto";
+import mongoose from "mongoose";
+import {
+  CreditVoucher,
+  type ICreditVoucher,
+} from "../models/CreditVoucher.js";
+import { Order, type IOrder } from "../models/Order.js";
+import { Reservation } from "../models/Reservation.js";
+import { User } from "../models/User.js";
+import type { IEvent } from "../models/Event.js";
+import { wallet } from "./wallet.js";
+import { adminAlerts } from "./adminAlerts.js";
+import { ValidationError } from "../errors/AppError.js";
+import { formatMoney } from "../utils/money.js";
+
+// Credit never covers a whole checkout: payment providers can't take a zero
+// charge, so at least this much (in pesewas) is left to pay
+export const MIN_CHARGE = 100;
+
+// Held credit younger than this is left alone, so a checkout still opening
+// its payment link isn't taken for an abandoned one
+const HOLD_GRACE_MS = 10 * 60 * 1000;
+
+type ObjectId = mongoose.Types.ObjectId;
+
+function generateCode(): string {
+  return `AFC${crypto.randomBytes(4).toString("hex").toUpperCase()}`;
+}
+
+/**
+ * Give the credit one voucher holds for an order back to the voucher.
+ * Returns the amount released (0 if nothing was held).
+ */
+async function releaseFrom(
+  voucher: ICreditVoucher,
+  orderId: ObjectId
+): Promise<number> {
+  const redemption = voucher.redemptions.find(
+    (r) => r.orderId.equals(orderId) && r.status === "held"
+  );
+  if (!redemption) return 0;
+
+  const result = await CreditVoucher.updateOne(
+    {
+      _id: voucher._id,
+      redemptions: { $elemMatch: { orderId, status: "held" } },
+    },
+    {
+      $inc: { balance: redemption.amount },
+      $set: {
+        status: "active",
+        "redemptions.$.status": "released",
+        "redemptions.$.releasedAt": new Date(),
+      },
+    }
+  );
+  return result.modifiedCount > 0 ? redemption.amount : 0;
+}
+
+// Event credit: wallet money a buyer moved to an event, taken off their
+// checkouts for that event
+export const vouchers = {
+  /**
+   * Move a buyer's whole wallet balance to an event as a voucher. The
+   * wallet debit is reversed if the voucher can't be created.
+   */
+  async fromWallet(chatId: string, event: IEvent): Promise<ICreditVoucher> {
+    const balance = await wallet.getBalance(chatId);
+    if (balance <= 0) {
+      throw new ValidationError(
+        "Your wallet is empty. Type *menu* to see all options."
+      );
+    }
+
+    const transaction = await wallet.transfer(chatId, balance, event.name);
+    const user = await User.findOne({ chatId }).select("_id");
+
+    try {
+      for (let attempt = 1; ; attempt++) {
+        try {
+          const voucher = await CreditVoucher.create({
+            code: generateCode(),
+            chatId,
+            userId: user?._id,
+            eventId: event._id,
+            eventName: event.name,
+            amount: balance,
+            balance,
+            walletTransactionId: transaction._id,
+          });
+          console.log(
+            `[VOUCHERS] ${voucher.code}: ${formatMoney(balance)} for ${chatId} towards ${event.name}`
+          );
+          return voucher;
+        } catch (error: any) {
+          // Retry on a code clash
+          if (error.code !== 11000 || !error.keyPattern?.code) throw error;
+          if (attempt >= 3) throw error;
+        }
+      }
+    } catch (error) {
+      await wallet.credit(chatId, balance, {
+        description: `Transfer to ${event.name} reversed`,
+        reference: `reversal:${transaction._id}`,
+      });
+      throw error;
+    }
+  },
+
+  /**
+   * Credit a buyer has for an event, in pesewas
+   */
+  async getAvailable(
+    chatId: string,
+    eventId: ObjectId | string
+  ): Promise<number> {
+    const active = await CreditVoucher.find({
+      chatId,
+      eventId,
+      status: "active",
+    }).select("balance");
+    return active.reduce((sum, voucher) => sum + voucher.balance, 0);
+  },
+
+  /**
+   * Hold up to `amount` of a buyer's credit for an event against an order,
+   * oldest vouchers first. Returns the amount held.
+   */
+  async hold(
+    chatId: string,
+    eventId: ObjectId | string,
+    orderId: ObjectId,
+    amount: number
+  ): Promise<number> {
+    const available = await CreditVoucher.find({
+      chatId,
+      eventId,
+      status: "active",
+      balance: { $gt: 0 },
+    }).sort({ createdAt: 1 });
+
+    let held = 0;
+    for (const voucher of available) {
+      const take = Math.min(voucher.balance, amount - held);
+      if (take <= 0) break;
+
+      // The balance guard stops two checkouts spending the same credit
+      const updated = await CreditVoucher.findOneAndUpdate(
+        {
+          _id: voucher._id,
+          balance: { $gte: take },
+          redemptions: {
+            $not: {
+              $elemMatch: { orderId, status: { $in: ["held", "redeemed"] } },
+            },
+          },
+        },
+        {
+          $inc: { balance: -take },
+          $push: { redemptions: { orderId, amount: take, status: "held" } },
+        },
+        { new: true }
+      );
+      if (!updated) continue;
+
+      held += take;
+      if (updated.balance === 0) {
+        await CreditVoucher.updateOne(
+          { _id: updated._id, balance: 0 },
+          { $set: { status: "used" } }
+        );
+      }
+    }
+
+    return held;
+  },
+
+  /**
+   * Give back all credit held for an order that won't be paid. Returns the
+   * amount released.
+   */
+  async release(orderId: ObjectId): Promise<number> {
+    const holding = await CreditVoucher.find({
+      redemptions: { $elemMatch: { orderId, status: "held" } },
+    });
+
+    let released = 0;
+    for (const voucher of holding) {
+      released += await releaseFrom(voucher, orderId);
+    }
+    if (released > 0) {
+      console.log(
+        `[VOUCHERS] Released ${formatMoney(released)} held for order ${orderId}`
+      );
+    }
+    return released;
+  },
+
+  /**
+   * Spend the credit held for a paid order. Credit released in the meantime
+   * (the buyer paid after their hold lapsed) is taken again if they still
+   * have it; admins are alerted if they don't. Safe to run more than once.
+   */
+  async redeem(
+    order: IOrder,
+    paymentReference: string,
+    eventId?: ObjectId
+  ): Promise<void> {
+    if (!order.voucherCredit) return;
+
+    const orderId = order._id as ObjectId;
+    const markRedeemed = () =>
+      CreditVoucher.updateMany(
+        { redemptions: { $elemMatch: { orderId, status: "held" } } },
+        {
+          $set: {
+            "redemptions.$[r].status": "redeemed",
+            "redemptions.$[r].paymentReference": paymentReference,
+            "redemptions.$[r].redeemedAt": new Date(),
+          },
+        },
+        { arrayFilters: [{ "r.orderId": orderId, "r.status": "held" }] }
+      );
+    const redeemedSoFar = async () => {
+      const used = await CreditVoucher.find({ "redemptions.orderId": orderId });
+      return used
+        .flatMap((voucher) => voucher.redemptions)
+        .filter((r) => r.orderId.equals(orderId) && r.status === "redeemed")
+        .reduce((sum, r) => sum + r.amount, 0);
+    };
+
+    await markRedeemed();
+    let shortfall = order.voucherCredit - (await redeemedSoFar());
+    if (shortfall > 0 && eventId) {
+      await this.hold(order.chatId, eventId, orderId, shortfall);
+      await markRedeemed();
+      shortfall = order.voucherCredit - (await redeemedSoFar());
+    }
+
+    if (shortfall > 0) {
+      await adminAlerts.raise({
+        type: "wallet.voucher_shortfall",
+        severity: "warning",
+        title: "Event credit no longer available",
+        message: `Order ${orderId} was paid with ${formatMoney(
+          order.voucherCredit
+        )} of event credit, but ${formatMoney(
+          shortfall
+        )} of it had already been spent elsewhere`,
+        reference: paymentReference,
+        chatId: order.chatId,
+        data: { orderId: orderId.toString(), shortfall },
+      });
+    }
+  },
+
+  /**
+   * Give back credit held by checkouts that were never paid and whose
+   * tickets are no longer held for the buyer. Returns how many holds were
+   * released.
+   */
+  async releaseLapsed(): Promise<number> {
+    const cutoff = new Date(Date.now() - HOLD_GRACE_MS);
+    const holding = await CreditVoucher.find({
+      redemptions: { $elemMatch: { status: "held", heldAt: { $lte: cutoff } } },
+    });
+
+    let released = 0;
+    for (const voucher of holding) {
+      const lapsed = voucher.redemptions.filter(
+        (r) => r.status === "held" && r.heldAt <= cutoff
+      );
+      for (const redemption of lapsed) {
+        const order = await Order.findById(redemption.orderId);
+        // Paid orders are redeemed by their fulfilment
+        if (order && ["paid", "fulfilled"].includes(order.status)) continue;
+
+        const checkoutOpen =
+          order?.status === "pending" &&
+          !!order.paymentReference &&
+          (await Reservation.exists({
+            paymentReference: order.paymentReference,
+            status: "held",
+          }));
+        if (checkoutOpen) continue;
+
+        if ((await releaseFrom(voucher, redemption.orderId)) > 0) {
+          released++;
+        }
+      }
+    }
+
+    return released;
+  },
+};
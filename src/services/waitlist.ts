@@ -0,0 +1,354 @@
+import type mongoose from "mongoose";
+import {
+  WaitlistEntry,
+  type IWaitlistEntry,
+} from "../models/WaitlistEntry.js";
+import { Reservation } from "../models/Reservation.js";
+import { Order } from "../models/Order.js";
+import { User } from "../models/User.js";
+import { inventory } from "./inventory.js";
+import { backend } from "./backend.js";
+import { client } from "../config/client.js";
+import { env } from "../config/env.js";
+import { SESSION_STATES } from "../config/constants.js";
+import { StockError } from "../errors/AppError.js";
+import { updateSession } from "../utils/session.js";
+import { getTicketByType } from "../utils/ticketCatalog.js";
+import {
+  getWaitlistOfferMessage,
+  getWaitlistOfferExpiredMessage,
+} from "../messages/waitlist.js";
+
+const OPEN_STATUSES = ["waiting", "offered"];
+
+type EventRef = mongoose.Types.ObjectId | string | null;
+
+// Each event's tier has its own queue. Entries from before queues were kept
+// per event have no event, which a null filter matches.
+function queueFilter(ticketType: string, eventId?: EventRef) {
+  return { ticketType: ticketType.toUpperCase(), eventId: eventId ?? null };
+}
+
+/**
+ * Offer a held ticket to a waitlisted user: create their order and payment
+ * link and message them. Returns false if the link could not be created.
+ */
+async function sendOffer(
+  entry: IWaitlistEntry,
+  reservationId: string
+): Promise<boolean> {
+  const reservation = (await Reservation.findById(reservationId))!;
+  const ticket = await getTicketByType(entry.ticketType, entry.eventId);
+  const user = await User.findOne({ chatId: entry.chatId });
+  const price = reservation.unitPrice ?? ticket?.price ?? 0;
+
+  const order = await Order.create({
+    chatId: entry.chatId,
+    userId: user?._id,
+    ticketType: entry.ticketType,
+    quantity: 1,
+    unitPrice: price,
+    pricingPhaseId: reservation.pricingPhaseId,
+    totalAmount: price,
+    attendees: [{ name: user?.name }],
+  });
+
+  try {
+    const payment = await backend.generatePaymentLink(
+      price,
+      entry.chatId,
+      entry.chatId,
+      {
+        ticketType: entry.ticketType,
+        eventId: entry.eventId?.toString(),
+        paymentType: "full",
+        quantity: 1,
+        orderId: order._id.toString(),
+        reservationId,
+      }
+    );
+    await inventory.attachPayment(reservationId, payment.reference);
+    order.paymentReference = payment.reference;
+    await order.save();
+
+    entry.orderId = order._id;
+    entry.paymentReference = payment.reference;
+    await entry.save();
+
+    await updateSession(entry.chatId, {
+      ticketType: entry.ticketType,
+      eventId: entry.eventId?.toString(),
+      quantity: 1,
+      attendeeNames: [],
+      paymentType: "full",
+      totalPrice: price,
+      state: SESSION_STATES.AWAITING_PAYMENT,
+    });
+
+    await client.sendMessage(
+      entry.chatId,
+      getWaitlistOfferMessage(
+        ticket?.name || entry.ticketType,
+        price,
+        payment.paymentLink,
+        env.waitlistOfferMinutes
+      )
+    );
+    return true;
+  } catch (error) {
+    console.error(`[WAITLIST] Failed to send offer to ${entry.chatId}:`, error);
+    order.status = "cancelled";
+    await order.save();
+    return false;
+  }
+}
+
+// Waitlist queue for sold-out tiers
+export const waitlist = {
+  /**
+   * Add a user to the back of a tier's queue (or return their existing place)
+   */
+  async join(
+    ticketType: string,
+    chatId: string,
+    eventId?: EventRef
+  ): Promise<{ entry: IWaitlistEntry; position: number }> {
+    const queue = queueFilter(ticketType, eventId);
+    const type = queue.ticketType;
+    let entry = await WaitlistEntry.findOne({
+      ...queue,
+      chatId,
+      status: { $in: OPEN_STATUSES },
+    });
+
+    if (!entry) {
+      const last = await WaitlistEntry.findOne(queue).sort({
+        position: -1,
+      });
+      const user = await User.findOne({ chatId });
+
+      try {
+        entry = await WaitlistEntry.create({
+          ticketType: type,
+          eventId: eventId ?? undefined,
+          chatId,
+          userId: user?._id,
+          position: (last?.position || 0) + 1,
+        });
+        console.log(`[WAITLIST] ${chatId} joined the ${type} waitlist`);
+      } catch (error: any) {
+        // Joined twice at once: keep the first entry
+        if (error.code !== 11000) throw error;
+        entry = (await WaitlistEntry.findOne({
+          ...queue,
+          chatId,
+          status: { $in: OPEN_STATUSES },
+        }))!;
+      }
+    }
+
+    return { entry, position: await this.getPosition(entry) };
+  },
+
+  /**
+   * 1-based place in the queue among users still waiting
+   */
+  async getPosition(entry: IWaitlistEntry): Promise<number> {
+    if (entry.status !== "waiting") return 0;
+
+    const ahead = await WaitlistEntry.countDocuments({
+      ...queueFilter(entry.ticketType, entry.eventId),
+      status: "waiting",
+      $or: [
+        { position: { $lt: entry.position } },
+        { position: entry.position, createdAt: { $lt: entry.createdAt } },
+      ],
+    });
+    return ahead + 1;
+  },
+
+  /**
+   * Offer freed-up stock of a tier to the next people in its queue, one
+   * ticket each, until the stock or the queue runs out.
+   * Returns the number of offers sent.
+   */
+  async offerNext(ticketType: string, eventId?: EventRef): Promise<number> {
+    const queue = queueFilter(ticketType, eventId);
+    const type = queue.ticketType;
+    const tier = await getTicketByType(type, eventId);
+    if (!tier) return 0;
+    let offered = 0;
+
+    while (true) {
+      const next = await WaitlistEntry.findOne({
+        ...queue,
+        status: "waiting",
+      }).sort({ position: 1, createdAt: 1 });
+      if (!next) break;
+
+      let reservationId: string;
+      try {
+        const reservation = await inventory.hold(
+          tier,
+          1,
+          next.chatId,
+          env.waitlistOfferMinutes
+        );
+        reservationId = reservation._id.toString();
+      } catch (error) {
+        if (error instanceof StockError) break; // Nothing left to offer
+        throw error;
+      }
+
+      // Claim the entry; it may have been removed while we were holding
+      const entry = await WaitlistEntry.findOneAndUpdate(
+        { _id: next._id, status: "waiting" },
+        {
+          $set: {
+            status: "offered",
+            offeredAt: new Date(),
+            offerExpiresAt: new Date(
+              Date.now() + env.waitlistOfferMinutes * 60 * 1000
+            ),
+            reservationId,
+            updatedAt: new Date(),
+          },
+        },
+        { new: true }
+      );
+      if (!entry) {
+        await inventory.releaseById(reservationId, "abandoned");
+        continue;
+      }
+
+      if (!(await sendOffer(entry, reservationId))) {
+        await inventory.releaseById(reservationId, "link_failed");
+        await WaitlistEntry.updateOne(
+          { _id: entry._id },
+          {
+            $set: { status: "waiting", updatedAt: new Date() },
+            $unset: { offeredAt: "", offerExpiresAt: "", reservationId: "" },
+          }
+        );
+        break; // Try again on the next sweep
+      }
+
+      offered++;
+      console.log(`[WAITLIST] Offered a ${type} ticket to ${entry.chatId}`);
+    }
+
+    return offered;
+  },
+
+  /**
+   * Close offers whose payment window has passed, so the next person in
+   * line can be offered the ticket. Returns the number of offers closed.
+   */
+  async expireOffers(): Promise<number> {
+    const due = await WaitlistEntry.find({
+      status: "offered",
+      offerExpiresAt: { $lte: new Date() },
+    });
+    let expired = 0;
+
+    for (const entry of due) {
+      if (entry.reservationId) {
+        await inventory.releaseById(entry.reservationId.toString(), "expired");
+        const reservation = await Reservation.findById(entry.reservationId);
+        if (reservation?.status === "converted") {
+          // Paid just in time
+          await this.markConverted(entry.paymentReference || "");
+          continue;
+        }
+      }
+
+      const closed = await WaitlistEntry.findOneAndUpdate(
+        { _id: entry._id, status: "offered" },
+        { $set: { status: "expired", updatedAt: new Date() } }
+      );
+      if (!closed) continue;
+
+      expired++;
+      const ticket = await getTicketByType(entry.ticketType, entry.eventId);
+      await client
+        .sendMessage(
+          entry.chatId,
+          getWaitlistOfferExpiredMessage(ticket?.name || entry.ticketType)
+        )
+        .catch((error) =>
+          console.error(`[WAITLIST] Failed to notify ${entry.chatId}:`, error)
+        );
+    }
+
+    return expired;
+  },
+
+  /**
+   * Record that an offered ticket was paid for
+   */
+  async markConverted(paymentReference: string): Promise<void> {
+    if (!paymentReference) return;
+
+    await WaitlistEntry.updateOne(
+      { paymentReference, status: { $in: ["offered", "expired"] } },
+      {
+        $set: {
+          status: "converted",
+          convertedAt: new Date(),
+          updatedAt: new Date(),
+        },
+      }
+    );
+  },
+
+  /**
+   * Take an entry out of the queue, giving back any ticket held for it
+   */
+  async cancel(entryId: string): Promise<IWaitlistEntry | null> {
+    const entry = await WaitlistEntry.findOneAndUpdate(
+      { _id: entryId, status: { $in: OPEN_STATUSES } },
+      { $set: { status: "cancelled", updatedAt: new Date() } },
+      { new: true }
+    );
+
+    if (entry?.reservationId) {
+      const released = await inventory.releaseById(
+        entry.reservationId.toString(),
+        "abandoned"
+      );
+      if (released) {
+        await this.offerNext(entry.ticketType, entry.eventId);
+      }
+    }
+
+    return entry;
+  },
+
+  /**
+   * Expire stale offers, then offer any free stock to every queue.
+   * Returns the number of offers sent.
+   */
+  async processAll(): Promise<number> {
+    await this.expireOffers();
+
+    const queues = await WaitlistEntry.aggregate<{
+      _id: { ticketType: string; eventId: mongoose.Types.ObjectId | null };
+    }>([
+      { $match: { status: "waiting" } },
+      {
+        $group: {
+          _id: {
+            ticketType: "$ticketType",
+            eventId: { $ifNull: ["$eventId", null] },
+          },
+        },
+      },
+    ]);
+
+    let offered = 0;
+    for (const { _id: queue } of queues) {
+      offered += await this.offerNext(queue.ticketType, queue.eventId);
+    }
+    return offered;
+  },
+};
@@ -0,0 +1,197 @@
+import {
+  WalletTransaction,
+  type IWalletTransaction,
+  type WalletTransactionType,
+} from "../models/WalletTransaction.js";
+import { User } from "../models/User.js";
+import { ValidationError } from "../errors/AppError.js";
+import { formatMoney } from "../utils/money.js";
+
+// How often to retry when another entry for the same chat is written first
+const MAX_ATTEMPTS = 5;
+
+export interface WalletEntryDetails {
+  description: string;
+  reference?: string; // Posting twice with the same reference is a no-op
+  destination?: string;
+  createdBy?: string;
+}
+
+function assertPositive(amount: number): void {
+  if (!Number.isInteger(amount) || amount <= 0) {
+    throw new ValidationError(
+      "Wallet amounts must be a whole number of pesewas above zero"
+    );
+  }
+}
+
+/**
+ * Append an entry to a chat's ledger. Each entry takes the next sequence
+ * number for the chat, which is unique, so concurrent writers can't both
+ * build on the same balance: the loser re-reads the balance and tries again.
+ * The balance can never go below zero.
+ */
+async function post(
+  chatId: string,
+  type: WalletTransactionType,
+  amount: number, // Pesewas; negative takes money out
+  details: WalletEntryDetails
+): Promise<IWalletTransaction> {
+  if (details.reference) {
+    const existing = await WalletTransaction.findOne({
+      reference: details.reference,
+    });
+    if (existing) return existing;
+  }
+
+  const user = await User.findOne({ chatId }).select("_id");
+
+  for (let attempt = 1; ; attempt++) {
+    const last = await WalletTransaction.findOne({ chatId }).sort({
+      sequence: -1,
+    });
+    const balance = last?.balanceAfter || 0;
+    if (balance + amount < 0) {
+      throw new ValidationError(
+        `Not enough in the wallet: the balance is ${formatMoney(balance)}`
+      );
+    }
+
+    try {
+      const transaction = await WalletTransaction.create({
+        chatId,
+        userId: user?._id,
+        sequence: (last?.sequence || 0) + 1,
+        type,
+        amount,
+        balanceAfter: balance + amount,
+        ...details,
+      });
+      console.log(
+        `[WALLET] ${type} of ${formatMoney(Math.abs(amount))} for ${chatId}, balance ${formatMoney(
+          transaction.balanceAfter
+        )}`
+      );
+      return transaction;
+    } catch (error: any) {
+      if (error.code !== 11000) throw error;
+      if (details.reference && error.keyPattern?.reference) {
+        const existing = await WalletTransaction.findOne({
+          reference: details.reference,
+        });
+        if (existing) return existing;
+      }
+      if (attempt >= MAX_ATTEMPTS) throw error;
+    }
+  }
+}
+
+// Buyers' wallets: a ledger of credits and what was done with them
+export const wallet = {
+  /**
+   * Current balance in pesewas
+   */
+  async getBalance(chatId: string): Promise<number> {
+    const last = await WalletTransaction.findOne({ chatId })
+      .sort({ sequence: -1 })
+      .select("balanceAfter");
+    return last?.balanceAfter || 0;
+  },
+
+  /**
+   * A chat's entries, newest first
+   */
+  async getStatement(
+    chatId: string,
+    limit: number = 10,
+    skip: number = 0
+  ): Promise<IWalletTransaction[]> {
+    return WalletTransaction.find({ chatId })
+      .sort({ sequence: -1 })
+      .skip(skip)
+      .limit(limit);
+  },
+
+  /**
+   * Add money to a wallet, e.g. what was paid towards a missed deadline
+   */
+  async credit(
+    chatId: string,
+    amount: number,
+    details: WalletEntryDetails
+  ): Promise<IWalletTransaction> {
+    assertPositive(amount);
+    return post(chatId, "credit", amount, details);
+  },
+
+  /**
+   * Take money out of a wallet
+   */
+  async debit(
+    chatId: string,
+    amount: number,
+    details: WalletEntryDetails
+  ): Promise<IWalletTransaction> {
+    assertPositive(amount);
+    return post(chatId, "debit", -amount, details);
+  },
+
+  /**
+   * Move money out of a wallet towards another event
+   */
+  async transfer(
+    chatId: string,
+    amount: number,
+    destination: string
+  ): Promise<IWalletTransaction> {
+    assertPositive(amount);
+    return post(chatId, "transfer", -amount, {
+      description: `Transferred to ${destination}`,
+      destination,
+    });
+  },
+
+  /**
+   * Give money out of a wallet to a good cause
+   */
+  async donate(
+    chatId: string,
+    amount: number,
+    destination: string
+  ): Promise<IWalletTransaction> {
+    assertPositive(amount);
+    return post(chatId, "donation", -amount, {
+      description: `Donated to ${destination}`,
+      destination,
+    });
+  },
+
+  /**
+   * Write off money left unused past its expiry
+   */
+  async expire(
+    chatId: string,
+    amount: number,
+    details: WalletEntryDetails
+  ): Promise<IWalletTransaction> {
+    assertPositive(amount);
+    return post(chatId, "expiry", -amount, details);
+  },
+
+  /**
+   * An admin's correction: a credit if the amount is positive, a debit if
+   * it's negative
+   */
+  async adjust(
+    chatId: string,
+    amount: number,
+    reason: string,
+    adminId?: string
+  ): Promise<IWalletTransaction> {
+    assertPositive(Math.abs(amount));
+    return post(chatId, amount > 0 ? "credit" : "debit", amount, {
+      description: reason,
+      createdBy: adminId,
+    });
+  },
+};
@@ -0,0 +1,366 @@
+import {
+  Payment,
+  type IPayment,
+  type PaymentProviderName,
+} from "../models/Payment.js";
+import { WebhookEvent, type IWebhookEvent } from "../models/WebhookEvent.js";
+import {
+  paymentProviders,
+  type PaymentProvider,
+  type PaymentWebhookEvent,
+} from "./paymentProvider.js";
+import { fulfilment } from "./fulfilment.js";
+import { failedCharges } from "./failedCharges.js";
+import { refunds } from "./refunds.js";
+import { adminAlerts } from "./adminAlerts.js";
+import { client } from "../config/client.js";
+import { ValidationError } from "../errors/AppError.js";
+import { getChargebackMessage } from "../messages/payments.js";
+import { formatMoney } from "../utils/money.js";
+
+type WebhookHandler = (
+  event: PaymentWebhookEvent,
+  provider: PaymentProvider
+) => Promise<void>;
+
+const describe = (amount?: number) =>
+  amount === undefined ? "an unknown amount" : formatMoney(amount);
+
+const HANDLERS: Record<string, WebhookHandler> = {
+  async "charge.success"(event, provider) {
+    if (!event.reference) return;
+
+    const verification = await provider.verifyPayment(event.reference);
+    if (verification.status === "success") {
+      await fulfilment.settle(event.reference, new Date(verification.paidAt));
+    }
+  },
+
+  async "charge.failed"(event, provider) {
+    if (!event.reference) return;
+
+    // A late success can follow a failed attempt on the same reference
+    const verification = await provider.verifyPayment(event.reference);
+    if (verification.status === "success") {
+      await fulfilment.settle(event.reference, new Date(verification.paidAt));
+      return;
+    }
+
+    await failedCharges.handle(event.reference, event.reason);
+  },
+
+  async "charge.dispute.create"(event) {
+    const payment = event.reference
+      ? await Payment.findOne({ paystackReference: event.reference })
+      : null;
+
+    if (!payment) {
+      await adminAlerts.raise({
+        type: "payment.disputed",
+        title: "Dispute on an unknown payment",
+        message: `A ${describe(event.amount)} dispute was opened on ${
+          event.reference || "a transaction"
+        } we have no record of`,
+        reference: event.reference,
+        data: { disputeId: event.disputeId, reason: event.reason },
+      });
+      return;
+    }
+    if (
+      payment.dispute?.resolvedAt &&
+      payment.dispute.disputeId === event.disputeId
+    ) {
+      console.log(`[WEBHOOK] Dispute ${event.disputeId} is already resolved`);
+      return;
+    }
+
+    // Redeliveries and replays keep the status from before the dispute
+    const previousStatus =
+      payment.status === "disputed"
+        ? payment.dispute?.previousStatus || "success"
+        : payment.status;
+    payment.status = "disputed";
+    payment.dispute = {
+      disputeId: event.disputeId,
+      reason: event.reason,
+      amount: event.amount,
+      previousStatus,
+      openedAt: payment.dispute?.openedAt || new Date(),
+    };
+    await payment.save();
+
+    await adminAlerts.raise({
+      type: "payment.disputed",
+      severity: "critical",
+      title: "Payment disputed",
+      message: `The buyer disputed ${describe(event.amount)} on ${
+        payment.paystackReference
+      }${event.reason ? `: ${event.reason}` : ""}. Respond on Paystack.`,
+      reference: payment.paystackReference,
+      chatId: payment.chatId,
+      data: { disputeId: event.disputeId },
+    });
+  },
+
+  async "charge.dispute.resolve"(event) {
+    const payment = event.reference
+      ? await Payment.findOne({ paystackReference: event.reference })
+      : null;
+    if (!payment || payment.status !== "disputed" || !payment.dispute) {
+      await adminAlerts.raise({
+        type: "payment.dispute_resolved",
+        severity: "info",
+        title: "Dispute resolved",
+        message: `A dispute on ${
+          event.reference || "a transaction"
+        } was resolved (${event.resolution || "no resolution given"})`,
+        reference: event.reference,
+      });
+      return;
+    }
+
+    const lost = event.resolution === "merchant-accepted";
+    payment.status = lost
+      ? "reversed"
+      : (payment.dispute.previousStatus as IPayment["status"]);
+    payment.dispute.resolution = event.resolution;
+    payment.dispute.resolvedAt = new Date();
+    await payment.save();
+
+    if (lost) {
+      const cancelled = await refunds.reverse(payment, "chargeback");
+      await client
+        .sendMessage(payment.chatId, getChargebackMessage(cancelled))
+        .catch((error) =>
+          console.error(`[WEBHOOK] Failed to notify ${payment.chatId}:`, error)
+        );
+    }
+
+    await adminAlerts.raise({
+      type: "payment.dispute_resolved",
+      severity: lost ? "warning" : "info",
+      title: lost ? "Dispute lost: payment reversed" : "Dispute resolved",
+      message: lost
+        ? `${payment.paystackReference} was reversed and its tickets cancelled`
+        : `${payment.paystackReference} keeps its payment (${
+            event.resolution || "resolved"
+          })`,
+      reference: payment.paystackReference,
+      chatId: payment.chatId,
+    });
+  },
+
+  async "refund.pending"(event) {
+    console.log(`[WEBHOOK] Refund pending for ${event.reference}`);
+  },
+
+  async "refund.processing"(event) {
+    console.log(`[WEBHOOK] Refund processing for ${event.reference}`);
+  },
+
+  async "refund.processed"(event) {
+    if (!event.reference) return;
+
+    const refund = await refunds.markProcessed(
+      event.reference,
+      event.refundId
+    );
+    if (refund) return;
+
+    // Nothing requested from the dashboard: someone refunded on Paystack
+    const recorded = await refunds.recordExternal(
+      event.reference,
+      event.amount,
+      event.refundId
+    );
+    await adminAlerts.raise({
+      type: "refund.external",
+      severity: recorded ? "info" : "warning",
+      title: "Refund made outside the dashboard",
+      message: recorded
+        ? `${describe(recorded.amount)} was refunded on ${
+            event.reference
+          } directly with the provider. Its tickets were kept.`
+        : `A ${describe(event.amount)} refund on ${
+            event.reference
+          } couldn't be matched to a payment with that much left to refund`,
+      reference: event.reference,
+      chatId: recorded?.chatId,
+    });
+  },
+
+  async "refund.failed"(event) {
+    if (!event.reference) return;
+
+    const refund = await refunds.markFailed(
+      event.reference,
+      event.refundId,
+      event.reason
+    );
+    await adminAlerts.raise({
+      type: "refund.failed",
+      title: "Refund failed",
+      message: `The refund of ${describe(refund?.amount ?? event.amount)} on ${
+        event.reference
+      } failed${event.reason ? `: ${event.reason}` : ""}`,
+      reference: event.reference,
+      chatId: refund?.chatId,
+    });
+  },
+
+  async "transfer.success"(event) {
+    console.log(
+      `[WEBHOOK] Transfer ${event.transferReference} of ${describe(
+        event.amount
+      )} succeeded`
+    );
+  },
+
+  async "transfer.failed"(event) {
+    await adminAlerts.raise({
+      type: "transfer.failed",
+      title: "Payout failed",
+      message: `Transfer ${event.transferReference} of ${describe(
+        event.amount
+      )} failed${event.reason ? `: ${event.reason}` : ""}`,
+      reference: event.transferReference,
+    });
+  },
+
+  async "transfer.reversed"(event) {
+    await adminAlerts.raise({
+      type: "transfer.reversed",
+      title: "Payout reversed",
+      message: `Transfer ${event.transferReference} of ${describe(
+        event.amount
+      )} was reversed and the money returned to the balance`,
+      reference: event.transferReference,
+    });
+  },
+};
+
+// Run an event's handler. Returns false if there is none for its type.
+async function dispatch(
+  event: PaymentWebhookEvent,
+  provider: PaymentProvider
+): Promise<boolean> {
+  const handler = HANDLERS[event.event];
+  if (!handler) {
+    console.log(`[WEBHOOK] No handler for ${event.event}`);
+    return false;
+  }
+
+  console.log(`[WEBHOOK] ${event.event} event`, JSON.stringify(event));
+  await handler(event, provider);
+  return true;
+}
+
+// Provider webhooks: every delivery is logged with its payload so admins
+// can see what arrived and run an event again
+export const webhooks = {
+  /**
+   * Log and handle a verified webhook. Events already handled are skipped.
+   * Throws if handling fails, so the provider delivers it again.
+   */
+  async receive(
+    providerName: PaymentProviderName,
+    payload: any
+  ): Promise<IWebhookEvent | null> {
+    const provider = paymentProviders.get(providerName);
+    const event = provider.parseWebhook(payload);
+    const { eventId } = event;
+
+    const previous = await WebhookEvent.findOneAndUpdate(
+      { eventId },
+      {
+        $setOnInsert: {
+          provider: provider.name,
+          event: event.event,
+          reference: event.reference ?? event.transferReference,
+          payload,
+        },
+        $set: { lastReceivedAt: new Date() },
+        $inc: { deliveries: 1 },
+      },
+      { upsert: true }
+    );
+    if (previous && ["processed", "ignored"].includes(previous.status)) {
+      console.log(`[WEBHOOK] Ignoring redelivered event ${eventId}`);
+      return previous;
+    }
+
+    try {
+      const handled = await dispatch(event, provider);
+      return WebhookEvent.findOneAndUpdate(
+        { eventId },
+        {
+          $set: {
+            status: handled ? "processed" : "ignored",
+            processedAt: new Date(),
+          },
+          $unset: { error: "" },
+        },
+        { new: true }
+      );
+    } catch (error: any) {
+      await WebhookEvent.updateOne(
+        { eventId },
+        { $set: { status: "failed", error: error?.message || String(error) } }
+      ).catch(() => undefined);
+      throw error;
+    }
+  },
+
+  /**
+   * Handle a logged event again, whatever its status. The handlers are safe
+   * to repeat. Returns null if the event doesn't exist; throws a
+   * ValidationError if it was logged without its payload.
+   */
+  async replay(
+    webhookEventId: string,
+    adminId?: string
+  ): Promise<IWebhookEvent | null> {
+    const logged = await WebhookEvent.findById(webhookEventId);
+    if (!logged) return null;
+    if (!logged.payload) {
+      throw new ValidationError(
+        "This event was logged before payloads were kept and can't be replayed"
+      );
+    }
+
+    const provider = paymentProviders.get(logged.provider);
+    const event = provider.parseWebhook(logged.payload);
+
+    console.log(`[WEBHOOK] Replaying ${logged.eventId} for admin ${adminId}`);
+
+    let update: Record<string, any>;
+    try {
+      const handled = await dispatch(event, provider);
+      update = {
+        $set: {
+          status: handled ? "processed" : "ignored",
+          processedAt: new Date(),
+        },
+        $unset: { error: "" },
+      };
+    } catch (error: any) {
+      update = {
+        $set: { status: "failed", error: error?.message || String(error) },
+      };
+    }
+
+    return WebhookEvent.findByIdAndUpdate(
+      logged._id,
+      {
+        ...update,
+        $set: {
+          ...update.$set,
+          lastReplayedAt: new Date(),
+          lastReplayedBy: adminId,
+        },
+        $inc: { replays: 1 },
+      },
+      { new: true }
+    );
+  },
+};
@@ -1,51 +1,60 @@
 // User session types
 export interface UserSession {
   state: string;
-  ticketType?: "GA" | "VIP";
+  eventId?: string; // Event the user is buying tickets for
+  ticketType?: string;
+  quantity?: number;
+  attendeeNames?: string[];
+  waitlistTicketType?: string; // Sold-out tier the user was offered a waitlist place for
+  transferSoldTicketIds?: string[]; // SoldTicket IDs in the order the transfer menu listed them
+  transferSoldTicketId?: string; // Ticket being transferred
   paymentType?: "full" | "installment";
-  installmentPlan?: "A" | "B" | "C";
+  installmentPlan?: string; // Plan code, e.g. "A"
+  customPaymentCount?: number; // Payments asked for in a custom plan
+  customPlanDates?: string[]; // ISO due dates of the custom plan's later payments
   email?: string;
   ticketId?: string;
+  // Amounts are in pesewas
   amountPaid?: number;
   totalPrice?: number;
   remainingBalance?: number;
+  amountDue?: number; // Left to pay on the next installment
   nextDueDate?: string;
   nextDueDateISO?: string;
   installmentNumber?: number;
   totalInstallments?: number;
-  walletBalance?: number;
   appliedCoupon?: string;
   originalPrice?: number;
   discountedPrice?: number;
-  reminders?: {
-    fiveDaySent?: boolean;
-    oneDaySent?: boolean;
-  };
 }
 
-export type TicketType = "GA" | "VIP";
+export type TicketType = string; // Matches Ticket.type (e.g. "GA", "VIP", "VVIP")
 export type PaymentType = "full" | "installment";
-export type InstallmentPlan = "A" | "B" | "C";
+export type InstallmentPlan = string; // Plan code, or "C" for a custom plan
 export type SessionState =
   | "WELCOME"
   | "MAIN_MENU"
+  | "SELECT_EVENT"
   | "SELECT_TICKET"
+  | "SELECT_QUANTITY"
+  | "AWAITING_ATTENDEE_NAMES_ANSWER"
+  | "AWAITING_ATTENDEE_NAME"
+  | "AWAITING_WAITLIST_ANSWER"
   | "SELECT_PAYMENT_TYPE"
   | "SELECT_INSTALLMENT_PLAN"
+  | "AWAITING_CUSTOM_PLAN_COUNT"
+  | "AWAITING_CUSTOM_PLAN_DATES"
   | "AWAITING_EMAIL"
   | "AWAITING_COUPON_ANSWER"
   | "AWAITING_COUPON_CODE"
   | "AWAITING_CONTINUE_ANSWER"
   | "AWAITING_PAYMENT"
-  | "WALLET_TRANSFER";
+  | "WALLET_TRANSFER"
+  | "SELECT_TRANSFER_TICKET"
+  | "AWAITING_TRANSFER_PHONE";
 
 export interface TicketInfo {
   name: string;
-  price: number;
+  price: number; // Pesewas
   description: string;
 }
-
-export interface InstallmentSchedule {
-  A: number[];
-  B: number[];
-}
@@ -0,0 +1,134 @@
+import mongoose from "mongoose";
+import {
+  Event,
+  isEventOnSale,
+  isEventPast,
+  type IEvent,
+} from "../models/Event.js";
+import { Ticket } from "../models/Ticket.js";
+import { User } from "../models/User.js";
+import { SoldTicket } from "../models/SoldTicket.js";
+import { getTicketByType } from "./ticketCatalog.js";
+
+/**
+ * Find an event by MongoDB ID, falling back to its slug
+ */
+export async function findEventByIdOrSlug(id: string): Promise<IEvent | null> {
+  let event = null;
+  if (mongoose.Types.ObjectId.isValid(id)) {
+    event = await Event.findById(id);
+  }
+  if (!event) {
+    event = await Event.findOne({ slug: id.toLowerCase() });
+  }
+  return event;
+}
+
+/**
+ * Resolve an optional event reference (ID or slug) from an admin request.
+ * Null when none was given; undefined when the event doesn't exist.
+ */
+export async function resolveEventRef(
+  ref?: string | null
+): Promise<mongoose.Types.ObjectId | null | undefined> {
+  if (!ref) return null;
+  const event = await findEventByIdOrSlug(ref);
+  return event ? (event._id as mongoose.Types.ObjectId) : undefined;
+}
+
+/**
+ * Events the bot is selling right now, soonest first
+ */
+export async function getOnSaleEvents(): Promise<IEvent[]> {
+  const events = await Event.find({ status: "on_sale" }).sort({
+    startsAt: 1,
+    createdAt: 1,
+  });
+  return events.filter((event) => isEventOnSale(event));
+}
+
+/**
+ * Events that haven't finished or been closed, soonest first, including
+ * ones not on sale yet
+ */
+export async function getUpcomingEvents(): Promise<IEvent[]> {
+  const events = await Event.find({ status: { $ne: "closed" } }).sort({
+    startsAt: 1,
+    createdAt: 1,
+  });
+  return events.filter((event) => !isEventPast(event));
+}
+
+/**
+ * The event new records belong to when none is given: the only event that
+ * hasn't finished yet. Null when there are several to choose from.
+ */
+export async function getDefaultEvent(): Promise<IEvent | null> {
+  const events = await Event.find({
+    $or: [{ endsAt: null }, { endsAt: { $gt: new Date() } }],
+  }).limit(2);
+  return events.length === 1 ? events[0]! : null;
+}
+
+/**
+ * Ticket types (e.g. "GA", "VIP") sold for an event. Sales made before
+ * records kept their event only refer to tiers by type, so this is how
+ * they are matched to an event.
+ */
+export async function getEventTicketTypes(
+  eventId: mongoose.Types.ObjectId | string
+): Promise<string[]> {
+  return Ticket.find({ eventId }).distinct("type");
+}
+
+/**
+ * Filter on records for an event: those that recorded it, and ones made
+ * before records kept their event that sold one of its ticket types. Pass
+ * `prefix` for nested fields, e.g. "session." for chat sessions.
+ */
+export function eventRecordsFilter(
+  eventId: mongoose.Types.ObjectId | string,
+  ticketTypes: string[],
+  prefix: string = ""
+): Record<string, unknown> {
+  return {
+    $or: [
+      { [`${prefix}eventId`]: eventId },
+      {
+        [`${prefix}eventId`]: { $exists: false },
+        [`${prefix}ticketType`]: { $in: ticketTypes },
+      },
+    ],
+  };
+}
+
+/**
+ * The event a ticket type is sold for. Pass the event recorded with the
+ * sale when there is one, since several events can share a type.
+ */
+export async function getEventForTicketType(
+  ticketType: string,
+  eventId?: mongoose.Types.ObjectId | string | null
+): Promise<IEvent | null> {
+  const ticket = await getTicketByType(ticketType, eventId);
+  return ticket?.eventId ? Event.findById(ticket.eventId) : null;
+}
+
+/**
+ * Chat IDs of users holding or buying tickets for an event
+ */
+export async function getEventAudience(
+  eventId: mongoose.Types.ObjectId | string
+): Promise<Set<string>> {
+  const ticketTypes = await getEventTicketTypes(eventId);
+  const [holders, buyers] = await Promise.all([
+    SoldTicket.find(eventRecordsFilter(eventId, ticketTypes)).distinct(
+      "chatId"
+    ),
+    // Chat sessions keep the event ID as a string
+    User.find(
+      eventRecordsFilter(eventId.toString(), ticketTypes, "session.")
+    ).distinct("chatId"),
+  ]);
+  return new Set([...holders, ...buyers]);
+}
@@ -0,0 +1,80 @@
+import { describe, expect, test } from "bun:test";
+import {
+  allocate,
+  formatMoney,
+  money,
+  percentOf,
+  toMajorUnits,
+  toMinorUnits,
+} from "./money.js";
+
+describe("toMinorUnits", () => {
+  test("converts cedis to pesewas", () => {
+    expect(toMinorUnits(918.75)).toBe(91875);
+    expect(toMinorUnits(150)).toBe(15000);
+    expect(toMinorUnits(0)).toBe(0);
+  });
+
+  test("rounds halves up without float error", () => {
+    expect(toMinorUnits(1.005)).toBe(101);
+    expect(toMinorUnits(0.285)).toBe(29);
+  });
+});
+
+describe("toMajorUnits", () => {
+  test("converts pesewas back to cedis", () => {
+    expect(toMajorUnits(91875)).toBe(918.75);
+    expect(toMajorUnits(toMinorUnits(19.99))).toBe(19.99);
+  });
+});
+
+describe("formatMoney", () => {
+  test("shows two decimal places with the currency symbol", () => {
+    expect(formatMoney(91875)).toBe("GH₵918.75");
+    expect(formatMoney(15000)).toBe("GH₵150.00");
+    expect(formatMoney(5)).toBe("GH₵0.05");
+  });
+});
+
+describe("money", () => {
+  test("refuses fractions of a pesewa", () => {
+    expect(money(100)).toEqual({ amount: 100, currency: "GHS" });
+    expect(() => money(100.5)).toThrow();
+  });
+});
+
+describe("percentOf", () => {
+  test("rounds half up to a whole pesewa", () => {
+    expect(percentOf(10000, 15)).toBe(1500);
+    expect(percentOf(333, 50)).toBe(167);
+    expect(percentOf(331, 50)).toBe(166);
+  });
+});
+
+describe("allocate", () => {
+  test("splits evenly when the amount divides", () => {
+    expect(allocate(30000, [40, 30, 30])).toEqual([12000, 9000, 9000]);
+  });
+
+  test("hands leftover pesewas to the parts that lost the most", () => {
+    // 100 / 3 = 33.33 each: the first part takes the spare pesewa
+    expect(allocate(100, [1, 1, 1])).toEqual([34, 33, 33]);
+    // 7 x [50, 25, 25] = 3.5, 1.75, 1.75: the two .75s round up
+    expect(allocate(7, [50, 25, 25])).toEqual([3, 2, 2]);
+  });
+
+  test("always adds up to the amount", () => {
+    const splits = [[1, 1, 1], [40, 30, 30], [33, 33, 34], [7, 3]];
+    for (const amount of [1, 99, 1001, 91875, 123457]) {
+      for (const weights of splits) {
+        const parts = allocate(amount, weights);
+        expect(parts.reduce((sum, part) => sum + part, 0)).toBe(amount);
+        expect(parts.every(Number.isInteger)).toBe(true);
+      }
+    }
+  });
+
+  test("gives nothing to a part with no weight", () => {
+    expect(allocate(1000, [1, 0, 1])).toEqual([500, 0, 500]);
+  });
+});
@@ -0,0 +1,106 @@
+import type mongoose from "mongoose";
+
+// Money is kept as whole minor units (pesewas for GHS) everywhere inside the
+// app, so sums and splits never pick up float rounding. Cedis only appear at
+// the edges: env settings, the admin API and text shown to buyers.
+
+export const CURRENCIES = ["GHS"] as const;
+export type Currency = (typeof CURRENCIES)[number];
+export const DEFAULT_CURRENCY: Currency = "GHS";
+
+export interface Money {
+  amount: number; // Whole minor units (pesewas)
+  currency: Currency;
+}
+
+const SYMBOLS: Record<Currency, string> = {
+  GHS: "GH₵",
+};
+
+export function money(
+  amount: number,
+  currency: Currency = DEFAULT_CURRENCY
+): Money {
+  if (!Number.isInteger(amount)) {
+    throw new Error(`Money amounts must be whole minor units, got ${amount}`);
+  }
+  return { amount, currency };
+}
+
+// Cedis (e.g. 918.75, from a setting or an API request) to pesewas
+export function toMinorUnits(major: number): number {
+  // Shift the decimal point in the string form, so 1.005 becomes 101, not 100
+  return Math.round(Number(`${major}e2`));
+}
+
+// Pesewas to cedis, for API responses
+export function toMajorUnits(minor: number): number {
+  return minor / 100;
+}
+
+// Pesewas as buyers see them, e.g. "GH₵918.75"
+export function formatMoney(
+  minor: number,
+  currency: Currency = DEFAULT_CURRENCY
+): string {
+  return `${SYMBOLS[currency]}${(minor / 100).toFixed(2)}`;
+}
+
+// A percentage of an amount, rounded half up to a whole pesewa
+export function percentOf(minor: number, percent: number): number {
+  return Math.round((minor * percent) / 100);
+}
+
+/**
+ * Split an amount into parts in proportion to `weights`, e.g. [40, 30, 30]
+ * for a 3-part plan. The parts always add up to the amount: pesewas left
+ * over from rounding down go to the parts that lost the most.
+ */
+export function allocate(minor: number, weights: number[]): number[] {
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+  const exact = weights.map((weight) => (minor * weight) / totalWeight);
+  const parts = exact.map(Math.floor);
+
+  let leftover = minor - parts.reduce((sum, part) => sum + part, 0);
+  const byRemainder = exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+  for (const { index } of byRemainder) {
+    if (leftover <= 0) break;
+    parts[index]!++;
+    leftover--;
+  }
+
+  return parts;
+}
+
+// Schema options for an amount stored in minor units
+export const minorUnits = {
+  type: Number,
+  validate: {
+    validator: (value: number | null | undefined) =>
+      value === null || value === undefined || Number.isInteger(value),
+    message: "{PATH} must be a whole number of pesewas",
+  },
+};
+
+/**
+ * Schema plugin: the admin API keeps speaking cedis, so these amount fields
+ * are turned back into cedis whenever a document is sent as JSON. Nested
+ * schemas take the plugin themselves.
+ */
+export function serializeMoney(fields: string[]) {
+  return (schema: mongoose.Schema) => {
+    schema.set("toJSON", {
+      ...schema.get("toJSON"),
+      transform(_doc: unknown, ret: Record<string, any>) {
+        for (const field of fields) {
+          if (typeof ret[field] === "number") {
+            ret[field] = toMajorUnits(ret[field]);
+          }
+        }
+        return ret;
+      },
+    });
+  };
+}
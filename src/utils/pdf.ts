@@ -0,0 +1,23 @@
+// Single-page PDF rendering shared by tickets and receipts
+import PDFDocument from "pdfkit";
+
+/**
+ * Draw one page of the given size (in PDF points, from the top left) and
+ * collect the finished PDF
+ */
+export function renderPdf(
+  width: number,
+  height: number,
+  draw: (doc: PDFKit.PDFDocument) => void
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: [width, height], margin: 0 });
+    const chunks: Buffer[] = [];
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+
+    draw(doc);
+    doc.end();
+  });
+}
@@ -0,0 +1,165 @@
+import { renderPdf } from "./pdf.js";
+import { formatDate } from "./date.js";
+import { toMajorUnits, type Currency } from "./money.js";
+
+export interface ReceiptPdfDetails {
+  eventName: string;
+  eventDates: string;
+  eventLocation: string;
+  reference: string; // Payment reference, doubles as the receipt number
+  paidAt: Date;
+  buyerName: string;
+  buyerEmail?: string;
+  ticketName: string;
+  quantity: number;
+  // Amounts in pesewas
+  unitPrice: number;
+  subtotal: number;
+  discount: number; // From the coupon
+  credit: number; // Event credit from the buyer's wallet
+  total: number;
+  currency: Currency;
+  coupon?: string;
+  description: string; // e.g. "Full payment" or "Installment 2"
+  supportEmail: string;
+}
+
+const PAGE_WIDTH = 420;
+const PAGE_HEIGHT = 600;
+const LEFT = 30;
+const RIGHT = PAGE_WIDTH - 30;
+const INK = "#121212";
+const MUTED = "#666666";
+const ACCENT = "#f58c21";
+
+// The PDF fonts have no cedi sign, so amounts read "GHS 918.75"
+function amount(minor: number, currency: Currency): string {
+  return `${currency} ${toMajorUnits(minor).toFixed(2)}`;
+}
+
+// A line of text, optionally with an amount aligned to the right edge
+function row(
+  doc: PDFKit.PDFDocument,
+  label: string,
+  y: number,
+  size: number,
+  options: { bold?: boolean; color?: string; value?: string } = {}
+): void {
+  doc
+    .font(options.bold ? "Helvetica-Bold" : "Helvetica")
+    .fontSize(size)
+    .fillColor(options.color || INK)
+    .text(label, LEFT, y, { lineBreak: false });
+  if (options.value) {
+    doc.text(options.value, LEFT, y, {
+      width: RIGHT - LEFT,
+      align: "right",
+      lineBreak: false,
+    });
+  }
+}
+
+function rule(doc: PDFKit.PDFDocument, y: number): void {
+  doc
+    .moveTo(LEFT, y)
+    .lineTo(RIGHT, y)
+    .lineWidth(1)
+    .strokeColor("#d9d9d9")
+    .stroke();
+}
+
+/**
+ * Render a one-page PDF receipt for a payment, in the same style as the
+ * tickets
+ */
+export function renderReceiptPdf(details: ReceiptPdfDetails): Promise<Buffer> {
+  const { currency } = details;
+  const paidOn = `${formatDate(details.paidAt)}, ${details.paidAt
+    .toISOString()
+    .slice(11, 16)} UTC`;
+  const item =
+    details.quantity > 1
+      ? `${details.quantity} x ${details.ticketName} @ ${amount(
+          details.unitPrice,
+          currency
+        )}`
+      : details.ticketName;
+
+  return renderPdf(PAGE_WIDTH, PAGE_HEIGHT, (doc) => {
+    // Header band
+    doc.rect(0, 0, PAGE_WIDTH, 110).fill(INK);
+    doc.rect(0, 110, PAGE_WIDTH, 4).fill(ACCENT);
+    row(doc, details.eventName, 42, 24, { bold: true, color: "#ffffff" });
+    row(doc, "PAYMENT RECEIPT", 77, 11, { bold: true, color: ACCENT });
+
+    // Receipt and buyer details
+    row(doc, "Receipt no.", 143, 9, { color: MUTED });
+    row(doc, details.reference, 155, 12, { bold: true });
+    row(doc, "Paid on", 183, 9, { color: MUTED });
+    row(doc, paidOn, 195, 12);
+    row(doc, "Billed to", 223, 9, { color: MUTED });
+    row(doc, details.buyerName, 235, 12);
+    row(doc, details.buyerEmail || "", 253, 10, { color: MUTED });
+
+    // Line item
+    rule(doc, 285);
+    row(doc, item, 301, 12, {
+      bold: true,
+      value: amount(details.subtotal, currency),
+    });
+    row(
+      doc,
+      `${details.description} - ${details.eventDates}, ${details.eventLocation}`,
+      321,
+      9,
+      { color: MUTED }
+    );
+    rule(doc, 350);
+
+    // Totals
+    let y = 381;
+    if (details.discount > 0 || details.credit > 0) {
+      row(doc, "Subtotal", y, 11, {
+        color: MUTED,
+        value: amount(details.subtotal, currency),
+      });
+      if (details.discount > 0) {
+        y += 20;
+        const coupon = details.coupon ? `Coupon (${details.coupon})` : "Coupon";
+        row(doc, coupon, y, 11, {
+          color: MUTED,
+          value: `-${amount(details.discount, currency)}`,
+        });
+      }
+      if (details.credit > 0) {
+        y += 20;
+        row(doc, "Event credit", y, 11, {
+          color: MUTED,
+          value: `-${amount(details.credit, currency)}`,
+        });
+      }
+      rule(doc, y + 22);
+      y += 34;
+    }
+    row(doc, "Total paid", y, 14, {
+      bold: true,
+      value: amount(details.total, currency),
+    });
+
+    // Footer
+    row(
+      doc,
+      `Questions about this payment? Email ${details.supportEmail}`,
+      533,
+      9,
+      { color: MUTED }
+    );
+    row(
+      doc,
+      "Keep this receipt for your records. It is not a ticket.",
+      548,
+      9,
+      { color: MUTED }
+    );
+  });
+}
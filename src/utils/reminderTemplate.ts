@@ -0,0 +1,44 @@
+import { toMajorUnits } from "./money.js";
+
+/**
+ * Replace template variables with actual values (amounts in pesewas are
+ * shown in cedis, e.g. {{amount}} → 918.75)
+ */
+export function replaceTemplateVariables(
+  template: string,
+  variables: {
+    amount?: number;
+    daysLeft?: number;
+    paymentLink?: string;
+    dueDate?: string;
+    userName?: string;
+    ticketType?: string;
+  }
+): string {
+  let message = template;
+  if (variables.amount !== undefined) {
+    message = message.replace(
+      /\{\{amount\}\}/g,
+      toMajorUnits(variables.amount).toFixed(2)
+    );
+  }
+  if (variables.daysLeft !== undefined) {
+    message = message.replace(
+      /\{\{daysLeft\}\}/g,
+      variables.daysLeft.toString()
+    );
+  }
+  if (variables.paymentLink) {
+    message = message.replace(/\{\{paymentLink\}\}/g, variables.paymentLink);
+  }
+  if (variables.dueDate) {
+    message = message.replace(/\{\{dueDate\}\}/g, variables.dueDate);
+  }
+  if (variables.userName) {
+    message = message.replace(/\{\{userName\}\}/g, variables.userName);
+  }
+  if (variables.ticketType) {
+    message = message.replace(/\{\{ticketType\}\}/g, variables.ticketType);
+  }
+  return message;
+}
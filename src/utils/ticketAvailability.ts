@@ -1,113 +1,65 @@
-import { Payment } from "../models/Payment.js";
+import type mongoose from "mongoose";
+import { getRemainingStock } from "../models/Ticket.js";
+import { getTicketByType } from "./ticketCatalog.js";
 
 /**
- * Additional VIP tickets available from this point forward (hardcoded)
- * This is backend-only and not exposed to users
- *
- * This represents 50 MORE tickets that can be sold from the baseline count
+ * Get how many tickets of a tier can still be sold.
+ * Remaining = total quantity - withheld allocation - sold - reserved by
+ * unpaid checkouts. All counters are persisted on the Ticket document, so
+ * restarts no longer reset anything.
  */
-const VIP_ADDITIONAL_AVAILABLE = 50;
-
-/**
- * Baseline count of VIP tickets already sold before this feature was implemented
- * This will be set automatically on first run based on current sales
- * Set to null initially to auto-detect, or set a specific number if you know the exact baseline
- */
-let VIP_BASELINE_COUNT: number | null = null;
-
-/**
- * Initialize the baseline count (called once on startup or first check)
- * This sets the baseline to current sales, allowing 50 more to be sold
- */
-async function initializeBaseline(): Promise<void> {
-  if (VIP_BASELINE_COUNT === null) {
-    try {
-      const currentVIPSold = await Payment.countDocuments({
-        ticketType: "VIP",
-        status: "success",
-      });
-
-      VIP_BASELINE_COUNT = currentVIPSold;
-      console.log(
-        `[TICKET_AVAILABILITY] Baseline initialized: ${VIP_BASELINE_COUNT} VIP tickets already sold. ${VIP_ADDITIONAL_AVAILABLE} more available.`
-      );
-    } catch (error) {
-      console.error(
-        "[TICKET_AVAILABILITY] Error initializing baseline:",
-        error
-      );
-      // Default to 0 if we can't get the count
-      VIP_BASELINE_COUNT = 0;
-    }
-  }
-}
-
-/**
- * Check if VIP tickets are out of stock
- * Returns true if VIP tickets are out of stock, false if available
- *
- * Logic: Count current VIP sales, subtract baseline, check if >= 50 additional sold
- */
-export async function isVIPOutOfStock(): Promise<boolean> {
+export async function getRemaining(
+  type: string,
+  eventId?: mongoose.Types.ObjectId | string
+): Promise<number> {
   try {
-    // Initialize baseline on first call
-    await initializeBaseline();
-
-    // Count current successful VIP ticket payments
-    const currentVIPSold = await Payment.countDocuments({
-      ticketType: "VIP",
-      status: "success",
-    });
-
-    // Calculate how many NEW tickets have been sold since baseline
-    const newVIPSold = currentVIPSold - (VIP_BASELINE_COUNT || 0);
-
-    // Check if we've sold 50 additional tickets
-    const isOutOfStock = newVIPSold >= VIP_ADDITIONAL_AVAILABLE;
-
-    if (isOutOfStock) {
-      console.log(
-        `[TICKET_AVAILABILITY] VIP tickets out of stock: ${newVIPSold}/${VIP_ADDITIONAL_AVAILABLE} new tickets sold (${currentVIPSold} total, baseline: ${VIP_BASELINE_COUNT})`
-      );
-    } else {
-      const remaining = VIP_ADDITIONAL_AVAILABLE - newVIPSold;
-      console.log(
-        `[TICKET_AVAILABILITY] VIP tickets available: ${remaining} remaining (${newVIPSold}/${VIP_ADDITIONAL_AVAILABLE} new sold, ${currentVIPSold} total, baseline: ${VIP_BASELINE_COUNT})`
-      );
+    const ticket = await getTicketByType(type, eventId);
+    if (!ticket || !ticket.isActive) {
+      return 0;
     }
 
-    return isOutOfStock;
+    return Math.max(0, getRemainingStock(ticket));
   } catch (error) {
     console.error(
-      "[TICKET_AVAILABILITY] Error checking VIP availability:",
+      `[TICKET_AVAILABILITY] Error getting remaining ${type} tickets:`,
       error
     );
-    // On error, default to out of stock for safety
-    return true;
+    return 0;
   }
 }
 
 /**
- * Get remaining VIP tickets count (backend-only, not exposed to users)
- * Returns how many of the 50 additional tickets are still available
+ * Check if a ticket tier is out of stock
+ * Returns true when nothing is left to sell (or the check fails, for safety)
  */
-export async function getRemainingVIPTickets(): Promise<number> {
-  try {
-    // Initialize baseline on first call
-    await initializeBaseline();
+export async function isOutOfStock(
+  type: string,
+  eventId?: mongoose.Types.ObjectId | string
+): Promise<boolean> {
+  const remaining = await getRemaining(type, eventId);
 
-    const currentVIPSold = await Payment.countDocuments({
-      ticketType: "VIP",
-      status: "success",
-    });
-
-    const newVIPSold = currentVIPSold - (VIP_BASELINE_COUNT || 0);
-    return Math.max(0, VIP_ADDITIONAL_AVAILABLE - newVIPSold);
-  } catch (error) {
-    console.error(
-      "[TICKET_AVAILABILITY] Error getting remaining VIP tickets:",
-      error
-    );
-    return 0;
+  if (remaining <= 0) {
+    console.log(`[TICKET_AVAILABILITY] ${type} tickets out of stock`);
+    return true;
   }
+
+  console.log(
+    `[TICKET_AVAILABILITY] ${type} tickets available: ${remaining} remaining`
+  );
+  return false;
+}
+
+/**
+ * Get which of the given ticket types of an event are out of stock (for menus)
+ */
+export async function getOutOfStockTypes(
+  types: string[],
+  eventId?: mongoose.Types.ObjectId | string
+): Promise<string[]> {
+  const checks = await Promise.all(
+    types.map(async (type) =>
+      (await isOutOfStock(type, eventId)) ? type : null
+    )
+  );
+  return checks.filter((type): type is string => type !== null);
 }
@@ -0,0 +1,82 @@
+import mongoose from "mongoose";
+import { Ticket, type ITicket } from "../models/Ticket.js";
+import { ValidationError } from "../errors/AppError.js";
+
+/**
+ * Get the ticket tiers currently on sale (for one event, if given), in the
+ * order they are offered in the chat (cheapest first, so "A" is always the
+ * entry-level tier)
+ */
+export async function getActiveTickets(
+  eventId?: mongoose.Types.ObjectId | string
+): Promise<ITicket[]> {
+  return Ticket.find({ isActive: true, ...(eventId && { eventId }) }).sort({
+    price: 1,
+    createdAt: 1,
+  });
+}
+
+/**
+ * Find a ticket tier by its type identifier (e.g. "GA", "VIP", "VVIP").
+ * Types are only unique within an event; records from before tiers were
+ * scoped by event fall back to the newest tier on sale with that type.
+ */
+export async function getTicketByType(
+  type: string,
+  eventId?: mongoose.Types.ObjectId | string | null
+): Promise<ITicket | null> {
+  return Ticket.findOne({
+    type: type.toUpperCase(),
+    ...(eventId && { eventId }),
+  }).sort({ isActive: -1, createdAt: -1 });
+}
+
+/**
+ * Find a ticket tier by MongoDB ID, falling back to its type (e.g. "VIP")
+ * within the given event. Without an event, a type sold by several events
+ * is refused with a ValidationError rather than guessed.
+ */
+export async function findTicketByIdOrType(
+  id: string,
+  eventId?: mongoose.Types.ObjectId | string
+): Promise<ITicket | null> {
+  if (mongoose.Types.ObjectId.isValid(id)) {
+    const ticket = await Ticket.findById(id);
+    if (ticket) return ticket;
+  }
+
+  const type = id.toUpperCase();
+  if (eventId) {
+    return Ticket.findOne({ type, eventId });
+  }
+
+  const tiers = await Ticket.find({ type }).limit(2);
+  if (tiers.length > 1) {
+    throw new ValidationError(
+      `More than one event sells ${type} tickets. Choose the event with ?eventId=<id or slug>, or use the ticket's ID.`
+    );
+  }
+  return tiers[0] ?? null;
+}
+
+/**
+ * Get all ticket tiers (active or not) keyed by type, for bulk lookups.
+ * Pass an event to get only its tiers; otherwise, where events share a
+ * type, the tier getTicketByType falls back to wins.
+ */
+export async function getTicketMap(
+  eventId?: mongoose.Types.ObjectId | string
+): Promise<Map<string, ITicket>> {
+  const tickets = await Ticket.find(eventId ? { eventId } : {}).sort({
+    isActive: 1,
+    createdAt: 1,
+  });
+  return new Map(tickets.map((ticket) => [ticket.type, ticket]));
+}
+
+/**
+ * Letter shown next to the ticket at the given menu position (0 → A, 1 → B, ...)
+ */
+export function getOptionLetter(index: number): string {
+  return String.fromCharCode(65 + index);
+}
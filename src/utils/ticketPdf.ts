@@ -0,0 +1,125 @@
+import QRCode from "qrcode";
+import { renderPdf } from "./pdf.js";
+
+export interface TicketPdfDetails {
+  eventName: string;
+  eventDates: string;
+  eventLocation: string;
+  ticketName: string;
+  ticketId: string;
+  attendeeName?: string;
+  qrPayload: string;
+}
+
+// Page size in PDF points (A5-ish portrait)
+const PAGE_WIDTH = 420;
+const PAGE_HEIGHT = 640;
+const QR_SIZE = 220;
+const INK = "#121212";
+const ACCENT = "#f58c21";
+
+/**
+ * Draw the QR code as filled squares, merging each row's dark runs
+ */
+function drawQrCode(
+  doc: PDFKit.PDFDocument,
+  payload: string,
+  x: number,
+  y: number
+): void {
+  const { modules } = QRCode.create(payload, { errorCorrectionLevel: "M" });
+  const quietZone = 4;
+  const moduleSize = QR_SIZE / (modules.size + quietZone * 2);
+  const origin = quietZone * moduleSize;
+
+  for (let row = 0; row < modules.size; row++) {
+    let col = 0;
+    while (col < modules.size) {
+      if (!modules.get(row, col)) {
+        col++;
+        continue;
+      }
+      const start = col;
+      while (col < modules.size && modules.get(row, col)) col++;
+
+      doc.rect(
+        x + origin + start * moduleSize,
+        y + origin + row * moduleSize,
+        (col - start) * moduleSize,
+        moduleSize
+      );
+    }
+  }
+  doc.fill("#000000");
+}
+
+/**
+ * Render a one-page branded PDF ticket with its signed QR code
+ */
+export function renderTicketPdf(details: TicketPdfDetails): Promise<Buffer> {
+  const qrX = (PAGE_WIDTH - QR_SIZE) / 2;
+  const qrY = 270;
+  const centred: PDFKit.Mixins.TextOptions = {
+    width: PAGE_WIDTH,
+    align: "center",
+    lineBreak: false,
+  };
+
+  return renderPdf(PAGE_WIDTH, PAGE_HEIGHT, (doc) => {
+    // Header band
+    doc.rect(0, 0, PAGE_WIDTH, 110).fill(INK);
+    doc.rect(0, 110, PAGE_WIDTH, 4).fill(ACCENT);
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(24)
+      .fillColor("#ffffff")
+      .text(details.eventName, 30, 42, { lineBreak: false });
+    doc
+      .fontSize(11)
+      .fillColor(ACCENT)
+      .text("OFFICIAL TICKET", 30, 77, { lineBreak: false });
+
+    // Ticket details
+    doc
+      .fontSize(20)
+      .fillColor(INK)
+      .text(details.ticketName, 30, 145, { lineBreak: false });
+    doc
+      .font("Helvetica")
+      .fontSize(12)
+      .fillColor("#4d4d4d")
+      .text(`Attendee: ${details.attendeeName || "-"}`, 30, 179, {
+        lineBreak: false,
+      })
+      .text(details.eventDates, 30, 199, { lineBreak: false })
+      .text(details.eventLocation, 30, 217, { lineBreak: false });
+
+    // Tear line
+    doc
+      .moveTo(20, 248)
+      .lineTo(PAGE_WIDTH - 20, 248)
+      .dash(4, { space: 4 })
+      .lineWidth(1)
+      .strokeColor("#bfbfbf")
+      .stroke()
+      .undash();
+
+    // QR code and ID
+    drawQrCode(doc, details.qrPayload, qrX, qrY);
+    doc
+      .font("Helvetica-Bold")
+      .fontSize(14)
+      .fillColor(INK)
+      .text(`Ticket ID: #${details.ticketId}`, 0, 502, centred);
+    doc
+      .font("Helvetica")
+      .fontSize(9)
+      .fillColor("#666666")
+      .text(
+        "Present this QR code at the entrance. Each code admits one person once.",
+        0,
+        583,
+        centred
+      );
+  });
+}
@@ -0,0 +1,79 @@
+import crypto from "crypto";
+import { env } from "../config/env.js";
+
+// Version prefix so the payload format can change without breaking old tickets
+const PAYLOAD_PREFIX = "AFT1";
+
+export interface TicketClaims {
+  ticketId: string;
+  ticketType: string;
+}
+
+function sign(body: string): string {
+  return crypto
+    .createHmac("sha256", env.ticketSigningSecret)
+    .update(body)
+    .digest("base64url");
+}
+
+/**
+ * Whether a signing secret is configured (tickets can be issued automatically)
+ */
+export function isTicketSigningConfigured(): boolean {
+  return env.ticketSigningSecret.length > 0;
+}
+
+/**
+ * Build the signed string encoded in a ticket's QR code:
+ * AFT1.<ticketId>.<ticketType>.<signature>
+ */
+export function createTicketPayload(
+  ticketId: string,
+  ticketType: string
+): string {
+  const body = `${PAYLOAD_PREFIX}.${ticketId}.${ticketType.toUpperCase()}`;
+  return `${body}.${sign(body)}`;
+}
+
+/**
+ * Check a scanned QR payload. Returns the ticket it names, or null if it
+ * is malformed or was not signed with our key.
+ */
+export function verifyTicketPayload(payload: string): TicketClaims | null {
+  if (!isTicketSigningConfigured()) return null;
+
+  const parts = payload.trim().split(".");
+  if (parts.length < 4 || parts[0] !== PAYLOAD_PREFIX) return null;
+
+  const signature = parts.pop()!;
+  const [, ticketId, ...typeParts] = parts;
+  const ticketType = typeParts.join(".");
+  if (!ticketId || !ticketType) return null;
+
+  const expected = Buffer.from(sign(parts.join(".")));
+  const actual = Buffer.from(signature);
+  if (
+    expected.length !== actual.length ||
+    !crypto.timingSafeEqual(expected, actual)
+  ) {
+    return null;
+  }
+
+  return { ticketId, ticketType };
+}
+
+/**
+ * Sign a gate roster snapshot so devices and the sync endpoint can tell
+ * it came from us and wasn't edited
+ */
+export function signRoster(body: string): string {
+  return sign(`ROSTER.${body}`);
+}
+
+/**
+ * Hash of a QR payload, so offline devices can check a scan against the
+ * roster without holding the signing key
+ */
+export function hashTicketPayload(payload: string): string {
+  return crypto.createHash("sha256").update(payload.trim()).digest("hex");
+}
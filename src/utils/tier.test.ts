@@ -0,0 +1,48 @@
+import { describe, expect, test } from "bun:test";
+import { calculateEligibleTier } from "./tier.js";
+
+// A VIP plan that cost 500.00 after a coupon, with the prices of the
+// event's other tiers when it started
+const schedule = { ticketType: "VIP", totalAmount: 50000 };
+const tiers = [
+  { ticketType: "EARLY", price: 15000 },
+  { ticketType: "GA", price: 25000 },
+  { ticketType: "VVIP", price: 90000 },
+];
+
+describe("calculateEligibleTier", () => {
+  test("keeps the buyer's own tier once the plan's total is paid", () => {
+    expect(
+      calculateEligibleTier({ ...schedule, amountPaid: 50000 }, tiers)
+    ).toEqual({ ticketType: "VIP", price: 50000 });
+  });
+
+  test("goes by the total after the coupon, not the tier's list price", () => {
+    // The tier now lists at 600.00, but the buyer signed up to pay 500.00
+    const withListPrice = [...tiers, { ticketType: "VIP", price: 60000 }];
+    expect(
+      calculateEligibleTier({ ...schedule, amountPaid: 50000 }, withListPrice)
+    ).toEqual({ ticketType: "VIP", price: 50000 });
+  });
+
+  test("drops to the dearest tier the amount paid covers", () => {
+    expect(
+      calculateEligibleTier({ ...schedule, amountPaid: 30000 }, tiers)
+    ).toEqual({ ticketType: "GA", price: 25000 });
+  });
+
+  test("covers a tier paid to the exact pesewa", () => {
+    expect(
+      calculateEligibleTier({ ...schedule, amountPaid: 15000 }, tiers)
+    ).toEqual({ ticketType: "EARLY", price: 15000 });
+  });
+
+  test("returns null when no tier is covered", () => {
+    expect(
+      calculateEligibleTier({ ...schedule, amountPaid: 10000 }, tiers)
+    ).toBeNull();
+    expect(
+      calculateEligibleTier({ ...schedule, amountPaid: 30000 }, [])
+    ).toBeNull();
+  });
+});
@@ -1,16 +1,34 @@
-import type { TicketType } from "../types/session.js";
-import { TICKETS } from "../config/constants.js";
+import type {
+  IInstallmentSchedule,
+  IScheduleTierPrice,
+} from "../models/InstallmentSchedule.js";
 
-// Calculate eligible ticket tier based on amount paid
+type ScheduleTotals = Pick<
+  IInstallmentSchedule,
+  "ticketType" | "totalAmount" | "amountPaid"
+>;
+
+/**
+ * The tier a buyer's payments cover, with what it costs them: their own
+ * tier if the plan's total is paid, else the dearest cheaper tier the
+ * amount paid covers (e.g. VIP → GA). `tiers` should be the prices from
+ * when the plan started, so later price rises don't count against the
+ * buyer. Null if it covers none of them.
+ */
 export function calculateEligibleTier(
-  originalTier: TicketType,
-  amountPaid: number
-): TicketType | null {
-  if (originalTier === "VIP" && amountPaid >= TICKETS.GA.price) {
-    return "GA"; // Downgrade to GA if they paid enough for GA
-  }
-  if (originalTier === "GA" && amountPaid >= TICKETS.GA.price) {
-    return "GA"; // Keep GA if fully paid
+  schedule: ScheduleTotals,
+  tiers: IScheduleTierPrice[]
+): IScheduleTierPrice | null {
+  if (schedule.amountPaid >= schedule.totalAmount) {
+    return { ticketType: schedule.ticketType, price: schedule.totalAmount };
   }
-  return null; // No ticket if insufficient payment
+
+  const covered = tiers
+    .filter(
+      (tier) =>
+        tier.ticketType !== schedule.ticketType &&
+        tier.price <= schedule.amountPaid
+    )
+    .sort((a, b) => b.price - a.price);
+  return covered[0] ?? null;
 }
@@ -1,77 +1,209 @@
 import { ValidationError } from "../errors/AppError.js";
 import type { TicketType, InstallmentPlan } from "../types/session.js";
 
-// Validate ticket type selection
+// Validate ticket type selection against the tiers offered in the menu.
+// `ticketTypes` is in menu order, so index 0 is "A", index 1 is "B", etc.
 export function validateTicketType(
   input: string,
-  vipOutOfStock: boolean = false
+  ticketTypes: TicketType[],
+  outOfStockTypes: TicketType[] = []
 ): TicketType {
   const normalized = input.toLowerCase().trim();
 
-  if (normalized === "a") return "GA";
-  if (normalized === "b") {
-    if (vipOutOfStock) {
+  const index = ticketTypes.findIndex(
+    (type, i) =>
+      normalized === String.fromCharCode(97 + i) ||
+      normalized === type.toLowerCase()
+  );
+  const availableLetters = ticketTypes
+    .map((type, i) => ({ type, letter: String.fromCharCode(65 + i) }))
+    .filter(({ type }) => !outOfStockTypes.includes(type));
+
+  const selected = ticketTypes[index];
+  if (selected) {
+    if (outOfStockTypes.includes(selected)) {
       throw new ValidationError(
-        "❌ *VIP tickets are currently out of stock.*\n\nPlease select *A* for GA tickets, or type *menu* to return to the main menu."
+        `❌ *${selected} tickets are currently out of stock.*\n\nPlease select another ticket type, or type *menu* to return to the main menu.`
       );
     }
-    return "VIP";
+    return selected;
+  }
+
+  if (availableLetters.length === 0) {
+    throw new ValidationError(
+      "❌ *All tickets are currently sold out.*\n\nType *menu* to return to the main menu."
+    );
+  }
+
+  // Dynamic error message based on which tiers are still available
+  const options = availableLetters
+    .map(({ type, letter }) => `*${letter}* for ${type}`)
+    .join(", ");
+
+  throw new ValidationError(`Please reply with ${options}.`);
+}
+
+// Validate number of tickets in an order
+export function validateQuantity(input: string, maxQuantity: number): number {
+  const normalized = input.trim();
+  const quantity = parseInt(normalized, 10);
+
+  if (
+    !/^\d+$/.test(normalized) ||
+    isNaN(quantity) ||
+    quantity < 1 ||
+    quantity > maxQuantity
+  ) {
+    throw new ValidationError(
+      maxQuantity === 1
+        ? "Only *1* ticket is available for this order. Please reply with *1*."
+        : `Please reply with a number from *1* to *${maxQuantity}*.`
+    );
   }
 
-  // Dynamic error message based on VIP availability
-  const errorMessage = vipOutOfStock
-    ? "Please reply with *A* to select GA tickets."
-    : "Please reply with *A* for GA or *B* for VIP.";
+  return quantity;
+}
+
+// Validate an attendee name
+export function validateAttendeeName(input: string): string {
+  const trimmed = input.trim().replace(/\s+/g, " ");
 
-  throw new ValidationError(errorMessage);
+  if (trimmed.length < 2 || trimmed.length > 60) {
+    throw new ValidationError(
+      "Please reply with the attendee's full name (2-60 characters)."
+    );
+  }
+
+  return trimmed;
 }
 
-// Validate payment type selection (full payment only)
-export function validatePaymentType(input: string): "full" {
+// Validate payment type selection
+export function validatePaymentType(input: string): "full" | "installment" {
   const normalized = input.trim();
 
   if (normalized === "1") return "full";
+  if (normalized === "2") return "installment";
 
-  throw new ValidationError("Please reply with *1* to pay in full.");
+  throw new ValidationError(
+    "Please reply with *1* to pay in full or *2* to pay in installments."
+  );
 }
 
-// Validate installment plan selection
-export function validateInstallmentPlan(input: string): InstallmentPlan {
-  const normalized = input.toLowerCase().trim();
+// Validate installment plan selection against the plans on offer ("C" is a
+// custom plan)
+export function validateInstallmentPlan(
+  input: string,
+  codes: string[]
+): InstallmentPlan {
+  const normalized = input.trim().toUpperCase();
 
-  if (normalized === "a") return "A";
-  if (normalized === "b") return "B";
-  if (normalized === "c") return "C";
+  if (codes.includes(normalized) || normalized === "C") return normalized;
 
+  const options = codes.map((code) => `*${code}*`).join(", ");
   throw new ValidationError(
-    "Please reply with *A*, *B*, or *C* to select a plan."
+    `Please reply with ${options} or *C* to select a plan.`
   );
 }
 
+// Validate how many payments a buyer wants in a custom plan
+export function validateCustomPaymentCount(
+  input: string,
+  min: number,
+  max: number
+): number {
+  const normalized = input.trim();
+  const count = parseInt(normalized, 10);
+
+  if (!/^\d+$/.test(normalized) || count < min || count > max) {
+    throw new ValidationError(
+      `Please reply with a number from *${min}* to *${max}*.`
+    );
+  }
+
+  return count;
+}
+
+// Parse a date typed as DD/MM/YYYY or YYYY-MM-DD (null if it isn't one)
+function parseDateInput(input: string): Date | null {
+  const iso = input.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const local = input.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{4})$/);
+  const [year, month, day] = iso
+    ? [iso[1], iso[2], iso[3]]
+    : local
+      ? [local[3], local[2], local[1]]
+      : [];
+  if (!year || !month || !day) return null;
+
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  // Rejects days that roll over into the next month, e.g. 31/11
+  return date.getDate() === Number(day) ? date : null;
+}
+
+// Validate the comma-separated due dates of a custom plan, returning them in
+// the order given
+export function validateCustomPlanDates(input: string, count: number): Date[] {
+  const dates = input
+    .split(/[,;\n]/)
+    .map((part) => part.trim())
+    .filter(Boolean)
+    .map(parseDateInput);
+
+  if (dates.length !== count || dates.some((date) => !date)) {
+    throw new ValidationError(
+      `Please reply with ${count} date${
+        count === 1 ? "" : "s"
+      } like *15/11/2026*, separated by commas.`
+    );
+  }
+
+  return dates as Date[];
+}
+
 // Validate main menu selection
 export function validateMenuOption(input: string): string {
   const normalized = input.trim();
 
-  if (["1", "2", "3", "4"].includes(normalized)) {
+  if (["1", "2", "3", "4", "5"].includes(normalized)) {
     return normalized;
   }
 
   throw new ValidationError(
-    "Please reply with a number 1-4 to select an option, or type *menu* to see options again."
+    "Please reply with a number 1-5 to select an option, or type *menu* to see options again."
   );
 }
 
-// Validate wallet transfer selection
-export function validateWalletTransfer(input: string): string {
+// Validate a pick from a numbered list of `count` items, returning its index
+export function validateListSelection(input: string, count: number): number {
   const normalized = input.trim();
+  const choice = parseInt(normalized, 10);
 
-  if (["1", "2", "3"].includes(normalized)) {
-    return normalized;
+  if (!/^\d+$/.test(normalized) || choice < 1 || choice > count) {
+    throw new ValidationError(
+      count === 1
+        ? "Please reply with *1*, or type *menu* to cancel."
+        : `Please reply with a number from *1* to *${count}*, or type *menu* to cancel.`
+    );
   }
 
-  throw new ValidationError(
-    "Please reply with *1*, *2*, or *3* to choose where to transfer your balance."
-  );
+  return choice - 1;
+}
+
+// Validate a WhatsApp phone number and return its chat ID. Local numbers
+// (leading 0) are taken to be Ghanaian.
+export function validateWhatsAppNumber(input: string): string {
+  let digits = input.replace(/[\s()+-]/g, "");
+
+  if (/^0\d{9}$/.test(digits)) {
+    digits = `233${digits.slice(1)}`;
+  }
+
+  if (!/^[1-9]\d{9,14}$/.test(digits)) {
+    throw new ValidationError(
+      "That doesn't look like a valid WhatsApp number. Please reply with a number like *0241234567* or *+233241234567*."
+    );
+  }
+
+  return `${digits}@c.us`;
 }
 
 // Validate email address (basic)